@@ -9,10 +9,46 @@ export const ENV = {
   CONFIG_PATH: './config/settings.json',
   UPLOAD_DIR: 'uploads',
   MAX_FILE_SIZE: '50MB',
+  PROJECT_WORKSPACE_DIR: 'project-workspaces',
+  ARCHIVE_MAX_ENTRIES: 10000,
+  ARCHIVE_MAX_EXTRACTED_BYTES: 200 * 1024 * 1024,
+  ARCHIVE_MAX_COMPRESSION_RATIO: 100,
+  TEST_WORKSPACE_DIR: 'workspaces',
+  TEST_TIMEOUT_MS: 30000,
+  TEST_RUN_MAX_RETRIES: 0,
+  TEST_MAX_SHARDS: 4,
+  FLAKY_QUARANTINE_THRESHOLD: 40,
+  FLAKY_MIN_EXECUTIONS: 5,
+  TEST_COLLECT_COVERAGE: true,
+  COVERAGE_THRESHOLD: 80,
+  ARTIFACT_DIR: 'artifacts',
+  ARTIFACT_MAX_FILE_SIZE: 25 * 1024 * 1024,
+  ARTIFACT_RETENTION_DAYS: 30,
+  ARTIFACT_MAX_PROJECT_BYTES: 500 * 1024 * 1024,
+  PROJECT_LOG_RETENTION_DAYS: 14,
+  JOB_POLL_INTERVAL_MS: 2000,
+  JOB_STALE_AFTER_MS: 120000,
+  JOB_ANALYSIS_CONCURRENCY: 2,
+  JOB_TEST_RUN_CONCURRENCY: 1,
   GOOGLE_CLIENT_ID: '',
   GOOGLE_CLIENT_SECRET: '',
+  JIRA_URL: '',
+  JIRA_EMAIL: '',
   JIRA_API_TOKEN: '',
+  JIRA_DEFECT_ISSUE_TYPE: 'Bug',
   GITHUB_TOKEN: '',
+  GITHUB_WEBHOOK_SECRET: '',
+  GITHUB_API_URL: 'https://api.github.com',
+  GITHUB_STATUS_CONTEXT: 'matt/tests',
+  GITHUB_PR_COMMENT_MIN_FAILURES: 5,
+  GITLAB_URL: 'https://gitlab.com',
+  GITLAB_TOKEN: '',
+  BITBUCKET_API_URL: 'https://api.bitbucket.org/2.0',
+  BITBUCKET_USERNAME: '',
+  BITBUCKET_TOKEN: '',
+  PUBLIC_APP_URL: 'http://localhost:5000',
+  GIT_CLONE_DEPTH: 1,
+  GIT_CLONE_TIMEOUT_MS: 300000,
   RATE_LIMIT_REQUESTS: 100,
   RATE_LIMIT_WINDOW: 900000,
   LOG_LEVEL: 'info',
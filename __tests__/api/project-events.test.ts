@@ -0,0 +1,113 @@
+import http from 'http';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { registerRoutes } from '../../server/routes';
+import { projectEvents, type ProjectEvent } from '../../server/services/project-events';
+
+interface EventStream {
+  frames: string[];
+  close: () => void;
+}
+
+describe('Project Events API', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const streams: EventStream[] = [];
+
+  beforeAll(async () => {
+    const app = express();
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    streams.splice(0).forEach(stream => stream.close());
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Open the SSE stream of a project and collect its frames once the subscription is in place
+  function openStream(projectId: number): Promise<EventStream> {
+    return new Promise((resolve, reject) => {
+      const request = http.get(`${baseUrl}/api/projects/${projectId}/events`, response => {
+        expect(response.statusCode).toBe(200);
+        expect(response.headers['content-type']).toBe('text/event-stream');
+
+        const stream: EventStream = { frames: [], close: () => request.destroy() };
+        let buffer = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => {
+          buffer += chunk;
+          const frames = buffer.split('\n\n');
+          buffer = frames.pop()!;
+          stream.frames.push(...frames);
+        });
+        response.once('data', () => resolve(stream));
+        response.on('error', () => undefined);
+        streams.push(stream);
+      });
+      request.on('error', reject);
+    });
+  }
+
+  const waitForFrames = async (stream: EventStream, count: number) => {
+    for (let i = 0; i < 100 && stream.frames.length < count; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+
+  const eventsOf = (stream: EventStream) => stream.frames
+    .filter(frame => frame.startsWith('event: '))
+    .map(frame => {
+      const [eventLine, dataLine] = frame.split('\n');
+      const event: ProjectEvent = JSON.parse(dataLine.slice('data: '.length));
+      expect(eventLine).toBe(`event: ${event.type}`);
+      return event;
+    });
+
+  it('should stream the events of the project as they are published', async () => {
+    const stream = await openStream(41);
+
+    projectEvents.publish(41, 'run:started', { testRunId: 7, testCaseIds: [1, 2] });
+    projectEvents.publish(41, 'test:finished', { testRunId: 7, phase: 'finished', status: 'passed' });
+    await waitForFrames(stream, 3);
+
+    expect(stream.frames[0]).toBe('retry: 5000');
+    expect(eventsOf(stream)).toEqual([
+      { type: 'run:started', projectId: 41, timestamp: expect.any(String), data: { testRunId: 7, testCaseIds: [1, 2] } },
+      { type: 'test:finished', projectId: 41, timestamp: expect.any(String), data: { testRunId: 7, phase: 'finished', status: 'passed' } }
+    ]);
+  });
+
+  it('should leave out other projects\' events and include events without a project', async () => {
+    const stream = await openStream(42);
+
+    projectEvents.publish(43, 'run:started', { testRunId: 8 });
+    projectEvents.publish(null, 'agent:status', { agentId: 'executor', status: 'busy' });
+    await waitForFrames(stream, 2);
+
+    expect(eventsOf(stream).map(event => [event.type, event.projectId])).toEqual([['agent:status', null]]);
+  });
+
+  it('should unsubscribe when the client disconnects', async () => {
+    const stream = await openStream(44);
+    expect(projectEvents.subscriberCount(44)).toBe(1);
+
+    stream.close();
+    for (let i = 0; i < 100 && projectEvents.subscriberCount(44) > 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect(projectEvents.subscriberCount(44)).toBe(0);
+  });
+
+  it('should reject an invalid project id', async () => {
+    const response = await fetch(`${baseUrl}/api/projects/abc/events`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ message: 'Invalid project ID' });
+  });
+});
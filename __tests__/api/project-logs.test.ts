@@ -0,0 +1,139 @@
+import http from 'http';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
+import { projectLogService, type ProjectLogPage } from '../../server/services/project-logs';
+import { testRunExecutor } from '../../server/services/test-run-executor';
+import type { InsertProjectLog, Project } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+describe('Project Logs API', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let project: Project;
+
+  beforeAll(async () => {
+    const app = express();
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    project = await storage.createProject({ name: 'Shop', sourceType: 'upload' });
+  });
+
+  const log = (message: string, fields: Partial<InsertProjectLog> = {}): InsertProjectLog => ({
+    projectId: project.id,
+    level: 'info',
+    category: 'test_execution',
+    message,
+    createdAt: new Date('2026-10-01T10:00:00Z'),
+    ...fields
+  });
+
+  const fetchLogs = async (query = '', projectId = project.id) => {
+    const response = await fetch(`${baseUrl}/api/projects/${projectId}/logs${query}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  const messagesOf = (page: ProjectLogPage) => page.logs.map(entry => entry.message);
+
+  it('should page back through the logs, newest first', async () => {
+    await storage.createProjectLogs(['one', 'two', 'three', 'four', 'five'].map(message => log(message)));
+    const other = await storage.createProject({ name: 'Other', sourceType: 'upload' });
+    await storage.createProjectLogs([log('elsewhere', { projectId: other.id })]);
+
+    const first = await fetchLogs('?limit=2');
+    const second = await fetchLogs(`?limit=2&cursor=${first.body.nextCursor}`);
+    const last = await fetchLogs(`?limit=2&cursor=${second.body.nextCursor}`);
+
+    expect(messagesOf(first.body)).toEqual(['five', 'four']);
+    expect(messagesOf(second.body)).toEqual(['three', 'two']);
+    expect(messagesOf(last.body)).toEqual(['one']);
+    expect(last.body.nextCursor).toBeNull();
+  });
+
+  it('should keep pages stable while newer records arrive', async () => {
+    await storage.createProjectLogs(['one', 'two', 'three'].map(message => log(message)));
+
+    const first = await fetchLogs('?limit=2');
+    await storage.createProjectLogs([log('four')]);
+    const second = await fetchLogs(`?limit=2&cursor=${first.body.nextCursor}`);
+
+    expect(messagesOf(second.body)).toEqual(['one']);
+  });
+
+  it('should filter by level, category, framework, run, test case and time', async () => {
+    await storage.createProjectLogs([
+      log('run 1 failed', { level: 'error', testRunId: 1, framework: 'jest' }),
+      log('run 2 failed', { level: 'error', testRunId: 2, framework: 'playwright', testCaseId: 9 }),
+      log('run 2 warned', { level: 'warning', testRunId: 2, framework: 'playwright' }),
+      log('analysis started', { category: 'analysis', createdAt: new Date('2026-10-02T10:00:00Z') })
+    ]);
+
+    expect(messagesOf((await fetchLogs('?level=error,warning&runId=2')).body)).toEqual(['run 2 warned', 'run 2 failed']);
+    expect(messagesOf((await fetchLogs('?framework=jest')).body)).toEqual(['run 1 failed']);
+    expect(messagesOf((await fetchLogs('?testCaseId=9')).body)).toEqual(['run 2 failed']);
+    expect(messagesOf((await fetchLogs('?category=analysis')).body)).toEqual(['analysis started']);
+    expect(messagesOf((await fetchLogs('?from=2026-10-02T00:00:00Z')).body)).toEqual(['analysis started']);
+    expect((await fetchLogs('?to=2026-10-02T00:00:00Z')).body.logs).toHaveLength(3);
+  });
+
+  it('should search the message and framework of every record, not just a loaded page', async () => {
+    await storage.createProjectLogs([
+      log('Checkout timed out'),
+      log('Run started', { framework: 'Playwright' }),
+      log('100% of tests passed'),
+      ...Array.from({ length: 5 }, (_, i) => log(`Step ${i} passed`))
+    ]);
+
+    expect(messagesOf((await fetchLogs('?search=CHECKOUT&limit=2')).body)).toEqual(['Checkout timed out']);
+    expect(messagesOf((await fetchLogs('?search=playwright')).body)).toEqual(['Run started']);
+    // Wildcard characters are matched literally
+    expect(messagesOf((await fetchLogs('?search=0%25')).body)).toEqual(['100% of tests passed']);
+  });
+
+  it('should serve the records logged while the project\'s runs were handled', async () => {
+    const testRun = await storage.createTestRun({ projectId: project.id, framework: 'jest', status: 'running', triggeredBy: 'manual' });
+    projectLogService.start();
+    try {
+      await testRunExecutor.markFailed(testRun.id, 'Jest exited with code 1');
+
+      // The first page includes records still waiting to be written
+      const { body } = await fetchLogs(`?runId=${testRun.id}`);
+
+      expect(body.logs).toEqual([expect.objectContaining({
+        projectId: project.id,
+        testRunId: testRun.id,
+        level: 'error',
+        category: 'test_execution',
+        source: 'TEST_RUN',
+        framework: 'jest',
+        message: `Test run ${testRun.id} failed`,
+        details: { error: 'Jest exited with code 1' }
+      })]);
+    } finally {
+      await projectLogService.stop();
+    }
+  });
+
+  it.each([
+    ['?level=verbose', 'Invalid level "verbose". Expected one of: info, warning, error, success, debug'],
+    ['?category=billing', 'Invalid category "billing". Expected one of: test_execution, framework, analysis, system, security, performance'],
+    ['?cursor=abc', 'runId, testCaseId, cursor and limit must be integers'],
+    ['?from=yesterday', 'from and to must be ISO dates']
+  ])('should reject %s', async (query, message) => {
+    expect(await fetchLogs(query)).toEqual({ status: 400, body: { message } });
+  });
+
+  it('should report an unknown project', async () => {
+    expect((await fetchLogs('', 999)).status).toBe(404);
+  });
+});
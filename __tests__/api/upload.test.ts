@@ -0,0 +1,120 @@
+import http from 'http';
+import zlib from 'zlib';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { Header } from 'tar';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
+import { projectWorkspace } from '../../server/services/project-workspace';
+import type { Project } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+// Gzipped tarball of regular files
+function buildTarball(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = new Header({ path: name, type: 'File', size: data.length, mode: 0o644, mtime: new Date(0) });
+    header.encode();
+    blocks.push(header.block!, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+describe('Upload API', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let project: Project;
+
+  beforeAll(async () => {
+    const app = express();
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    project = await storage.createProject({ name: 'Shop', sourceType: 'upload', sourceUrl: 'local_files', repositoryData: { uploadedFiles: [] } });
+  });
+
+  afterEach(async () => {
+    await projectWorkspace.remove(project.id);
+  });
+
+  const upload = async (files: Record<string, string | Buffer>, projectId: number | string = project.id) => {
+    const form = new FormData();
+    form.append('projectId', String(projectId));
+    for (const [name, content] of Object.entries(files)) {
+      form.append('files', new Blob([content], { type: name.endsWith('.tar.gz') ? 'application/gzip' : 'text/plain' }), name);
+    }
+    const response = await fetch(`${baseUrl}/api/upload`, { method: 'POST', body: form });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const uploadedFilesOf = async () => {
+    const stored = await storage.getProject(project.id);
+    return ((stored!.repositoryData as any).uploadedFiles as any[]).map(entry => [entry.path, entry.size]);
+  };
+
+  it('should store uploaded files in the project workspace and record them on the project', async () => {
+    const { status, body } = await upload({ 'cart.ts': 'export const total = 1;', 'README.md': '# Shop' });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ created: false, totalFiles: 2, archive: null });
+    expect(body.files.map((entry: any) => entry.path)).toEqual(['cart.ts', 'README.md']);
+    expect(await projectWorkspace.readFile(project.id, 'cart.ts')).toBe('export const total = 1;');
+    expect(await uploadedFilesOf()).toEqual([['cart.ts', 23], ['README.md', 6]]);
+  });
+
+  it('should replace the entry of a file uploaded again', async () => {
+    await upload({ 'cart.ts': 'v1', 'README.md': '# Shop' });
+
+    await upload({ 'cart.ts': 'version 2' });
+
+    expect(await projectWorkspace.readFile(project.id, 'cart.ts')).toBe('version 2');
+    expect(await uploadedFilesOf()).toEqual([['README.md', 6], ['cart.ts', 9]]);
+    expect((await storage.getProject(project.id))!.repositoryData).toMatchObject({ fileCount: 2 });
+  });
+
+  it('should replace earlier uploads with an archive and write loose files on top', async () => {
+    await upload({ 'stale.ts': 'old' });
+
+    const { body } = await upload({
+      'shop-main.tar.gz': buildTarball({ 'shop-main/package.json': '{"name":"shop"}', 'shop-main/cart.ts': 'from the archive' }),
+      'cart.ts': 'uploaded alongside'
+    });
+
+    expect(body.archive).toMatchObject({ fileName: 'shop-main.tar.gz', extractedFiles: 2, skipped: [] });
+    expect((await projectWorkspace.listFiles(project.id)).map(entry => entry.path)).toEqual(['cart.ts', 'package.json']);
+    expect(await projectWorkspace.readFile(project.id, 'cart.ts')).toBe('uploaded alongside');
+    expect(await uploadedFilesOf()).toEqual([['package.json', 15], ['cart.ts', 18]]);
+    expect((await storage.getProject(project.id))!.repositoryData).toMatchObject({ archive: { fileName: 'shop-main.tar.gz', extractedFiles: 2 } });
+  });
+
+  it('should keep the workspace when an archive is rejected', async () => {
+    await upload({ 'cart.ts': 'kept' });
+
+    const { status } = await upload({ 'broken.tar.gz': Buffer.from('not a tarball') });
+
+    expect(status).toBe(400);
+    expect(await projectWorkspace.readFile(project.id, 'cart.ts')).toBe('kept');
+    expect(await uploadedFilesOf()).toEqual([['cart.ts', 4]]);
+  });
+
+  it('should only attach files to existing upload projects', async () => {
+    const github = await storage.createProject({ name: 'Repo', sourceType: 'github' });
+
+    expect(await upload({ 'cart.ts': 'x' }, 999)).toMatchObject({ status: 404, body: { code: 'PROJECT_NOT_FOUND' } });
+    expect(await upload({ 'cart.ts': 'x' }, github.id)).toMatchObject({
+      status: 400,
+      body: { code: 'INVALID_PROJECT', message: 'Files can only be attached to upload projects, not github projects' }
+    });
+    expect(await projectWorkspace.listFiles(github.id)).toEqual([]);
+  });
+});
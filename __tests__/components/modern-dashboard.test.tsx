@@ -41,6 +41,7 @@ describe('ModernDashboard', () => {
       sourceUrl: 'https://github.com/test/repo1',
       analysisStatus: 'completed',
       repositoryData: null,
+      commitSha: null,
       createdAt: new Date(),
       updatedAt: new Date()
     },
@@ -52,6 +53,7 @@ describe('ModernDashboard', () => {
       sourceUrl: null,
       analysisStatus: 'analyzing',
       repositoryData: null,
+      commitSha: null,
       createdAt: new Date(),
       updatedAt: new Date()
     }
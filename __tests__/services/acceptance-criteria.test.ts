@@ -0,0 +1,227 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { storage } from '../../server/storage';
+import { acceptanceCriteriaService, AcceptanceCriteriaError } from '../../server/services/acceptance-criteria';
+import { jiraService, type JiraIssue } from '../../server/services/jira-integration';
+import { useInMemoryStorage } from '../setup/storage';
+
+const CHECKOUT_STORY = [
+  'Scenario: Checkout with an empty cart',
+  'Given the cart is empty',
+  'When the shopper checks out',
+  'Then an error explains the cart is empty',
+  'Given a cart with one item',
+  '- When the shopper checks out',
+  '- And pays by card',
+  '- Then the order is confirmed'
+].join('\n');
+
+const issue = (key: string, priority: string, description: string): JiraIssue => ({
+  id: key,
+  key,
+  summary: `Story ${key}`,
+  description,
+  issueType: 'Story',
+  status: 'To Do',
+  priority,
+  attachments: [],
+  components: [],
+  fixVersions: []
+});
+
+describe('Acceptance Criteria Service', () => {
+  describe('extractCriteria', () => {
+    it('should split Given/When/Then steps into scenarios', () => {
+      expect(acceptanceCriteriaService.extractCriteria(CHECKOUT_STORY)).toEqual([
+        {
+          kind: 'scenario',
+          title: 'Checkout with an empty cart',
+          steps: ['Given the cart is empty', 'When the shopper checks out', 'Then an error explains the cart is empty']
+        },
+        {
+          kind: 'scenario',
+          // Untitled scenarios are named after their steps
+          title: 'Given a cart with one item, When the shopper checks out, pays by card, Then the order is confirmed',
+          steps: ['Given a cart with one item', 'When the shopper checks out', 'And pays by card', 'Then the order is confirmed']
+        }
+      ]);
+    });
+
+    it('should only take bullets from the acceptance criteria section when there is one', () => {
+      const description = [
+        'As a shopper I want to see my totals.',
+        'Notes:',
+        '- Uses the pricing API',
+        'Acceptance Criteria:',
+        '- Totals include tax',
+        '1. Discounts apply before tax',
+        'Out of scope:',
+        '- Currency conversion'
+      ].join('\n');
+
+      expect(acceptanceCriteriaService.extractCriteria(description)).toEqual([
+        { kind: 'bullet', title: 'Totals include tax', steps: [] },
+        { kind: 'bullet', title: 'Discounts apply before tax', steps: [] }
+      ]);
+    });
+
+    it('should take every bullet when there is no acceptance criteria section', () => {
+      expect(acceptanceCriteriaService.extractCriteria('Totals\r\n- Include tax\r\n* Free shipping over 50').map(criterion => criterion.title))
+        .toEqual(['Include tax', 'Free shipping over 50']);
+    });
+
+    it.each([null, undefined, '', 'Just a sentence about the cart.'])('should find no criteria in %j', description => {
+      expect(acceptanceCriteriaService.extractCriteria(description)).toEqual([]);
+    });
+  });
+
+  describe('generateTestCases', () => {
+    beforeEach(() => {
+      useInMemoryStorage();
+    });
+
+    const createJiraProject = (issues: JiraIssue[]) => storage.createProject({
+      name: 'Shop stories',
+      sourceType: 'jira',
+      repositoryData: { acquisitionResult: { issues } }
+    });
+
+    it('should create a test case per criterion, linked to its issue', async () => {
+      const project = await createJiraProject([
+        issue('SHOP-1', 'Highest', CHECKOUT_STORY),
+        issue('SHOP-2', 'Medium', 'No criteria yet.'),
+        issue('SHOP-3', 'Trivial', `Acceptance criteria\n- ${'x'.repeat(200)}`)
+      ]);
+
+      const result = await acceptanceCriteriaService.generateTestCases(project);
+
+      expect(result).toMatchObject({ issuesScanned: 3, issuesWithCriteria: 2, issuesWithoutCriteria: ['SHOP-2'], existing: 0 });
+      expect(result.created.map(testCase => [testCase.name, testCase.priority])).toEqual([
+        ['SHOP-1: Checkout with an empty cart', 'high'],
+        ['SHOP-1: Given a cart with one item, When the shopper checks out, pays by card, Then the order is confirmed', 'high'],
+        [`SHOP-3: ${'x'.repeat(119)}…`, 'low']
+      ]);
+      expect(result.created[0]).toMatchObject({
+        projectId: project.id,
+        type: 'e2e',
+        generatedBy: 'jira-acceptance-criteria',
+        sourceIssueKey: 'SHOP-1',
+        description: 'Acceptance criterion of SHOP-1 (Story SHOP-1): Given the cart is empty, When the shopper checks out, Then an error explains the cart is empty',
+        testScript: [
+          '// Generated from the acceptance criteria of SHOP-1',
+          'describe("SHOP-1: Story SHOP-1", () => {',
+          '  // Given the cart is empty',
+          '  // When the shopper checks out',
+          '  // Then an error explains the cart is empty',
+          '  test.todo("Checkout with an empty cart");',
+          '});',
+          ''
+        ].join('\n')
+      });
+    });
+
+    it('should skip criteria that already have a test case', async () => {
+      const project = await createJiraProject([issue('SHOP-1', 'High', CHECKOUT_STORY)]);
+      await acceptanceCriteriaService.generateTestCases(project);
+
+      const rerun = await acceptanceCriteriaService.generateTestCases(project);
+
+      expect(rerun).toMatchObject({ created: [], existing: 2, issuesWithCriteria: 1 });
+      expect(await storage.getTestCasesByProject(project.id)).toHaveLength(2);
+    });
+
+    it('should refuse projects that are not from Jira', async () => {
+      const project = await storage.createProject({ name: 'Upload', sourceType: 'upload' });
+
+      await expect(acceptanceCriteriaService.generateTestCases(project))
+        .rejects.toThrow(new AcceptanceCriteriaError('Acceptance criteria can only be extracted from Jira projects'));
+    });
+  });
+
+  describe('Jira issue descriptions', () => {
+    let server: http.Server;
+    let serverUrl: string;
+
+    const text = (value: string) => ({ type: 'text', text: value });
+    const paragraph = (...content: unknown[]) => ({ type: 'paragraph', content });
+    const item = (...content: unknown[]) => ({ type: 'listItem', content });
+
+    beforeAll(async () => {
+      // A story whose description is an Atlassian Document Format tree, as Jira Cloud returns it
+      const description = {
+        type: 'doc',
+        version: 1,
+        content: [
+          paragraph(text('Shoppers see their totals.')),
+          { type: 'heading', attrs: { level: 3 }, content: [text('Acceptance criteria')] },
+          {
+            type: 'bulletList',
+            content: [
+              item(paragraph(text('Totals include tax'))),
+              item(paragraph(text('Discounts apply')), {
+                type: 'orderedList',
+                attrs: { order: 1 },
+                content: [item(paragraph(text('Percentage codes'))), item(paragraph(text('Fixed amounts')))]
+              })
+            ]
+          },
+          paragraph(
+            text('Given a cart with one item'), { type: 'hardBreak' },
+            text('When the shopper checks out'), { type: 'hardBreak' },
+            text('Then the total includes tax')
+          )
+        ]
+      };
+
+      server = http.createServer((req, res) => {
+        const path = req.url!.split('?')[0];
+        const bodies: Record<string, unknown> = {
+          '/rest/api/3/myself': { accountId: 'qa' },
+          '/rest/api/3/project/SHOP': { id: '10', key: 'SHOP', name: 'Shop', projectTypeKey: 'software', components: [], versions: [] },
+          '/rest/api/3/search': {
+            total: 2,
+            issues: [
+              { id: '1', key: 'SHOP-1', fields: { summary: 'Cart totals', description, issuetype: { name: 'Story' }, priority: { name: 'High' } } },
+              { id: '2', key: 'SHOP-2', fields: { summary: 'Untriaged', description: null } }
+            ]
+          }
+        };
+        res.writeHead(path in bodies ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(bodies[path] ?? { errorMessages: ['Not found'] }));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should keep the lines and list items of rich text descriptions', async () => {
+      const { success, issues } = await jiraService.acquireProject({ serverUrl, projectKey: 'SHOP', email: 'qa@shop.test', apiToken: 'token' });
+
+      expect(success).toBe(true);
+      expect(issues.map(acquired => acquired.description)).toEqual([
+        [
+          'Shoppers see their totals.',
+          'Acceptance criteria',
+          '- Totals include tax',
+          '- Discounts apply',
+          '  1. Percentage codes',
+          '  2. Fixed amounts',
+          'Given a cart with one item',
+          'When the shopper checks out',
+          'Then the total includes tax'
+        ].join('\n'),
+        ''
+      ]);
+      expect(acceptanceCriteriaService.extractCriteria(issues[0].description).map(criterion => criterion.title)).toEqual([
+        'Totals include tax',
+        'Discounts apply',
+        'Percentage codes',
+        'Fixed amounts',
+        'Given a cart with one item, When the shopper checks out, Then the total includes tax'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { Header } from 'tar';
+import { extractArchive, resolveArchiveEntryPath, ArchiveExtractionError, type ArchiveLimits } from '../../server/utils/archiveExtraction';
+
+interface TestEntry {
+  name: string;
+  data?: string | Buffer;
+  kind?: 'file' | 'directory' | 'symlink';
+}
+
+const UNIX_MODES = { file: 0o100644, directory: 0o040755, symlink: 0o120777 };
+
+// Minimal zip writer: deflated entries with Unix file modes, no zip64
+function buildZip(entries: TestEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data ?? '');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = zlib.crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x031e, 4); // made by Unix
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((UNIX_MODES[entry.kind || 'file'] << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function buildTar(entries: TestEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data ?? '');
+    const kind = entry.kind || 'file';
+    const header = new Header({
+      path: entry.name,
+      type: kind === 'file' ? 'File' : kind === 'directory' ? 'Directory' : 'SymbolicLink',
+      linkpath: kind === 'symlink' ? data.toString() : undefined,
+      size: kind === 'file' ? data.length : 0,
+      mode: 0o644,
+      mtime: new Date(0)
+    });
+    header.encode();
+    blocks.push(header.block!);
+    if (kind === 'file') {
+      blocks.push(data, Buffer.alloc((512 - (data.length % 512)) % 512));
+    }
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+const REPOSITORY: TestEntry[] = [
+  { name: 'repo/', kind: 'directory' },
+  { name: 'repo/package.json', data: '{"name":"repo"}' },
+  { name: 'repo/src/index.js', data: 'module.exports = 1;\n' },
+  { name: 'repo/Dockerfile', data: 'FROM node:20\n' },
+  { name: 'repo/vendor/tool.exe', data: 'MZ' },
+  { name: 'repo/scripts/build.bat', data: '@echo off\n' },
+  { name: 'repo/fixtures/data.zip', data: 'PK' },
+  { name: 'repo/link', data: '/etc/passwd', kind: 'symlink' }
+];
+
+describe('Archive Extraction', () => {
+  let destination: string;
+
+  beforeEach(() => {
+    destination = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-extraction-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(destination, { recursive: true, force: true });
+  });
+
+  const limits = (overrides: Partial<ArchiveLimits> = {}): ArchiveLimits => ({
+    maxEntries: 100,
+    maxExtractedBytes: 10 * 1024 * 1024,
+    maxCompressionRatio: 100,
+    ...overrides
+  });
+
+  describe.each([
+    ['zip', 'repo.zip', buildZip],
+    ['tar', 'repo.tar', buildTar],
+    ['gzipped tar', 'repo.tar.gz', (entries: TestEntry[]) => zlib.gzipSync(buildTar(entries))]
+  ])('%s archives', (_format, fileName, build) => {
+    it('should extract regular files and report what was skipped', async () => {
+      const result = await extractArchive(build(REPOSITORY), fileName, destination, limits());
+
+      expect(result.files.map(file => file.path)).toEqual(['repo/Dockerfile', 'repo/package.json', 'repo/src/index.js']);
+      expect(result.totalBytes).toBe(15 + 20 + 13);
+      expect(fs.readFileSync(path.join(destination, 'repo/src/index.js'), 'utf-8')).toBe('module.exports = 1;\n');
+      expect(result.skipped).toEqual([
+        { path: 'repo/vendor/tool.exe', reason: 'File type ".exe" is not allowed for security reasons' },
+        { path: 'repo/scripts/build.bat', reason: 'File type ".bat" is not allowed for security reasons' },
+        { path: 'repo/fixtures/data.zip', reason: 'Nested archives are not extracted' },
+        { path: 'repo/link', reason: 'Symbolic and hard links are not extracted' }
+      ]);
+      expect(fs.existsSync(path.join(destination, 'repo/link'))).toBe(false);
+    });
+
+    it('should reject an entry that climbs out of the destination', async () => {
+      const archive = build([{ name: 'repo/a.js', data: 'a' }, { name: '../../escaped.js', data: 'owned' }]);
+
+      // yauzl refuses such zip entries itself; tar entries are caught by resolveArchiveEntryPath
+      await expect(extractArchive(archive, fileName, destination, limits())).rejects.toBeInstanceOf(ArchiveExtractionError);
+      expect(fs.existsSync(path.join(destination, '..', '..', 'escaped.js'))).toBe(false);
+    });
+
+    it('should reject an archive with too many entries', async () => {
+      const archive = build([1, 2, 3].map(n => ({ name: `file${n}.js`, data: String(n) })));
+
+      await expect(extractArchive(archive, fileName, destination, limits({ maxEntries: 2 }))).rejects.toThrow('Archive has more than 2 entries');
+    });
+
+    it('should reject an archive that expands past the size limit', async () => {
+      const archive = build([{ name: 'big.txt', data: Buffer.alloc(2 * 1024 * 1024, 'a') }]);
+
+      await expect(extractArchive(archive, fileName, destination, limits({ maxExtractedBytes: 1024 * 1024, maxCompressionRatio: Infinity })))
+        .rejects.toThrow('Archive expands to more than 1MB');
+    });
+
+    it('should skip a second entry for the same path', async () => {
+      const result = await extractArchive(build([
+        { name: 'a.js', data: 'first' },
+        { name: './a.js', data: 'second' }
+      ]), fileName, destination, limits());
+
+      expect(result.skipped).toEqual([{ path: 'a.js', reason: 'Duplicate entry' }]);
+      expect(fs.readFileSync(path.join(destination, 'a.js'), 'utf-8')).toBe('first');
+    });
+  });
+
+  describe('compression bombs', () => {
+    const bomb: TestEntry[] = [{ name: 'zeros.txt', data: Buffer.alloc(4 * 1024 * 1024) }];
+
+    it('should reject a zip entry with a suspicious compression ratio', async () => {
+      await expect(extractArchive(buildZip(bomb), 'bomb.zip', destination, limits()))
+        .rejects.toThrow('Archive compression ratio exceeds 100:1');
+    });
+
+    it('should reject a gzipped tar with a suspicious compression ratio', async () => {
+      await expect(extractArchive(zlib.gzipSync(buildTar(bomb)), 'bomb.tar.gz', destination, limits()))
+        .rejects.toThrow('Archive compression ratio exceeds 100:1');
+    });
+
+    it('should allow small files that compress well', async () => {
+      const result = await extractArchive(buildZip([{ name: 'blank.txt', data: Buffer.alloc(512 * 1024, ' ') }]), 'small.zip', destination, limits());
+      expect(result.files).toEqual([{ path: 'blank.txt', size: 512 * 1024 }]);
+    });
+  });
+
+  describe('malformed archives', () => {
+    it('should explain that a gzipped file is not a tar archive', async () => {
+      const archive = zlib.gzipSync(Buffer.from('just some notes\n'.repeat(100)));
+
+      await expect(extractArchive(archive, 'notes.gz', destination, limits()))
+        .rejects.toThrow('notes.gz does not contain a tar archive; compress the repository as .tar.gz or .zip');
+    });
+
+    it('should reject a corrupt zip file', async () => {
+      await expect(extractArchive(Buffer.from('not a zip'), 'broken.zip', destination, limits())).rejects.toThrow(/^Invalid zip archive/);
+    });
+  });
+
+  describe('resolveArchiveEntryPath', () => {
+    it('should resolve entry names inside the destination', () => {
+      expect(resolveArchiveEntryPath('/srv/extract', 'src/./lib\\a.js')).toBe(path.resolve('/srv/extract/src/lib/a.js'));
+    });
+
+    it.each(['/etc/passwd', 'C:/Windows/win.ini', 'a/../../b', '..', 'a\x00b', './'])('should reject %j', entryName => {
+      expect(() => resolveArchiveEntryPath('/srv/extract', entryName)).toThrow(ArchiveExtractionError);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { storage } from '../../server/storage';
+import { artifactStore, ArtifactTooLargeError, LocalDiskArtifactBackend } from '../../server/services/artifact-store';
+import type { Artifact, Project } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Artifact Store', () => {
+  let rootDir: string;
+  let project: Project;
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'artifact-store-'));
+    artifactStore.setBackend(new LocalDiskArtifactBackend(rootDir));
+    project = await storage.createProject({ name: 'Shop', sourceType: 'upload' });
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(rootDir, { recursive: true, force: true });
+  });
+
+  const blobPath = (key: string) => path.join(rootDir, key.slice(0, 2), key);
+  const save = (data: string, fileName = 'failure.png') => artifactStore.save({ projectId: project.id, testRunId: 1, fileName, data: Buffer.from(data) });
+  // The in-memory store hands out the records it keeps, so their age can be set in place
+  const age = (artifact: Artifact, days: number) => {
+    artifact.createdAt = new Date(Date.now() - days * DAY_MS);
+  };
+
+  describe('save', () => {
+    it('should store the blob under its hash and record the file', async () => {
+      const artifact = await save('png bytes', '../../screens/failure.png');
+
+      expect(artifact).toMatchObject({
+        projectId: project.id,
+        testRunId: 1,
+        fileName: 'failure.png',
+        contentType: 'image/png',
+        kind: 'screenshot',
+        size: 9,
+        sha256: sha256('png bytes')
+      });
+      expect(fs.readFileSync(blobPath(artifact.sha256), 'utf8')).toBe('png bytes');
+    });
+
+    it.each([
+      ['trace.zip', 'application/zip', 'trace'],
+      ['run.log', 'text/plain', 'log'],
+      ['run.webm', 'video/webm', 'video'],
+      ['dump.bin', 'application/octet-stream', 'other']
+    ])('should infer the type of %s', async (fileName, contentType, kind) => {
+      expect(await save('data', fileName)).toMatchObject({ contentType, kind });
+    });
+
+    it('should keep one blob for identical contents, without leftover temp files', async () => {
+      const artifacts = await Promise.all([save('same bytes', 'a.png'), save('same bytes', 'b.png'), save('same bytes', 'c.png')]);
+
+      expect(new Set(artifacts.map(artifact => artifact.sha256)).size).toBe(1);
+      expect(fs.readdirSync(path.dirname(blobPath(artifacts[0].sha256)))).toEqual([artifacts[0].sha256]);
+    });
+
+    it('should refuse files over the size limit', async () => {
+      await expect(artifactStore.save({ projectId: project.id, fileName: 'huge.webm', data: Buffer.alloc(25 * 1024 * 1024 + 1) }))
+        .rejects.toThrow(ArtifactTooLargeError);
+    });
+  });
+
+  describe('read', () => {
+    it('should return the stored contents, or nothing once the blob is gone', async () => {
+      const artifact = await save('log line', 'run.log');
+
+      expect((await artifactStore.read(artifact))?.toString()).toBe('log line');
+      fs.rmSync(blobPath(artifact.sha256));
+      expect(await artifactStore.read(artifact)).toBeUndefined();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a shared blob with its last record', async () => {
+      const first = await save('shared', 'a.png');
+      const second = await save('shared', 'b.png');
+
+      await artifactStore.remove(first);
+      expect(fs.existsSync(blobPath(first.sha256))).toBe(true);
+
+      await artifactStore.remove(second);
+      expect(fs.existsSync(blobPath(first.sha256))).toBe(false);
+      expect(await storage.countArtifactsBySha256(first.sha256)).toBe(0);
+    });
+
+    it('should keep the blob of a save racing the removal of its last record', async () => {
+      const removed = await save('raced');
+
+      const [, saved] = await Promise.all([artifactStore.remove(removed), save('raced')]);
+
+      expect(await storage.countArtifactsBySha256(saved.sha256)).toBe(1);
+      expect((await artifactStore.read(saved))?.toString()).toBe('raced');
+    });
+  });
+
+  describe('enforceRetention', () => {
+    it('should remove artifacts older than the retention period', async () => {
+      const old = await save('old run', 'old.png');
+      const recent = await save('recent run', 'recent.png');
+      age(old, 31);
+      age(recent, 29);
+
+      expect(await artifactStore.enforceRetention()).toBe(1);
+      expect(await storage.getArtifact(old.id)).toBeUndefined();
+      expect(fs.existsSync(blobPath(old.sha256))).toBe(false);
+      expect(await storage.getArtifact(recent.id)).toBeDefined();
+    });
+
+    it('should remove the oldest artifacts of a project over its byte budget', async () => {
+      // Records only: the budget is counted from the recorded sizes
+      const record = (key: string, days: number) => storage.createArtifact({
+        projectId: project.id,
+        kind: 'video',
+        fileName: `${key}.webm`,
+        contentType: 'video/webm',
+        size: 200 * 1024 * 1024,
+        sha256: key.repeat(64)
+      }).then(artifact => {
+        age(artifact, days);
+        return artifact;
+      });
+      const oldest = await record('a', 3);
+      const middle = await record('b', 2);
+      const newest = await record('c', 1);
+
+      expect(await artifactStore.enforceRetention()).toBe(1);
+      expect((await storage.getArtifactsByProject(project.id)).map(artifact => artifact.id)).toEqual([newest.id, middle.id]);
+      expect(await storage.getArtifact(oldest.id)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { storage } from '../../server/storage';
+import { cancelTestRun, enqueueTestRun } from '../../server/services/background-jobs';
+import { agentOrchestrator } from '../../server/services/agents';
+import { projectEvents, type ProjectEvent } from '../../server/services/project-events';
+import { CancellationError, isCancellation, throwIfCancelled } from '../../server/utils/cancellation';
+import type { Project, TestCase, TestRun } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+async function waitFor<T>(check: () => Promise<T | undefined | false>): Promise<T> {
+  for (let i = 0; i < 200; i++) {
+    const value = await check();
+    if (value) return value;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition never became true');
+}
+
+const { executeTestWorkflow } = agentOrchestrator;
+
+describe('Background Jobs', () => {
+  let project: Project;
+  let testCase: TestCase;
+  let events: ProjectEvent[];
+  let unsubscribe: () => void;
+  // Signals the stubbed workflow was started with, and whether each stopped once aborted
+  let signals: AbortSignal[];
+  let stopped: boolean[];
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    project = await storage.createProject({ name: 'Shop', sourceType: 'upload' });
+    testCase = await storage.createTestCase({ projectId: project.id, name: 'renders the cart', type: 'unit', priority: 'high' });
+    events = [];
+    unsubscribe = projectEvents.subscribe(project.id, event => events.push(event));
+    signals = [];
+    stopped = [];
+    // A workflow that runs until it is aborted, like Jest on a slow suite
+    agentOrchestrator.executeTestWorkflow = async (_project, _testCases, runContext) => {
+      const signal = runContext!.signal!;
+      signals.push(signal);
+      await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }));
+      stopped.push(true);
+      throw new CancellationError();
+    };
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    agentOrchestrator.executeTestWorkflow = executeTestWorkflow;
+  });
+
+  const createRun = () => storage.createTestRun({
+    projectId: project.id,
+    framework: 'jest',
+    status: 'queued',
+    triggeredBy: 'manual',
+    testCaseIds: [testCase.id]
+  });
+
+  const cancelledEvents = () => events.filter(event => event.type === 'run:cancelled');
+
+  describe('cancelTestRun', () => {
+    it('should abort a running test run and mark it and its running tests cancelled', async () => {
+      const testRun = await createRun();
+      const job = await enqueueTestRun(project.id, testRun.id);
+      await waitFor(async () => signals.length > 0);
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ status: 'running' });
+
+      expect(await cancelTestRun((await storage.getTestRun(testRun.id))!)).toBe(true);
+      await waitFor(async () => cancelledEvents().length > 0);
+
+      expect(signals[0].aborted).toBe(true);
+      expect(stopped).toEqual([true]);
+      expect(await storage.getTestRun(testRun.id)).toMatchObject({ status: 'cancelled', error: 'Cancelled by user', completedAt: expect.any(Date) });
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ status: 'cancelled' });
+      expect(await storage.getJob(job.id)).toMatchObject({ status: 'cancelled', lockedBy: null });
+      expect(cancelledEvents().map(event => event.data)).toEqual([{ testRunId: testRun.id, testCaseIds: [testCase.id] }]);
+      expect(events.some(event => event.type === 'run:failed' || event.type === 'run:completed')).toBe(false);
+    });
+
+    it('should cancel a queued test run before it starts', async () => {
+      const testRun = await createRun();
+      // A job the queue has not claimed yet
+      await storage.createJob({ type: 'test_run', projectId: project.id, payload: { testRunId: testRun.id }, maxAttempts: 2 });
+
+      expect(await cancelTestRun(testRun)).toBe(true);
+
+      expect(signals).toEqual([]);
+      expect(await storage.getTestRun(testRun.id)).toMatchObject({ status: 'cancelled' });
+      // Nothing was running, so no test case changed
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ status: testCase.status });
+      expect(cancelledEvents().map(event => event.data)).toEqual([{ testRunId: testRun.id, testCaseIds: [] }]);
+    });
+
+    it('should record the cancellation of a run without a live job', async () => {
+      const testRun = await createRun();
+      await storage.updateTestRun(testRun.id, { status: 'running', startedAt: new Date(Date.now() - 1000) });
+
+      expect(await cancelTestRun((await storage.getTestRun(testRun.id))!)).toBe(true);
+
+      const cancelled = await storage.getTestRun(testRun.id) as TestRun;
+      expect(cancelled.status).toBe('cancelled');
+      expect(cancelled.duration).toBeGreaterThanOrEqual(1000);
+    });
+
+    it('should leave finished runs alone', async () => {
+      const testRun = await createRun();
+      const completed = await storage.updateTestRun(testRun.id, { status: 'completed' });
+
+      expect(await cancelTestRun(completed!)).toBe(false);
+
+      expect(await storage.getTestRun(testRun.id)).toMatchObject({ status: 'completed' });
+      expect(cancelledEvents()).toEqual([]);
+    });
+  });
+
+  describe('cancellation helpers', () => {
+    it('should throw only once the signal is aborted', () => {
+      const controller = new AbortController();
+
+      expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+      expect(() => throwIfCancelled(undefined)).not.toThrow();
+      controller.abort();
+      expect(() => throwIfCancelled(controller.signal)).toThrow(CancellationError);
+    });
+
+    it('should tell cancellations apart from genuine failures', () => {
+      const abortError = new Error('The operation was aborted');
+      abortError.name = 'AbortError';
+      const aborted = new AbortController();
+      aborted.abort();
+
+      expect(isCancellation(new CancellationError())).toBe(true);
+      expect(isCancellation(abortError)).toBe(true);
+      expect(isCancellation(new Error('Jest exited with code 1'), aborted.signal)).toBe(true);
+      expect(isCancellation(new Error('Jest exited with code 1'), new AbortController().signal)).toBe(false);
+      expect(isCancellation('aborted')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+interface BitbucketRequest {
+  path: string;
+  query: URLSearchParams;
+  authorization?: string;
+}
+
+const SHA = 'e'.repeat(40);
+const REPOSITORY = '/2.0/repositories/acme/shop';
+
+const basicAuth = (username: string, password: string) => `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+describe('Bitbucket Integration Service', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  let requests: BitbucketRequest[];
+  let userStatus: number;
+  // The service reads BITBUCKET_API_URL and the fallback credentials when its configuration loads,
+  // so it is imported once the stub Bitbucket API is listening
+  let bitbucketService: typeof import('../../server/services/bitbucket-integration').bitbucketService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://bitbucket');
+      requests.push({ path: url.pathname, query: url.searchParams, authorization: req.headers.authorization });
+      const send = (body: unknown, status = 200) => {
+        res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+        res.end(typeof body === 'string' ? body : JSON.stringify(body));
+      };
+      const file = (path: string, size: number) => ({ type: 'commit_file', path, size, commit: { hash: SHA } });
+
+      switch (url.pathname) {
+        case REPOSITORY:
+          return send({ full_name: 'acme/shop', language: 'typescript', mainbranch: { name: 'trunk' } });
+        case `${REPOSITORY}/commit/trunk`:
+          return send({ hash: SHA });
+        case `${REPOSITORY}/src/${SHA}/`:
+          // The root listing has a second page, linked by an absolute "next" URL
+          return url.searchParams.get('page') === '2'
+            ? send({ values: [file('package.json', 15)] })
+            : send({
+              values: [file('README.md', 6), { type: 'commit_directory', path: 'src' }],
+              next: `${apiUrl}/repositories/acme/shop/src/${SHA}/?pagelen=100&page=2`
+            });
+        case `${REPOSITORY}/src/${SHA}/src/`:
+          return send({ values: [file('src/app.ts', 21), file('src/huge.ts', 2 * 1024 * 1024), file('src/logo.png', 100)] });
+        case `${REPOSITORY}/src/${SHA}/README.md`:
+          return send('# Shop');
+        case `${REPOSITORY}/src/${SHA}/package.json`:
+          return send('{"name":"shop"}');
+        case `${REPOSITORY}/src/${SHA}/src/app.ts`:
+          return send('export const app = 1;');
+        case '/2.0/user':
+          return userStatus === 200 ? send({ username: 'qa' }) : send({ type: 'error' }, userStatus);
+        case '/2.0/repositories':
+        case '/2.0/repositories/acme':
+          return send({ values: [{ full_name: 'acme/shop' }], size: 12 });
+        default:
+          return send({ type: 'error', error: { message: 'Repository not found' } }, 404);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/2.0`;
+    process.env.BITBUCKET_API_URL = `${apiUrl}/`;
+    process.env.BITBUCKET_USERNAME = 'ci-bot';
+    process.env.BITBUCKET_TOKEN = 'app-password';
+
+    ({ bitbucketService } = await import('../../server/services/bitbucket-integration'));
+  });
+
+  afterAll(async () => {
+    delete process.env.BITBUCKET_API_URL;
+    delete process.env.BITBUCKET_USERNAME;
+    delete process.env.BITBUCKET_TOKEN;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    userStatus = 200;
+  });
+
+  describe('acquireProject', () => {
+    it('should download the code files of every directory and page at the pinned commit', async () => {
+      const result = await bitbucketService.acquireProject({ workspace: 'acme', repo: 'shop' });
+
+      expect(result).toMatchObject({ success: true, commitSha: SHA });
+      expect(result.files.map(file => [file.path, file.content])).toEqual([
+        ['README.md', '# Shop'],
+        ['src/app.ts', 'export const app = 1;'],
+        ['package.json', '{"name":"shop"}']
+      ]);
+      expect(result.metadata).toMatchObject({ branch: 'trunk', commitSha: SHA, totalFiles: 3, languages: { typescript: 100 }, readme: '# Shop' });
+      // Files over the size limit and binaries are never downloaded
+      expect(requests.some(request => request.path.endsWith('huge.ts') || request.path.endsWith('logo.png'))).toBe(false);
+    });
+
+    it('should report a repository that cannot be read', async () => {
+      const result = await bitbucketService.acquireProject({ workspace: 'acme', repo: 'missing' });
+
+      expect(result).toMatchObject({ success: false, files: [], error: 'Failed to get repository: 404 Not Found' });
+    });
+  });
+
+  describe('credentials', () => {
+    it.each([
+      ['an app password with its username', { username: 'dev', accessToken: 'dev-password' }, basicAuth('dev', 'dev-password')],
+      ['an access token', { accessToken: 'repo-token' }, 'Bearer repo-token'],
+      ['the configured credentials by default', {}, basicAuth('ci-bot', 'app-password')]
+    ])('should send %s', async (_kind, credentials, authorization) => {
+      await bitbucketService.getCommitSha({ workspace: 'acme', repo: 'shop', ...credentials }, 'trunk');
+
+      expect(requests.map(request => request.authorization)).toEqual([authorization]);
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should report the user behind the credentials', async () => {
+      expect(await bitbucketService.testConnection('dev-password', 'dev')).toEqual({ connected: true, userInfo: { username: 'qa' }, error: undefined });
+    });
+
+    it('should explain why a repository access token cannot read the account', async () => {
+      userStatus = 403;
+
+      expect(await bitbucketService.testConnection('repo-token')).toEqual({
+        connected: true,
+        userInfo: null,
+        error: 'Token cannot read the account; repository access tokens only work on their repository'
+      });
+    });
+  });
+
+  describe('searchRepositories', () => {
+    it('should search one workspace by name', async () => {
+      const result = await bitbucketService.searchRepositories('shop "v2"', { workspace: 'acme' });
+
+      expect(result).toMatchObject({ success: true, total_count: 12 });
+      expect(requests[0].path).toBe('/2.0/repositories/acme');
+      expect(Object.fromEntries(requests[0].query)).toEqual({ q: 'name ~ "shop \\"v2\\""', sort: '-updated_on', pagelen: '10' });
+    });
+
+    it('should search the repositories the credentials are a member of without a workspace', async () => {
+      await bitbucketService.searchRepositories('shop');
+
+      expect(requests[0].path).toBe('/2.0/repositories');
+      expect(requests[0].query.get('role')).toBe('member');
+    });
+  });
+});
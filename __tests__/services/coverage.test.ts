@@ -0,0 +1,214 @@
+import { storage } from '../../server/storage';
+import { coverageService, CoverageParseError } from '../../server/services/coverage';
+import { useInMemoryStorage } from '../setup/storage';
+
+const LCOV = `TN:
+SF:/home/ci/repo/src/math.js
+FN:1,add
+FN:5,divide
+FNDA:3,add
+DA:1,3
+DA:2,3
+DA:5,0
+DA:6,0
+BRDA:2,0,0,3
+BRDA:2,0,1,-
+end_of_record
+SF:/home/ci/repo/src/util/strings.js
+DA:1,1
+end_of_record
+`;
+
+const ISTANBUL = {
+  '/home/ci/repo/src/math.js': {
+    path: '/home/ci/repo/src/math.js',
+    statementMap: {
+      0: { start: { line: 1, column: 0 }, end: { line: 1, column: 20 } },
+      1: { start: { line: 2, column: 2 }, end: { line: 2, column: 10 } },
+      2: { start: { line: 2, column: 12 }, end: { line: 2, column: 30 } },
+      3: { start: { line: 5, column: 0 }, end: { line: 5, column: 20 } }
+    },
+    s: { 0: 2, 1: 0, 2: 4, 3: 0 },
+    fnMap: {
+      0: { name: 'add', decl: { start: { line: 1 } }, loc: { start: { line: 1 } } },
+      1: { name: 'divide', decl: { start: { line: 5 } }, loc: { start: { line: 5 } } }
+    },
+    f: { 0: 2, 1: 0 },
+    branchMap: {
+      0: { type: 'if', loc: { start: { line: 2 } }, locations: [] }
+    },
+    b: { 0: [4, 0] }
+  }
+};
+
+const COBERTURA = `<?xml version="1.0" ?>
+<coverage line-rate="0.5" branch-rate="0.5" version="1.9">
+  <packages>
+    <package name="app">
+      <classes>
+        <class name="Math" filename="app/math.py">
+          <methods>
+            <method name="add" signature="">
+              <lines><line number="1" hits="2"/></lines>
+            </method>
+            <method name="divide" signature="">
+              <lines><line number="8" hits="0"/></lines>
+            </method>
+          </methods>
+          <lines>
+            <line number="1" hits="2"/>
+            <line number="2" hits="2" branch="true" condition-coverage="50% (1/2)"/>
+          </lines>
+        </class>
+        <class name="MathHelpers" filename="app/math.py">
+          <lines><line number="20" hits="0"/></lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+
+describe('Coverage Service', () => {
+  describe('detectFormat', () => {
+    it('should recognise each supported format', () => {
+      expect(coverageService.detectFormat(LCOV)).toBe('lcov');
+      expect(coverageService.detectFormat(JSON.stringify(ISTANBUL))).toBe('istanbul');
+      expect(coverageService.detectFormat(COBERTURA)).toBe('cobertura');
+    });
+
+    it('should reject content in no known format', () => {
+      expect(() => coverageService.detectFormat('hello world')).toThrow(CoverageParseError);
+    });
+  });
+
+  describe('parseLcov', () => {
+    it('should read lines, functions and branches per file', () => {
+      const [math, strings] = coverageService.parseLcov(LCOV);
+
+      expect(math.lineHits).toEqual({ 1: 3, 2: 3, 5: 0, 6: 0 });
+      expect(math.functions).toEqual([
+        { name: 'add', line: 1, hits: 3 },
+        { name: 'divide', line: 5, hits: 0 }
+      ]);
+      expect(math.branches).toEqual([
+        { line: 2, block: 0, branch: 0, hits: 3 },
+        { line: 2, block: 0, branch: 1, hits: 0 }
+      ]);
+      expect(strings.lineHits).toEqual({ 1: 1 });
+    });
+
+    it('should make absolute paths relative to their common directory', () => {
+      expect(coverageService.parseLcov(LCOV).map(file => file.filePath)).toEqual(['math.js', 'util/strings.js']);
+    });
+
+    it('should keep the last record when end_of_record is missing', () => {
+      const files = coverageService.parseLcov('SF:src/a.js\nDA:1,1\n');
+      expect(files).toEqual([{ filePath: 'src/a.js', lineHits: { 1: 1 }, branches: [], functions: [] }]);
+    });
+  });
+
+  describe('parseIstanbul', () => {
+    it('should take each line from its most executed statement', () => {
+      const [math] = coverageService.parseIstanbul(ISTANBUL);
+
+      expect(math.filePath).toBe('math.js');
+      expect(math.lineHits).toEqual({ 1: 2, 2: 4, 5: 0 });
+      expect(math.functions).toEqual([
+        { name: 'add', line: 1, hits: 2 },
+        { name: 'divide', line: 5, hits: 0 }
+      ]);
+      expect(math.branches).toEqual([
+        { line: 2, block: 0, branch: 0, hits: 4, type: 'if' },
+        { line: 2, block: 0, branch: 1, hits: 0, type: 'if' }
+      ]);
+    });
+
+    it('should unwrap the { data } entries written by older nyc versions', () => {
+      const wrapped = { 'src/math.js': { data: { ...ISTANBUL['/home/ci/repo/src/math.js'], path: 'src/math.js' } } };
+      expect(coverageService.parseIstanbul(wrapped)[0].filePath).toBe('src/math.js');
+    });
+
+    it('should reject entries without a statement map', () => {
+      expect(() => coverageService.parse('{"src/a.js": {"s": {}}}')).toThrow('Invalid Istanbul coverage entry for src/a.js');
+      expect(() => coverageService.parse('{not json', 'istanbul')).toThrow(CoverageParseError);
+    });
+  });
+
+  describe('parseCobertura', () => {
+    it('should merge classes of the same file and read branches from condition coverage', () => {
+      const files = coverageService.parseCobertura(COBERTURA);
+
+      expect(files).toHaveLength(1);
+      expect(files[0].filePath).toBe('app/math.py');
+      expect(files[0].lineHits).toEqual({ 1: 2, 2: 2, 8: 0, 20: 0 });
+      expect(files[0].branches).toEqual([
+        { line: 2, block: 0, branch: 0, hits: 1 },
+        { line: 2, block: 0, branch: 1, hits: 0 }
+      ]);
+      expect(files[0].functions).toEqual([
+        { name: 'add', line: 1, hits: 2 },
+        { name: 'divide', line: 8, hits: 0 }
+      ]);
+    });
+
+    it('should reject XML that is not a Cobertura report', () => {
+      expect(() => coverageService.parseCobertura('<testsuites/>')).toThrow('Expected a Cobertura <coverage> root element');
+      expect(() => coverageService.parseCobertura('<coverage>')).toThrow(CoverageParseError);
+    });
+  });
+
+  describe('summarize and merge', () => {
+    it('should total covered lines, branches and functions', () => {
+      const totals = coverageService.summarize(coverageService.parseLcov(LCOV));
+
+      expect(totals).toEqual({
+        lines: { total: 5, covered: 3, pct: 60 },
+        branches: { total: 2, covered: 1, pct: 50 },
+        functions: { total: 2, covered: 1, pct: 50 }
+      });
+    });
+
+    it('should report no percentage when there is nothing to cover', () => {
+      expect(coverageService.summarize([]).lines).toEqual({ total: 0, covered: 0, pct: null });
+    });
+
+    it('should add up hits for the same file across reports', () => {
+      const shard = (hits: number) => [{
+        filePath: 'src/a.js',
+        lineHits: { 1: hits, 2: 0 },
+        branches: [{ line: 1, block: 0, branch: 0, hits }],
+        functions: [{ name: 'a', line: 1, hits }]
+      }];
+
+      const [merged] = coverageService.merge([shard(1), shard(2)]);
+
+      expect(merged.lineHits).toEqual({ 1: 3, 2: 0 });
+      expect(merged.branches[0].hits).toBe(3);
+      expect(merged.functions[0].hits).toBe(3);
+    });
+  });
+
+  describe('ingest', () => {
+    beforeEach(() => {
+      useInMemoryStorage();
+    });
+
+    it('should store a report with its totals and files', async () => {
+      const project = await storage.createProject({ name: 'Covered project', sourceType: 'upload' });
+
+      const report = await coverageService.ingest(project.id, LCOV);
+
+      expect(report).toMatchObject({ format: 'lcov', source: 'upload', linesTotal: 5, linesCovered: 3, branchesTotal: 2, branchesCovered: 1 });
+      const files = await storage.getCoverageFiles(report.id);
+      expect(files.map(file => [file.filePath, file.linesTotal, file.linesCovered])).toEqual([
+        ['math.js', 4, 2],
+        ['util/strings.js', 1, 1]
+      ]);
+      expect(coverageService.getUncovered(files[0])).toMatchObject({
+        lines: [5, 6],
+        functions: [{ name: 'divide', line: 5, hits: 0 }]
+      });
+      expect(await coverageService.getLatestTotals(project.id)).toMatchObject({ reportId: report.id, lines: { pct: 60 } });
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { storage } from '../../server/storage';
+import { defectFilingService, DefectFilingError } from '../../server/services/defect-filing';
+import { artifactStore, type ArtifactBackend } from '../../server/services/artifact-store';
+import type { Project, TestRun } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+class MemoryArtifactBackend implements ArtifactBackend {
+  blobs = new Map<string, Buffer>();
+  async put(key: string, data: Buffer) { this.blobs.set(key, data); }
+  async get(key: string) { return this.blobs.get(key); }
+  async exists(key: string) { return this.blobs.has(key); }
+  async delete(key: string) { this.blobs.delete(key); }
+}
+
+interface JiraRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  authorization?: string;
+  body: string;
+}
+
+const basicAuth = (email: string, apiToken: string) => `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}`;
+
+describe('Defect Filing Service', () => {
+  let server: http.Server;
+  let jiraUrl: string;
+  let requests: JiraRequest[];
+  // Status category of each issue the stub Jira knows, and the keys its label search returns
+  let issues: Map<string, string>;
+  let searchResults: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        const url = new URL(req.url!, 'http://jira');
+        requests.push({ method: req.method!, path: url.pathname, query: url.searchParams, authorization: req.headers.authorization, body });
+        res.setHeader('Content-Type', 'application/json');
+
+        const issueKey = url.pathname.match(/^\/rest\/api\/3\/issue\/([^/]+)$/)?.[1];
+        const toIssue = (key: string) => ({ key, fields: { summary: key, status: { statusCategory: { key: issues.get(key) } } } });
+        if (req.method === 'POST' && url.pathname === '/rest/api/3/issue') {
+          const key = `SHOP-${issues.size + 1}`;
+          issues.set(key, 'new');
+          res.statusCode = 201;
+          res.end(JSON.stringify({ id: String(issues.size), key }));
+        } else if (req.method === 'GET' && issueKey) {
+          res.statusCode = issues.has(issueKey) ? 200 : 404;
+          res.end(JSON.stringify(issues.has(issueKey) ? toIssue(issueKey) : { errorMessages: ['Issue does not exist'] }));
+        } else if (req.method === 'GET' && url.pathname === '/rest/api/3/search') {
+          res.end(JSON.stringify({ issues: searchResults.map(toIssue) }));
+        } else {
+          res.statusCode = 201;
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jiraUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  let project: Project;
+  let testRun: TestRun;
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    artifactStore.setBackend(new MemoryArtifactBackend());
+    requests = [];
+    issues = new Map();
+    searchResults = [];
+    project = await storage.createProject({
+      name: 'Shop',
+      sourceType: 'jira',
+      repositoryData: { jiraServerUrl: `${jiraUrl}/`, jiraEmail: 'qa@acme.test', jiraApiToken: 'stored-token', jiraProjectKey: 'SHOP' }
+    });
+    testRun = await storage.createTestRun({ projectId: project.id, framework: 'jest', status: 'completed', triggeredBy: 'manual', commitSha: 'abc123' });
+  });
+
+  const failedResult = (error: string, testCaseName = 'checkout totals', run: TestRun = testRun) => storage.createTestRunResult({
+    testRunId: run.id,
+    testCaseId: null,
+    testCaseName,
+    status: 'failed',
+    attempt: 1,
+    duration: 12,
+    errors: [error]
+  });
+
+  const paths = () => requests.map(request => `${request.method} ${request.path}`);
+
+  describe('failureSignature', () => {
+    it('should mask numbers, hex ids, quoted values and whitespace', async () => {
+      const first = await failedResult('Expected 200 but got 500 for "order-17" at 0x1f3a  (request 9f8e7d6c5b4a)');
+      const second = await failedResult('expected 201 but got 503 for \'order-99\' at 0xbeef (request 0123456789ab)');
+
+      expect(defectFilingService.failureSignature(project.id, first)).toBe(defectFilingService.failureSignature(project.id, second));
+      expect(defectFilingService.failureSignature(project.id, first)).toMatch(/^[a-f0-9]{16}$/);
+    });
+
+    it('should tell apart other tests, other failures and other projects', async () => {
+      const result = await failedResult('Expected 200 but got 500');
+      const signature = defectFilingService.failureSignature(project.id, result);
+
+      expect(defectFilingService.failureSignature(project.id, await failedResult('Expected 200 but got 500', 'refund totals'))).not.toBe(signature);
+      expect(defectFilingService.failureSignature(project.id, await failedResult('Timed out after 500ms'))).not.toBe(signature);
+      expect(defectFilingService.failureSignature(project.id + 1, result)).not.toBe(signature);
+    });
+  });
+
+  describe('fileDefect', () => {
+    it('should file a labelled bug with the stored credentials and attach the result artifacts', async () => {
+      const result = await failedResult('Expected 200 but got 500\n    at checkout.test.js:12:5');
+      await artifactStore.save({ projectId: project.id, testRunId: testRun.id, testRunResultId: result.id, fileName: 'failure.png', data: Buffer.from('png bytes') });
+      await storage.createArtifact({
+        projectId: project.id,
+        testRunId: testRun.id,
+        testRunResultId: result.id,
+        kind: 'video',
+        fileName: 'run.webm',
+        contentType: 'video/webm',
+        size: 11 * 1024 * 1024,
+        sha256: 'f'.repeat(64)
+      });
+
+      const filed = await defectFilingService.fileDefect(result.id);
+
+      expect(filed).toMatchObject({
+        issueKey: 'SHOP-1',
+        issueUrl: `${jiraUrl}/browse/SHOP-1`,
+        created: true,
+        attachments: ['failure.png'],
+        skippedAttachments: [{ fileName: 'run.webm', reason: 'Larger than 10MB' }]
+      });
+      expect(paths()).toEqual(['GET /rest/api/3/search', 'POST /rest/api/3/issue', 'POST /rest/api/3/issue/SHOP-1/attachments']);
+      expect(requests.every(request => request.authorization === basicAuth('qa@acme.test', 'stored-token'))).toBe(true);
+
+      const { fields } = JSON.parse(requests[1].body);
+      expect(fields).toMatchObject({
+        project: { key: 'SHOP' },
+        issuetype: { name: 'Bug' },
+        summary: '[MATT] checkout totals failed: Expected 200 but got 500',
+        labels: ['matt', `matt-failure-${filed.failureSignature}`]
+      });
+      expect(requests[2].body).toContain('filename="failure.png"');
+      expect(await storage.getTestRunResult(result.id)).toMatchObject({ defectKey: 'SHOP-1', failureSignature: filed.failureSignature });
+    });
+
+    it('should link a repeat of the failure to the open issue recorded for it', async () => {
+      const first = await defectFilingService.fileDefect((await failedResult('Expected 200 but got 500')).id);
+      const nextRun = await storage.createTestRun({ projectId: project.id, framework: 'jest', status: 'completed', triggeredBy: 'manual' });
+      requests = [];
+
+      const repeat = await defectFilingService.fileDefect((await failedResult('Expected 200 but got 502', 'checkout totals', nextRun)).id);
+
+      expect(repeat).toMatchObject({ issueKey: first.issueKey, created: false, failureSignature: first.failureSignature });
+      expect(paths()).toEqual(['GET /rest/api/3/issue/SHOP-1', 'POST /rest/api/3/issue/SHOP-1/comment']);
+      expect(requests[1].body).toContain(`Failed again in MATT test run #${nextRun.id}`);
+    });
+
+    it('should search by label once the recorded issue is done', async () => {
+      const first = await defectFilingService.fileDefect((await failedResult('Expected 200 but got 500')).id);
+      issues.set('SHOP-1', 'done');
+      issues.set('OPS-4', 'indeterminate');
+      searchResults = ['OPS-4'];
+      requests = [];
+
+      const repeat = await defectFilingService.fileDefect((await failedResult('Expected 200 but got 500')).id);
+
+      expect(repeat).toMatchObject({ issueKey: 'OPS-4', created: false });
+      expect(paths()).toEqual(['GET /rest/api/3/issue/SHOP-1', 'GET /rest/api/3/search', 'POST /rest/api/3/issue/OPS-4/comment']);
+      expect(requests[1].query.get('jql')).toBe(`project = "SHOP" AND labels = "matt-failure-${first.failureSignature}" AND statusCategory != Done ORDER BY created DESC`);
+    });
+
+    it('should return the issue already filed for a result', async () => {
+      const result = await failedResult('Expected 200 but got 500');
+      const filed = await defectFilingService.fileDefect(result.id);
+      requests = [];
+
+      const again = await defectFilingService.fileDefect(result.id);
+
+      expect(again).toMatchObject({ issueKey: filed.issueKey, created: false });
+      expect(requests).toEqual([]);
+    });
+
+    it('should file a double-clicked result once', async () => {
+      const result = await failedResult('Expected 200 but got 500');
+
+      const [first, second] = await Promise.all([defectFilingService.fileDefect(result.id), defectFilingService.fileDefect(result.id)]);
+
+      expect(paths().filter(path => path === 'POST /rest/api/3/issue')).toHaveLength(1);
+      expect(first).toMatchObject({ issueKey: 'SHOP-1', created: true });
+      expect(second).toMatchObject({ issueKey: 'SHOP-1', created: false });
+    });
+
+    it('should refuse results that did not fail', async () => {
+      const passed = await storage.createTestRunResult({ testRunId: testRun.id, testCaseName: 'checkout totals', status: 'passed', attempt: 1, duration: 5 });
+
+      await expect(defectFilingService.fileDefect(passed.id)).rejects.toThrow('Only failed test results can be filed as defects, not passed ones');
+    });
+  });
+
+  describe('resolveConfig', () => {
+    it('should not send stored credentials to another server', async () => {
+      const result = await failedResult('Expected 200 but got 500');
+
+      await expect(defectFilingService.fileDefect(result.id, { serverUrl: 'https://attacker.example.com' }))
+        .rejects.toThrow(DefectFilingError);
+      expect(requests).toEqual([]);
+    });
+
+    it('should prefer credentials passed with the request', async () => {
+      const result = await failedResult('Expected 200 but got 500');
+
+      await defectFilingService.fileDefect(result.id, { serverUrl: jiraUrl, email: 'lead@acme.test', apiToken: 'own-token', projectKey: 'OPS' });
+
+      expect(requests.every(request => request.authorization === basicAuth('lead@acme.test', 'own-token'))).toBe(true);
+      expect(JSON.parse(requests[1].body).fields.project).toEqual({ key: 'OPS' });
+    });
+
+    it.each([
+      [{ serverUrl: 'ftp://jira.acme.test', email: 'qa@acme.test', apiToken: 'token' }, 'Invalid Jira URL "ftp://jira.acme.test"'],
+      [{ projectKey: 'not a key' }, 'A Jira project key is required']
+    ])('should reject %j', async (options, message) => {
+      const result = await failedResult('Expected 200 but got 500');
+
+      await expect(defectFilingService.fileDefect(result.id, options)).rejects.toThrow(message);
+    });
+  });
+});
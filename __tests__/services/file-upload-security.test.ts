@@ -3,7 +3,9 @@ import {
   validateUploadRequest, 
   validateFileContent,
   generateSecureFilename,
-  detectFileType
+  detectFileType,
+  isArchiveFile,
+  validateArchiveEntry
 } from '../../server/utils/fileUploadSecurity';
 
 describe('File Upload Security', () => {
@@ -247,4 +249,37 @@ describe('File Upload Security', () => {
       expect(type).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe('isArchiveFile', () => {
+    it('should recognise supported archive formats', () => {
+      expect(isArchiveFile('repo.zip')).toBe(true);
+      expect(isArchiveFile('repo.TAR.GZ')).toBe(true);
+      expect(isArchiveFile('repo.tgz')).toBe(true);
+      expect(isArchiveFile('repo.js')).toBe(false);
+    });
+  });
+
+  describe('validateArchiveEntry', () => {
+    it('should accept JavaScript sources even though they are dangerous as uploads', () => {
+      expect(validateArchiveEntry('repo/src/index.js')).toEqual({ valid: true });
+    });
+
+    it('should accept extensionless tooling files and dotfiles', () => {
+      expect(validateArchiveEntry('repo/Dockerfile').valid).toBe(true);
+      expect(validateArchiveEntry('repo/.gitignore').valid).toBe(true);
+    });
+
+    it('should reject dangerous file types even when they are on the allow list', () => {
+      const result = validateArchiveEntry('repo/scripts/build.bat');
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('not allowed for security reasons');
+      expect(validateArchiveEntry('repo\\tools\\setup.ps1').valid).toBe(false);
+      expect(validateArchiveEntry('repo/bin/tool.exe').error).toContain('not allowed for security reasons');
+    });
+
+    it('should skip nested archives and unsupported types', () => {
+      expect(validateArchiveEntry('repo/fixtures/data.tar.gz').error).toBe('Nested archives are not extracted');
+      expect(validateArchiveEntry('repo/logo.png').error).toContain('not supported');
+    });
+  });
+});
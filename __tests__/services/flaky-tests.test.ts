@@ -0,0 +1,169 @@
+import { storage } from '../../server/storage';
+import { mlTestingIntelligence } from '../../server/services/ml-testing-intelligence';
+import type { Project, TestCase, TestRun, TestRunResult } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+describe('Flaky Test Detection', () => {
+  let project: Project;
+
+  async function createTestCase(name: string): Promise<TestCase> {
+    return storage.createTestCase({ projectId: project.id, name, type: 'unit', priority: 'medium', testScript: `test('${name}', () => {});` });
+  }
+
+  async function recordHistory(testCase: TestCase, results: string[], scriptHash: string | null = 'v1') {
+    for (const result of results) {
+      await storage.createTestExecutionRecord({
+        projectId: project.id,
+        testCaseId: testCase.id,
+        testName: testCase.name,
+        result,
+        duration: 10,
+        scriptHash
+      });
+    }
+  }
+
+  async function reportFor(testCase: TestCase) {
+    const reports = await mlTestingIntelligence.getFlakinessReports(project.id);
+    return reports.find(report => report.testCaseId === testCase.id)!;
+  }
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    project = await storage.createProject({ name: 'Flaky project', sourceType: 'upload' });
+  });
+
+  describe('scoring', () => {
+    it('should score a test that alternates between passing and failing as fully flaky', async () => {
+      const testCase = await createTestCase('alternating');
+      await recordHistory(testCase, ['passed', 'failed', 'passed', 'failed', 'passed', 'failed']);
+
+      expect(await reportFor(testCase)).toMatchObject({ score: 100, executions: 6, flips: 5 });
+    });
+
+    it('should score a consistently passing test as stable', async () => {
+      const testCase = await createTestCase('stable');
+      await recordHistory(testCase, ['passed', 'passed', 'passed', 'passed']);
+
+      expect(await reportFor(testCase)).toMatchObject({ score: 0, executions: 4, flips: 0 });
+    });
+
+    it('should score the share of consecutive executions that flipped', async () => {
+      const testCase = await createTestCase('occasional');
+      await recordHistory(testCase, ['passed', 'passed', 'failed', 'failed', 'passed']);
+
+      expect(await reportFor(testCase)).toMatchObject({ score: 50, executions: 5, flips: 2 });
+    });
+
+    it('should ignore skipped executions', async () => {
+      const testCase = await createTestCase('sometimes skipped');
+      await recordHistory(testCase, ['passed', 'skipped', 'passed', 'skipped', 'passed']);
+
+      expect(await reportFor(testCase)).toMatchObject({ score: 0, executions: 3, flips: 0 });
+    });
+
+    it('should not count a change of script as a flip', async () => {
+      const testCase = await createTestCase('fixed');
+      await recordHistory(testCase, ['failed', 'failed', 'failed'], 'v1');
+      await recordHistory(testCase, ['passed', 'passed', 'passed'], 'v2');
+
+      expect(await reportFor(testCase)).toMatchObject({ score: 0, executions: 6, flips: 0 });
+    });
+
+    it('should leave out results without a script hash, such as imported runs', async () => {
+      const testCase = await createTestCase('imported');
+      await recordHistory(testCase, ['passed', 'failed', 'passed', 'failed', 'passed', 'failed'], null);
+      await recordHistory(testCase, ['passed', 'passed']);
+
+      expect(await reportFor(testCase)).toMatchObject({ score: 0, executions: 2, flips: 0 });
+    });
+  });
+
+  describe('quarantine', () => {
+    it('should quarantine a test whose score crosses the threshold', async () => {
+      const flaky = await createTestCase('flaky');
+      const stable = await createTestCase('stable');
+      await recordHistory(flaky, ['passed', 'failed', 'passed', 'failed', 'passed']);
+      await recordHistory(stable, ['passed', 'passed', 'passed', 'passed', 'passed']);
+
+      await mlTestingIntelligence.updateFlakinessScores(project.id);
+
+      const updatedFlaky = await storage.getTestCase(flaky.id);
+      expect(updatedFlaky).toMatchObject({ flakinessScore: 100, quarantined: true });
+      expect(updatedFlaky?.quarantineReason).toContain('flakiness score 100 over 5 executions');
+      expect(updatedFlaky?.quarantinedAt).toBeInstanceOf(Date);
+      expect(await storage.getTestCase(stable.id)).toMatchObject({ flakinessScore: 0, quarantined: false });
+    });
+
+    it('should not quarantine a test with too few executions to judge', async () => {
+      const testCase = await createTestCase('new');
+      await recordHistory(testCase, ['passed', 'failed', 'passed', 'failed']);
+
+      await mlTestingIntelligence.updateFlakinessScores(project.id);
+
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ flakinessScore: 100, quarantined: false });
+    });
+
+    it('should only update the requested test cases', async () => {
+      const requested = await createTestCase('requested');
+      const other = await createTestCase('other');
+      await recordHistory(requested, ['passed', 'failed', 'passed', 'failed', 'passed']);
+      await recordHistory(other, ['passed', 'failed', 'passed', 'failed', 'passed']);
+
+      await mlTestingIntelligence.updateFlakinessScores(project.id, [requested.id]);
+
+      expect((await storage.getTestCase(requested.id))?.quarantined).toBe(true);
+      expect((await storage.getTestCase(other.id))?.quarantined).toBe(false);
+    });
+
+    it('should release a quarantined test on request', async () => {
+      const testCase = await createTestCase('released');
+      await mlTestingIntelligence.setQuarantine(testCase.id, true);
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ quarantined: true, quarantineReason: 'Manually quarantined' });
+
+      await mlTestingIntelligence.setQuarantine(testCase.id, false);
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ quarantined: false, quarantinedAt: null, quarantineReason: null });
+    });
+
+    it('should leave quarantined tests out of the pass rate', () => {
+      const passRate = mlTestingIntelligence.calculatePassRate([
+        { status: 'passed', quarantined: false },
+        { status: 'failed', quarantined: false },
+        { status: 'failed', quarantined: true },
+        { status: 'generated', quarantined: false }
+      ]);
+
+      expect(passRate).toEqual({ passRate: 50, passed: 1, counted: 2, quarantined: 1 });
+    });
+  });
+
+  describe('recording runs', () => {
+    it('should record every result of a run and refresh the scores of its tests', async () => {
+      const testCase = await createTestCase('recorded');
+      await recordHistory(testCase, ['passed', 'failed', 'passed', 'failed']);
+      const testRun = { id: 42, projectId: project.id } as TestRun;
+      const result = (overrides: Partial<TestRunResult>) => ({
+        testRunId: testRun.id,
+        testCaseId: testCase.id,
+        testCaseName: testCase.name,
+        status: 'passed',
+        duration: 12.6,
+        scriptHash: 'v1',
+        errors: [],
+        ...overrides
+      }) as TestRunResult;
+
+      await mlTestingIntelligence.recordTestRun(testRun, [
+        result({ status: 'failed', errors: ['Error: expect(received).toBe(expected)'] }),
+        result({ testCaseId: null }),
+        result({ testCaseId: 9999 })
+      ]);
+
+      const history = await storage.getTestExecutionHistoryByProject(project.id);
+      const recorded = history.filter(record => record.testRunId === testRun.id);
+      expect(recorded).toHaveLength(1);
+      expect(recorded[0]).toMatchObject({ testCaseId: testCase.id, result: 'failed', duration: 13, errorType: 'AssertionError', scriptHash: 'v1' });
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({ flakinessScore: 75, quarantined: true });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Project } from '../../shared/schema';
+
+interface GitHubRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: any;
+}
+
+const SHA = 'c'.repeat(40);
+
+describe('GitHub Reporting Service', () => {
+  let server: http.Server;
+  let requests: GitHubRequest[];
+  // The services read GITHUB_API_URL when their configuration loads, so they are imported once the
+  // stub GitHub API is listening
+  let services: {
+    storage: typeof import('../../server/storage').storage;
+    useInMemoryStorage: typeof import('../setup/storage').useInMemoryStorage;
+    projectEvents: typeof import('../../server/services/project-events').projectEvents;
+    githubReportingService: typeof import('../../server/services/github-reporting').githubReportingService;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => data += chunk);
+      req.on('end', () => {
+        requests.push({ method: req.method!, path: req.url!, authorization: req.headers.authorization, body: data ? JSON.parse(data) : null });
+        res.setHeader('Content-Type', 'application/json');
+        res.statusCode = 201;
+        res.end(JSON.stringify({ id: 1, html_url: 'https://github.example.com/acme/shop/pull/7#issuecomment-1' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v3/`;
+
+    services = {
+      ...await import('../../server/storage'),
+      ...await import('../setup/storage'),
+      ...await import('../../server/services/project-events'),
+      ...await import('../../server/services/github-reporting')
+    };
+  });
+
+  afterAll(async () => {
+    services.githubReportingService.stop();
+    delete process.env.GITHUB_API_URL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  let project: Project;
+
+  beforeEach(async () => {
+    const { storage, useInMemoryStorage } = services;
+    useInMemoryStorage();
+    requests = [];
+    project = await storage.createProject({
+      name: 'Shop',
+      sourceType: 'github',
+      repositoryData: { owner: 'acme', repo: 'shop', branch: 'main', accessToken: 'repo-token' }
+    });
+  });
+
+  const createRun = () => services.storage.createTestRun({
+    projectId: project.id,
+    framework: 'jest',
+    status: 'running',
+    triggeredBy: 'webhook',
+    testCaseIds: [1, 2],
+    commitSha: SHA,
+    pullNumber: 7
+  });
+
+  const waitForRequests = async (count: number) => {
+    for (let i = 0; i < 100 && requests.length < count; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  it('should post the commit status to the configured GitHub API', async () => {
+    const testRun = await createRun();
+
+    expect(await services.githubReportingService.reportRun(testRun.id)).toBe(true);
+
+    expect(requests).toEqual([{
+      method: 'POST',
+      path: `/api/v3/repos/acme/shop/statuses/${SHA}`,
+      authorization: 'token repo-token',
+      body: {
+        state: 'pending',
+        context: 'matt/tests',
+        description: 'Running 2 tests',
+        target_url: `http://localhost:5000/api/test-runs/${testRun.id}`
+      }
+    }]);
+  });
+
+  it('should comment the failures on the pull request of a run with many', async () => {
+    const { storage, githubReportingService } = services;
+    const testRun = await createRun();
+    await storage.updateTestRun(testRun.id, {
+      status: 'completed',
+      summary: { total: 6, passed: 1, failed: 5, skipped: 0, flaky: 0, passRate: 16.7 }
+    });
+    for (let i = 1; i <= 5; i++) {
+      await storage.createTestRunResult({
+        testRunId: testRun.id,
+        testCaseId: i,
+        testCaseName: `checkout_step ${i}`,
+        status: 'failed',
+        attempt: 1,
+        duration: 10,
+        errors: [`Expected 200\n   but got \`500\``]
+      });
+    }
+
+    await githubReportingService.reportRun(testRun.id);
+
+    expect(requests.map(request => `${request.method} ${request.path}`)).toEqual([
+      `POST /api/v3/repos/acme/shop/statuses/${SHA}`,
+      'POST /api/v3/repos/acme/shop/issues/7/comments'
+    ]);
+    expect(requests[0].body).toMatchObject({ state: 'failure', description: '1 passed, 5 failed, 0 skipped (16.7% pass rate)' });
+    const comment: string = requests[1].body.body;
+    expect(comment.split('\n')[0]).toBe(`### MATT test run #${testRun.id}: 5 of 6 tests failed`);
+    expect(comment).toContain('| Test pass rate | ❌ Failed | 16.7% | 90% |');
+    expect(comment).toContain('- **checkout\\_step 1**\n  `Expected 200 but got \'500\'`');
+  });
+
+  it('should report a cancelled run as an error', async () => {
+    const { storage, projectEvents, githubReportingService } = services;
+    const testRun = await createRun();
+    githubReportingService.start();
+
+    await storage.updateTestRun(testRun.id, { status: 'cancelled', error: 'Cancelled by user' });
+    projectEvents.publish(project.id, 'run:cancelled', { testRunId: testRun.id, testCaseIds: [] });
+    await waitForRequests(1);
+    githubReportingService.stop();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toMatchObject({ state: 'error', description: 'Run cancelled' });
+  });
+});
@@ -0,0 +1,151 @@
+import { storage } from '../../server/storage';
+import { githubSyncService, GitHubSyncError } from '../../server/services/github-sync';
+import { githubService, type GitHubChangedFile, type GitHubRepository } from '../../server/services/github-integration';
+import { projectWorkspace } from '../../server/services/project-workspace';
+import type { Project } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+const BASE_SHA = 'a'.repeat(40);
+const HEAD_SHA = 'b'.repeat(40);
+
+const { getCommitSha, compareCommits, downloadFilesAt, acquireProject } = githubService;
+
+describe('GitHub Sync Service', () => {
+  let project: Project;
+  // The stub repository: the commit the branch points at, the tree of each commit and the compare result
+  let branchHead: string;
+  let trees: Map<string, Record<string, string>>;
+  let comparison: GitHubChangedFile[] | null;
+  let downloads: string[][];
+  let acquisitions: number;
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    branchHead = HEAD_SHA;
+    trees = new Map<string, Record<string, string>>([
+      [BASE_SHA, { 'src/cart.js': 'base cart', 'src/old-name.js': 'renamed', 'src/legacy.js': 'legacy', 'docs/guide.md': 'guide' }],
+      [HEAD_SHA, { 'src/cart.js': 'head cart', 'src/new-name.js': 'renamed', 'src/totals.js': 'totals', 'docs/guide.md': 'guide' }]
+    ]);
+    comparison = [
+      { path: 'src/cart.js', status: 'modified' },
+      { path: 'src/new-name.js', status: 'renamed', previousPath: 'src/old-name.js' },
+      { path: 'src/legacy.js', status: 'removed' },
+      { path: 'src/totals.js', status: 'added' }
+    ];
+    downloads = [];
+    acquisitions = 0;
+
+    githubService.getCommitSha = async () => branchHead;
+    githubService.compareCommits = async (_config, base, head) => base === BASE_SHA && head === HEAD_SHA ? comparison : null;
+    githubService.downloadFilesAt = async (_config, paths, ref) => {
+      downloads.push(paths);
+      return paths.map(path => ({ path, content: trees.get(ref)![path] }));
+    };
+    githubService.acquireProject = async config => {
+      acquisitions++;
+      const tree = trees.get(config.branch!)!;
+      return {
+        repository: {} as GitHubRepository,
+        files: Object.entries(tree).map(([path, content]) => ({ path, name: path, type: 'file', content, sha: path, size: content.length, url: '' })),
+        metadata: {},
+        commitSha: config.branch,
+        success: true
+      };
+    };
+
+    project = await storage.createProject({
+      name: 'Shop',
+      sourceType: 'github',
+      repositoryData: { owner: 'acme', repo: 'shop', branch: 'main' }
+    });
+  });
+
+  afterEach(async () => {
+    Object.assign(githubService, { getCommitSha, compareCommits, downloadFilesAt, acquireProject });
+    await projectWorkspace.remove(project.id);
+  });
+
+  // Bring the project to the base commit, as a first sync would
+  const syncToBase = async () => {
+    branchHead = BASE_SHA;
+    const { project: synced } = await githubSyncService.syncProject(project);
+    branchHead = HEAD_SHA;
+    acquisitions = 0;
+    return synced;
+  };
+
+  const workspaceTree = async () => Object.fromEntries(await Promise.all(
+    (await projectWorkspace.listFiles(project.id)).map(async file => [file.path, await projectWorkspace.readFile(project.id, file.path)])
+  ));
+
+  it('should download the whole tree on the first sync', async () => {
+    const { project: synced, result } = await githubSyncService.syncProject(project);
+
+    expect(result).toMatchObject({ upToDate: false, fullResync: true, branch: 'main', fromSha: null, toSha: HEAD_SHA, downloadedFiles: 4, removedFiles: 0 });
+    expect(await workspaceTree()).toEqual(trees.get(HEAD_SHA));
+    expect(synced).toMatchObject({ commitSha: HEAD_SHA, repositoryData: { commitSha: HEAD_SHA, fileCount: 4 } });
+  });
+
+  it('should apply only the changes since the last synced commit', async () => {
+    const atBase = await syncToBase();
+
+    const { project: synced, result } = await githubSyncService.syncProject(atBase);
+
+    expect(acquisitions).toBe(0);
+    expect(downloads.at(-1)).toEqual(['src/cart.js', 'src/new-name.js', 'src/totals.js']);
+    expect(result).toMatchObject({ fullResync: false, fromSha: BASE_SHA, toSha: HEAD_SHA, downloadedFiles: 3, removedFiles: 2, changedFiles: comparison });
+    expect(await workspaceTree()).toEqual(trees.get(HEAD_SHA));
+    const { syncHistory } = synced.repositoryData as any;
+    expect(syncHistory.map((entry: any) => [entry.fromSha, entry.toSha, entry.fullResync])).toEqual([[BASE_SHA, HEAD_SHA, false], [null, BASE_SHA, true]]);
+  });
+
+  it('should do nothing when the branch has not moved', async () => {
+    const atBase = await syncToBase();
+    branchHead = BASE_SHA;
+    downloads = [];
+
+    const { project: same, result } = await githubSyncService.syncProject(atBase);
+
+    expect(result).toMatchObject({ upToDate: true, changedFiles: [], downloadedFiles: 0 });
+    expect(downloads).toEqual([]);
+    expect(same).toBe(atBase);
+  });
+
+  it('should download the whole tree again when the diff is too large to apply', async () => {
+    const atBase = await syncToBase();
+    comparison = null;
+
+    const { result } = await githubSyncService.syncProject(atBase);
+
+    expect(acquisitions).toBe(1);
+    expect(result).toMatchObject({ fullResync: true, downloadedFiles: 4, removedFiles: 2 });
+    expect(await workspaceTree()).toEqual(trees.get(HEAD_SHA));
+  });
+
+  it('should ignore changes outside the directory a project tracks', async () => {
+    project = (await storage.updateProject(project.id, {
+      commitSha: BASE_SHA,
+      repositoryData: { ...(project.repositoryData as any), path: 'src/' }
+    }))!;
+    comparison!.push({ path: 'docs/guide.md', status: 'modified' }, { path: 'src/moved.js', status: 'renamed', previousPath: 'lib/moved.js' });
+    trees.get(HEAD_SHA)!['src/moved.js'] = 'moved in';
+
+    const { result } = await githubSyncService.syncProject(project);
+
+    expect(result.changedFiles.map(file => file.path)).toEqual(['src/cart.js', 'src/new-name.js', 'src/legacy.js', 'src/totals.js', 'src/moved.js']);
+    expect(downloads.at(-1)).toEqual(['src/cart.js', 'src/new-name.js', 'src/totals.js', 'src/moved.js']);
+  });
+
+  it('should share one sync between concurrent requests for a project', async () => {
+    const [first, second] = await Promise.all([githubSyncService.syncProject(project), githubSyncService.syncProject(project)]);
+
+    expect(second).toBe(first);
+    expect(acquisitions).toBe(1);
+  });
+
+  it('should refuse projects that are not on GitHub', async () => {
+    const upload = await storage.createProject({ name: 'Upload', sourceType: 'upload' });
+
+    await expect(githubSyncService.syncProject(upload)).rejects.toThrow(new GitHubSyncError('Only GitHub projects can be synced, not upload projects'));
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { storage } from '../../server/storage';
+import { GitHubWebhookService } from '../../server/services/github-webhook';
+import type { Project } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+// Set by jest.setup.js
+const SECRET = process.env.GITHUB_WEBHOOK_SECRET!;
+
+const sign = (body: Buffer, secret = SECRET) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const pushPayload = (overrides: Record<string, any> = {}) => ({
+  ref: 'refs/heads/main',
+  after: 'a'.repeat(40),
+  repository: { full_name: 'acme/shop' },
+  commits: [{ added: ['src/new.js'], modified: ['src/app.js'], removed: [] }],
+  ...overrides
+});
+
+describe('GitHub Webhook Service', () => {
+  let service: GitHubWebhookService;
+  let processed: { project: Project; trigger: any }[];
+
+  beforeEach(() => {
+    useInMemoryStorage();
+    service = new GitHubWebhookService();
+    processed = [];
+    // Processing syncs from GitHub; record what would be processed instead
+    (service as any).process = async (project: Project, trigger: any) => {
+      processed.push({ project, trigger });
+    };
+  });
+
+  describe('verifySignature', () => {
+    const body = Buffer.from(JSON.stringify(pushPayload()));
+
+    it('should accept a body signed with the webhook secret', () => {
+      expect(service.verifySignature(body, sign(body))).toBe(true);
+    });
+
+    it('should reject a signature made with another secret', () => {
+      expect(service.verifySignature(body, sign(body, 'other-secret'))).toBe(false);
+    });
+
+    it('should reject a body altered after signing', () => {
+      const signature = sign(body);
+      const altered = Buffer.from(body.toString().replace('main', 'prod'));
+      expect(service.verifySignature(altered, signature)).toBe(false);
+    });
+
+    it('should reject missing, truncated and non-sha256 signatures', () => {
+      expect(service.verifySignature(body, undefined)).toBe(false);
+      expect(service.verifySignature(undefined, sign(body))).toBe(false);
+      expect(service.verifySignature(body, sign(body).slice(0, 20))).toBe(false);
+      expect(service.verifySignature(body, `sha1=${crypto.createHmac('sha1', SECRET).update(body).digest('hex')}`)).toBe(false);
+    });
+
+    it('should report itself configured when a secret is set', () => {
+      expect(service.isConfigured()).toBe(true);
+    });
+  });
+
+  describe('accept', () => {
+    let project: Project;
+
+    beforeEach(async () => {
+      project = await storage.createProject({
+        name: 'Shop',
+        sourceType: 'github',
+        sourceUrl: 'https://github.com/acme/shop',
+        repositoryData: { owner: 'acme', repo: 'shop', branch: 'main' }
+      });
+    });
+
+    it('should process a push to the tracked branch with the pushed files', async () => {
+      const acceptance = await service.accept('push', 'delivery-1', pushPayload());
+
+      expect(acceptance).toEqual({ accepted: true, projectIds: [project.id] });
+      expect(processed).toHaveLength(1);
+      expect(processed[0].trigger).toMatchObject({
+        event: 'push',
+        deliveryId: 'delivery-1',
+        repository: 'acme/shop',
+        branch: 'main',
+        headSha: 'a'.repeat(40),
+        pushedFiles: ['src/new.js', 'src/app.js']
+      });
+    });
+
+    it('should skip a delivery it has already processed', async () => {
+      await service.accept('push', 'delivery-1', pushPayload());
+      const repeat = await service.accept('push', 'delivery-1', pushPayload());
+
+      expect(repeat).toEqual({ accepted: false, reason: 'Delivery already processed', projectIds: [] });
+      expect(processed).toHaveLength(1);
+    });
+
+    it('should skip a redelivery even when the first delivery was ignored', async () => {
+      await service.accept('push', 'delivery-2', pushPayload({ ref: 'refs/heads/feature' }));
+      const repeat = await service.accept('push', 'delivery-2', pushPayload({ ref: 'refs/heads/feature' }));
+
+      expect(repeat.reason).toBe('Delivery already processed');
+    });
+
+    it('should process deliveries with different ids', async () => {
+      await service.accept('push', 'delivery-1', pushPayload());
+      await service.accept('push', 'delivery-2', pushPayload());
+
+      expect(processed).toHaveLength(2);
+    });
+
+    it('should forget the oldest deliveries once it remembers 500', async () => {
+      await service.accept('push', 'delivery-0', pushPayload());
+      for (let i = 1; i <= 500; i++) {
+        await service.accept('ping', `ping-${i}`, {});
+      }
+
+      expect((await service.accept('push', 'delivery-0', pushPayload())).accepted).toBe(true);
+      expect((await service.accept('ping', 'ping-500', {})).reason).toBe('Delivery already processed');
+    });
+
+    it('should process pull requests against the tracked branch', async () => {
+      const acceptance = await service.accept('pull_request', 'delivery-3', {
+        action: 'synchronize',
+        repository: { full_name: 'ACME/Shop' },
+        pull_request: { number: 7, head: { sha: 'b'.repeat(40) }, base: { ref: 'main' } }
+      });
+
+      expect(acceptance.accepted).toBe(true);
+      expect(processed[0].trigger).toMatchObject({ event: 'pull_request', pullNumber: 7, headSha: 'b'.repeat(40), branch: 'main' });
+    });
+
+    it.each([
+      ['ping', {}, 'pong'],
+      ['issues', pushPayload(), 'Ignoring issues event'],
+      ['push', pushPayload({ ref: 'refs/tags/v1.0.0' }), 'Ignoring push to refs/tags/v1.0.0'],
+      ['push', pushPayload({ deleted: true, after: '0'.repeat(40) }), 'Ignoring branch deletion'],
+      ['push', pushPayload({ repository: undefined }), 'Payload has no repository'],
+      ['pull_request', { action: 'closed', repository: { full_name: 'acme/shop' } }, 'Ignoring pull_request closed'],
+      ['push', pushPayload({ ref: 'refs/heads/develop' }), 'No project tracks acme/shop@develop'],
+      ['push', pushPayload({ repository: { full_name: 'acme/other' } }), 'No project tracks acme/other@main']
+    ])('should ignore a %s delivery that does not apply: %#', async (event, payload, reason) => {
+      const acceptance = await service.accept(event, `delivery-${reason}`, payload);
+
+      expect(acceptance).toEqual({ accepted: false, reason, projectIds: [] });
+      expect(processed).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+interface GitLabRequest {
+  path: string;
+  query: URLSearchParams;
+  token?: string;
+}
+
+const SHA = 'd'.repeat(40);
+const PROJECT = '/api/v4/projects/acme%2Fweb%2Fshop';
+
+const encoded = (content: string) => ({ size: content.length, content: Buffer.from(content).toString('base64') });
+
+describe('GitLab Integration Service', () => {
+  let server: http.Server;
+  let serverUrl: string;
+  let requests: GitLabRequest[];
+  let userStatus: number;
+  // The service reads GITLAB_URL and GITLAB_TOKEN when its configuration loads, so it is imported
+  // once the stub GitLab is listening
+  let gitlabService: typeof import('../../server/services/gitlab-integration').gitlabService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://gitlab');
+      // Keep the encoded project path, as GitLab routes on it
+      const path = req.url!.split('?')[0];
+      requests.push({ path, query: url.searchParams, token: req.headers['private-token'] as string | undefined });
+      const send = (body: unknown, headers: Record<string, string> = {}, status = 200) => {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(body));
+      };
+
+      switch (path) {
+        case PROJECT:
+          return send({
+            id: 7,
+            name: 'shop',
+            path_with_namespace: 'acme/web/shop',
+            visibility: 'private',
+            default_branch: 'main',
+            readme_url: `${serverUrl}/acme/web/shop/-/blob/main/docs/READ%20ME.md`
+          });
+        case `${PROJECT}/repository/commits/main`:
+          return send({ id: SHA });
+        case `${PROJECT}/repository/tree`:
+          // Two pages, linked through x-next-page
+          return url.searchParams.get('page') === '1'
+            ? send([
+              { id: 'b1', name: 'src', type: 'tree', path: 'src', mode: '040000' },
+              { id: 'b2', name: 'app.ts', type: 'blob', path: 'src/app.ts', mode: '100644' },
+              { id: 'b3', name: 'logo.png', type: 'blob', path: 'src/logo.png', mode: '100644' }
+            ], { 'x-next-page': '2' })
+            : send([
+              { id: 'b4', name: 'bundle.js', type: 'blob', path: 'dist/bundle.js', mode: '100644' },
+              { id: 'b5', name: 'vendor', type: 'commit', path: 'vendor', mode: '160000' }
+            ], { 'x-next-page': '' });
+        case `${PROJECT}/repository/files/src%2Fapp.ts`:
+          return send(encoded('export const app = 1;'));
+        case `${PROJECT}/repository/files/dist%2Fbundle.js`:
+          // Too large to analyse
+          return send({ size: 2 * 1024 * 1024, content: 'eA==' });
+        case `${PROJECT}/repository/files/docs%2FREAD%20ME.md`:
+          return send(encoded('# Shop'));
+        case `${PROJECT}/languages`:
+          return send({ TypeScript: 92.5, Shell: 7.5 });
+        case '/api/v4/user':
+          return userStatus === 200
+            ? send({ username: 'qa' }, { 'ratelimit-limit': '2000', 'ratelimit-remaining': '1999', 'ratelimit-reset': '1760000000' })
+            : send({ message: '401 Unauthorized' }, {}, userStatus);
+        case '/api/v4/version':
+          return send({ version: '16.11.2-ee' });
+        case '/api/v4/projects':
+          return send([{ id: 7, path_with_namespace: 'acme/web/shop' }], { 'x-total': '31' });
+        default:
+          return send({ message: '404 Project Not Found' }, {}, 404);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.GITLAB_URL = serverUrl;
+    process.env.GITLAB_TOKEN = 'instance-token';
+
+    ({ gitlabService } = await import('../../server/services/gitlab-integration'));
+  });
+
+  afterAll(async () => {
+    delete process.env.GITLAB_URL;
+    delete process.env.GITLAB_TOKEN;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    userStatus = 200;
+  });
+
+  describe('acquireProject', () => {
+    it('should download the code files of every tree page at the pinned commit', async () => {
+      const result = await gitlabService.acquireProject({ serverUrl: `${serverUrl}/`, projectPath: 'acme/web/shop', accessToken: 'project-token' });
+
+      expect(result).toMatchObject({ success: true, commitSha: SHA });
+      expect(result.files).toEqual([
+        { path: 'src/app.ts', name: 'app.ts', type: 'file', sha: 'b2', size: 21, content: 'export const app = 1;' }
+      ]);
+      expect(result.metadata).toMatchObject({
+        branch: 'main',
+        commitSha: SHA,
+        totalFiles: 1,
+        languages: { TypeScript: 92.5, Shell: 7.5 },
+        readme: '# Shop'
+      });
+      const contentRequests = requests.filter(request => /\/repository\/(tree|files)\//.test(`${request.path}/`));
+      expect(contentRequests.map(request => request.query.get('ref'))).toEqual(Array(contentRequests.length).fill(SHA));
+      expect(contentRequests.filter(request => request.path.endsWith('/tree')).map(request => request.query.get('page'))).toEqual(['1', '2']);
+      expect(requests.some(request => request.path.endsWith('logo.png'))).toBe(false);
+      expect(requests.every(request => request.token === 'project-token')).toBe(true);
+    });
+
+    it('should send the instance token to its own instance only', async () => {
+      await gitlabService.acquireProject({ projectPath: 'acme/web/shop' });
+      const ownInstance = requests;
+      requests = [];
+
+      // The same server under another name stands in for a different instance
+      await gitlabService.acquireProject({ serverUrl: serverUrl.replace('127.0.0.1', 'localhost'), projectPath: 'acme/web/shop' });
+
+      expect(ownInstance.every(request => request.token === 'instance-token')).toBe(true);
+      expect(requests.length).toBeGreaterThan(0);
+      expect(requests.every(request => request.token === undefined)).toBe(true);
+    });
+
+    it('should report a project that cannot be read', async () => {
+      const result = await gitlabService.acquireProject({ serverUrl, projectPath: 'acme/missing' });
+
+      expect(result).toMatchObject({ success: false, files: [], error: 'Failed to get repository: 404 Not Found' });
+    });
+
+    it('should refuse a server URL that is not http', async () => {
+      const result = await gitlabService.acquireProject({ serverUrl: 'file:///etc', projectPath: 'acme/web/shop' });
+
+      expect(result).toMatchObject({ success: false, error: 'Invalid GitLab URL "file:///etc". Use an http or https URL' });
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe('testConnection', () => {
+    it('should report the user, instance version and rate limit', async () => {
+      expect(await gitlabService.testConnection('user-token', serverUrl)).toEqual({
+        connected: true,
+        userInfo: { username: 'qa' },
+        version: '16.11.2-ee',
+        rateLimit: { limit: 2000, remaining: 1999, reset: 1760000000 },
+        error: undefined
+      });
+    });
+
+    it('should flag a token the instance refuses', async () => {
+      userStatus = 401;
+
+      expect(await gitlabService.testConnection('expired-token', serverUrl)).toMatchObject({
+        connected: true,
+        userInfo: null,
+        error: 'Invalid token or unauthorized'
+      });
+      expect(requests.map(request => request.path)).toEqual(['/api/v4/user']);
+    });
+  });
+
+  describe('searchRepositories', () => {
+    it('should search by recent activity and report the total', async () => {
+      const result = await gitlabService.searchRepositories('shop', { serverUrl });
+
+      expect(result).toMatchObject({ success: true, total_count: 31 });
+      expect(Object.fromEntries(requests[0].query)).toEqual({ search: 'shop', order_by: 'last_activity_at', sort: 'desc', per_page: '10' });
+    });
+  });
+});
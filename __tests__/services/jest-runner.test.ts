@@ -0,0 +1,138 @@
+import os from 'os';
+import path from 'path';
+import { jestRunner, type JestProgressEvent, type JestTestCaseResult } from '../../server/services/jest-runner';
+
+describe('Jest Runner', () => {
+  const scripts: Record<number, string> = {
+    1: `
+test('adds numbers', () => {
+  console.log('adding in case one');
+  expect(1 + 1).toBe(2);
+});
+
+test('concatenates strings', () => {
+  expect('a' + 'b').toBe('ab');
+});
+`,
+    2: `
+test('compares values', () => {
+  console.log('comparing in case two');
+  expect(2 + 2).toBe(5);
+});
+`,
+    3: `throw new Error('broken at load time');\n`,
+    4: `import { sum } from './sum';\ntest('sum', () => expect(sum(1, 2)).toBe(3));\n`,
+    5: `const value: number = 1;\ntest('typed', () => expect(value).toBe(1));\n`,
+    6: `const { execSync } = require('child_process');\ntest('spawns', () => execSync('echo hi'));\n`,
+    7: '   ',
+    8: `test.skip('not yet', () => {});\n`,
+    9: `
+const fs = require('fs');
+const codeOf = fn => { try { fn(); return 'allowed'; } catch (error) { return error.code; } };
+
+test('reads outside the workspace', () => expect(codeOf(() => fs.readFileSync(${JSON.stringify(path.resolve('package.json'))}))).toBe('ERR_ACCESS_DENIED'));
+test('writes outside the workspace', () => expect(codeOf(() => fs.writeFileSync(${JSON.stringify(path.join(os.tmpdir(), `jest-runner-escape-${process.pid}`))}, 'x'))).toBe('ERR_ACCESS_DENIED'));
+test('links outside the workspace', () => expect(codeOf(() => fs.symlinkSync('/', 'root-link'))).toBe('ERR_ACCESS_DENIED'));
+test('loads native bindings', () => expect(codeOf(() => process.binding('spawn_sync'))).toBe('ERR_ACCESS_DENIED'));
+test('reads its own workspace', () => expect(fs.readFileSync(__filename, 'utf-8')).toContain('codeOf'));
+`
+  };
+
+  let results: JestTestCaseResult[];
+  const progress: JestProgressEvent[] = [];
+  const resultFor = (id: number) => results.find(result => result.testCaseId === id)!;
+
+  beforeAll(async () => {
+    const testCases = Object.entries(scripts).map(([id, testScript]) => ({
+      id: Number(id),
+      name: `Case ${id}`,
+      testScript
+    }));
+    results = await jestRunner.runTestCases(testCases, {
+      runId: `jest-runner-test-${process.pid}`,
+      timeoutMs: 120000,
+      onProgress: event => progress.push(event)
+    });
+  }, 180000);
+
+  it('should return one result per test case in input order', () => {
+    expect(results.map(result => result.testCaseId)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(results.map(result => result.name)).toEqual(Object.keys(scripts).map(id => `Case ${id}`));
+  });
+
+  it('should map a passing file to a passed result with its assertions', () => {
+    const result = resultFor(1);
+    expect(result.status).toBe('passed');
+    expect(result.errors).toEqual([]);
+    expect(result.assertions.map(assertion => [assertion.title, assertion.status])).toEqual([
+      ['adds numbers', 'passed'],
+      ['concatenates strings', 'passed']
+    ]);
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should map a failed assertion to a failed result with its failure message', () => {
+    const result = resultFor(2);
+    expect(result.status).toBe('failed');
+    expect(result.assertions).toHaveLength(1);
+    expect(result.assertions[0].status).toBe('failed');
+    expect(result.errors.join('\n')).toContain('Expected: 5');
+  });
+
+  it('should attribute console output to the file that wrote it', () => {
+    expect(resultFor(1).stdout).toContain('adding in case one');
+    expect(resultFor(1).stdout).not.toContain('comparing in case two');
+    expect(resultFor(2).stdout).toContain('comparing in case two');
+    expect(resultFor(2).stdout).not.toContain('adding in case one');
+  });
+
+  it('should report a suite that fails to load with the suite message', () => {
+    const result = resultFor(3);
+    expect(result.status).toBe('failed');
+    expect(result.assertions).toEqual([]);
+    expect(result.errors.join('\n')).toContain('broken at load time');
+    expect(result.stdout).not.toMatch(/\x1b\[/);
+  });
+
+  it('should reject ES module and TypeScript scripts before running Jest', () => {
+    expect(resultFor(4).status).toBe('failed');
+    expect(resultFor(4).errors[0]).toContain('ES module syntax');
+    expect(resultFor(5).status).toBe('failed');
+    expect(resultFor(5).errors[0]).toContain('TypeScript');
+  });
+
+  it('should deny process-spawning modules to test scripts', () => {
+    const result = resultFor(6);
+    expect(result.status).toBe('failed');
+    expect(result.errors.join('\n')).toContain('child_process is not available to test scripts');
+  });
+
+  it('should confine test scripts to their workspace', () => {
+    const result = resultFor(9);
+    expect(result.errors).toEqual([]);
+    expect(result.assertions.map(assertion => [assertion.title, assertion.status])).toEqual([
+      ['reads outside the workspace', 'passed'],
+      ['writes outside the workspace', 'passed'],
+      ['links outside the workspace', 'passed'],
+      ['loads native bindings', 'passed'],
+      ['reads its own workspace', 'passed']
+    ]);
+  });
+
+  it('should skip test cases without a script', () => {
+    expect(resultFor(7)).toMatchObject({ status: 'skipped', errors: ['Test case has no test script'] });
+  });
+
+  it('should map a file whose tests are all skipped to a skipped result', () => {
+    const result = resultFor(8);
+    expect(result.status).toBe('skipped');
+    expect(result.assertions.map(assertion => assertion.status)).toEqual(['pending']);
+  });
+
+  it('should report a finished progress event for every test case', () => {
+    const finished = progress.filter(event => event.phase === 'finished');
+    expect(new Set(finished.map(event => event.testCaseId))).toEqual(new Set([1, 2, 3, 4, 5, 6, 7, 8, 9]));
+    expect(finished.find(event => event.testCaseId === 1)?.status).toBe('passed');
+    expect(finished.find(event => event.testCaseId === 2)?.status).toBe('failed');
+  });
+});
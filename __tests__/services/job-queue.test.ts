@@ -0,0 +1,207 @@
+import { storage } from '../../server/storage';
+import { JobQueue } from '../../server/services/job-queue';
+import type { Job } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+async function waitForJob(jobId: number, done: (job: Job) => boolean): Promise<Job> {
+  for (let i = 0; i < 200; i++) {
+    const job = await storage.getJob(jobId);
+    if (job && done(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Job ${jobId} never reached the expected state`);
+}
+
+function waitForStatus(jobId: number, statuses: string[]): Promise<Job> {
+  return waitForJob(jobId, job => statuses.includes(job.status || ''));
+}
+
+describe('Job Queue', () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    useInMemoryStorage();
+    queue = new JobQueue();
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    // Let the queue's last poll run against this test's store before the next test replaces it
+    await new Promise(resolve => setTimeout(resolve, 20));
+  });
+
+  describe('claiming', () => {
+    it('should run an enqueued job and store its result', async () => {
+      const seen: Job[] = [];
+      queue.register('analysis', async job => {
+        seen.push(job);
+        return { analysed: job.payload };
+      }, { concurrency: 1 });
+
+      const job = await queue.enqueue('analysis', 7, { branch: 'main' });
+      const completed = await waitForStatus(job.id, ['completed']);
+
+      expect(seen).toHaveLength(1);
+      expect(seen[0]).toMatchObject({ status: 'running', attempts: 1 });
+      expect(completed.result).toEqual({ analysed: { branch: 'main' } });
+      expect(completed.lockedBy).toBeNull();
+      expect(completed.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not run more jobs of a type at once than its concurrency allows', async () => {
+      let active = 0;
+      let maxActive = 0;
+      queue.register('test_run', async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        active--;
+      }, { concurrency: 2 });
+
+      const jobs = await Promise.all([1, 2, 3, 4, 5].map(() => queue.enqueue('test_run', 1)));
+      await Promise.all(jobs.map(job => waitForStatus(job.id, ['completed'])));
+
+      expect(maxActive).toBe(2);
+    });
+
+    it('should leave jobs of other types queued', async () => {
+      queue.register('analysis', async () => 'done', { concurrency: 1 });
+      const job = await storage.createJob({ type: 'test_run', projectId: 1, payload: {}, maxAttempts: 3 });
+
+      const analysis = await queue.enqueue('analysis', 1);
+      await waitForStatus(analysis.id, ['completed']);
+
+      expect((await storage.getJob(job.id))?.status).toBe('queued');
+    });
+
+    it('should discard the result of a job whose lock was taken over while it ran', async () => {
+      queue.register('analysis', async job => {
+        await storage.updateJob(job.id, { lockedBy: 'another-worker' });
+        return 'stale result';
+      }, { concurrency: 1 });
+
+      const job = await queue.enqueue('analysis', 1);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const current = await storage.getJob(job.id);
+      expect(current).toMatchObject({ status: 'running', lockedBy: 'another-worker', result: null });
+    });
+  });
+
+  describe('retries', () => {
+    it('should requeue a failed job until it succeeds', async () => {
+      let calls = 0;
+      queue.register('analysis', async () => {
+        calls++;
+        if (calls < 3) throw new Error(`attempt ${calls} failed`);
+        return 'third time lucky';
+      }, { concurrency: 1, maxAttempts: 3, backoffMs: 0 });
+
+      const job = await queue.enqueue('analysis', 1);
+      const completed = await waitForStatus(job.id, ['completed']);
+
+      expect(calls).toBe(3);
+      expect(completed).toMatchObject({ attempts: 3, result: 'third time lucky', lastError: null });
+    });
+
+    it('should fail a job permanently once its attempts are used up', async () => {
+      const failures: string[] = [];
+      queue.register('analysis', async () => {
+        throw new Error('always broken');
+      }, {
+        concurrency: 1,
+        maxAttempts: 2,
+        backoffMs: 0,
+        onFailure: async (_job, error) => {
+          failures.push(error);
+        }
+      });
+
+      const job = await queue.enqueue('analysis', 1);
+      const failed = await waitForStatus(job.id, ['failed']);
+
+      expect(failed).toMatchObject({ attempts: 2, lastError: 'always broken', lockedBy: null });
+      expect(failures).toEqual(['always broken']);
+    });
+
+    it('should delay a retry by the backoff', async () => {
+      queue.register('analysis', async () => {
+        throw new Error('try later');
+      }, { concurrency: 1, maxAttempts: 3, backoffMs: 60000 });
+
+      const before = Date.now();
+      const job = await queue.enqueue('analysis', 1);
+      const requeued = await waitForJob(job.id, current => current.status === 'queued' && current.attempts === 1);
+
+      expect(requeued.lastError).toBe('try later');
+      expect(new Date(requeued.runAt!).getTime()).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('should requeue a job whose worker stopped refreshing its lock', async () => {
+      queue.register('analysis', async () => 'unused', { concurrency: 0 });
+      const job = await storage.createJob({ type: 'analysis', projectId: 1, payload: {}, maxAttempts: 3 });
+      await storage.claimNextJob('analysis', 'crashed-worker');
+      await storage.updateJob(job.id, { lockedAt: new Date(0) });
+
+      await (queue as any).recoverStaleJobs();
+
+      expect(await storage.getJob(job.id)).toMatchObject({ status: 'queued', lockedBy: null, attempts: 1 });
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel a queued job without running it', async () => {
+      const cancelled: number[] = [];
+      let ran = false;
+      queue.register('test_run', async () => {
+        ran = true;
+      }, {
+        concurrency: 0,
+        onCancel: async job => {
+          cancelled.push(job.id);
+        }
+      });
+
+      const job = await queue.enqueue('test_run', 1);
+      const result = await queue.cancel(job.id);
+
+      expect(result).toMatchObject({ status: 'cancelled', lastError: 'Cancelled by user' });
+      expect(cancelled).toEqual([job.id]);
+      expect(ran).toBe(false);
+    });
+
+    it('should abort a running job and report it once the handler has stopped', async () => {
+      const cancelled: Job[] = [];
+      let started!: () => void;
+      const running = new Promise<void>(resolve => { started = resolve; });
+      queue.register('test_run', (_job, signal) => new Promise((_resolve, reject) => {
+        started();
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }), {
+        concurrency: 1,
+        onCancel: async job => {
+          cancelled.push(job);
+        }
+      });
+
+      const job = await queue.enqueue('test_run', 1);
+      await running;
+      await queue.cancel(job.id);
+      for (let i = 0; i < 100 && cancelled.length === 0; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(cancelled.map(cancelledJob => cancelledJob.id)).toEqual([job.id]);
+      expect(await storage.getJob(job.id)).toMatchObject({ status: 'cancelled', lockedBy: null });
+    });
+
+    it('should not cancel a job that has already finished', async () => {
+      queue.register('analysis', async () => 'done', { concurrency: 1 });
+      const job = await queue.enqueue('analysis', 1);
+      await waitForStatus(job.id, ['completed']);
+
+      expect(await queue.cancel(job.id)).toBeUndefined();
+      expect((await storage.getJob(job.id))?.status).toBe('completed');
+    });
+  });
+});
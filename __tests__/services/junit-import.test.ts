@@ -0,0 +1,117 @@
+import { storage } from '../../server/storage';
+import { junitImportService, JUnitParseError } from '../../server/services/junit-import';
+import type { Project } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="4" failures="1" time="1.5">
+  <testsuite name="math" tests="3">
+    <testcase classname="math" name="adds" time="0.25">
+      <system-out>added</system-out>
+    </testcase>
+    <testcase classname="math" name="divides" time="0.5">
+      <failure message="expected 2" type="AssertionError">Expected: 2
+Received: 3</failure>
+    </testcase>
+    <testcase classname="math" name="rounds" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+  <testsuite name="strings">
+    <testsuite name="nested">
+      <testcase classname="strings" name="trims" time="1,000.5"/>
+    </testsuite>
+  </testsuite>
+</testsuites>`;
+
+describe('JUnit Import', () => {
+  describe('parse', () => {
+    it('should read test cases from nested suites with their status and duration', () => {
+      const report = junitImportService.parse(REPORT);
+
+      expect(report.duration).toBe(1500);
+      expect(report.testCases.map(tc => [tc.suiteName, tc.name, tc.status, tc.duration])).toEqual([
+        ['math', 'adds', 'passed', 250],
+        ['math', 'divides', 'failed', 500],
+        ['math', 'rounds', 'skipped', 0],
+        ['nested', 'trims', 'passed', 1000500]
+      ]);
+    });
+
+    it('should keep failure details and system output', () => {
+      const [adds, divides] = junitImportService.parse(REPORT).testCases;
+
+      expect(adds.stdout).toBe('added');
+      expect(divides.className).toBe('math');
+      expect(divides.errors).toEqual(['AssertionError: expected 2: Expected: 2\nReceived: 3']);
+    });
+
+    it('should accept a bare testsuite root and treat errors as failures', () => {
+      const report = junitImportService.parse(`
+        <testsuite name="pytest">
+          <testcase classname="tests.test_api" name="test_get" time="0.1"><error message="boom"/></testcase>
+        </testsuite>`);
+
+      expect(report.testCases).toHaveLength(1);
+      expect(report.testCases[0]).toMatchObject({ status: 'failed', errors: ['boom'] });
+      expect(report.duration).toBe(100);
+    });
+
+    it('should reject malformed XML', () => {
+      expect(() => junitImportService.parse('<testsuites><testsuite></testsuites>')).toThrow(JUnitParseError);
+    });
+
+    it('should reject documents that are not JUnit reports', () => {
+      expect(() => junitImportService.parse('<coverage line-rate="1"/>')).toThrow('Expected a <testsuites> or <testsuite> root element');
+    });
+  });
+
+  describe('importReport', () => {
+    let project: Project;
+
+    beforeEach(async () => {
+      useInMemoryStorage();
+      project = await storage.createProject({ name: 'Imported project', sourceType: 'upload' });
+    });
+
+    it('should match existing test cases and create the missing ones', async () => {
+      const existing = await storage.createTestCase({ projectId: project.id, name: 'math adds', type: 'unit', priority: 'high', testScript: 'test("math adds", () => {});' });
+      const dotted = await storage.createTestCase({ projectId: project.id, name: 'math.divides', type: 'unit', priority: 'high' });
+
+      const result = await junitImportService.importReport(project, REPORT, { commitSha: 'abc123' });
+
+      expect(result.matched).toBe(2);
+      expect(result.created).toBe(2);
+      expect(result.testRun).toMatchObject({ status: 'completed', framework: 'junit', triggeredBy: 'import', commitSha: 'abc123' });
+      expect(result.summary).toMatchObject({ total: 4, passed: 2, failed: 1, skipped: 1 });
+
+      const testCases = await storage.getTestCasesByProject(project.id);
+      expect(testCases.map(tc => tc.name).sort()).toEqual(['math adds', 'math.divides', 'rounds', 'trims']);
+      expect(testCases.find(tc => tc.name === 'trims')).toMatchObject({ generatedBy: 'junit-import', testScript: null });
+      expect((await storage.getTestCase(existing.id))?.status).toBe('passed');
+      expect((await storage.getTestCase(dotted.id))?.status).toBe('failed');
+
+      const runResults = await storage.getTestRunResults(result.testRun.id);
+      expect(runResults.find(r => r.testCaseId === dotted.id)?.errors).toEqual(['AssertionError: expected 2: Expected: 2\nReceived: 3']);
+      // The report came from outside, so it claims no stored script version
+      expect(runResults.find(r => r.testCaseId === existing.id)).toMatchObject({ testScript: null, scriptHash: null });
+    });
+
+    it('should fail a test reported more than once if any instance failed', async () => {
+      const result = await junitImportService.importReport(project, `
+        <testsuite name="params">
+          <testcase name="handles input" time="0.1"/>
+          <testcase name="handles input" time="0.2"><failure message="bad input"/></testcase>
+        </testsuite>`);
+
+      expect(result.created).toBe(1);
+      expect(result.summary).toMatchObject({ total: 1, failed: 1 });
+      const [runResult] = await storage.getTestRunResults(result.testRun.id);
+      expect(runResult).toMatchObject({ status: 'failed', duration: 300, errors: ['bad input'] });
+    });
+
+    it('should reject a report without test cases', async () => {
+      await expect(junitImportService.importReport(project, '<testsuites name="empty"></testsuites>')).rejects.toThrow('The report contains no test cases');
+    });
+  });
+});
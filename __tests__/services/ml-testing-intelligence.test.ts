@@ -0,0 +1,101 @@
+import { storage } from '../../server/storage';
+import { MLTestingIntelligence } from '../../server/services/ml-testing-intelligence';
+import type { Project, TestCase, TestRun } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+describe('ML Testing Intelligence', () => {
+  let project: Project;
+  let checkout: TestCase;
+  let search: TestCase;
+  let untested: TestCase;
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    project = await storage.createProject({ name: 'Shop', sourceType: 'upload' });
+    checkout = await storage.createTestCase({ projectId: project.id, name: 'pays by card', type: 'e2e', priority: 'high' });
+    search = await storage.createTestCase({ projectId: project.id, name: 'finds products', type: 'unit', priority: 'medium' });
+    untested = await storage.createTestCase({ projectId: project.id, name: 'prints invoices', type: 'unit', priority: 'low' });
+  });
+
+  // Record a completed run the way the executor does: one result per attempt
+  async function recordRun(intelligence: MLTestingIntelligence, results: Array<{ testCase: TestCase; status: string; duration: number; attempt?: number; errors?: string[] }>): Promise<TestRun> {
+    const testRun = await storage.createTestRun({ projectId: project.id, framework: 'jest', status: 'completed', triggeredBy: 'manual' });
+    const runResults = [];
+    for (const { testCase, status, duration, attempt, errors } of results) {
+      runResults.push(await storage.createTestRunResult({
+        testRunId: testRun.id,
+        testCaseId: testCase.id,
+        testCaseName: testCase.name,
+        status,
+        attempt: attempt ?? 1,
+        duration,
+        scriptHash: 'v1',
+        errors: errors ?? []
+      }));
+    }
+    await intelligence.recordTestRun(testRun, runResults);
+    return testRun;
+  }
+
+  describe('recordTestRun', () => {
+    it('should persist every attempt with its script version and error category', async () => {
+      const testRun = await recordRun(new MLTestingIntelligence(), [
+        { testCase: checkout, status: 'failed', duration: 1200, errors: ['Timed out after 5000ms'] },
+        { testCase: checkout, status: 'passed', duration: 800, attempt: 2 },
+        { testCase: search, status: 'failed', duration: 40, errors: ['TypeError: results is undefined'] }
+      ]);
+
+      const records = await storage.getTestExecutionHistoryByProject(project.id);
+
+      expect(records.map(record => [record.testCaseId, record.result, record.duration, record.errorType])).toEqual([
+        [checkout.id, 'failed', 1200, 'Timeout'],
+        [checkout.id, 'passed', 800, null],
+        [search.id, 'failed', 40, 'TypeError']
+      ]);
+      expect(records.every(record => record.testRunId === testRun.id && record.scriptHash === 'v1')).toBe(true);
+    });
+  });
+
+  describe('after a restart', () => {
+    beforeEach(async () => {
+      const previousProcess = new MLTestingIntelligence();
+      await recordRun(previousProcess, [
+        { testCase: checkout, status: 'failed', duration: 1000, errors: ['expect(received).toBe(expected)'] },
+        { testCase: search, status: 'passed', duration: 100 }
+      ]);
+      await recordRun(previousProcess, [
+        { testCase: checkout, status: 'passed', duration: 2000 },
+        { testCase: search, status: 'passed', duration: 300 }
+      ]);
+    });
+
+    it('should score risk from the persisted history alone', async () => {
+      const riskScores = await new MLTestingIntelligence().calculateRiskScores(project.id);
+      const factorsOf = (testCase: TestCase) => riskScores.find(score => score.testCaseId === testCase.id)!.factors;
+
+      expect(factorsOf(checkout)).toMatchObject({ historicalFailureRate: 50, lastFailureRecency: 100 });
+      expect(factorsOf(search)).toMatchObject({ historicalFailureRate: 0, lastFailureRecency: 0 });
+      expect(factorsOf(untested)).toMatchObject({ historicalFailureRate: 0, lastFailureRecency: 0 });
+    });
+
+    it('should estimate durations from the recorded executions', async () => {
+      const { orderedTests, estimatedTotalTime } = await new MLTestingIntelligence().optimizeTestExecutionOrder(project.id);
+      const durationOf = (testCase: TestCase) => orderedTests.find(test => test.testCaseId === testCase.id)!.estimatedDuration;
+
+      expect(durationOf(checkout)).toBe(1500);
+      expect(durationOf(search)).toBe(200);
+      // Tests without history get the default estimate
+      expect(durationOf(untested)).toBe(3000);
+      expect(estimatedTotalTime).toBe(4700);
+    });
+
+    it('should keep projects apart', async () => {
+      const other = await storage.createProject({ name: 'Other', sourceType: 'upload' });
+      await storage.createTestCase({ projectId: other.id, name: 'pays by card', type: 'e2e', priority: 'high' });
+
+      const [score] = await new MLTestingIntelligence().calculateRiskScores(other.id);
+
+      expect(score.factors.historicalFailureRate).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { storage } from '../../server/storage';
+import { openApiContractService, OpenApiSpecError, type ContractTest } from '../../server/services/openapi-contract';
+import { useInMemoryStorage } from '../setup/storage';
+
+const SPEC = `
+openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.2.0
+servers:
+  - url: https://{region}.pets.example.com/v1/
+    variables:
+      region:
+        default: eu
+security:
+  - bearerAuth: []
+paths:
+  /pets:
+    get:
+      tags: [pets]
+      summary: List pets
+      security: []
+      parameters:
+        - name: limit
+          in: query
+          required: true
+          schema: { type: integer, minimum: 5 }
+      responses:
+        '200':
+          description: A page of pets
+          content:
+            application/json:
+              schema:
+                type: array
+                items: { $ref: '#/components/schemas/Pet' }
+        '400':
+          description: Bad limit
+        '401':
+          description: Never sent
+    post:
+      operationId: createPet
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/NewPet' }
+      responses:
+        '201':
+          description: Created
+        '422':
+          description: Invalid pet
+        '401':
+          description: Missing token
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema: { type: integer }
+    get:
+      responses:
+        '200':
+          description: A pet
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+        '404':
+          description: Not found
+        '409':
+          description: Conflict
+components:
+  securitySchemes:
+    bearerAuth: { type: http, scheme: bearer }
+  schemas:
+    NewPet:
+      type: object
+      required: [name, kind]
+      properties:
+        id: { type: integer, readOnly: true }
+        name: { type: string, minLength: 8 }
+        kind: { type: string, enum: [dog, cat] }
+        nickname: { type: string }
+    Pet:
+      allOf:
+        - $ref: '#/components/schemas/NewPet'
+        - type: object
+          properties:
+            owner: { type: string, nullable: true }
+            parent: { $ref: '#/components/schemas/Pet' }
+`;
+
+// The request a generated test sends, read back from its script
+function requestOf(test: ContractTest): any {
+  const match = test.testScript.match(/^const REQUEST = ([\s\S]*?);$/m);
+  return match ? JSON.parse(match[1]) : null;
+}
+
+function schemaOf(test: ContractTest): any {
+  const match = test.testScript.match(/^const RESPONSE_SCHEMA = ([\s\S]*?);$/m);
+  return match ? JSON.parse(match[1]) : undefined;
+}
+
+describe('OpenAPI Contract Service', () => {
+  describe('parseDocument', () => {
+    it('should parse YAML and JSON documents', () => {
+      expect(openApiContractService.parseDocument(SPEC).info.title).toBe('Petstore');
+      expect(openApiContractService.parseDocument('{"openapi":"3.1.0","paths":{}}', 'api.json').openapi).toBe('3.1.0');
+    });
+
+    it.each([
+      ['{"swagger":"2.0","paths":{}}', 'is a Swagger 2.0 document; only OpenAPI 3 is supported'],
+      ['openapi: 2.0\npaths: {}', 'has no openapi: 3.x version field'],
+      ['openapi: "3.0.0"', 'has no paths'],
+      ['- just\n- a list', 'is not an OpenAPI document'],
+      ['openapi: [unclosed', 'is not valid JSON or YAML']
+    ])('should reject %j', (content, message) => {
+      expect(() => openApiContractService.parseDocument(content)).toThrow(OpenApiSpecError);
+      expect(() => openApiContractService.parseDocument(content)).toThrow(message);
+    });
+  });
+
+  describe('listOperations', () => {
+    it('should apply path-level parameters and the default security', () => {
+      const operations = openApiContractService.listOperations(openApiContractService.parseDocument(SPEC));
+
+      expect(operations.map(operation => `${operation.method} ${operation.path}`)).toEqual(['GET /pets', 'POST /pets', 'GET /pets/{petId}']);
+      expect(operations[0].security).toEqual([]);
+      expect(operations[1].security).toEqual([{ bearerAuth: [] }]);
+      expect(operations[2].parameters.map(parameter => parameter.name)).toEqual(['petId']);
+    });
+  });
+
+  describe('generateContractTests', () => {
+    const tests = openApiContractService.generateContractTests(openApiContractService.parseDocument(SPEC), 'https://eu.pets.example.com/v1');
+    const byName = (name: string) => tests.find(test => test.name === name)!;
+
+    it('should generate one test per operation and response code', () => {
+      expect(tests.map(test => [test.name, test.priority, test.executable])).toEqual([
+        ['GET /pets returns 200', 'high', true],
+        ['GET /pets returns 400', 'medium', true],
+        ['GET /pets returns 401', 'medium', false],
+        ['POST /pets returns 201', 'high', true],
+        ['POST /pets returns 401', 'medium', true],
+        ['POST /pets returns 422', 'medium', true],
+        ['GET /pets/{petId} returns 200', 'high', true],
+        ['GET /pets/{petId} returns 404', 'medium', true],
+        ['GET /pets/{petId} returns 409', 'medium', false]
+      ]);
+      expect(byName('GET /pets returns 200')).toMatchObject({ tags: ['pets'], description: 'List pets. Expects 200: A page of pets' });
+    });
+
+    it('should send valid sample values for success codes', () => {
+      expect(requestOf(byName('GET /pets returns 200'))).toMatchObject({ query: { limit: 5 }, auth: [], authenticate: true });
+      expect(requestOf(byName('POST /pets returns 201'))).toMatchObject({
+        contentType: 'application/json',
+        body: { name: 'stringxx', kind: 'dog' },
+        auth: [{ type: 'bearer' }]
+      });
+      expect(requestOf(byName('GET /pets/{petId} returns 200')).pathParams).toEqual({ petId: 1 });
+    });
+
+    it('should leave out required input, credentials or the resource to provoke errors', () => {
+      expect(requestOf(byName('GET /pets returns 400')).query).toEqual({});
+      expect(requestOf(byName('POST /pets returns 422')).body).toEqual({ kind: 'dog' });
+      expect(requestOf(byName('POST /pets returns 401')).authenticate).toBe(false);
+      expect(requestOf(byName('GET /pets/{petId} returns 404')).pathParams).toEqual({ petId: 999999999 });
+    });
+
+    it('should leave responses it cannot provoke pending with the reason', () => {
+      expect(byName('GET /pets returns 401').testScript).toContain('// Pending: the operation declares no security scheme');
+      expect(byName('GET /pets/{petId} returns 409').testScript).toContain('test.todo("GET /pets/{petId} returns 409");');
+    });
+
+    it('should validate responses against the dereferenced schema in JSON Schema form', () => {
+      const schema = schemaOf(byName('GET /pets/{petId} returns 200'));
+
+      expect(schema.allOf[0].required).toEqual(['name', 'kind']);
+      expect(schema.allOf[1].properties.owner).toEqual({ type: ['string', 'null'] });
+      // The recursive parent reference is cut off
+      expect(schema.allOf[1].properties.parent).toEqual({});
+      expect(schemaOf(byName('POST /pets returns 201'))).toBeNull();
+      expect(byName('GET /pets returns 200').testScript).toContain('const DEFAULT_BASE_URL = "https://eu.pets.example.com/v1";');
+    });
+  });
+
+  describe('ingest', () => {
+    beforeEach(() => {
+      useInMemoryStorage();
+    });
+
+    it('should create contract tests and report stale ones on a later ingest', async () => {
+      const project = await storage.createProject({ name: 'Petstore', sourceType: 'upload' });
+
+      const first = await openApiContractService.ingest(project, { content: SPEC, fileName: 'openapi.yaml' });
+      const trimmed = SPEC.replace(/\n {8}'409':\n {10}description: Conflict/, '').replace('summary: List pets', 'summary: List all pets');
+      const second = await openApiContractService.ingest(project, { content: trimmed, fileName: 'openapi.yaml' });
+
+      expect(first).toMatchObject({ title: 'Petstore', version: '1.2.0', source: 'openapi.yaml', baseUrl: 'https://eu.pets.example.com/v1', operations: 3 });
+      expect(first.created).toHaveLength(9);
+      expect(first.created[0]).toMatchObject({ type: 'integration', generatedBy: 'openapi-contract' });
+      expect(second.created).toHaveLength(0);
+      expect(second.updated.map(testCase => testCase.name)).toEqual(['GET /pets returns 200', 'GET /pets returns 400', 'GET /pets returns 401']);
+      expect(second.stale).toEqual(['GET /pets/{petId} returns 409']);
+      expect(await storage.getTestCasesByProject(project.id)).toHaveLength(9);
+      expect((await storage.getOpenApiSpecByProject(project.id))?.title).toBe('Petstore');
+    });
+
+    it('should prefer a configured base URL', async () => {
+      const project = await storage.createProject({ name: 'Petstore', sourceType: 'upload' });
+
+      const result = await openApiContractService.ingest(project, { content: SPEC, baseUrl: 'http://localhost:8080/' });
+
+      expect(result.baseUrl).toBe('http://localhost:8080');
+    });
+  });
+});
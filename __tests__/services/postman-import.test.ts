@@ -0,0 +1,151 @@
+import { storage } from '../../server/storage';
+import { postmanImportService, PostmanCollectionError } from '../../server/services/postman-import';
+import type { Project, TestCase } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+const SCHEMA_V21 = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const COLLECTION = {
+  info: { name: 'Shop API', schema: SCHEMA_V21 },
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+  event: [{ listen: 'prerequest', script: { exec: ['pm.variables.set("requestId", pm.variables.replaceIn("{{$guid}}"));'] } }],
+  variable: [
+    { key: 'baseUrl', value: 'https://shop.example.com' },
+    { key: 'api-version', value: 2 },
+    { key: 'legacy', value: 'x', disabled: true }
+  ],
+  item: [
+    {
+      name: 'Orders',
+      event: [{ listen: 'test', script: { exec: 'pm.test("responds quickly", () => pm.expect(pm.response.responseTime).to.be.below(500));' } }],
+      item: [
+        {
+          name: 'List orders',
+          request: {
+            method: 'get',
+            header: [
+              { key: 'X-Request-Id', value: '{{requestId}}' },
+              { key: 'X-Debug', value: '{{debugToken}}', disabled: true }
+            ],
+            url: { raw: '{{baseUrl}}/v{{api-version}}/orders?tenant={{tenant}}' },
+            description: { content: '  Lists the orders of a tenant  ' }
+          },
+          event: [{
+            listen: 'test',
+            script: {
+              exec: [
+                'pm.test("status is 200", () => pm.response.to.have.status(200));',
+                "pm.test('has \\'orders\\'', () => pm.expect(pm.response.json()).to.have.property('orders'));",
+                'pm.test("List orders", () => {});'
+              ]
+            }
+          }]
+        },
+        {
+          name: 'Public catalog',
+          request: { method: 'GET', url: '{{baseUrl}}/catalog', auth: { type: 'noauth' } }
+        }
+      ]
+    },
+    { name: 'Health', request: '{{baseUrl}}/health' }
+  ]
+};
+
+// A constant of a generated script, read back as JSON
+function constantOf(testCase: TestCase, name: string): any {
+  const match = testCase.testScript!.match(new RegExp(`^const ${name} = ([\\s\\S]*?);$`, 'm'));
+  return match ? JSON.parse(match[1]) : undefined;
+}
+
+describe('Postman Import', () => {
+  describe('parseCollection', () => {
+    it('should accept a collection or the Postman API wrapper, as text or parsed', () => {
+      expect(postmanImportService.parseCollection(JSON.stringify(COLLECTION)).info.name).toBe('Shop API');
+      expect(postmanImportService.parseCollection({ collection: COLLECTION }).info.name).toBe('Shop API');
+    });
+
+    it.each([
+      ['{not json', 'Collection is not valid JSON'],
+      [{ item: [] }, 'Not a Postman collection: it has no info block'],
+      [{ info: { name: 'Old' }, requests: [] }, 'Postman v1 collections are not supported; export the collection as v2.1'],
+      [{ info: { name: 'Old', schema: 'https://schema.getpostman.com/json/collection/v1.0.0/collection.json' } }, 'Postman v1 collections are not supported'],
+      [{ info: { name: 'No items', schema: SCHEMA_V21 } }, 'Not a Postman v2.1 collection']
+    ])('should reject %j', (input, message) => {
+      expect(() => postmanImportService.parseCollection(input)).toThrow(PostmanCollectionError);
+      expect(() => postmanImportService.parseCollection(input)).toThrow(message);
+    });
+  });
+
+  describe('importCollection', () => {
+    let project: Project;
+
+    beforeEach(async () => {
+      useInMemoryStorage();
+      project = await storage.createProject({ name: 'Shop', sourceType: 'upload' });
+    });
+
+    it('should create a test case per request tagged with its collection and folders', async () => {
+      const result = await postmanImportService.importCollection(project, COLLECTION);
+
+      expect(result).toMatchObject({ collection: 'Shop API', requests: 3 });
+      expect(result.created.map(testCase => [testCase.name, testCase.tags, testCase.description])).toEqual([
+        ['List orders', ['Shop API', 'Orders'], 'Lists the orders of a tenant'],
+        ['Public catalog', ['Shop API', 'Orders'], 'GET {{baseUrl}}/catalog'],
+        ['Health', ['Shop API'], 'GET {{baseUrl}}/health']
+      ]);
+      expect(result.created[0]).toMatchObject({ type: 'integration', priority: 'medium', generatedBy: 'postman-import' });
+    });
+
+    it('should inherit auth and scripts from the collection and folders', async () => {
+      const [listOrders, catalog, health] = (await postmanImportService.importCollection(project, COLLECTION)).created;
+
+      expect(constantOf(listOrders, 'REQUEST').auth.type).toBe('bearer');
+      expect(constantOf(catalog, 'REQUEST').auth).toEqual({ type: 'noauth' });
+      expect(constantOf(health, 'REQUEST').request).toEqual({ method: 'GET', url: '{{baseUrl}}/health' });
+      expect(constantOf(listOrders, 'PRE_REQUEST_SCRIPTS').map((script: any) => script.source)).toEqual(['collection']);
+      expect(constantOf(listOrders, 'TEST_SCRIPTS').map((script: any) => script.source)).toEqual(['folder "Orders"', 'request']);
+      expect(constantOf(health, 'TEST_SCRIPTS')).toEqual([]);
+    });
+
+    it('should turn each pm.test into a test of its own', async () => {
+      const [listOrders, catalog] = (await postmanImportService.importCollection(project, COLLECTION)).created;
+
+      // The pm.test named like the request is asserted by the request's own test
+      expect(constantOf(listOrders, 'DECLARED_TESTS')).toEqual(['responds quickly', 'status is 200', "has 'orders'"]);
+      expect(listOrders.testScript).toContain('describe("Shop API / Orders", () => {');
+      expect(listOrders.testScript).toContain(`  test("has 'orders'", () => {\n    expectPostmanTest(execution, "has 'orders'");`);
+      expect(constantOf(catalog, 'DECLARED_TESTS')).toEqual(['responds quickly']);
+    });
+
+    it('should map collection variables onto an environment and report missing ones', async () => {
+      const result = await postmanImportService.importCollection(project, COLLECTION);
+
+      expect(result.environment).toMatchObject({ projectId: project.id, name: 'Shop API' });
+      expect(result.environment.variables).toEqual({ baseUrl: 'https://shop.example.com', api_version: '2' });
+      // requestId is set by a script and debugToken only appears in a disabled header
+      expect(result.missingVariables).toEqual(['tenant', 'token']);
+    });
+
+    it('should refresh tests on re-import and keep environment values filled in since', async () => {
+      const first = await postmanImportService.importCollection(project, COLLECTION);
+      await storage.updateEnvironment(first.environment.id, { variables: { baseUrl: 'http://localhost:3000', api_version: '2', token: 'secret' } });
+
+      const changed = JSON.parse(JSON.stringify(COLLECTION));
+      changed.item[1].request = '{{baseUrl}}/healthz';
+      changed.variable.push({ key: 'tenant', value: 'acme' });
+      const second = await postmanImportService.importCollection(project, changed);
+
+      expect(second.created).toHaveLength(0);
+      expect(second.updated.map(testCase => testCase.name)).toEqual(['Health']);
+      expect(second.environment.id).toBe(first.environment.id);
+      expect(second.environment.variables).toEqual({ baseUrl: 'http://localhost:3000', api_version: '2', token: 'secret', tenant: 'acme' });
+      expect(second.missingVariables).toEqual([]);
+      expect(await storage.getTestCasesByProject(project.id)).toHaveLength(3);
+    });
+
+    it('should reject a collection without requests', async () => {
+      await expect(postmanImportService.importCollection(project, { info: { name: 'Empty', schema: SCHEMA_V21 }, item: [{ name: 'Folder', item: [] }] }))
+        .rejects.toThrow('Collection Empty has no requests');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import http from 'http';
+import path from 'path';
+import { createRequire } from 'module';
+import type { AddressInfo } from 'net';
+import { POSTMAN_RUNTIME_SOURCE } from '../../server/services/postman-runtime';
+
+// Evaluate the runtime the way a generated test loads it from the run workspace
+function loadRuntime() {
+  const module = { exports: {} as any };
+  new Function('module', 'require', POSTMAN_RUNTIME_SOURCE)(module, createRequire(path.resolve('package.json')));
+  return module.exports;
+}
+
+const script = (source: string, ...lines: string[]) => ({ source, code: lines.join('\n') });
+
+describe('Postman Runtime', () => {
+  const { runPostmanRequest, expectPostmanTest } = loadRuntime();
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ method: req.method, path: req.url, authorization: req.headers.authorization || null }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.baseUrl = baseUrl;
+  });
+
+  afterAll(async () => {
+    delete process.env.baseUrl;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const request = (overrides: Record<string, any> = {}) => ({
+    name: 'Get order',
+    request: { method: 'GET', url: '{{baseUrl}}/orders/{{orderId}}' },
+    auth: null,
+    ...overrides
+  });
+
+  it('should send the request with variables set by scripts and run the tests', async () => {
+    const bearer = { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] };
+    const execution = await runPostmanRequest(request({ auth: bearer }), [
+      script('collection', 'pm.variables.set("orderId", "42");', 'pm.environment.set("token", "secret");')
+    ], [
+      script('request',
+        'pm.test("status is 200", () => pm.response.to.have.status(200));',
+        'pm.test("calls the order", () => pm.expect(pm.response.json()).to.include({ path: "/orders/42", authorization: "Bearer secret" }));',
+        'tests["legacy check"] = responseCode.code === 200;')
+    ]);
+
+    expect(execution.scriptErrors).toEqual([]);
+    expect(execution.results).toEqual([
+      { name: 'status is 200', passed: true },
+      { name: 'calls the order', passed: true },
+      { name: 'legacy check', passed: true, error: undefined }
+    ]);
+    expect(() => expectPostmanTest(execution, 'calls the order')).not.toThrow();
+  });
+
+  it('should report failed expectations by test name', async () => {
+    const execution = await runPostmanRequest(request(), [script('collection', 'pm.variables.set("orderId", "1");')], [
+      script('request', 'pm.test("is created", () => pm.response.to.have.status(201));')
+    ]);
+
+    expect(() => expectPostmanTest(execution, 'is created')).toThrow('expected response to have status code 201 but got 200');
+    expect(() => expectPostmanTest(execution, 'never declared')).toThrow('pm.test \'never declared\' was not called');
+  });
+
+  it('should not give collection scripts require or process', async () => {
+    const execution = await runPostmanRequest(request(), [
+      script('collection', 'pm.variables.set("orderId", "1");'),
+      script('folder "Orders"', 'require("fs").readFileSync("/etc/passwd");')
+    ], [
+      script('request',
+        'pm.test("has no require", () => pm.expect(typeof require).to.equal("undefined"));',
+        'pm.test("has no process", () => pm.expect(typeof process).to.equal("undefined"));')
+    ]);
+
+    expect(execution.scriptErrors).toEqual(['folder "Orders" prerequest script: require is not defined']);
+    expect(execution.results).toEqual([
+      { name: 'has no require', passed: true },
+      { name: 'has no process', passed: true }
+    ]);
+  });
+
+  it('should stop a script that does not finish', async () => {
+    const execution = await runPostmanRequest(request(), [
+      script('collection', 'pm.variables.set("orderId", "1");'),
+      script('request', 'while (true) {}')
+    ], []);
+
+    expect(execution.scriptErrors).toEqual(['request prerequest script: Script execution timed out after 5000ms']);
+  }, 15000);
+
+  it('should name a variable no scope defines', async () => {
+    await expect(runPostmanRequest(request(), [], [])).rejects.toThrow('Variable {{orderId}} is not set: add orderId to the run environment');
+  });
+});
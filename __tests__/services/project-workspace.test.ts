@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { Header } from 'tar';
+import { projectWorkspace, WorkspacePathError } from '../../server/services/project-workspace';
+import { ArchiveExtractionError } from '../../server/utils/archiveExtraction';
+
+const PROJECT_ID = 9101;
+
+// Gzipped tarball of regular files
+function buildTarball(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = new Header({ path: name, type: 'File', size: data.length, mode: 0o644, mtime: new Date(0) });
+    header.encode();
+    blocks.push(header.block!, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+const file = (filePath: string, content: string) => ({ path: filePath, data: Buffer.from(content) });
+
+describe('Project Workspace Service', () => {
+  afterEach(async () => {
+    await projectWorkspace.remove(PROJECT_ID);
+  });
+
+  describe('writeFiles', () => {
+    it('should store files under the project root and replace earlier versions', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [file('src/cart.ts', 'v1'), file('./README.md', '# Shop')]);
+
+      const written = await projectWorkspace.writeFiles(PROJECT_ID, [file('src\\cart.ts', 'version 2')]);
+
+      expect(written).toEqual([{ path: 'src/cart.ts', size: 9 }]);
+      expect(await projectWorkspace.readFile(PROJECT_ID, 'src/cart.ts')).toBe('version 2');
+      expect(await projectWorkspace.listFiles(PROJECT_ID)).toEqual([
+        { path: 'README.md', size: 6 },
+        { path: 'src/cart.ts', size: 9 }
+      ]);
+      expect(fs.readdirSync(path.join(projectWorkspace.rootFor(PROJECT_ID), 'src'))).toEqual(['cart.ts']);
+    });
+
+    it.each(['../escaped.ts', '/etc/passwd', 'src/../../escaped.ts', ''])('should reject %j without writing anything', async badPath => {
+      await expect(projectWorkspace.writeFiles(PROJECT_ID, [file('src/ok.ts', 'ok'), file(badPath, 'owned')]))
+        .rejects.toThrow(WorkspacePathError);
+
+      expect(await projectWorkspace.listFiles(PROJECT_ID)).toEqual([]);
+    });
+  });
+
+  describe('replaceFromArchive', () => {
+    it('should replace the workspace with the archive, dropping its top-level directory', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [file('stale.ts', 'old upload')]);
+
+      const result = await projectWorkspace.replaceFromArchive(PROJECT_ID, buildTarball({
+        'shop-main/package.json': '{"name":"shop"}',
+        'shop-main/src/cart.ts': 'export const total = 1;'
+      }), 'shop-main.tar.gz');
+
+      expect(result.files.map(entry => entry.path).sort()).toEqual(['package.json', 'src/cart.ts']);
+      expect((await projectWorkspace.listFiles(PROJECT_ID)).map(entry => entry.path)).toEqual(['package.json', 'src/cart.ts']);
+      // No staging directories are left next to the workspace
+      expect(fs.readdirSync(path.dirname(projectWorkspace.rootFor(PROJECT_ID))).filter(name => name.startsWith(`${PROJECT_ID}.`))).toEqual([]);
+    });
+
+    it('should keep the workspace when the archive is rejected', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [file('src/cart.ts', 'kept')]);
+
+      await expect(projectWorkspace.replaceFromArchive(PROJECT_ID, Buffer.from('not a tarball'), 'broken.tar.gz'))
+        .rejects.toThrow(ArchiveExtractionError);
+
+      expect(await projectWorkspace.readFile(PROJECT_ID, 'src/cart.ts')).toBe('kept');
+    });
+  });
+
+  describe('listFiles', () => {
+    it('should skip dependency and build output directories', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [
+        file('src/index.ts', 'export {};'),
+        file('node_modules/left-pad/index.js', 'module.exports = 1;'),
+        file('dist/index.js', 'built'),
+        file('.git/HEAD', 'ref: refs/heads/main')
+      ]);
+
+      expect((await projectWorkspace.listFiles(PROJECT_ID)).map(entry => entry.path)).toEqual(['src/index.ts']);
+    });
+  });
+
+  describe('removeFiles', () => {
+    it('should delete the given files and ignore missing ones', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [file('a.ts', 'a'), file('b.ts', 'b')]);
+
+      expect(await projectWorkspace.removeFiles(PROJECT_ID, ['a.ts', 'missing.ts'])).toBe(1);
+      expect((await projectWorkspace.listFiles(PROJECT_ID)).map(entry => entry.path)).toEqual(['b.ts']);
+    });
+  });
+
+  describe('buildSourceContext', () => {
+    it('should list the tree, then manifests, then shallow sources first', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [
+        file('src/deep/util.ts', 'deep'),
+        file('index.ts', 'entry'),
+        file('package.json', '{"name":"shop"}'),
+        file('logo.png', 'png bytes')
+      ]);
+
+      const context = await projectWorkspace.buildSourceContext(PROJECT_ID);
+
+      expect(context!.startsWith('Project files (4):\n- index.ts (5 bytes)\n- logo.png (9 bytes)')).toBe(true);
+      const sections = context!.split('\n\n').slice(1).map(section => section.split('\n')[0]);
+      expect(sections).toEqual(['--- package.json ---', '--- index.ts ---', '--- src/deep/util.ts ---']);
+    });
+
+    it('should truncate to the character budget', async () => {
+      await projectWorkspace.writeFiles(PROJECT_ID, [file('big.ts', 'x'.repeat(1000))]);
+
+      const context = await projectWorkspace.buildSourceContext(PROJECT_ID, 200);
+
+      expect(context).toContain('... (truncated)');
+      expect(context!.length).toBeLessThan(400);
+    });
+
+    it('should return null for an empty workspace', async () => {
+      expect(await projectWorkspace.buildSourceContext(PROJECT_ID)).toBeNull();
+    });
+  });
+});
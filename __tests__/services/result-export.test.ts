@@ -0,0 +1,134 @@
+import { resultExportService } from '../../server/services/result-export';
+import { junitImportService } from '../../server/services/junit-import';
+import type { TestRun, TestRunResult } from '../../shared/schema';
+
+describe('Result Export', () => {
+  const testRun = {
+    id: 12,
+    projectId: 3,
+    framework: 'jest',
+    triggeredBy: 'api',
+    startedAt: new Date('2026-01-01T10:00:00Z'),
+    completedAt: new Date('2026-01-01T10:00:02Z'),
+    duration: 2000
+  } as TestRun;
+
+  let nextId = 1;
+  const result = (overrides: Partial<TestRunResult>): TestRunResult => ({
+    id: nextId++,
+    testRunId: testRun.id,
+    testCaseId: null,
+    testCaseName: 'unnamed',
+    status: 'passed',
+    attempt: 1,
+    shard: 0,
+    duration: 100,
+    testScript: null,
+    scriptHash: null,
+    errors: [],
+    assertions: [],
+    stdout: null,
+    failureSignature: null,
+    defectKey: null,
+    createdAt: new Date(),
+    ...overrides
+  });
+
+  const results: TestRunResult[] = [
+    result({ testCaseId: 1, testCaseName: 'adds numbers', duration: 250, stdout: 'sum is 2' }),
+    result({ testCaseId: 2, testCaseName: 'divides # numbers', status: 'failed', duration: 500, errors: ['Expected: 2\nReceived: 3'] }),
+    result({ testCaseId: 3, testCaseName: 'rounds', status: 'skipped', duration: 0 }),
+    // Failed first, then passed on retry
+    result({ testCaseId: 4, testCaseName: 'fetches data', status: 'failed', attempt: 1, errors: ['timeout'] }),
+    result({ testCaseId: 4, testCaseName: 'fetches data', status: 'passed', attempt: 2, duration: 300 })
+  ];
+
+  describe('JUnit', () => {
+    it('should render one test case per test with its final outcome', () => {
+      const report = resultExportService.export(testRun, results, 'junit');
+
+      expect(report.contentType).toBe('application/xml');
+      expect(report.fileName).toBe('matt-run-12.xml');
+      expect(report.body).toContain('<testsuites name="MATT run 12 (jest)" tests="4" failures="1" errors="0" skipped="1" time="2.000">');
+      expect(report.body).toContain('<failure message="Expected: 2">');
+      expect(report.body).toContain('<system-out>sum is 2</system-out>');
+    });
+
+    it('should produce a report the JUnit importer reads back', () => {
+      const report = resultExportService.export(testRun, results, 'junit');
+      const parsed = junitImportService.parse(report.body);
+
+      expect(parsed.duration).toBe(2000);
+      expect(parsed.testCases.map(tc => [tc.name, tc.status, tc.duration])).toEqual([
+        ['adds numbers', 'passed', 250],
+        ['divides # numbers', 'failed', 500],
+        ['rounds', 'skipped', 0],
+        ['fetches data', 'passed', 300]
+      ]);
+      expect(parsed.testCases[1].errors[0]).toContain('Received: 3');
+      expect(parsed.testCases[0].stdout).toBe('sum is 2');
+    });
+
+    it('should escape markup in names and messages', () => {
+      const report = resultExportService.export(testRun, [
+        result({ testCaseName: 'renders <b> & "quotes"', status: 'failed', errors: ['expected <div>'] })
+      ], 'junit');
+
+      const parsed = junitImportService.parse(report.body);
+      expect(parsed.testCases[0].name).toBe('renders <b> & "quotes"');
+      expect(parsed.testCases[0].errors[0]).toContain('expected <div>');
+    });
+  });
+
+  describe('TAP', () => {
+    it('should render a TAP 13 stream with a plan and one line per test', () => {
+      const report = resultExportService.export(testRun, results, 'tap');
+      const lines = report.body.split('\n');
+
+      expect(report.fileName).toBe('matt-run-12.tap');
+      expect(lines.slice(0, 2)).toEqual(['TAP version 13', '1..4']);
+      expect(lines).toContain('ok 1 - adds numbers');
+      expect(lines).toContain('not ok 2 - divides \\# numbers');
+      expect(lines).toContain('ok 3 - rounds # SKIP');
+      expect(lines).toContain('ok 4 - fetches data');
+    });
+
+    it('should describe failures and retries in a YAML block', () => {
+      const body = resultExportService.export(testRun, results, 'tap').body;
+
+      expect(body).toContain('not ok 2 - divides \\# numbers\n  ---\n  duration_ms: 500\n  message: |-\n    Expected: 2\n    Received: 3\n  ...');
+      expect(body).toContain('ok 4 - fetches data\n  ---\n  duration_ms: 300\n  attempts: 2\n  ...');
+    });
+  });
+
+  describe('CTRF', () => {
+    it('should summarise the run and mark tests that passed on retry as flaky', () => {
+      const report = resultExportService.export(testRun, results, 'ctrf');
+      const ctrf = JSON.parse(report.body);
+
+      expect(report.contentType).toBe('application/json');
+      expect(ctrf.reportFormat).toBe('CTRF');
+      expect(ctrf.results.tool).toEqual({ name: 'matt', extra: { framework: 'jest' } });
+      expect(ctrf.results.summary).toEqual({
+        tests: 4,
+        passed: 2,
+        failed: 1,
+        skipped: 1,
+        pending: 0,
+        other: 0,
+        start: testRun.startedAt!.getTime(),
+        stop: testRun.completedAt!.getTime()
+      });
+      expect(ctrf.results.tests[1]).toMatchObject({ name: 'divides # numbers', status: 'failed', message: 'Expected: 2', trace: 'Expected: 2\nReceived: 3', retries: 0, flaky: false });
+      expect(ctrf.results.tests[3]).toMatchObject({ name: 'fetches data', status: 'passed', retries: 1, flaky: true });
+      expect(ctrf.results.tests[0].stdout).toEqual(['sum is 2']);
+    });
+
+    it('should report interrupted results as failed', () => {
+      const ctrf = JSON.parse(resultExportService.export(testRun, [result({ testCaseName: 'cut short', status: 'error' })], 'ctrf').body);
+
+      expect(ctrf.results.tests[0].status).toBe('failed');
+      expect(ctrf.results.summary.failed).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { storage } from '../../server/storage';
+import { testRunExecutor } from '../../server/services/test-run-executor';
+import { agentOrchestrator, type TestRunContext } from '../../server/services/agents';
+import { githubService, type GitHubConfig, type GitHubRepository } from '../../server/services/github-integration';
+import { projectWorkspace } from '../../server/services/project-workspace';
+import type { Project, TestCase } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+const HEAD_SHA = 'b'.repeat(40);
+
+const { executeTestWorkflow } = agentOrchestrator;
+const { acquireProject } = githubService;
+
+describe('Test Run Executor', () => {
+  let project: Project;
+  let testCase: TestCase;
+
+  beforeEach(async () => {
+    useInMemoryStorage();
+    project = await storage.createProject({
+      name: 'Shop',
+      sourceType: 'github',
+      repositoryData: { owner: 'acme', repo: 'shop', branch: 'main' }
+    });
+    testCase = await storage.createTestCase({ projectId: project.id, name: 'renders the cart', type: 'unit', priority: 'high', testScript: 'test("cart", () => {});' });
+    await projectWorkspace.writeFiles(project.id, [{ path: 'src/cart.js', data: Buffer.from('base branch') }]);
+  });
+
+  afterEach(async () => {
+    agentOrchestrator.executeTestWorkflow = executeTestWorkflow;
+    githubService.acquireProject = acquireProject;
+    await projectWorkspace.remove(project.id);
+  });
+
+  describe('execute', () => {
+    let contexts: TestRunContext[];
+    let testedSources: (string | undefined)[];
+    // Outcome of a test case in an attempt; everything passes unless a test says otherwise
+    let outcome: (testCase: TestCase, attempt: number) => 'passed' | 'failed';
+
+    beforeEach(() => {
+      contexts = [];
+      testedSources = [];
+      outcome = () => 'passed';
+      // Record the sources each workflow would test instead of running Jest
+      agentOrchestrator.executeTestWorkflow = async (_project, testCases, runContext) => {
+        contexts.push(runContext!);
+        const sourceDir = runContext!.sourceDir ?? projectWorkspace.rootFor(project.id);
+        testedSources.push(fs.readFileSync(path.join(sourceDir, 'src/cart.js'), 'utf8'));
+        return {
+          executionResults: testCases.map(tc => {
+            const status = outcome(tc, contexts.length);
+            return { testCaseId: tc.id, name: tc.name, status, duration: 5, errors: status === 'failed' ? ['Expected 2 items'] : [], logs: [], assertions: [], stdout: null };
+          }),
+          summary: {}
+        };
+      };
+    });
+
+    it('should persist the run, every attempt and the script version each ran', async () => {
+      const flaky = await storage.createTestCase({ projectId: project.id, name: 'empties the cart', type: 'unit', priority: 'medium', testScript: 'test("empty", () => {});' });
+      outcome = (tc, attempt) => tc.id === flaky.id && attempt === 1 ? 'failed' : 'passed';
+      const testRun = await storage.createTestRun({
+        projectId: project.id,
+        framework: 'jest',
+        status: 'queued',
+        triggeredBy: 'manual',
+        testCaseIds: [testCase.id, flaky.id],
+        maxRetries: 2
+      });
+
+      await testRunExecutor.execute(testRun.id);
+      await storage.updateTestCase(flaky.id, { testScript: 'test("empty", () => { /* edited */ });' });
+
+      expect(await storage.getTestRun(testRun.id)).toMatchObject({
+        status: 'completed',
+        summary: { total: 2, passed: 2, failed: 0, flaky: 1, passRate: 100, attempts: 3 }
+      });
+      const results = await storage.getTestRunResults(testRun.id);
+      expect(results.map(result => [result.testCaseName, result.status, result.attempt])).toEqual([
+        ['renders the cart', 'passed', 1],
+        ['empties the cart', 'failed', 1],
+        ['empties the cart', 'passed', 2]
+      ]);
+      expect(results[1]).toMatchObject({
+        testScript: 'test("empty", () => {});',
+        scriptHash: createHash('sha256').update('test("empty", () => {});').digest('hex'),
+        errors: ['Expected 2 items']
+      });
+      expect(await storage.getTestCase(flaky.id)).toMatchObject({ status: 'passed', results: { passed: true, attempts: 2 } });
+    });
+
+    it('should drop other projects\' test cases and the results of an interrupted attempt', async () => {
+      const other = await storage.createProject({ name: 'Other', sourceType: 'upload' });
+      const foreign = await storage.createTestCase({ projectId: other.id, name: 'elsewhere', type: 'unit', priority: 'low' });
+      const testRun = await storage.createTestRun({
+        projectId: project.id,
+        framework: 'jest',
+        status: 'queued',
+        triggeredBy: 'manual',
+        testCaseIds: [testCase.id, foreign.id]
+      });
+      await storage.createTestRunResult({ testRunId: testRun.id, testCaseId: testCase.id, testCaseName: 'renders the cart', status: 'failed', attempt: 1 });
+
+      const summary = await testRunExecutor.execute(testRun.id);
+
+      expect(summary).toMatchObject({ total: 1, passed: 1 });
+      expect((await storage.getTestRunResults(testRun.id)).map(result => [result.testCaseId, result.status])).toEqual([[testCase.id, 'passed']]);
+      expect((await storage.getTestCase(foreign.id))?.status).toBe(foreign.status);
+    });
+
+    it('should test a pull request run against a checkout of its head commit', async () => {
+      const acquired: GitHubConfig[] = [];
+      githubService.acquireProject = async config => {
+        acquired.push(config);
+        return {
+          repository: {} as GitHubRepository,
+          files: [{ path: 'src/cart.js', name: 'cart.js', type: 'file', content: 'pull request head', sha: 'c1', size: 17, url: '' }],
+          metadata: {},
+          commitSha: HEAD_SHA,
+          success: true
+        };
+      };
+      const testRun = await storage.createTestRun({
+        projectId: project.id,
+        framework: 'jest',
+        status: 'queued',
+        triggeredBy: 'webhook',
+        testCaseIds: [testCase.id],
+        commitSha: HEAD_SHA,
+        pullNumber: 7
+      });
+
+      const summary = await testRunExecutor.execute(testRun.id);
+
+      expect(acquired).toEqual([expect.objectContaining({ owner: 'acme', repo: 'shop', branch: HEAD_SHA })]);
+      expect(contexts[0].sourceDir).toBe(projectWorkspace.runRootFor(project.id, testRun.id));
+      expect(testedSources).toEqual(['pull request head']);
+      expect(summary).toMatchObject({ total: 1, passed: 1 });
+      // The base branch workspace is untouched and the run's checkout is gone
+      expect(await projectWorkspace.readFile(project.id, 'src/cart.js')).toBe('base branch');
+      expect(fs.existsSync(projectWorkspace.runRootFor(project.id, testRun.id))).toBe(false);
+    });
+
+    it('should test other runs against the project workspace', async () => {
+      githubService.acquireProject = async () => {
+        throw new Error('Runs without a pull request use the project workspace');
+      };
+      const testRun = await storage.createTestRun({
+        projectId: project.id,
+        framework: 'jest',
+        status: 'queued',
+        triggeredBy: 'webhook',
+        testCaseIds: [testCase.id],
+        commitSha: HEAD_SHA
+      });
+
+      await testRunExecutor.execute(testRun.id);
+
+      expect(contexts[0].sourceDir).toBeUndefined();
+      expect(testedSources).toEqual(['base branch']);
+    });
+  });
+});
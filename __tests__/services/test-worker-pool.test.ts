@@ -0,0 +1,104 @@
+import { TestWorkerPool } from '../../server/services/test-worker-pool';
+import { jestRunner, type JestRunOptions, type RunnableTestCase } from '../../server/services/jest-runner';
+
+const testCases: RunnableTestCase[] = [1, 2, 3, 4, 5, 6].map(id => ({ id, name: `test ${id}`, testScript: `test("${id}", () => {});` }));
+
+const { runTestCases } = jestRunner;
+
+describe('Test Worker Pool', () => {
+  const pool = new TestWorkerPool();
+
+  afterEach(() => {
+    jestRunner.runTestCases = runTestCases;
+  });
+
+  describe('planShards', () => {
+    it('should balance the estimated work across shards, longest tests first', () => {
+      const durations = new Map([[1, 9000], [2, 1000], [3, 5000], [4, 4000], [5, 500], [6, 500]]);
+
+      const shards = pool.planShards(testCases, 2, durations);
+
+      expect(shards.map(shard => [shard.testCases.map(tc => tc.id), shard.estimatedDuration])).toEqual([
+        [[1, 2], 10000],
+        [[3, 4, 5, 6], 10000]
+      ]);
+    });
+
+    it('should keep the given order within a shard', () => {
+      const reversed = [...testCases].reverse();
+      const durations = new Map([[6, 100], [5, 200], [4, 300], [3, 400], [2, 500], [1, 600]]);
+
+      const [shard] = pool.planShards(reversed, 1, durations);
+
+      expect(shard.testCases.map(tc => tc.id)).toEqual([6, 5, 4, 3, 2, 1]);
+    });
+
+    it('should give tests without an estimate the default duration', () => {
+      const shards = pool.planShards(testCases.slice(0, 3), 2, new Map([[1, 5000]]));
+
+      expect(shards.map(shard => [shard.testCases.map(tc => tc.id), shard.estimatedDuration])).toEqual([
+        [[1], 5000],
+        [[2, 3], 6000]
+      ]);
+    });
+
+    it('should not plan more shards than there are tests', () => {
+      expect(pool.planShards(testCases.slice(0, 2), 8)).toHaveLength(2);
+      expect(pool.planShards(testCases.slice(0, 2), 0)).toHaveLength(1);
+      expect(pool.planShards([], 4)).toEqual([]);
+    });
+  });
+
+  describe('runSharded', () => {
+    it('should run each shard in its own Jest process and return results in the given order', async () => {
+      const runs: Array<{ ids: number[]; options: JestRunOptions }> = [];
+      jestRunner.runTestCases = async (shardCases, options) => {
+        runs.push({ ids: shardCases.map(tc => tc.id), options });
+        options.onProgress?.({ phase: 'finished', testCaseId: shardCases[0].id, name: shardCases[0].name, status: 'passed' });
+        return [...shardCases].reverse().map(tc => ({
+          testCaseId: tc.id,
+          name: tc.name,
+          status: 'passed' as const,
+          duration: 1,
+          assertions: [],
+          errors: [],
+          stdout: '',
+          artifacts: []
+        }));
+      };
+      const progress: Array<[number, number | undefined]> = [];
+      const controller = new AbortController();
+
+      const results = await pool.runSharded(testCases, {
+        runId: 'run-7',
+        shardCount: 3,
+        durations: new Map([[1, 3000], [2, 3000], [3, 3000], [4, 3000], [5, 3000], [6, 3000]]),
+        signal: controller.signal,
+        sourceDir: '/checkouts/pr-7',
+        onProgress: event => progress.push([event.shard, event.testCaseId])
+      });
+
+      expect(runs.map(run => [run.ids, run.options.runId])).toEqual([
+        [[1, 4], 'run-7-shard-0'],
+        [[2, 5], 'run-7-shard-1'],
+        [[3, 6], 'run-7-shard-2']
+      ]);
+      expect(runs.every(run => run.options.signal === controller.signal && run.options.sourceDir === '/checkouts/pr-7')).toBe(true);
+      expect(progress).toEqual([[0, 1], [1, 2], [2, 3]]);
+      expect(results.map(result => [result.testCaseId, result.shard])).toEqual([[1, 0], [2, 1], [3, 2], [4, 0], [5, 1], [6, 2]]);
+    });
+
+    it('should cap the number of shards', async () => {
+      const shardRunIds: string[] = [];
+      jestRunner.runTestCases = async (shardCases, options) => {
+        shardRunIds.push(options.runId);
+        return [];
+      };
+
+      await pool.runSharded(testCases, { runId: 'run-8', shardCount: 6 });
+
+      // TEST_MAX_SHARDS defaults to 4
+      expect(shardRunIds).toHaveLength(4);
+    });
+  });
+});
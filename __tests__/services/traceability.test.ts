@@ -0,0 +1,177 @@
+import { storage } from '../../server/storage';
+import { traceabilityService, TraceabilityError } from '../../server/services/traceability';
+import type { Project, TestCase } from '../../shared/schema';
+import { useInMemoryStorage } from '../setup/storage';
+
+const SPEC = `# Checkout
+
+Overview of the checkout flow.
+
+## REQ-1: Guests can pay by card
+Card payments work without an account.
+
+## 2.1 Saved addresses
+
+### Address book
+Users pick a saved address.
+
+## Receipts
+`;
+
+describe('Traceability Service', () => {
+  describe('parseSpecSections', () => {
+    it('should turn sections with text and innermost sections into requirements', () => {
+      const sections = traceabilityService.parseSpecSections(SPEC, 'Checkout Spec.md');
+
+      expect(sections).toEqual([
+        { key: 'checkout-spec#checkout', title: 'Checkout', description: 'Overview of the checkout flow.' },
+        { key: 'REQ-1', title: 'Guests can pay by card', description: 'Card payments work without an account.' },
+        { key: 'checkout-spec#address-book', title: 'Address book', description: 'Users pick a saved address.' },
+        { key: 'checkout-spec#receipts', title: 'Receipts', description: null }
+      ]);
+    });
+
+    it('should key outline-numbered sections by document', () => {
+      const [section] = traceabilityService.parseSpecSections('## 2.1 Saved addresses\nPick one.', 'spec.md');
+      expect(section).toMatchObject({ key: 'spec#2.1', title: 'Saved addresses' });
+    });
+
+    it('should suffix repeated section keys', () => {
+      const sections = traceabilityService.parseSpecSections('## Errors\n\n## Errors\n', 'api.md');
+      expect(sections.map(section => section.key)).toEqual(['api#errors', 'api#errors-2']);
+    });
+
+    it('should read one requirement per id line from plain text', () => {
+      const sections = traceabilityService.parseSpecSections('Intro text\n- REQ-1: Export reports\nFR-2.1) Import reports\n', 'spec.txt');
+
+      expect(sections).toEqual([
+        { key: 'REQ-1', title: 'Export reports', description: null },
+        { key: 'FR-2.1', title: 'Import reports', description: null }
+      ]);
+    });
+  });
+
+  describe('with a project', () => {
+    let project: Project;
+    let checkoutTest: TestCase;
+    let receiptTest: TestCase;
+
+    beforeEach(async () => {
+      useInMemoryStorage();
+      project = await storage.createProject({ name: 'Shop', sourceType: 'upload' });
+      checkoutTest = await storage.createTestCase({ projectId: project.id, name: 'pays by card', type: 'e2e', priority: 'high' });
+      receiptTest = await storage.createTestCase({ projectId: project.id, name: 'emails receipt', type: 'integration', priority: 'medium' });
+    });
+
+    const execute = (testCase: TestCase, result: string, testRunId: number | null = null) =>
+      storage.createTestExecutionRecord({ projectId: project.id, testCaseId: testCase.id, testRunId, testName: testCase.name, result, duration: 10 });
+
+    describe('importSpec', () => {
+      it('should update re-imported sections in place and keep their links', async () => {
+        const first = await traceabilityService.importSpec(project, 'spec.md', SPEC);
+        const card = first.requirements.find(requirement => requirement.key === 'REQ-1')!;
+        await traceabilityService.linkTestCase(card, checkoutTest.id);
+
+        const second = await traceabilityService.importSpec(project, 'spec.md', SPEC.replace('without an account', 'as a guest'));
+
+        expect(first).toMatchObject({ created: 4, updated: 0 });
+        expect(second).toMatchObject({ created: 0, updated: 1 });
+        expect((await storage.getRequirement(card.id))?.description).toBe('Card payments work as a guest.');
+        expect(await storage.getRequirementLinksByProject(project.id)).toHaveLength(1);
+      });
+
+      it('should reject a document without requirements', async () => {
+        await expect(traceabilityService.importSpec(project, 'notes.txt', 'just some notes')).rejects.toThrow(TraceabilityError);
+      });
+    });
+
+    describe('linkTestCase', () => {
+      it('should refuse a test case from another project', async () => {
+        const other = await storage.createProject({ name: 'Other', sourceType: 'upload' });
+        const foreign = await storage.createTestCase({ projectId: other.id, name: 'elsewhere', type: 'unit', priority: 'low' });
+        const [requirement] = (await traceabilityService.importSpec(project, 'spec.txt', 'REQ-1: Export reports')).requirements;
+
+        await expect(traceabilityService.linkTestCase(requirement, foreign.id)).rejects.toThrow(`Test case ${foreign.id} not found in the requirement's project`);
+      });
+    });
+
+    describe('getMatrix', () => {
+      it('should report each requirement with its tests and their latest status', async () => {
+        const { requirements } = await traceabilityService.importSpec(project, 'spec.txt', 'REQ-1: Pay by card\nREQ-2: Receipts\nREQ-3: Refunds\nREQ-4: Invoices');
+        const [card, receipts, refunds] = requirements;
+        const untested = await storage.createTestCase({ projectId: project.id, name: 'issues refund', type: 'unit', priority: 'low' });
+        await traceabilityService.linkTestCase(card, checkoutTest.id);
+        await traceabilityService.linkTestCase(receipts, checkoutTest.id);
+        await traceabilityService.linkTestCase(receipts, receiptTest.id);
+        await traceabilityService.linkTestCase(refunds, untested.id);
+        await execute(checkoutTest, 'failed', 1);
+        await execute(checkoutTest, 'passed', 2);
+        await execute(receiptTest, 'failed', 2);
+
+        const matrix = await traceabilityService.getMatrix(project);
+
+        expect(matrix.requirements.map(row => [row.requirement.key, row.status])).toEqual([
+          ['REQ-1', 'passing'],
+          ['REQ-2', 'failing'],
+          ['REQ-3', 'not_run'],
+          ['REQ-4', 'uncovered']
+        ]);
+        expect(matrix.requirements[0].tests[0]).toMatchObject({ testCaseId: checkoutTest.id, latestStatus: 'passed', latestRunId: 2 });
+        expect(matrix.summary).toEqual({
+          requirements: 4,
+          covered: 3,
+          uncovered: 1,
+          passing: 1,
+          failing: 1,
+          notRun: 1,
+          tests: 3,
+          unlinkedTests: 0,
+          coveragePercentage: 75
+        });
+      });
+
+      it('should list tests that trace back to no requirement', async () => {
+        const [requirement] = (await traceabilityService.importSpec(project, 'spec.txt', 'REQ-1: Pay by card')).requirements;
+        await traceabilityService.linkTestCase(requirement, checkoutTest.id);
+
+        const matrix = await traceabilityService.getMatrix(project);
+
+        expect(matrix.unlinkedTests.map(test => test.name)).toEqual(['emails receipt']);
+        expect(matrix.unlinkedTests[0].latestStatus).toBe('not_run');
+      });
+
+      it('should sync Jira issues and link the tests generated from them', async () => {
+        const jiraProject = (await storage.updateProject(project.id, {
+          sourceType: 'jira',
+          repositoryData: {
+            jiraServerUrl: 'https://acme.atlassian.net/',
+            acquisitionResult: { issues: [{ key: 'SHOP-7', summary: 'Pay by card', description: 'As a guest...' }] }
+          }
+        }))!;
+        await storage.updateTestCase(checkoutTest.id, { sourceIssueKey: 'SHOP-7' });
+
+        const matrix = await traceabilityService.getMatrix(jiraProject);
+        const again = await traceabilityService.syncJiraRequirements(jiraProject);
+
+        expect(matrix.requirements).toHaveLength(1);
+        expect(matrix.requirements[0].requirement).toMatchObject({ key: 'SHOP-7', source: 'jira', sourceRef: 'https://acme.atlassian.net/browse/SHOP-7' });
+        expect(matrix.requirements[0].tests.map(test => test.testCaseId)).toEqual([checkoutTest.id]);
+        expect(again).toMatchObject({ created: 0, updated: 0, linked: 0 });
+      });
+    });
+
+    describe('toCsv', () => {
+      it('should write a row per requirement and test, and neutralise formulas', async () => {
+        const [requirement] = (await traceabilityService.importSpec(project, 'spec.txt', 'REQ-1: =HYPERLINK("x"), really')).requirements;
+        await traceabilityService.linkTestCase(requirement, checkoutTest.id);
+
+        const lines = traceabilityService.toCsv(await traceabilityService.getMatrix(project)).split('\r\n');
+
+        expect(lines[0]).toBe('Requirement,Title,Source,Coverage,Test case ID,Test case,Latest status,Latest run,Last executed');
+        expect(lines[1]).toBe(`REQ-1,"'=HYPERLINK(""x""), really",spec,not_run,${checkoutTest.id},pays by card,not_run,,`);
+        expect(lines[2]).toBe(`,,,no requirement,${receiptTest.id},emails receipt,not_run,,`);
+        expect(lines[3]).toBe('');
+      });
+    });
+  });
+});
@@ -0,0 +1,16 @@
+// __tests__/setup/storage.ts
+import { storage } from '../../server/storage';
+import { InMemoryStorage } from '../../server/storage-fallback';
+
+/**
+ * Route the shared storage instance to a fresh in-memory store, so services under test never reach
+ * the database. Call it in beforeEach to start every test empty.
+ */
+export function useInMemoryStorage(): void {
+  const memory = new InMemoryStorage();
+  for (const key of Object.getOwnPropertyNames(InMemoryStorage.prototype)) {
+    if (key === 'constructor') continue;
+    const method: Function = Reflect.get(memory, key);
+    Reflect.set(storage, key, method.bind(memory));
+  }
+}
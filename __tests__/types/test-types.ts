@@ -49,6 +49,7 @@ export function createMockProject(overrides: Partial<TestProject> = {}): TestPro
     sourceType: 'github',
     sourceUrl: 'https://github.com/test/repo',
     repositoryData: { owner: 'test', repo: 'repo', branch: 'main' },
+    commitSha: null,
     analysisStatus: 'pending',
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -71,6 +72,12 @@ export function createMockTestCase(overrides: Partial<TestTestCase> = {}): TestT
     generatedBy: 'test-agent',
     executionTime: 100,
     results: null,
+    flakinessScore: 0,
+    quarantined: false,
+    quarantinedAt: null,
+    quarantineReason: null,
+    sourceIssueKey: null,
+    tags: null,
     testId: 'test-case-1',
     mockData: true,
     ...overrides,
@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Github, HardDrive, FileText, Download, Upload, Key, Link, CheckCircle, XCircle, Loader2, FolderUp } from "lucide-react";
+import { Github, Gitlab, GitMerge, GitBranch, HardDrive, FileText, Download, Upload, Key, Link, CheckCircle, XCircle, Loader2, FolderUp } from "lucide-react";
 import { FileUploadZone } from "@/components/file-upload-zone";
 import type { Project, InsertProject } from "@shared/schema";
 
@@ -41,8 +41,48 @@ function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
   return null;
 }
 
+// Helper function to parse a GitLab URL; the host is kept, so self-hosted instances work too
+function parseGitLabUrl(url: string): { serverUrl: string; projectPath: string } | null {
+  url = url.trim().replace(/\/$/, '').replace(/\.git$/, '');
+
+  const sshMatch = url.match(/^git@([^:]+):(.+\/.+)$/);
+  if (sshMatch) {
+    return { serverUrl: `https://${sshMatch[1]}`, projectPath: sshMatch[2] };
+  }
+
+  try {
+    const parsed = new URL(url);
+    // Drop views such as /-/tree/main; project paths can nest subgroups
+    const projectPath = parsed.pathname.split('/-/')[0].replace(/^\/+|\/+$/g, '');
+    if (!/^https?:$/.test(parsed.protocol) || !projectPath.includes('/')) return null;
+    return { serverUrl: parsed.origin, projectPath };
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to parse a Bitbucket Cloud URL
+function parseBitbucketUrl(url: string): { workspace: string; repo: string } | null {
+  url = url.trim().replace(/\/$/, '');
+
+  const patterns = [
+    /^https?:\/\/(?:[^@\/]+@)?bitbucket\.org\/([^\/]+)\/([^\/]+?)(?:\.git)?(?:\/.*)?$/,
+    /^git@bitbucket\.org:([^\/]+)\/([^\/]+?)(?:\.git)?$/,
+    /^([^\/]+)\/([^\/]+)$/ // Simple workspace/repo format
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) {
+      return { workspace: match[1], repo: match[2].replace(/\.git$/, '') };
+    }
+  }
+
+  return null;
+}
+
 export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionProps) {
-  const [selectedSource, setSelectedSource] = useState<"github" | "drive" | "jira" | "upload">("github");
+  const [selectedSource, setSelectedSource] = useState<"github" | "gitlab" | "bitbucket" | "git" | "drive" | "jira" | "upload">("github");
   const [connectionStatus, setConnectionStatus] = useState<{
     drive?: { connected: boolean; testing: boolean; userInfo?: any; error?: string };
     jira?: { connected: boolean; testing: boolean; userInfo?: any; error?: string };
@@ -53,6 +93,11 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
     sourceUrl: "",
     branch: "main",
     token: "",
+    // Git specific: branch, tag or commit SHA, and commits of history to fetch (0 for all)
+    gitRef: "",
+    gitDepth: "1",
+    // Bitbucket specific: set to authenticate with an app password instead of an access token
+    bitbucketUsername: "",
     // Google Drive specific
     driveFileId: "",
     driveAccessToken: "",
@@ -64,48 +109,79 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
   });
 
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  // Set once files have been uploaded, which creates the upload project; later uploads attach to it
+  const [uploadProject, setUploadProject] = useState<Project | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const finishProjectCreation = (project: Project) => {
+    toast({
+      title: "Project Created",
+      description: project.sourceType === "upload"
+        ? "Files stored successfully. Analysis workflow started."
+        : "Repository cloned successfully. Analysis workflow started.",
+    });
+    onProjectCreated(project);
+    queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+    
+    // Reset form
+    setFormData({
+      name: "",
+      description: "",
+      sourceUrl: "",
+      branch: "main",
+      token: "",
+      gitRef: "",
+      gitDepth: "1",
+      bitbucketUsername: "",
+      driveFileId: "",
+      driveAccessToken: "",
+      jiraProjectKey: "",
+      jiraServerUrl: "",
+      jiraEmail: "",
+      jiraApiToken: "",
+    });
+    setUploadedFiles([]);
+    setUploadProject(null);
+  };
+
+  const showCreationError = (error: any) => {
+    // Try to extract a more specific error message
+    const errorMessage = error?.message || "Failed to create project. Please try again.";
+    toast({
+      title: "Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  };
+
   const createProjectMutation = useMutation({
     mutationFn: async (data: InsertProject) => {
       const response = await apiRequest("POST", "/api/projects", data);
       return response.json();
     },
-    onSuccess: (project: Project) => {
-      toast({
-        title: "Project Created",
-        description: "Repository cloned successfully. Analysis workflow started.",
-      });
-      onProjectCreated(project);
-      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
-      
-      // Reset form
-      setFormData({
-        name: "",
-        description: "",
-        sourceUrl: "",
-        branch: "main",
-        token: "",
-        driveFileId: "",
-        driveAccessToken: "",
-        jiraProjectKey: "",
-        jiraServerUrl: "",
-        jiraEmail: "",
-        jiraApiToken: "",
-      });
-      setUploadedFiles([]);
-    },
-    onError: (error: any) => {
-      // Try to extract a more specific error message
-      const errorMessage = error?.message || "Failed to create project. Please try again.";
-      toast({
-        title: "Error",
-        description: errorMessage,
-        variant: "destructive",
-      });
+    onSuccess: finishProjectCreation,
+    onError: showCreationError,
+  });
+
+  // Uploading creates the project and stores the files in its workspace in one request
+  const uploadProjectMutation = useMutation({
+    mutationFn: async (): Promise<Project> => {
+      const body = new FormData();
+      body.append('name', formData.name);
+      body.append('description', formData.description);
+      uploadedFiles.forEach(file => body.append('files', file));
+
+      const response = await fetch('/api/upload', { method: 'POST', body, credentials: 'include' });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.message || 'Upload failed');
+      }
+      return result.project;
     },
+    onSuccess: finishProjectCreation,
+    onError: showCreationError,
   });
 
   const handleSubmit = () => {
@@ -128,6 +204,33 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
       return;
     }
 
+    if (selectedSource === "gitlab" && !formData.sourceUrl) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide a GitLab project URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedSource === "bitbucket" && !formData.sourceUrl) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide a Bitbucket repository URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedSource === "git" && !formData.sourceUrl) {
+      toast({
+        title: "Missing Information",
+        description: "Please provide a git repository URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (selectedSource === "drive" && (!formData.driveFileId || !formData.driveAccessToken)) {
       toast({
         title: "Missing Information",
@@ -155,6 +258,15 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
       return;
     }
 
+    if (selectedSource === "upload") {
+      if (uploadProject) {
+        finishProjectCreation(uploadProject);
+      } else {
+        uploadProjectMutation.mutate();
+      }
+      return;
+    }
+
     let projectData: InsertProject;
     
     if (selectedSource === "github") {
@@ -183,6 +295,70 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
           accessToken: formData.token || undefined, // Note: renamed from 'token' to 'accessToken'
         },
       };
+    } else if (selectedSource === "gitlab") {
+      const gitlabInfo = parseGitLabUrl(formData.sourceUrl);
+
+      if (!gitlabInfo) {
+        toast({
+          title: "Invalid GitLab URL",
+          description: "Please provide a valid GitLab project URL (e.g., https://gitlab.example.com/group/project)",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      projectData = {
+        name: formData.name,
+        description: formData.description,
+        sourceType: "gitlab",
+        sourceUrl: formData.sourceUrl.trim(),
+        repositoryData: {
+          serverUrl: gitlabInfo.serverUrl,
+          projectPath: gitlabInfo.projectPath,
+          branch: formData.gitRef.trim() || undefined,
+          path: "",
+          accessToken: formData.token || undefined,
+        },
+      };
+    } else if (selectedSource === "bitbucket") {
+      const bitbucketInfo = parseBitbucketUrl(formData.sourceUrl);
+
+      if (!bitbucketInfo) {
+        toast({
+          title: "Invalid Bitbucket URL",
+          description: "Please provide a valid Bitbucket repository URL (e.g., https://bitbucket.org/workspace/repository)",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      projectData = {
+        name: formData.name,
+        description: formData.description,
+        sourceType: "bitbucket",
+        sourceUrl: formData.sourceUrl.trim(),
+        repositoryData: {
+          workspace: bitbucketInfo.workspace,
+          repo: bitbucketInfo.repo,
+          branch: formData.gitRef.trim() || undefined,
+          path: "",
+          username: formData.bitbucketUsername.trim() || undefined,
+          accessToken: formData.token || undefined,
+        },
+      };
+    } else if (selectedSource === "git") {
+      projectData = {
+        name: formData.name,
+        description: formData.description,
+        sourceType: "git",
+        sourceUrl: formData.sourceUrl.trim(),
+        repositoryData: {
+          url: formData.sourceUrl.trim(),
+          ref: formData.gitRef.trim() || undefined,
+          depth: formData.gitDepth === "" ? undefined : Number(formData.gitDepth),
+          accessToken: formData.token || undefined,
+        },
+      };
     } else if (selectedSource === "drive") {
       projectData = {
         name: formData.name,
@@ -194,7 +370,7 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
           driveAccessToken: formData.driveAccessToken,
         },
       };
-    } else if (selectedSource === "jira") {
+    } else {
       projectData = {
         name: formData.name,
         description: formData.description,
@@ -207,21 +383,6 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
           jiraApiToken: formData.jiraApiToken,
         },
       };
-    } else {
-      // File Upload
-      projectData = {
-        name: formData.name,
-        description: formData.description,
-        sourceType: "upload",
-        sourceUrl: "local_files",
-        repositoryData: {
-          uploadedFiles: uploadedFiles.map(file => ({
-            name: file.name,
-            size: file.size,
-            type: file.type,
-          })),
-        },
-      };
     }
 
     createProjectMutation.mutate(projectData);
@@ -339,7 +500,8 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
     setUploadedFiles(files);
   };
 
-  const handleUploadComplete = (results: any[]) => {
+  const handleUploadComplete = (results: any[], project?: Project) => {
+    if (project) setUploadProject(project);
     toast({
       title: "Files Uploaded",
       description: `${results.length} files uploaded successfully`,
@@ -362,6 +524,27 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
       icon: Github,
       color: "border-ibm-blue bg-blue-50",
     },
+    {
+      id: "gitlab",
+      name: "GitLab",
+      description: "gitlab.com or self-hosted",
+      icon: Gitlab,
+      color: "border-ibm-blue bg-blue-50",
+    },
+    {
+      id: "bitbucket",
+      name: "Bitbucket",
+      description: "Bitbucket Cloud",
+      icon: GitMerge,
+      color: "border-ibm-blue bg-blue-50",
+    },
+    {
+      id: "git",
+      name: "Git",
+      description: "Any git remote",
+      icon: GitBranch,
+      color: "border-ibm-blue bg-blue-50",
+    },
     {
       id: "upload",
       name: "File Upload",
@@ -497,6 +680,179 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
             </>
           )}
 
+          {/* GitLab Specific Fields */}
+          {selectedSource === "gitlab" && (
+            <>
+              <div>
+                <Label htmlFor="gitlabUrl" className="text-sm font-medium text-carbon-gray-70">
+                  <Gitlab className="inline w-4 h-4 mr-1" />
+                  GitLab Project URL
+                </Label>
+                <Input
+                  id="gitlabUrl"
+                  placeholder="https://gitlab.example.com/group/project"
+                  value={formData.sourceUrl}
+                  onChange={(e) => setFormData({ ...formData, sourceUrl: e.target.value })}
+                  className="mt-2"
+                />
+                <p className="text-xs text-carbon-gray-60 mt-1">
+                  Projects on gitlab.com or a self-hosted instance, including subgroups
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="gitlabRef" className="text-sm font-medium text-carbon-gray-70">
+                    Branch (Optional)
+                  </Label>
+                  <Input
+                    id="gitlabRef"
+                    placeholder="Default branch"
+                    value={formData.gitRef}
+                    onChange={(e) => setFormData({ ...formData, gitRef: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="gitlabToken" className="text-sm font-medium text-carbon-gray-70">
+                    Access Token (Optional)
+                  </Label>
+                  <Input
+                    id="gitlabToken"
+                    type="password"
+                    placeholder="glpat-xxxxxxxxxxxx"
+                    value={formData.token}
+                    onChange={(e) => setFormData({ ...formData, token: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Bitbucket Specific Fields */}
+          {selectedSource === "bitbucket" && (
+            <>
+              <div>
+                <Label htmlFor="bitbucketUrl" className="text-sm font-medium text-carbon-gray-70">
+                  <GitMerge className="inline w-4 h-4 mr-1" />
+                  Bitbucket Repository URL
+                </Label>
+                <Input
+                  id="bitbucketUrl"
+                  placeholder="https://bitbucket.org/workspace/repository"
+                  value={formData.sourceUrl}
+                  onChange={(e) => setFormData({ ...formData, sourceUrl: e.target.value })}
+                  className="mt-2"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="bitbucketRef" className="text-sm font-medium text-carbon-gray-70">
+                    Branch (Optional)
+                  </Label>
+                  <Input
+                    id="bitbucketRef"
+                    placeholder="Main branch"
+                    value={formData.gitRef}
+                    onChange={(e) => setFormData({ ...formData, gitRef: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bitbucketUsername" className="text-sm font-medium text-carbon-gray-70">
+                    Username (Optional)
+                  </Label>
+                  <Input
+                    id="bitbucketUsername"
+                    placeholder="Only with an app password"
+                    value={formData.bitbucketUsername}
+                    onChange={(e) => setFormData({ ...formData, bitbucketUsername: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="bitbucketToken" className="text-sm font-medium text-carbon-gray-70">
+                    Access Token or App Password (Optional)
+                  </Label>
+                  <Input
+                    id="bitbucketToken"
+                    type="password"
+                    placeholder="For private repositories"
+                    value={formData.token}
+                    onChange={(e) => setFormData({ ...formData, token: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Git Specific Fields */}
+          {selectedSource === "git" && (
+            <>
+              <div>
+                <Label htmlFor="gitUrl" className="text-sm font-medium text-carbon-gray-70">
+                  <GitBranch className="inline w-4 h-4 mr-1" />
+                  Git Repository URL
+                </Label>
+                <Input
+                  id="gitUrl"
+                  placeholder="https://git.example.com/team/repository.git"
+                  value={formData.sourceUrl}
+                  onChange={(e) => setFormData({ ...formData, sourceUrl: e.target.value })}
+                  className="mt-2"
+                />
+                <p className="text-xs text-carbon-gray-60 mt-1">
+                  https, ssh, git and file URLs are supported, on any host
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="gitRef" className="text-sm font-medium text-carbon-gray-70">
+                    Branch, Tag or Commit (Optional)
+                  </Label>
+                  <Input
+                    id="gitRef"
+                    placeholder="Default branch"
+                    value={formData.gitRef}
+                    onChange={(e) => setFormData({ ...formData, gitRef: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="gitDepth" className="text-sm font-medium text-carbon-gray-70">
+                    Clone Depth
+                  </Label>
+                  <Input
+                    id="gitDepth"
+                    type="number"
+                    min={0}
+                    placeholder="0 for full history"
+                    value={formData.gitDepth}
+                    onChange={(e) => setFormData({ ...formData, gitDepth: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="gitToken" className="text-sm font-medium text-carbon-gray-70">
+                    Access Token (Optional)
+                  </Label>
+                  <Input
+                    id="gitToken"
+                    type="password"
+                    placeholder="For private https remotes"
+                    value={formData.token}
+                    onChange={(e) => setFormData({ ...formData, token: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
           {/* Google Drive Specific Fields */}
           {selectedSource === "drive" && (
             <>
@@ -679,7 +1035,9 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
                   onUploadError={handleUploadError}
                   maxFiles={100}
                   maxFileSize={10}
-                  disabled={createProjectMutation.isPending}
+                  projectId={uploadProject?.id}
+                  uploadFields={{ name: formData.name, description: formData.description }}
+                  disabled={createProjectMutation.isPending || uploadProjectMutation.isPending}
                 />
               </div>
               
@@ -701,22 +1059,31 @@ export default function CodeAcquisition({ onProjectCreated }: CodeAcquisitionPro
 
           <Button
             onClick={handleSubmit}
-            disabled={createProjectMutation.isPending}
+            disabled={createProjectMutation.isPending || uploadProjectMutation.isPending}
             className="w-full bg-ibm-blue hover:bg-blue-700"
           >
             {selectedSource === "github" && <Github size={16} className="mr-2" />}
+            {selectedSource === "gitlab" && <Gitlab size={16} className="mr-2" />}
+            {selectedSource === "bitbucket" && <GitMerge size={16} className="mr-2" />}
+            {selectedSource === "git" && <GitBranch size={16} className="mr-2" />}
             {selectedSource === "drive" && <Upload size={16} className="mr-2" />}
             {selectedSource === "jira" && <FileText size={16} className="mr-2" />}
             {selectedSource === "upload" && <FolderUp size={16} className="mr-2" />}
-            {createProjectMutation.isPending ? 
+            {createProjectMutation.isPending || uploadProjectMutation.isPending ? 
               `Acquiring from ${
                 selectedSource === "github" ? "GitHub" : 
+                selectedSource === "gitlab" ? "GitLab" :
+                selectedSource === "bitbucket" ? "Bitbucket" :
+                selectedSource === "git" ? "Git" : 
                 selectedSource === "drive" ? "Google Drive" : 
                 selectedSource === "jira" ? "JIRA" :
                 "Uploaded Files"
               }...` : 
               `Acquire from ${
                 selectedSource === "github" ? "GitHub" : 
+                selectedSource === "gitlab" ? "GitLab" :
+                selectedSource === "bitbucket" ? "Bitbucket" :
+                selectedSource === "git" ? "Git" : 
                 selectedSource === "drive" ? "Google Drive" : 
                 selectedSource === "jira" ? "JIRA" :
                 "Uploaded Files"
@@ -2,7 +2,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { AlertCircle, ChevronDown, Copy, ExternalLink, Bug } from "lucide-react";
+import { AlertCircle, ChevronDown, Copy, ExternalLink, Bug, Download } from "lucide-react";
 import { useState } from "react";
 import type { TestCase } from "@shared/schema";
 
@@ -10,6 +10,13 @@ interface ErrorDetailsProps {
   testCases: TestCase[];
 }
 
+interface ArtifactLink {
+  id: number;
+  kind: string;
+  fileName: string;
+  contentType: string;
+}
+
 interface ErrorDetail {
   testCaseId: number;
   testName: string;
@@ -19,7 +26,7 @@ interface ErrorDetail {
   stackTrace?: string;
   expectedResult?: string;
   actualResult?: string;
-  screenshot?: string;
+  artifacts: ArtifactLink[];
   reproduction?: string[];
   severity: 'critical' | 'high' | 'medium' | 'low';
   category: 'functional' | 'security' | 'performance' | 'ui' | 'api' | 'accessibility';
@@ -40,7 +47,7 @@ export default function ErrorDetails({ testCases }: ErrorDetailsProps) {
       stackTrace: getStackTrace(tc),
       expectedResult: getExpectedResult(tc),
       actualResult: getActualResult(tc),
-      screenshot: getScreenshot(tc),
+      artifacts: getArtifacts(tc),
       reproduction: getReproductionSteps(tc),
       severity: getErrorSeverity(tc),
       category: getErrorCategory(tc)
@@ -212,6 +219,45 @@ Reproduction Steps: ${error.reproduction?.join('\n') || 'N/A'}
                       </div>
                     )}
 
+                    {/* Artifacts */}
+                    {error.artifacts.length > 0 && (
+                      <div>
+                        <h5 className="font-medium text-sm mb-2">Artifacts</h5>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {error.artifacts.filter(a => a.kind === 'screenshot').map(artifact => (
+                            <a key={artifact.id} href={artifactUrl(artifact)} target="_blank" rel="noreferrer">
+                              <img
+                                src={artifactUrl(artifact)}
+                                alt={artifact.fileName}
+                                className="rounded border max-h-64 w-full object-contain bg-white"
+                              />
+                            </a>
+                          ))}
+                          {error.artifacts.filter(a => a.kind === 'video').map(artifact => (
+                            <video
+                              key={artifact.id}
+                              src={artifactUrl(artifact)}
+                              controls
+                              className="rounded border max-h-64 w-full bg-black"
+                            />
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {error.artifacts.filter(a => a.kind !== 'screenshot' && a.kind !== 'video').map(artifact => (
+                            <a
+                              key={artifact.id}
+                              href={artifactUrl(artifact)}
+                              download={artifact.fileName}
+                              className="inline-flex items-center text-xs bg-gray-100 px-2 py-1 rounded border hover:bg-gray-200"
+                            >
+                              <Download size={12} className="mr-1" />
+                              {artifact.fileName}
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Reproduction Steps */}
                     {error.reproduction && error.reproduction.length > 0 && (
                       <div>
@@ -325,9 +371,13 @@ function getActualResult(testCase: TestCase): string | undefined {
   return results?.actual || results?.actualResult;
 }
 
-function getScreenshot(testCase: TestCase): string | undefined {
+function getArtifacts(testCase: TestCase): ArtifactLink[] {
   const results = testCase.results as any;
-  return results?.screenshot;
+  return Array.isArray(results?.artifacts) ? results.artifacts : [];
+}
+
+function artifactUrl(artifact: ArtifactLink): string {
+  return `/api/artifacts/${artifact.id}/download`;
 }
 
 function getReproductionSteps(testCase: TestCase): string[] {
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import type { Project } from '@shared/schema';
 
 interface FileItem {
   file: File;
@@ -17,12 +18,17 @@ interface FileItem {
 
 interface FileUploadZoneProps {
   onFilesSelected: (files: File[]) => void;
-  onUploadComplete: (results: any[]) => void;
+  // Receives the upload project the files were stored in
+  onUploadComplete: (results: any[], project?: Project) => void;
   onUploadError: (error: string) => void;
   maxFiles?: number;
   maxFileSize?: number; // in MB
   acceptedTypes?: string[];
   disabled?: boolean;
+  // Attach the files to this upload project instead of creating a new one
+  projectId?: number;
+  // Extra form fields sent with the files, e.g. the name and description of a new project
+  uploadFields?: Record<string, string>;
 }
 
 const ALLOWED_EXTENSIONS = [
@@ -41,7 +47,9 @@ export function FileUploadZone({
   maxFiles = 100,
   maxFileSize = 10, // 10MB default
   acceptedTypes = ALLOWED_EXTENSIONS,
-  disabled = false
+  disabled = false,
+  projectId,
+  uploadFields = {}
 }: FileUploadZoneProps) {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [isDragActive, setIsDragActive] = useState(false);
@@ -168,6 +176,13 @@ export function FileUploadZone({
     const formData = new FormData();
     const fileItems = files.filter(item => item.status === 'pending');
 
+    if (projectId !== undefined) {
+      formData.append('projectId', String(projectId));
+    }
+    Object.entries(uploadFields).forEach(([key, value]) => {
+      formData.append(key, value);
+    });
+
     fileItems.forEach((item) => {
       formData.append('files', item.file);
     });
@@ -198,7 +213,7 @@ export function FileUploadZone({
       });
 
       xhr.addEventListener('load', () => {
-        if (xhr.status === 200) {
+        if (xhr.status >= 200 && xhr.status < 300) {
           const response = JSON.parse(xhr.responseText);
           
           // Update file statuses to completed
@@ -215,7 +230,7 @@ export function FileUploadZone({
             return item;
           }));
 
-          onUploadComplete(response.files);
+          onUploadComplete(response.files, response.project);
         } else {
           const errorResponse = JSON.parse(xhr.responseText);
           throw new Error(errorResponse.message || 'Upload failed');
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
+import { useProjectEvents } from "@/hooks/use-project-events";
 import { apiRequest } from "@/lib/queryClient";
 import { Play, Check, Clock, AlertCircle, Loader2, Download, Eye, Shield } from "lucide-react";
 import EnterpriseTestDashboard from "./enterprise-test-dashboard";
@@ -29,6 +30,7 @@ export default function TestGeneration({ project, onTestsGenerated }: TestGenera
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const { connected: eventsConnected } = useProjectEvents(project.id);
 
   // Clean up polling interval on unmount to prevent memory leaks
   useEffect(() => {
@@ -82,7 +84,8 @@ export default function TestGeneration({ project, onTestsGenerated }: TestGenera
       console.log('Frontend: Test cases length:', data.length);
       return data;
     },
-    refetchInterval: 10000, // Increased from 3s to 10s to reduce memory usage
+    // Live events keep this fresh; poll only while the event stream is down
+    refetchInterval: eventsConnected ? false : 10000,
     refetchIntervalInBackground: false, // Stop polling when tab is not active
   });
 
@@ -531,6 +534,14 @@ export default function TestGeneration({ project, onTestsGenerated }: TestGenera
                           {testCase.type}
                         </span>
                         <div className="flex items-center space-x-2">
+                          {testCase.quarantined && (
+                            <Badge
+                              className="bg-yellow-30 text-carbon-gray-100"
+                              title={testCase.quarantineReason || `Flakiness score ${testCase.flakinessScore ?? 0}`}
+                            >
+                              Quarantined
+                            </Badge>
+                          )}
                           {getStatusIcon(testCase.status)}
                           <Button
                             size="sm"
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -13,42 +13,65 @@ interface TestLogsProps {
 }
 
 interface LogEntry {
-  id: string;
-  timestamp: string;
+  id: number;
+  createdAt: string;
   level: 'info' | 'warning' | 'error' | 'success' | 'debug';
   category: 'test_execution' | 'framework' | 'analysis' | 'system' | 'security' | 'performance';
+  source: string | null;
   message: string;
-  details?: any;
-  testCaseId?: number;
-  framework?: string;
-  duration?: number;
+  details: any;
+  testRunId: number | null;
+  testCaseId: number | null;
+  framework: string | null;
+  duration: number | null;
 }
 
+interface LogPage {
+  logs: LogEntry[];
+  nextCursor: number | null;
+}
+
+const PAGE_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function TestLogs({ project }: TestLogsProps) {
   const [filterLevel, setFilterLevel] = useState<string>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState('');
   const [autoRefresh, setAutoRefresh] = useState(true);
 
-  // Simulated real-time logs - in production this would come from WebSocket or polling
-  const { data: logs = [], refetch } = useQuery<LogEntry[]>({
-    queryKey: [`/api/projects/${project.id}/logs`],
-    queryFn: async () => {
-      // For now, generating comprehensive test logs based on current test execution
-      return generateMockLogs(project.id);
+  // Query the server once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Every filter is applied server-side; older pages are fetched with the returned cursor
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<LogPage>({
+    queryKey: [`/api/projects/${project.id}/logs`, filterLevel, filterCategory, search],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (filterLevel !== 'all') params.set('level', filterLevel);
+      if (filterCategory !== 'all') params.set('category', filterCategory);
+      if (search) params.set('search', search);
+      if (pageParam) params.set('cursor', String(pageParam));
+
+      const response = await fetch(`/api/projects/${project.id}/logs?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
     },
-    refetchInterval: autoRefresh ? 2000 : false,
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // A refetch reloads every loaded page, so live updates stop once older pages are loaded
+    refetchInterval: (query) => autoRefresh && (query.state.data?.pages.length ?? 0) <= 1 ? 2000 : false,
   });
 
-  const filteredLogs = logs.filter(log => {
-    const levelMatch = filterLevel === 'all' || log.level === filterLevel;
-    const categoryMatch = filterCategory === 'all' || log.category === filterCategory;
-    const searchMatch = searchTerm === '' || 
-      log.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.framework?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    return levelMatch && categoryMatch && searchMatch;
-  });
+  const logs = data?.pages.flatMap(page => page.logs) ?? [];
+  const olderPagesLoaded = (data?.pages.length ?? 0) > 1;
+  const live = autoRefresh && !olderPagesLoaded;
 
   const getLogIcon = (level: string) => {
     switch (level) {
@@ -85,12 +108,15 @@ export default function TestLogs({ project }: TestLogsProps) {
   };
 
   const exportLogs = () => {
-    const logData = filteredLogs.map(log => ({
-      timestamp: log.timestamp,
+    const logData = logs.map(log => ({
+      timestamp: log.createdAt,
       level: log.level,
       category: log.category,
+      source: log.source,
       message: log.message,
       framework: log.framework,
+      testRunId: log.testRunId,
+      testCaseId: log.testCaseId,
       duration: log.duration,
       details: log.details
     }));
@@ -117,10 +143,11 @@ export default function TestLogs({ project }: TestLogsProps) {
               variant="outline"
               size="sm"
               onClick={() => setAutoRefresh(!autoRefresh)}
-              className={autoRefresh ? 'bg-green-50 border-green-200' : ''}
+              className={live ? 'bg-green-50 border-green-200' : ''}
+              title={autoRefresh && olderPagesLoaded ? 'Live updates pause while older logs are loaded' : undefined}
             >
-              <RefreshCw size={14} className={autoRefresh ? 'animate-spin' : ''} />
-              {autoRefresh ? 'Live' : 'Paused'}
+              <RefreshCw size={14} className={live ? 'animate-spin' : ''} />
+              {live ? 'Live' : 'Paused'}
             </Button>
             <Button variant="outline" size="sm" onClick={exportLogs}>
               <Download size={14} />
@@ -170,7 +197,7 @@ export default function TestLogs({ project }: TestLogsProps) {
           </select>
 
           <div className="text-sm text-gray-600 py-2">
-            Showing {filteredLogs.length} of {logs.length} logs
+            {hasNextPage ? `Showing the latest ${logs.length} logs` : `Showing all ${logs.length} logs`}
           </div>
         </div>
 
@@ -185,7 +212,7 @@ export default function TestLogs({ project }: TestLogsProps) {
           <TabsContent value="live" className="mt-4">
             <ScrollArea className="h-96 w-full border rounded-md p-4">
               <div className="space-y-2">
-                {filteredLogs.map((log) => (
+                {logs.map((log) => (
                   <div
                     key={log.id}
                     className={`p-3 rounded-lg border ${getLogColor(log.level)}`}
@@ -196,7 +223,7 @@ export default function TestLogs({ project }: TestLogsProps) {
                         <div className="flex-1">
                           <div className="flex items-center space-x-2 mb-1">
                             <span className="text-xs font-medium">
-                              {new Date(log.timestamp).toLocaleTimeString()}
+                              {new Date(log.createdAt).toLocaleTimeString()}
                             </span>
                             <Badge variant="outline" className="text-xs">
                               {log.category}
@@ -206,7 +233,7 @@ export default function TestLogs({ project }: TestLogsProps) {
                                 {log.framework}
                               </Badge>
                             )}
-                            {log.duration && (
+                            {!!log.duration && (
                               <span className="text-xs text-gray-500">
                                 {log.duration}ms
                               </span>
@@ -228,11 +255,23 @@ export default function TestLogs({ project }: TestLogsProps) {
                     </div>
                   </div>
                 ))}
-                {filteredLogs.length === 0 && (
+                {logs.length === 0 && (
                   <div className="text-center py-8 text-gray-500">
                     No logs match the current filters
                   </div>
                 )}
+                {hasNextPage && (
+                  <div className="text-center pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? 'Loading...' : 'Load older logs'}
+                    </Button>
+                  </div>
+                )}
               </div>
             </ScrollArea>
           </TabsContent>
@@ -240,7 +279,7 @@ export default function TestLogs({ project }: TestLogsProps) {
           <TabsContent value="errors" className="mt-4">
             <ScrollArea className="h-96 w-full border rounded-md p-4">
               <div className="space-y-2">
-                {filteredLogs
+                {logs
                   .filter(log => log.level === 'error' || log.level === 'warning')
                   .map((log) => (
                     <div
@@ -252,7 +291,7 @@ export default function TestLogs({ project }: TestLogsProps) {
                         <div className="flex-1">
                           <div className="flex items-center space-x-2 mb-1">
                             <span className="text-xs font-medium">
-                              {new Date(log.timestamp).toLocaleTimeString()}
+                              {new Date(log.createdAt).toLocaleTimeString()}
                             </span>
                             <Badge variant="outline" className="text-xs">
                               {log.level}
@@ -283,8 +322,8 @@ export default function TestLogs({ project }: TestLogsProps) {
           <TabsContent value="performance" className="mt-4">
             <ScrollArea className="h-96 w-full border rounded-md p-4">
               <div className="space-y-2">
-                {filteredLogs
-                  .filter(log => log.category === 'performance' || log.duration)
+                {logs
+                  .filter(log => log.category === 'performance' || !!log.duration)
                   .map((log) => (
                     <div
                       key={log.id}
@@ -297,7 +336,7 @@ export default function TestLogs({ project }: TestLogsProps) {
                             <p className="text-sm">{log.message}</p>
                             <div className="flex items-center space-x-2 mt-1">
                               <span className="text-xs text-gray-500">
-                                {new Date(log.timestamp).toLocaleTimeString()}
+                                {new Date(log.createdAt).toLocaleTimeString()}
                               </span>
                               {log.framework && (
                                 <Badge variant="secondary" className="text-xs">
@@ -307,7 +346,7 @@ export default function TestLogs({ project }: TestLogsProps) {
                             </div>
                           </div>
                         </div>
-                        {log.duration && (
+                        {!!log.duration && (
                           <Badge 
                             variant={log.duration > 5000 ? "destructive" : log.duration > 2000 ? "secondary" : "default"}
                             className="text-xs"
@@ -326,50 +365,3 @@ export default function TestLogs({ project }: TestLogsProps) {
     </Card>
   );
 }
-
-// Mock log generator - in production this would come from real test execution
-function generateMockLogs(projectId: number): LogEntry[] {
-  const now = new Date();
-  const logs: LogEntry[] = [];
-  
-  // Generate logs for the last hour with realistic test execution flow
-  for (let i = 0; i < 50; i++) {
-    const timestamp = new Date(now.getTime() - (i * 60000 + Math.random() * 60000));
-    
-    logs.push({
-      id: `log-${i}`,
-      timestamp: timestamp.toISOString(),
-      level: Math.random() > 0.8 ? 'error' : Math.random() > 0.6 ? 'warning' : Math.random() > 0.3 ? 'success' : 'info',
-      category: ['test_execution', 'framework', 'analysis', 'security', 'performance', 'system'][Math.floor(Math.random() * 6)] as any,
-      message: [
-        'Test execution started for User Authentication Test',
-        'Jest framework initialized successfully',
-        'Playwright browser launched on port 9222',
-        'OWASP ZAP security scan completed',
-        'k6 performance test finished with 95% success rate',
-        'Lighthouse accessibility audit passed',
-        'API endpoint validation successful',
-        'Visual regression test detected UI changes',
-        'Database connection established',
-        'Test environment setup completed',
-        'Error: Test timeout after 30 seconds',
-        'Warning: Deprecated API usage detected',
-        'Critical security vulnerability found in authentication',
-        'Performance threshold exceeded: 5.2s response time',
-        'Test suite completed with 85% pass rate'
-      ][Math.floor(Math.random() * 15)],
-      framework: ['jest', 'playwright', 'k6', 'owasp-zap', 'lighthouse', 'selenium'][Math.floor(Math.random() * 6)],
-      duration: Math.floor(Math.random() * 10000),
-      details: Math.random() > 0.7 ? {
-        testCaseId: 65 + Math.floor(Math.random() * 4),
-        stackTrace: 'Error at line 23 in test-auth.spec.js',
-        expectedValue: 'true',
-        actualValue: 'false',
-        browserInfo: 'Chrome 118.0.0.0',
-        environment: 'test'
-      } : undefined
-    });
-  }
-  
-  return logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-}
\ No newline at end of file
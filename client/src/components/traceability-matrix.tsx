@@ -0,0 +1,242 @@
+import { useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CheckCircle, XCircle, Clock, Download, Upload, Link2Off, FileText } from "lucide-react";
+import type { Requirement } from "@shared/schema";
+
+interface TraceabilityMatrixProps {
+  projectId?: number;
+}
+
+type TestStatus = 'passed' | 'failed' | 'skipped' | 'not_run';
+type CoverageStatus = 'passing' | 'failing' | 'not_run' | 'uncovered';
+
+interface TraceabilityTest {
+  testCaseId: number;
+  name: string;
+  type: string;
+  priority: string;
+  quarantined: boolean;
+  latestStatus: TestStatus;
+  latestRunId: number | null;
+  lastExecutedAt: string | null;
+}
+
+interface TraceabilityMatrixData {
+  summary: {
+    requirements: number;
+    covered: number;
+    uncovered: number;
+    passing: number;
+    failing: number;
+    notRun: number;
+    tests: number;
+    unlinkedTests: number;
+    coveragePercentage: number;
+  };
+  requirements: Array<{ requirement: Requirement; status: CoverageStatus; tests: TraceabilityTest[] }>;
+  unlinkedTests: TraceabilityTest[];
+}
+
+const COVERAGE_STYLES: Record<CoverageStatus, { label: string; className: string }> = {
+  passing: { label: 'Passing', className: 'bg-green-100 text-green-800 border-green-200' },
+  failing: { label: 'Failing', className: 'bg-red-100 text-red-800 border-red-200' },
+  not_run: { label: 'Not run', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+  uncovered: { label: 'No tests', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+};
+
+export default function TraceabilityMatrix({ projectId }: TraceabilityMatrixProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: matrix, isLoading } = useQuery<TraceabilityMatrixData>({
+    queryKey: [`/api/projects/${projectId}/traceability`],
+    enabled: !!projectId,
+  });
+
+  const importSpec = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/projects/${projectId}/requirements/import`, {
+        method: 'POST',
+        body: formData,
+        credentials: "include",
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.message || `${response.status}`);
+      }
+      return body;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Requirements imported", description: `${result.created} added, ${result.updated} updated` });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/traceability`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const getTestIcon = (status: TestStatus) => {
+    switch (status) {
+      case 'passed':
+        return <CheckCircle className="text-green-600" size={14} />;
+      case 'failed':
+        return <XCircle className="text-red-600" size={14} />;
+      default:
+        return <Clock className="text-gray-400" size={14} />;
+    }
+  };
+
+  if (!projectId) {
+    return (
+      <div className="text-center py-16">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Traceability</h2>
+        <p className="text-gray-600">Select a project to see which requirements its tests cover.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !matrix) {
+    return <div className="text-center py-16 text-gray-600">Loading traceability matrix...</div>;
+  }
+
+  const { summary } = matrix;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">Requirements Traceability</h2>
+        <div className="flex items-center space-x-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".md,.markdown,.txt"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) importSpec.mutate(file);
+              event.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" disabled={importSpec.isPending} onClick={() => fileInput.current?.click()}>
+            <Upload size={14} className="mr-1" />
+            Import Spec
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/projects/${projectId}/traceability?format=csv`} download>
+              <Download size={14} className="mr-1" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-gray-900">{summary.coveragePercentage}%</div>
+            <div className="text-sm text-gray-600">{summary.covered} of {summary.requirements} requirements covered</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-orange-600">{summary.uncovered}</div>
+            <div className="text-sm text-gray-600">Requirements without tests</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-red-600">{summary.failing}</div>
+            <div className="text-sm text-gray-600">Requirements with failing tests</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-2xl font-bold text-gray-700">{summary.unlinkedTests}</div>
+            <div className="text-sm text-gray-600">Tests without a requirement</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="mr-2" size={18} />
+            Requirements ({summary.requirements})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {matrix.requirements.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No requirements yet. Acquire a Jira project, or import a spec document with Markdown headings.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {matrix.requirements.map(({ requirement, status, tests }) => (
+                <div key={requirement.id} className="py-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {requirement.sourceRef?.startsWith('http') ? (
+                          <a href={requirement.sourceRef} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                            {requirement.key}
+                          </a>
+                        ) : requirement.key}
+                        <span className="ml-2 font-normal">{requirement.title}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">{requirement.source === 'jira' ? 'Jira issue' : requirement.sourceRef}</div>
+                    </div>
+                    <Badge className={COVERAGE_STYLES[status].className}>
+                      {status === 'uncovered' && <AlertTriangle size={12} className="mr-1" />}
+                      {COVERAGE_STYLES[status].label}
+                    </Badge>
+                  </div>
+                  {tests.length > 0 && (
+                    <ul className="mt-2 ml-4 space-y-1">
+                      {tests.map(test => (
+                        <li key={test.testCaseId} className="flex items-center text-sm text-gray-700">
+                          {getTestIcon(test.latestStatus)}
+                          <span className="ml-2">{test.name}</span>
+                          {test.latestRunId && <span className="ml-2 text-xs text-gray-500">run #{test.latestRunId}</span>}
+                          {test.quarantined && <Badge variant="secondary" className="ml-2">Quarantined</Badge>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {matrix.unlinkedTests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Link2Off className="mr-2" size={18} />
+              Tests without a requirement ({matrix.unlinkedTests.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-1">
+              {matrix.unlinkedTests.map(test => (
+                <li key={test.testCaseId} className="flex items-center text-sm text-gray-700">
+                  {getTestIcon(test.latestStatus)}
+                  <span className="ml-2">{test.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">{test.type}</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
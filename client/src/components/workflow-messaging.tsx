@@ -328,6 +328,8 @@ export default function WorkflowMessaging({ project, analyses, testCases }: Work
   const getSourceDisplayName = (sourceType: string) => {
     switch (sourceType) {
       case 'github': return 'GitHub Repository';
+      case 'gitlab': return 'GitLab Repository';
+      case 'bitbucket': return 'Bitbucket Repository';
       case 'drive': return 'Google Drive';
       case 'jira': return 'JIRA Project';
       default: return 'File Upload';
@@ -336,7 +338,9 @@ export default function WorkflowMessaging({ project, analyses, testCases }: Work
 
   const getSourceIcon = (sourceType: string) => {
     switch (sourceType) {
-      case 'github': return <GitBranch className="h-4 w-4" />;
+      case 'github':
+      case 'gitlab':
+      case 'bitbucket': return <GitBranch className="h-4 w-4" />;
       case 'drive': return <Globe className="h-4 w-4" />;
       case 'jira': return <Database className="h-4 w-4" />;
       default: return <Upload className="h-4 w-4" />;
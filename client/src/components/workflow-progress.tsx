@@ -11,6 +11,7 @@ import {
   Play,
   BarChart3
 } from "lucide-react";
+import { useProjectEvents } from "@/hooks/use-project-events";
 import type { Project, Analysis, TestCase } from "@shared/schema";
 
 interface WorkflowProgressProps {
@@ -28,7 +29,18 @@ interface WorkflowStep {
   estimatedTime?: string;
 }
 
+const PHASE_LABELS: Record<string, string> = {
+  initialization: 'Initializing workflow',
+  analysis: 'Analyzing code',
+  testing: 'Generating and running tests',
+  quality_gates: 'Evaluating quality gates',
+  deployment_prep: 'Preparing deployment report',
+  completed: 'Workflow completed'
+};
+
 export default function WorkflowProgress({ project, analyses, testCases }: WorkflowProgressProps) {
+  // Analyses and test cases refetch as soon as the server reports a phase change
+  const { connected, workflowPhase } = useProjectEvents(project.id);
   
   const getAnalysisStatus = () => {
     if (!analyses || analyses.length === 0) return 'pending';
@@ -179,9 +191,16 @@ export default function WorkflowProgress({ project, analyses, testCases }: Workf
             <Activity className="h-5 w-5 text-blue-500" />
             Workflow Progress
           </CardTitle>
-          <Badge variant="outline" className="px-3">
-            {overallProgress}% Complete
-          </Badge>
+          <div className="flex items-center gap-2">
+            {connected && (
+              <Badge variant="outline" className="px-3 bg-green-50 text-green-700 border-green-300">
+                Live
+              </Badge>
+            )}
+            <Badge variant="outline" className="px-3">
+              {overallProgress}% Complete
+            </Badge>
+          </div>
         </div>
       </CardHeader>
       
@@ -193,6 +212,11 @@ export default function WorkflowProgress({ project, analyses, testCases }: Workf
             <span className="font-medium">{overallProgress}%</span>
           </div>
           <Progress value={overallProgress} className="h-2" />
+          {workflowPhase && (
+            <div className="text-sm text-blue-700">
+              Phase: {PHASE_LABELS[workflowPhase] || workflowPhase}
+            </div>
+          )}
           {currentStep && (
             <div className="text-sm text-gray-600">
               Current: {currentStep.title}
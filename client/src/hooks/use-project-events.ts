@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { useQueryClient, type Query } from "@tanstack/react-query";
+
+export type ProjectEventType =
+  | "workflow:phase"
+  | "workflow:completed"
+  | "workflow:failed"
+  | "workflow:cancelled"
+  | "run:started"
+  | "run:completed"
+  | "run:failed"
+  | "run:cancelled"
+  | "test:started"
+  | "test:finished"
+  | "agent:status";
+
+export interface ProjectEvent {
+  type: ProjectEventType;
+  projectId: number | null;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+const EVENT_TYPES: ProjectEventType[] = [
+  "workflow:phase",
+  "workflow:completed",
+  "workflow:failed",
+  "workflow:cancelled",
+  "run:started",
+  "run:completed",
+  "run:failed",
+  "run:cancelled",
+  "test:started",
+  "test:finished",
+  "agent:status",
+];
+
+// Query keys in the app mix both `/api/projects/1/x` and ['/api/projects', 1, 'x'] styles
+function isProjectQuery(query: Query, projectId: number) {
+  const [first, second] = query.queryKey as unknown[];
+  if (typeof first !== "string") return false;
+  return first.startsWith(`/api/projects/${projectId}`) || (first === "/api/projects" && second === projectId);
+}
+
+function isTestCaseQuery(query: Query, projectId: number) {
+  return isProjectQuery(query, projectId) && query.queryKey.some(part => typeof part === "string" && part.endsWith("test-cases"));
+}
+
+/**
+ * Subscribe to the project's server-sent event stream and keep cached queries in sync
+ */
+export function useProjectEvents(projectId: number | undefined) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [lastEvent, setLastEvent] = useState<ProjectEvent | null>(null);
+  const [workflowPhase, setWorkflowPhase] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const source = new EventSource(`/api/projects/${projectId}/events`);
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: ProjectEvent = JSON.parse(message.data);
+      setLastEvent(event);
+
+      if (event.type === "test:started" || event.type === "test:finished") {
+        // Patch cached test cases so progress updates without waiting for a refetch
+        const status = event.type === "test:started" ? "running" : event.data.status;
+        queryClient.setQueriesData(
+          { predicate: query => isTestCaseQuery(query, projectId) },
+          (testCases: unknown) => Array.isArray(testCases)
+            ? testCases.map((tc: any) => tc.id === event.data.testCaseId ? { ...tc, status } : tc)
+            : testCases
+        );
+        return;
+      }
+
+      if (event.type === "workflow:phase") {
+        setWorkflowPhase(event.data.status === "completed" ? event.data.nextPhase : event.data.phase);
+      }
+
+      if (event.type === "agent:status") {
+        queryClient.invalidateQueries({ queryKey: ["/api/agents"] });
+        return;
+      }
+
+      queryClient.invalidateQueries({ predicate: query => isProjectQuery(query, projectId) });
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    EVENT_TYPES.forEach(type => source.addEventListener(type, handleEvent as EventListener));
+
+    return () => {
+      EVENT_TYPES.forEach(type => source.removeEventListener(type, handleEvent as EventListener));
+      source.close();
+      setConnected(false);
+    };
+  }, [projectId, queryClient]);
+
+  return { connected, lastEvent, workflowPhase };
+}
@@ -15,6 +15,7 @@ import WorkflowMessaging from "@/components/workflow-messaging";
 import HistoricalTrends from "@/components/historical-trends";
 import AdvancedExport from "@/components/advanced-export";
 import QualityGates from "@/components/quality-gates";
+import TraceabilityMatrix from "@/components/traceability-matrix";
 import AdvancedDashboard from "@/components/advanced-dashboard";
 import TestOptimization from "@/components/test-optimization";
 import { Button } from "@/components/ui/button";
@@ -76,6 +77,7 @@ export default function Dashboard() {
     { id: "analytics", label: "Analytics" },
     { id: "trends", label: "Trends" },
     { id: "quality-gates", label: "Quality Gates" },
+    { id: "traceability", label: "Traceability" },
     { id: "optimization", label: "Optimization" },
     { id: "reports", label: "Reports" },
     { id: "export", label: "Export" },
@@ -377,6 +379,7 @@ export default function Dashboard() {
         {activeTab === "analytics" && <AdvancedDashboard projectId={activeProject?.id} />}
         {activeTab === "trends" && <HistoricalTrends projectId={activeProject?.id} />}
         {activeTab === "quality-gates" && <QualityGates projectId={activeProject?.id} />}
+        {activeTab === "traceability" && <TraceabilityMatrix projectId={activeProject?.id} />}
         {activeTab === "optimization" && <TestOptimization projectId={activeProject?.id} />}
         {activeTab === "reports" && <ComprehensiveReport />}
         {activeTab === "export" && <AdvancedExport projectId={activeProject?.id} projectName={activeProject?.name} />}
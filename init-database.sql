@@ -17,6 +17,7 @@ CREATE TABLE IF NOT EXISTS projects (
   source_type TEXT NOT NULL,
   source_url TEXT,
   repository_data JSONB,
+  commit_sha TEXT,
   analysis_status TEXT DEFAULT 'pending',
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
@@ -46,7 +47,13 @@ CREATE TABLE IF NOT EXISTS test_cases (
   generated_by TEXT,
   status TEXT DEFAULT 'generated',
   execution_time INTEGER,
-  results JSONB
+  results JSONB,
+  flakiness_score INTEGER DEFAULT 0,
+  quarantined BOOLEAN DEFAULT FALSE,
+  quarantined_at TIMESTAMP,
+  quarantine_reason TEXT,
+  source_issue_key TEXT,
+  tags JSONB
 );
 
 -- Agents table
@@ -71,12 +78,234 @@ CREATE TABLE IF NOT EXISTS recommendations (
   implemented BOOLEAN DEFAULT false
 );
 
+-- Environments table (named variable sets exposed to test scripts)
+CREATE TABLE IF NOT EXISTS environments (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  variables JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Test runs table
+CREATE TABLE IF NOT EXISTS test_runs (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id),
+  framework TEXT NOT NULL,
+  status TEXT DEFAULT 'queued',
+  triggered_by TEXT NOT NULL,
+  test_case_ids JSONB,
+  max_retries INTEGER DEFAULT 0,
+  shard_count INTEGER DEFAULT 1,
+  environment_id INTEGER REFERENCES environments(id) ON DELETE SET NULL,
+  environment JSONB,
+  commit_sha TEXT,
+  pull_number INTEGER,
+  summary JSONB,
+  error TEXT,
+  started_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  duration INTEGER
+);
+
+-- Test run results table
+CREATE TABLE IF NOT EXISTS test_run_results (
+  id SERIAL PRIMARY KEY,
+  test_run_id INTEGER REFERENCES test_runs(id) ON DELETE CASCADE,
+  test_case_id INTEGER REFERENCES test_cases(id) ON DELETE SET NULL,
+  test_case_name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempt INTEGER DEFAULT 1,
+  shard INTEGER DEFAULT 0,
+  duration INTEGER,
+  test_script TEXT,
+  script_hash TEXT,
+  errors JSONB,
+  assertions JSONB,
+  stdout TEXT,
+  failure_signature TEXT,
+  defect_key TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Test execution history table (feeds ML risk scoring)
+CREATE TABLE IF NOT EXISTS test_execution_history (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id),
+  test_case_id INTEGER REFERENCES test_cases(id) ON DELETE CASCADE,
+  test_run_id INTEGER REFERENCES test_runs(id) ON DELETE SET NULL,
+  test_name TEXT NOT NULL,
+  result TEXT NOT NULL,
+  duration INTEGER NOT NULL,
+  script_hash TEXT,
+  error_type TEXT,
+  code_changes JSONB,
+  branch_name TEXT,
+  executed_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Background jobs table (durable queue for workflows and test runs)
+CREATE TABLE IF NOT EXISTS jobs (
+  id SERIAL PRIMARY KEY,
+  type TEXT NOT NULL,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  payload JSONB,
+  status TEXT DEFAULT 'queued',
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  run_at TIMESTAMP DEFAULT NOW(),
+  locked_by TEXT,
+  locked_at TIMESTAMP,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP DEFAULT NOW(),
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+-- Test artifacts table (metadata; the files live in the content-addressed artifact store)
+CREATE TABLE IF NOT EXISTS artifacts (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  test_run_id INTEGER REFERENCES test_runs(id) ON DELETE CASCADE,
+  test_run_result_id INTEGER REFERENCES test_run_results(id) ON DELETE SET NULL,
+  test_case_id INTEGER REFERENCES test_cases(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  sha256 TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Code coverage reports, from the test runner or uploaded lcov / Istanbul / Cobertura files
+CREATE TABLE IF NOT EXISTS coverage_reports (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  test_run_id INTEGER REFERENCES test_runs(id) ON DELETE SET NULL,
+  source TEXT NOT NULL,
+  format TEXT NOT NULL,
+  lines_total INTEGER DEFAULT 0,
+  lines_covered INTEGER DEFAULT 0,
+  branches_total INTEGER DEFAULT 0,
+  branches_covered INTEGER DEFAULT 0,
+  functions_total INTEGER DEFAULT 0,
+  functions_covered INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Per-file line, branch and function coverage for a report
+CREATE TABLE IF NOT EXISTS coverage_files (
+  id SERIAL PRIMARY KEY,
+  report_id INTEGER REFERENCES coverage_reports(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL,
+  lines_total INTEGER DEFAULT 0,
+  lines_covered INTEGER DEFAULT 0,
+  branches_total INTEGER DEFAULT 0,
+  branches_covered INTEGER DEFAULT 0,
+  functions_total INTEGER DEFAULT 0,
+  functions_covered INTEGER DEFAULT 0,
+  line_hits JSONB,
+  branches JSONB,
+  functions JSONB
+);
+
+-- Structured log records emitted while analysing and testing a project
+CREATE TABLE IF NOT EXISTS project_logs (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  test_run_id INTEGER REFERENCES test_runs(id) ON DELETE SET NULL,
+  test_case_id INTEGER REFERENCES test_cases(id) ON DELETE SET NULL,
+  level TEXT NOT NULL,
+  category TEXT NOT NULL,
+  source TEXT,
+  framework TEXT,
+  message TEXT NOT NULL,
+  duration INTEGER,
+  details JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Requirements (Jira issues, spec sections) and the test cases covering them
+CREATE TABLE IF NOT EXISTS requirements (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  source TEXT NOT NULL,
+  source_ref TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS requirement_links (
+  id SERIAL PRIMARY KEY,
+  requirement_id INTEGER NOT NULL REFERENCES requirements(id) ON DELETE CASCADE,
+  test_case_id INTEGER NOT NULL REFERENCES test_cases(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- OpenAPI document each project's contract tests were generated from
+CREATE TABLE IF NOT EXISTS openapi_specs (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  version TEXT,
+  source TEXT NOT NULL,
+  base_url TEXT,
+  document JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Columns added after a table was first created. CREATE TABLE IF NOT EXISTS leaves an existing
+-- table as it is, so these bring a database set up by an earlier version of this script up to date.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS commit_sha TEXT;
+ALTER TABLE test_cases ADD COLUMN IF NOT EXISTS flakiness_score INTEGER DEFAULT 0;
+ALTER TABLE test_cases ADD COLUMN IF NOT EXISTS quarantined BOOLEAN DEFAULT FALSE;
+ALTER TABLE test_cases ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMP;
+ALTER TABLE test_cases ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+ALTER TABLE test_cases ADD COLUMN IF NOT EXISTS source_issue_key TEXT;
+ALTER TABLE test_cases ADD COLUMN IF NOT EXISTS tags JSONB;
+ALTER TABLE test_runs ADD COLUMN IF NOT EXISTS max_retries INTEGER DEFAULT 0;
+ALTER TABLE test_runs ADD COLUMN IF NOT EXISTS shard_count INTEGER DEFAULT 1;
+ALTER TABLE test_runs ADD COLUMN IF NOT EXISTS environment_id INTEGER REFERENCES environments(id) ON DELETE SET NULL;
+ALTER TABLE test_runs ADD COLUMN IF NOT EXISTS environment JSONB;
+ALTER TABLE test_runs ADD COLUMN IF NOT EXISTS commit_sha TEXT;
+ALTER TABLE test_runs ADD COLUMN IF NOT EXISTS pull_number INTEGER;
+ALTER TABLE test_run_results ADD COLUMN IF NOT EXISTS attempt INTEGER DEFAULT 1;
+ALTER TABLE test_run_results ADD COLUMN IF NOT EXISTS shard INTEGER DEFAULT 0;
+ALTER TABLE test_run_results ADD COLUMN IF NOT EXISTS failure_signature TEXT;
+ALTER TABLE test_run_results ADD COLUMN IF NOT EXISTS defect_key TEXT;
+ALTER TABLE test_execution_history ADD COLUMN IF NOT EXISTS script_hash TEXT;
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at);
 CREATE INDEX IF NOT EXISTS idx_analyses_project_id ON analyses(project_id);
 CREATE INDEX IF NOT EXISTS idx_test_cases_project_id ON test_cases(project_id);
 CREATE INDEX IF NOT EXISTS idx_agents_type ON agents(type);
 CREATE INDEX IF NOT EXISTS idx_recommendations_project_id ON recommendations(project_id);
+CREATE INDEX IF NOT EXISTS idx_test_runs_project_id ON test_runs(project_id);
+CREATE INDEX IF NOT EXISTS idx_test_run_results_test_run_id ON test_run_results(test_run_id);
+CREATE INDEX IF NOT EXISTS idx_test_run_results_failure_signature ON test_run_results(failure_signature);
+CREATE INDEX IF NOT EXISTS idx_test_execution_history_project_id ON test_execution_history(project_id, executed_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs(status, type, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_project_id ON jobs(project_id);
+CREATE INDEX IF NOT EXISTS idx_artifacts_test_run_id ON artifacts(test_run_id);
+CREATE INDEX IF NOT EXISTS idx_artifacts_project_id ON artifacts(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_artifacts_sha256 ON artifacts(sha256);
+CREATE INDEX IF NOT EXISTS idx_coverage_reports_project_id ON coverage_reports(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_coverage_files_report_id ON coverage_files(report_id);
+CREATE INDEX IF NOT EXISTS idx_project_logs_project_id ON project_logs(project_id, id);
+CREATE INDEX IF NOT EXISTS idx_project_logs_test_run_id ON project_logs(test_run_id);
+CREATE INDEX IF NOT EXISTS idx_project_logs_created_at ON project_logs(created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_requirements_project_key ON requirements(project_id, key);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_requirement_links_pair ON requirement_links(requirement_id, test_case_id);
+CREATE INDEX IF NOT EXISTS idx_requirement_links_test_case_id ON requirement_links(test_case_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_environments_project_name ON environments(project_id, name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_openapi_specs_project_id ON openapi_specs(project_id);
 
 -- Insert default agents
 INSERT INTO agents (name, type, capabilities) VALUES 
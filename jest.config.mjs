@@ -50,7 +50,7 @@ export default {
       testEnvironment: 'jsdom',
       testMatch: [
         '<rootDir>/__tests__/components/**/*.+(ts|tsx|js)',
-        '<rootDir>/__tests__/setup/**/*.+(ts|tsx|js)'
+        '<rootDir>/__tests__/setup/**/*.test.+(ts|tsx|js)'
       ],
       extensionsToTreatAsEsm: ['.ts', '.tsx'],
       globals: {
@@ -111,12 +111,56 @@ export const ENV = {
   // File Upload
   UPLOAD_DIR: process.env.UPLOAD_DIR || 'uploads',
   MAX_FILE_SIZE: process.env.MAX_FILE_SIZE || '50MB',
+  PROJECT_WORKSPACE_DIR: process.env.PROJECT_WORKSPACE_DIR || 'project-workspaces',
+  ARCHIVE_MAX_ENTRIES: parseInt(process.env.ARCHIVE_MAX_ENTRIES || '10000'),
+  ARCHIVE_MAX_EXTRACTED_BYTES: parseInt(process.env.ARCHIVE_MAX_EXTRACTED_BYTES || String(200 * 1024 * 1024)),
+  ARCHIVE_MAX_COMPRESSION_RATIO: parseInt(process.env.ARCHIVE_MAX_COMPRESSION_RATIO || '100'),
+  
+  // Test Execution
+  TEST_WORKSPACE_DIR: process.env.TEST_WORKSPACE_DIR || 'workspaces',
+  TEST_TIMEOUT_MS: parseInt(process.env.TEST_TIMEOUT_MS || '30000'),
+  TEST_RUN_MAX_RETRIES: parseInt(process.env.TEST_RUN_MAX_RETRIES || '0'),
+  TEST_MAX_SHARDS: parseInt(process.env.TEST_MAX_SHARDS || '4'),
+  FLAKY_QUARANTINE_THRESHOLD: parseInt(process.env.FLAKY_QUARANTINE_THRESHOLD || '40'),
+  FLAKY_MIN_EXECUTIONS: parseInt(process.env.FLAKY_MIN_EXECUTIONS || '5'),
+  TEST_COLLECT_COVERAGE: process.env.TEST_COLLECT_COVERAGE !== 'false',
+  COVERAGE_THRESHOLD: parseInt(process.env.COVERAGE_THRESHOLD || '80'),
+  
+  // Artifact Store
+  ARTIFACT_DIR: process.env.ARTIFACT_DIR || 'artifacts',
+  ARTIFACT_MAX_FILE_SIZE: parseInt(process.env.ARTIFACT_MAX_FILE_SIZE || String(25 * 1024 * 1024)),
+  ARTIFACT_RETENTION_DAYS: parseInt(process.env.ARTIFACT_RETENTION_DAYS || '30'),
+  ARTIFACT_MAX_PROJECT_BYTES: parseInt(process.env.ARTIFACT_MAX_PROJECT_BYTES || String(500 * 1024 * 1024)),
+  
+  // Project Logs
+  PROJECT_LOG_RETENTION_DAYS: parseInt(process.env.PROJECT_LOG_RETENTION_DAYS || '14'),
+  
+  // Background Jobs
+  JOB_POLL_INTERVAL_MS: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000'),
+  JOB_STALE_AFTER_MS: parseInt(process.env.JOB_STALE_AFTER_MS || '120000'),
+  JOB_ANALYSIS_CONCURRENCY: parseInt(process.env.JOB_ANALYSIS_CONCURRENCY || '2'),
+  JOB_TEST_RUN_CONCURRENCY: parseInt(process.env.JOB_TEST_RUN_CONCURRENCY || '1'),
   
   // Optional Integrations
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || '',
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || '',
+  JIRA_URL: (process.env.JIRA_URL || '').replace(/\/+$/, ''),
+  JIRA_EMAIL: process.env.JIRA_EMAIL || '',
   JIRA_API_TOKEN: process.env.JIRA_API_TOKEN || '',
+  JIRA_DEFECT_ISSUE_TYPE: process.env.JIRA_DEFECT_ISSUE_TYPE || 'Bug',
   GITHUB_TOKEN: process.env.GITHUB_TOKEN || '',
+  GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET || '',
+  GITHUB_API_URL: (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, ''),
+  GITHUB_STATUS_CONTEXT: process.env.GITHUB_STATUS_CONTEXT || 'matt/tests',
+  GITHUB_PR_COMMENT_MIN_FAILURES: parseInt(process.env.GITHUB_PR_COMMENT_MIN_FAILURES || '5'),
+  GITLAB_URL: (process.env.GITLAB_URL || 'https://gitlab.com').replace(/\/+$/, ''),
+  GITLAB_TOKEN: process.env.GITLAB_TOKEN || '',
+  BITBUCKET_API_URL: (process.env.BITBUCKET_API_URL || 'https://api.bitbucket.org/2.0').replace(/\/+$/, ''),
+  BITBUCKET_USERNAME: process.env.BITBUCKET_USERNAME || '',
+  BITBUCKET_TOKEN: process.env.BITBUCKET_TOKEN || '',
+  PUBLIC_APP_URL: (process.env.PUBLIC_APP_URL || 'http://localhost:5000').replace(/\/+$/, ''),
+  GIT_CLONE_DEPTH: parseInt(process.env.GIT_CLONE_DEPTH || '1'),
+  GIT_CLONE_TIMEOUT_MS: parseInt(process.env.GIT_CLONE_TIMEOUT_MS || '300000'),
   
   // Rate Limiting
   RATE_LIMIT_REQUESTS: parseInt(process.env.RATE_LIMIT_REQUESTS || '100'),
@@ -176,6 +220,9 @@ export function validateEnvironment() {
 export function initializeDirectories() {
   const dirs = [
     ENV.UPLOAD_DIR,
+    ENV.PROJECT_WORKSPACE_DIR,
+    ENV.TEST_WORKSPACE_DIR,
+    ENV.ARTIFACT_DIR,
     'logs',
     'backups',
     path.dirname(ENV.CONFIG_PATH) // Ensure config directory exists
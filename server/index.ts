@@ -2,6 +2,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import os from "os";
 import { registerRoutes } from "./routes";
+import { startBackgroundJobs } from "./services/background-jobs";
+import { artifactStore } from "./services/artifact-store";
+import { projectLogService } from "./services/project-logs";
+import { githubReportingService } from "./services/github-reporting";
 import { setupVite, serveStatic } from "./vite";
 import { ENV, validateEnvironment, initializeDirectories, checkServiceConnections } from "./config";
 import { logger } from "./logger";
@@ -105,7 +109,13 @@ app.use(session(sessionConfig));
 logMiddlewareSetup('express-session', { secure: sessionConfig.cookie.secure });
 
 // Body parser configuration with limits
-app.use(express.json({ limit: ENV.MAX_FILE_SIZE }));
+app.use(express.json({
+  limit: ENV.MAX_FILE_SIZE,
+  // Webhook signatures are computed over the exact bytes received, so keep them for those routes
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/webhooks/')) (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: ENV.MAX_FILE_SIZE }));
 logMiddlewareSetup('body-parser', { limit: ENV.MAX_FILE_SIZE });
 
@@ -199,6 +209,20 @@ app.get("/health", async (req, res) => {
     routeTimer.end({ success: true });
     logger.info('✅ Routes registered successfully', {}, 'STARTUP');
 
+    // Capture project-scoped log records before any job can emit them
+    projectLogService.start();
+    // Publish run outcomes of GitHub projects as commit statuses
+    githubReportingService.start();
+
+    // Resume queued and orphaned jobs left over from a previous process
+    try {
+      await startBackgroundJobs();
+      logger.info('✅ Background job queue started', {}, 'STARTUP');
+      artifactStore.startRetentionSweep();
+    } catch (error: any) {
+      logger.logError('Failed to start background job queue', error, 'STARTUP');
+    }
+
     // Add error logging middleware after routes
     app.use(errorLogger);
 
@@ -354,7 +378,8 @@ process.on('SIGTERM', () => {
     (global as any).cleanupTimeouts();
   }
   
-  process.exit(0);
+  // Write out buffered project log records before exiting
+  projectLogService.stop().finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
@@ -368,7 +393,8 @@ process.on('SIGINT', () => {
     (global as any).cleanupTimeouts();
   }
   
-  process.exit(0);
+  // Write out buffered project log records before exiting
+  projectLogService.stop().finally(() => process.exit(0));
 });
 
 // Log process events
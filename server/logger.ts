@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import util from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -34,6 +35,42 @@ export interface LogEntry {
   stack?: string;
 }
 
+// Identifies the project, run and test a log record belongs to
+export interface LogCorrelation {
+  projectId?: number;
+  testRunId?: number;
+  testCaseId?: number;
+  framework?: string;
+}
+
+export type LogSink = (entry: LogEntry, correlation: LogCorrelation | undefined) => void;
+
+const correlationStorage = new AsyncLocalStorage<LogCorrelation>();
+const sinks: LogSink[] = [];
+
+// Run fn with correlation IDs attached to every record it logs, including from async work it starts
+export function withLogCorrelation<T>(correlation: LogCorrelation, fn: () => T): T {
+  return correlationStorage.run({ ...correlationStorage.getStore(), ...correlation }, fn);
+}
+
+// Run fn with no correlation, e.g. for a sink's own I/O so it does not feed back into itself
+export function withoutLogCorrelation<T>(fn: () => T): T {
+  return correlationStorage.exit(fn);
+}
+
+export function getLogCorrelation(): LogCorrelation | undefined {
+  return correlationStorage.getStore();
+}
+
+// Receive every log record in addition to the console and file output; returns an unsubscribe function
+export function addLogSink(sink: LogSink): () => void {
+  sinks.push(sink);
+  return () => {
+    const index = sinks.indexOf(sink);
+    if (index !== -1) sinks.splice(index, 1);
+  };
+}
+
 // Enhanced log function with better formatting and context
 export function log(level: LogLevel, message: string, data?: any, context?: string) {
   const timestamp = new Date().toISOString();
@@ -105,6 +142,20 @@ export function log(level: LogLevel, message: string, data?: any, context?: stri
   } catch (err) {
     console.error('Failed to write to log file:', err);
   }
+
+  notifySinks(logEntry);
+}
+
+function notifySinks(entry: LogEntry) {
+  if (sinks.length === 0) return;
+  const correlation = correlationStorage.getStore();
+  for (const sink of sinks) {
+    try {
+      sink(entry, correlation);
+    } catch (err) {
+      console.error('Log sink failed:', err);
+    }
+  }
 }
 
 // Performance logging
@@ -126,6 +177,15 @@ export function logPerformance(operation: string, duration: number, metadata?: a
   } catch (err) {
     console.error('Failed to write to performance log:', err);
   }
+
+  notifySinks({
+    timestamp: perfEntry.timestamp,
+    level: 'INFO',
+    message: `${operation} took ${duration}ms`,
+    context: 'PERFORMANCE',
+    duration,
+    data: metadata || {}
+  });
 }
 
 export const logger = {
@@ -1,16 +1,36 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { agentOrchestrator } from "./services/agents";
-import { insertProjectSchema, insertTestCaseSchema } from "@shared/schema";
+import { insertProjectSchema, insertTestCaseSchema, type Project } from "@shared/schema";
 import { productionDeploymentService } from "./services/production-deployment";
 import { comprehensiveTestingService } from "./services/comprehensive-testing";
 import { multiPlatformTestingService } from "./services/multi-platform-testing";
 import { googleDriveService } from "./services/google-drive-integration";
 import { jiraService } from "./services/jira-integration";
+import { defectFilingService, DefectFilingError } from "./services/defect-filing";
 import { githubService } from "./services/github-integration";
+import { gitlabService } from "./services/gitlab-integration";
+import { bitbucketService } from "./services/bitbucket-integration";
 import { mlTestingIntelligence } from "./services/ml-testing-intelligence";
+import { projectEvents } from "./services/project-events";
+import { enqueueAnalysis, enqueueTestRun, cancelAnalysis, cancelTestRun } from "./services/background-jobs";
+import { artifactStore, ArtifactTooLargeError, type ArtifactKind } from "./services/artifact-store";
+import { junitImportService, JUnitParseError } from "./services/junit-import";
+import { acceptanceCriteriaService, AcceptanceCriteriaError } from "./services/acceptance-criteria";
+import { traceabilityService, TraceabilityError } from "./services/traceability";
+import { openApiContractService, OpenApiSpecError } from "./services/openapi-contract";
+import { postmanImportService, PostmanCollectionError } from "./services/postman-import";
+import { resultExportService, EXPORT_FORMATS, type ExportFormat } from "./services/result-export";
+import { coverageService, CoverageParseError, COVERAGE_FORMATS, type CoverageFormat } from "./services/coverage";
+import { projectWorkspace, WorkspacePathError } from "./services/project-workspace";
+import { gitRepositoryService, type GitSourceConfig } from "./services/git-repository";
+import { githubSyncService, GitHubSyncError } from "./services/github-sync";
+import { githubWebhookService } from "./services/github-webhook";
+import { ArchiveExtractionError, type ArchiveExtractionResult } from "./utils/archiveExtraction";
+import { projectLogService, PROJECT_LOG_LEVELS, PROJECT_LOG_CATEGORIES, type ProjectLogLevel, type ProjectLogCategory } from "./services/project-logs";
 import { performanceMonitor } from "./utils/performanceMonitor";
+import { ENV } from "./config";
+import { logger } from "./logger";
 import { checkStorageHealth } from "./storage";
 import multer from "multer";
 import { z } from "zod";
@@ -18,6 +38,7 @@ import {
   validateUploadRequest, 
   validateFileContent, 
   generateSecureFilename,
+  isArchiveFile,
   MAX_FILE_SIZE,
   MAX_TOTAL_SIZE 
 } from "./utils/fileUploadSecurity.js";
@@ -34,9 +55,6 @@ const TIMEOUTS = {
 // Timeout management to prevent memory leaks
 const activeTimeouts = new Map<string, NodeJS.Timeout>();
 
-// In-memory storage for test runs (in production, this should be in database)
-const testRuns = new Map<number, any[]>();
-
 function createManagedTimeout(key: string, callback: () => void, delay: number): void {
   // Clear existing timeout if it exists
   if (activeTimeouts.has(key)) {
@@ -85,6 +103,59 @@ const upload = multer({
   }
 });
 
+// Artifact uploads are held in memory until hashed, so they get their own size limit
+const artifactUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: ENV.ARTIFACT_MAX_FILE_SIZE,
+    files: 1
+  }
+});
+
+const ARTIFACT_KINDS: ArtifactKind[] = ['screenshot', 'trace', 'log', 'video', 'other'];
+
+// Only media is rendered in the browser; anything else is served as a download
+function isInlineArtifact(contentType: string): boolean {
+  return contentType.startsWith('image/') || contentType.startsWith('video/');
+}
+
+// Retries per failing test requested for a run, capped to keep flaky suites from running forever
+const MAX_TEST_RETRIES = 5;
+
+function parseMaxRetries(value: unknown): number {
+  const retries = value === undefined || value === null ? ENV.TEST_RUN_MAX_RETRIES : Number(value);
+  if (!Number.isFinite(retries)) return ENV.TEST_RUN_MAX_RETRIES;
+  return Math.min(MAX_TEST_RETRIES, Math.max(0, Math.floor(retries)));
+}
+
+// Parallel Jest processes requested for a run, limited by TEST_MAX_SHARDS
+function parseShardCount(value: unknown): number {
+  const shards = Number(value ?? 1);
+  if (!Number.isFinite(shards)) return 1;
+  return Math.min(ENV.TEST_MAX_SHARDS, Math.max(1, Math.floor(shards)));
+}
+
+// Variables exposed to test scripts, e.g. { API_BASE_URL }; entries that are not valid variable
+// names or scalar values are dropped. Null when the value is not an object.
+function parseVariables(value: unknown): Record<string, string> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return Object.fromEntries(Object.entries(value)
+    .filter(([key, val]) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) && ['string', 'number', 'boolean'].includes(typeof val))
+    .map(([key, val]) => [key, String(val)]));
+}
+
+function parseRunEnvironment(value: unknown): Record<string, string> | null {
+  const variables = parseVariables(value);
+  return variables && Object.keys(variables).length > 0 ? variables : null;
+}
+
+// Environment a run uses: null when none is requested, undefined when the id is not one of the project's
+async function resolveEnvironmentId(projectId: number, value: unknown): Promise<number | null | undefined> {
+  if (value === undefined || value === null || value === '') return null;
+  const environment = await storage.getEnvironment(Number(value));
+  return environment && environment.projectId === projectId ? environment.id : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Get all projects with optional lightweight mode
@@ -176,40 +247,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Store GitHub acquisition results
+        // Store GitHub acquisition results, pinned to the commit they were read at so syncs can diff from it
+        enhancedProject.commitSha = githubResult.commitSha;
         enhancedProject.repositoryData = {
           ...githubData,
           acquisitionResult: githubResult,
           fileCount: githubResult.files.length,
-          repository: githubResult.repository
+          repository: githubResult.repository,
+          commitSha: githubResult.commitSha
         };
         // Successfully acquired GitHub repository
-      }
-      
-      const project = await storage.createProject(enhancedProject);
-      
-      // Start Production LangGraph analysis workflow asynchronously
-      try {
-        const { productionLangGraphWorkflow } = await import("./services/langraph-production");
-        productionLangGraphWorkflow.execute(project).catch(error => {
-          console.error(`Production LangGraph workflow failed for project ${project.id}:`, error);
-          storage.updateProject(project.id, { analysisStatus: 'failed' }).catch(console.error);
+      } else if (validatedData.sourceType === 'gitlab') {
+        // Acquiring project from GitLab, on gitlab.com or a self-hosted instance
+        const gitlabData = validatedData.repositoryData as any;
+        const gitlabResult = await gitlabService.acquireProject({
+          serverUrl: gitlabData.serverUrl,
+          projectPath: gitlabData.projectPath,
+          branch: gitlabData.branch,
+          path: gitlabData.path,
+          accessToken: gitlabData.accessToken
         });
-      } catch (importError) {
-        console.error("Failed to import Production LangGraph workflow:", importError);
-        try {
-          // Fallback to standard LangGraph
-          const { langGraphWorkflow } = await import("./services/langraph-workflow");
-          langGraphWorkflow.executeWorkflow(project).catch(error => {
-            console.error(`Standard LangGraph workflow failed for project ${project.id}:`, error);
-            storage.updateProject(project.id, { analysisStatus: 'failed' }).catch(console.error);
+
+        if (!gitlabResult.success) {
+          return res.status(400).json({
+            message: `GitLab acquisition failed: ${gitlabResult.error}`
+          });
+        }
+
+        enhancedProject.commitSha = gitlabResult.commitSha;
+        enhancedProject.repositoryData = {
+          ...gitlabData,
+          acquisitionResult: gitlabResult,
+          fileCount: gitlabResult.files.length,
+          repository: gitlabResult.repository,
+          commitSha: gitlabResult.commitSha
+        };
+      } else if (validatedData.sourceType === 'bitbucket') {
+        // Acquiring project from Bitbucket Cloud
+        const bitbucketData = validatedData.repositoryData as any;
+        const bitbucketResult = await bitbucketService.acquireProject({
+          workspace: bitbucketData.workspace,
+          repo: bitbucketData.repo,
+          branch: bitbucketData.branch,
+          path: bitbucketData.path,
+          username: bitbucketData.username,
+          accessToken: bitbucketData.accessToken
+        });
+
+        if (!bitbucketResult.success) {
+          return res.status(400).json({
+            message: `Bitbucket acquisition failed: ${bitbucketResult.error}`
           });
-        } catch (fallbackError) {
-          console.error("All LangGraph workflows failed, using agent orchestrator:", fallbackError);
-          agentOrchestrator.executeWorkflow(project).catch(console.error);
+        }
+
+        enhancedProject.commitSha = bitbucketResult.commitSha;
+        enhancedProject.repositoryData = {
+          ...bitbucketData,
+          acquisitionResult: bitbucketResult,
+          fileCount: bitbucketResult.files.length,
+          repository: bitbucketResult.repository,
+          commitSha: bitbucketResult.commitSha
+        };
+      }
+
+      // Git sources are cloned straight into the project's workspace, so the config is checked up front
+      let gitConfig: GitSourceConfig | undefined;
+      if (validatedData.sourceType === 'git') {
+        const gitData = (validatedData.repositoryData as any) || {};
+        gitConfig = {
+          url: gitData.url || validatedData.sourceUrl,
+          ref: gitData.ref || undefined,
+          depth: gitData.depth !== undefined && gitData.depth !== '' ? Number(gitData.depth) : undefined,
+          accessToken: gitData.accessToken || undefined
+        };
+        const configError = gitRepositoryService.validateConfig(gitConfig);
+        if (configError) {
+          return res.status(400).json({ message: `Git acquisition failed: ${configError}` });
         }
       }
       
+      let project = await storage.createProject(enhancedProject);
+
+      if (['github', 'gitlab', 'bitbucket'].includes(validatedData.sourceType)) {
+        const acquiredFiles = ((enhancedProject.repositoryData as any).acquisitionResult.files as Array<{ path: string; content?: string }>)
+          .filter(file => file.content !== undefined);
+        await projectWorkspace.writeFiles(project.id, acquiredFiles.map(file => ({ path: file.path, data: Buffer.from(file.content!) })));
+      }
+
+      if (gitConfig) {
+        const gitResult = await gitRepositoryService.checkout(project.id, gitConfig);
+        if (!gitResult.success) {
+          await storage.deleteProject(project.id);
+          return res.status(400).json({ message: `Git acquisition failed: ${gitResult.error}` });
+        }
+
+        // Store the exact revision, so analyses and runs can be traced back to it
+        project = await storage.updateProject(project.id, {
+          sourceUrl: gitConfig.url,
+          commitSha: gitResult.commitSha,
+          repositoryData: {
+            ...((validatedData.repositoryData as any) || {}),
+            url: gitConfig.url,
+            ref: gitResult.ref,
+            depth: gitResult.depth,
+            commitSha: gitResult.commitSha,
+            fileCount: gitResult.files.length,
+            fetchedAt: new Date().toISOString()
+          }
+        }) || project;
+      }
+      
+      // Queue the Production LangGraph analysis workflow
+      await enqueueAnalysis(project);
+      
       res.json(project);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -220,6 +370,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bring a GitHub project up to date with its branch. Only files changed since the last synced commit
+  // are downloaded; pass selectTests to also pick the tests the change affects.
+  app.post("/api/projects/:id/sync", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const project = await storage.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const { project: updated, result } = await githubSyncService.syncProject(project, {
+        selectTests: req.body?.selectTests === true || req.query.selectTests === 'true'
+      });
+
+      res.json({ ...result, project: updated });
+    } catch (error) {
+      if (error instanceof GitHubSyncError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to sync project", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Get project by ID
   app.get("/api/projects/:id", async (req, res) => {
     try {
@@ -287,8 +461,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.deleteRecommendation(recommendation.id);
       }
       
-      // Finally delete the project
+      // Finally delete the project and its source files
       await storage.deleteProject(id);
+      await projectWorkspace.remove(id);
       
       res.json({ message: "Project deleted successfully" });
     } catch (error) {
@@ -322,13 +497,661 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:id/test-runs", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const projectTestRuns = testRuns.get(projectId) || [];
+      const projectTestRuns = await storage.getTestRunsByProject(projectId);
       res.json(projectTestRuns);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch test runs", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
+  // Stream live project events (workflow phases, test progress, agent status) over SSE
+  app.get("/api/projects/:id/events", (req, res) => {
+    const projectId = parseInt(req.params.id);
+    if (isNaN(projectId)) {
+      return res.status(400).json({ message: "Invalid project ID" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    const unsubscribe = projectEvents.subscribe(projectId, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Get a single test run with its per-test results
+  app.get("/api/test-runs/:id", async (req, res) => {
+    try {
+      const testRunId = parseInt(req.params.id);
+      const testRun = await storage.getTestRun(testRunId);
+      if (!testRun) {
+        return res.status(404).json({ message: "Test run not found" });
+      }
+
+      const results = await storage.getTestRunResults(testRunId);
+      res.json({ ...testRun, results });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch test run", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // File a Jira bug for a failed test result. Repeats of a failure already filed and still open are
+  // linked to that issue instead; the issue key is stored on the result either way.
+  app.post("/api/test-runs/:id/results/:resultId/defect", async (req, res) => {
+    try {
+      const testRunId = parseInt(req.params.id);
+      const result = await storage.getTestRunResult(parseInt(req.params.resultId));
+      if (!result || result.testRunId !== testRunId) {
+        return res.status(404).json({ message: "Test result not found" });
+      }
+
+      const { projectKey, issueType, serverUrl, email, apiToken } = req.body || {};
+      const defect = await defectFilingService.fileDefect(result.id, { projectKey, issueType, serverUrl, email, apiToken });
+      res.status(defect.created ? 201 : 200).json(defect);
+    } catch (error) {
+      if (error instanceof DefectFilingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to file defect", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Upload a coverage report (lcov, Istanbul JSON or Cobertura XML) as a multipart "file",
+  // a raw body, or JSON { report, format }
+  app.post(
+    "/api/projects/:id/coverage",
+    express.text({ type: ['application/xml', 'text/xml', 'text/plain'], limit: ENV.MAX_FILE_SIZE }),
+    upload.single('file'),
+    async (req, res) => {
+      try {
+        const projectId = parseInt(req.params.id);
+        const project = await storage.getProject(projectId);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+
+        let content: unknown = req.file ? req.file.buffer.toString('utf8') : req.body;
+        if (content && typeof content === 'object') {
+          const report = (content as any).report;
+          content = typeof report === 'string' ? report : report ? JSON.stringify(report) : undefined;
+        }
+        if (typeof content !== 'string' || content.trim().length === 0) {
+          return res.status(400).json({ message: "A coverage report is required" });
+        }
+
+        const format = ((req.query.format as string | undefined) ?? req.body?.format) as CoverageFormat | undefined;
+        if (format && !COVERAGE_FORMATS.includes(format)) {
+          return res.status(400).json({ message: `Invalid format. Expected one of: ${COVERAGE_FORMATS.join(', ')}` });
+        }
+
+        const testRunIdParam = (req.query.testRunId as string | undefined) ?? req.body?.testRunId;
+        const testRunId = testRunIdParam ? parseInt(testRunIdParam) : null;
+        if (testRunId) {
+          const testRun = await storage.getTestRun(testRunId);
+          if (!testRun || testRun.projectId !== projectId) {
+            return res.status(400).json({ message: "Test run does not belong to this project" });
+          }
+        }
+
+        const report = await coverageService.ingest(projectId, content, { format, source: 'upload', testRunId });
+        res.status(201).json({ ...report, totals: coverageService.reportTotals(report) });
+      } catch (error) {
+        if (error instanceof CoverageParseError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "Failed to store coverage report", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  );
+
+  // Latest coverage for a project with per-file totals and uncovered lines
+  app.get("/api/projects/:id/coverage", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const report = await storage.getLatestCoverageReport(projectId);
+      if (!report) {
+        return res.status(404).json({ message: "No coverage report for this project" });
+      }
+
+      const files = await storage.getCoverageFiles(report.id);
+      res.json({
+        ...report,
+        totals: coverageService.reportTotals(report),
+        files: files.map(file => {
+          const uncovered = coverageService.getUncovered(file);
+          return {
+            filePath: file.filePath,
+            totals: coverageService.summarize([{
+              lineHits: (file.lineHits as Record<number, number> | null) || {},
+              branches: (file.branches as any[] | null) || [],
+              functions: (file.functions as any[] | null) || []
+            }]),
+            uncoveredLines: uncovered.lines,
+            uncoveredFunctions: uncovered.functions.map(fn => fn.name),
+            uncoveredBranches: uncovered.branches.length
+          };
+        })
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch coverage", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Coverage report history for a project
+  app.get("/api/projects/:id/coverage/reports", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const reports = await storage.getCoverageReportsByProject(projectId);
+      res.json(reports.map(report => ({ ...report, totals: coverageService.reportTotals(report) })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch coverage reports", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // A coverage report with full per-file line, branch and function data
+  app.get("/api/projects/:id/coverage/reports/:reportId", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const report = await storage.getCoverageReport(parseInt(req.params.reportId));
+      if (!report || report.projectId !== projectId) {
+        return res.status(404).json({ message: "Coverage report not found" });
+      }
+
+      const files = await storage.getCoverageFiles(report.id);
+      res.json({ ...report, totals: coverageService.reportTotals(report), files });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch coverage report", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Export a run's results as JUnit XML, TAP or CTRF for CI test reporting
+  app.get("/api/projects/:id/runs/:runId/export", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const testRun = await storage.getTestRun(parseInt(req.params.runId));
+      if (!testRun || testRun.projectId !== projectId) {
+        return res.status(404).json({ message: "Test run not found" });
+      }
+
+      const format = String(req.query.format || 'junit') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ message: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}` });
+      }
+
+      if (testRun.status === 'queued' || testRun.status === 'running') {
+        return res.status(409).json({ message: `Test run is still ${testRun.status}` });
+      }
+
+      const results = await storage.getTestRunResults(testRun.id);
+      const report = resultExportService.export(testRun, results, format);
+
+      res.setHeader('Content-Type', `${report.contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}"`);
+      res.send(report.body);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export test run", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Import JUnit XML results from an external CI run as a persisted test run.
+  // The report can be sent as a multipart "file", a raw XML body, or JSON { xml }; pass commitSha to
+  // record the revision CI tested, otherwise the project's current revision is assumed.
+  app.post(
+    "/api/projects/:id/results/import",
+    express.text({ type: ['application/xml', 'text/xml'], limit: ENV.MAX_FILE_SIZE }),
+    upload.single('file'),
+    async (req, res) => {
+      try {
+        const projectId = parseInt(req.params.id);
+        const project = await storage.getProject(projectId);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+
+        const xml = req.file
+          ? req.file.buffer.toString('utf8')
+          : typeof req.body === 'string' ? req.body : req.body?.xml;
+        if (typeof xml !== 'string' || xml.trim().length === 0) {
+          return res.status(400).json({ message: "A JUnit XML report is required" });
+        }
+
+        const result = await junitImportService.importReport(project, xml, {
+          framework: (req.query.framework as string | undefined) ?? req.body?.framework,
+          commitSha: (req.query.commitSha as string | undefined) ?? req.body?.commitSha,
+          triggeredBy: 'import'
+        });
+
+        res.status(201).json(result);
+      } catch (error) {
+        if (error instanceof JUnitParseError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: "Failed to import test results", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    }
+  );
+
+  // Generate test cases from the acceptance criteria of a Jira project's acquired issues
+  app.post("/api/projects/:id/acceptance-tests", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const result = await acceptanceCriteriaService.generateTestCases(project);
+      res.status(result.created.length > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof AcceptanceCriteriaError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to generate acceptance tests", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Requirements traceability matrix: every requirement with its covering tests and their latest run
+  // status, flagging uncovered requirements and tests without a requirement. Pass format=csv for a spreadsheet.
+  app.get("/api/projects/:id/traceability", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const matrix = await traceabilityService.getMatrix(project);
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="traceability-project-${project.id}.csv"`);
+        return res.send(traceabilityService.toCsv(matrix));
+      }
+      res.json(matrix);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build traceability matrix", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Import the sections of a spec document as requirements. Send a multipart "file", JSON { fileName, content },
+  // or JSON { path } of a document already in the project workspace.
+  app.post("/api/projects/:id/requirements/import", upload.single('file'), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      let fileName: string | undefined = req.file?.originalname ?? req.body?.fileName;
+      let content: string | undefined = req.file ? req.file.buffer.toString('utf8') : req.body?.content;
+      if (!req.file && typeof req.body?.path === 'string') {
+        fileName = req.body.path;
+        content = await projectWorkspace.readFile(projectId, req.body.path);
+        if (content === undefined) {
+          return res.status(404).json({ message: `File ${req.body.path} not found in the project workspace` });
+        }
+      }
+      if (typeof fileName !== 'string' || !fileName || typeof content !== 'string' || !content.trim()) {
+        return res.status(400).json({ message: "A spec document is required" });
+      }
+
+      const result = await traceabilityService.importSpec(project, fileName, content);
+      res.status(result.created > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof TraceabilityError || error instanceof WorkspacePathError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import requirements", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Link a test case to the requirement it covers
+  app.post("/api/requirements/:id/links", async (req, res) => {
+    try {
+      const requirement = await storage.getRequirement(parseInt(req.params.id));
+      if (!requirement) {
+        return res.status(404).json({ message: "Requirement not found" });
+      }
+
+      const testCaseId = parseInt(req.body?.testCaseId);
+      if (!Number.isInteger(testCaseId)) {
+        return res.status(400).json({ message: "testCaseId is required" });
+      }
+
+      const link = await traceabilityService.linkTestCase(requirement, testCaseId);
+      res.status(201).json(link);
+    } catch (error) {
+      if (error instanceof TraceabilityError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to link test case", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/requirements/:id/links/:testCaseId", async (req, res) => {
+    try {
+      const removed = await storage.unlinkRequirement(parseInt(req.params.id), parseInt(req.params.testCaseId));
+      if (!removed) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+      res.json({ message: "Test case unlinked" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unlink test case", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Ingest an OpenAPI 3 spec and generate a contract test per operation and response code. Send a multipart
+  // "file", JSON { fileName, content }, or JSON { path } of a spec in the workspace; with none of these the
+  // acquired repository is searched. An optional baseUrl sets where the tests call the API.
+  app.post("/api/projects/:id/openapi", upload.single('file'), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const baseUrl = req.body?.baseUrl;
+      if (baseUrl !== undefined && (typeof baseUrl !== 'string' || !/^https?:\/\//.test(baseUrl))) {
+        return res.status(400).json({ message: "baseUrl must be an http(s) URL" });
+      }
+
+      const result = await openApiContractService.ingest(project, {
+        content: req.file ? req.file.buffer.toString('utf8') : typeof req.body?.content === 'string' ? req.body.content : undefined,
+        fileName: req.file?.originalname ?? req.body?.fileName,
+        path: typeof req.body?.path === 'string' ? req.body.path : undefined,
+        baseUrl
+      });
+      res.status(result.created.length > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof OpenApiSpecError || error instanceof WorkspacePathError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to ingest OpenAPI spec", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Import a Postman v2.1 collection as test cases, one per request, tagged with its folders. Send a multipart
+  // "file" or the collection as the JSON body. Collection variables go to an environment named after the collection.
+  app.post("/api/projects/:id/import/postman", upload.single('file'), async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const collection = req.file ? req.file.buffer.toString('utf8') : req.body;
+      const result = await postmanImportService.importCollection(project, collection);
+      res.status(result.created.length > 0 ? 201 : 200).json(result);
+    } catch (error) {
+      if (error instanceof PostmanCollectionError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to import Postman collection", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Environments: named variable sets a test run can use, e.g. the base URL and credentials of an API
+  app.get("/api/projects/:id/environments", async (req, res) => {
+    try {
+      const environments = await storage.getEnvironmentsByProject(parseInt(req.params.id));
+      res.json(environments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch environments", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.post("/api/projects/:id/environments", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+      const variables = parseVariables(req.body?.variables ?? {});
+      if (!name || !variables) {
+        return res.status(400).json({ message: "An environment needs a name and an object of variables" });
+      }
+      if ((await storage.getEnvironmentsByProject(projectId)).some(environment => environment.name === name)) {
+        return res.status(400).json({ message: `Environment ${name} already exists` });
+      }
+
+      const environment = await storage.createEnvironment({ projectId, name, variables });
+      res.status(201).json(environment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create environment", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.put("/api/environments/:id", async (req, res) => {
+    try {
+      const environment = await storage.getEnvironment(parseInt(req.params.id));
+      if (!environment) {
+        return res.status(404).json({ message: "Environment not found" });
+      }
+
+      const updates: { name?: string; variables?: Record<string, string> } = {};
+      if (req.body?.name !== undefined) {
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        if (!name) {
+          return res.status(400).json({ message: "name must be a non-empty string" });
+        }
+        const projectEnvironments = environment.projectId ? await storage.getEnvironmentsByProject(environment.projectId) : [];
+        if (projectEnvironments.some(other => other.id !== environment.id && other.name === name)) {
+          return res.status(400).json({ message: `Environment ${name} already exists` });
+        }
+        updates.name = name;
+      }
+      if (req.body?.variables !== undefined) {
+        const variables = parseVariables(req.body.variables);
+        if (!variables) {
+          return res.status(400).json({ message: "variables must be an object" });
+        }
+        updates.variables = variables;
+      }
+
+      const updated = await storage.updateEnvironment(environment.id, updates);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update environment", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  app.delete("/api/environments/:id", async (req, res) => {
+    try {
+      const environment = await storage.getEnvironment(parseInt(req.params.id));
+      if (!environment) {
+        return res.status(404).json({ message: "Environment not found" });
+      }
+
+      await storage.deleteEnvironment(environment.id);
+      res.json({ message: "Environment deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete environment", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Attach an artifact (screenshot, trace, log, video) to a test run
+  app.post("/api/test-runs/:id/artifacts", (req, res) => {
+    artifactUpload.single('file')(req, res, async (uploadError: any) => {
+      try {
+        if (uploadError) {
+          if (uploadError.code === 'LIMIT_FILE_SIZE') {
+            return res.status(413).json({
+              message: `File too large. Maximum size is ${ENV.ARTIFACT_MAX_FILE_SIZE / (1024 * 1024)}MB`,
+              code: "FILE_TOO_LARGE"
+            });
+          }
+          return res.status(400).json({ message: uploadError.message, code: "UPLOAD_FAILED" });
+        }
+
+        const testRunId = parseInt(req.params.id);
+        const testRun = await storage.getTestRun(testRunId);
+        if (!testRun) {
+          return res.status(404).json({ message: "Test run not found" });
+        }
+
+        const file = req.file;
+        if (!file) {
+          return res.status(400).json({ message: "No file uploaded", code: "NO_FILES" });
+        }
+
+        const kind = req.body.kind as ArtifactKind | undefined;
+        if (kind && !ARTIFACT_KINDS.includes(kind)) {
+          return res.status(400).json({ message: `Invalid artifact kind. Expected one of: ${ARTIFACT_KINDS.join(', ')}` });
+        }
+
+        const testCaseId = req.body.testCaseId ? parseInt(req.body.testCaseId) : null;
+        const testRunResultId = req.body.testRunResultId ? parseInt(req.body.testRunResultId) : null;
+        if (testRunResultId) {
+          const runResults = await storage.getTestRunResults(testRunId);
+          if (!runResults.some(result => result.id === testRunResultId)) {
+            return res.status(400).json({ message: "Test run result does not belong to this run" });
+          }
+        }
+
+        const artifact = await artifactStore.save({
+          projectId: testRun.projectId,
+          testRunId,
+          testRunResultId,
+          testCaseId,
+          fileName: file.originalname,
+          kind,
+          data: file.buffer
+        });
+
+        res.status(201).json(artifact);
+      } catch (error) {
+        if (error instanceof ArtifactTooLargeError) {
+          return res.status(413).json({ message: error.message, code: "FILE_TOO_LARGE" });
+        }
+        res.status(500).json({ message: "Failed to store artifact", error: error instanceof Error ? error.message : "Unknown error" });
+      }
+    });
+  });
+
+  // List the artifacts recorded for a test run
+  app.get("/api/test-runs/:id/artifacts", async (req, res) => {
+    try {
+      const testRunId = parseInt(req.params.id);
+      const testRun = await storage.getTestRun(testRunId);
+      if (!testRun) {
+        return res.status(404).json({ message: "Test run not found" });
+      }
+
+      const artifacts = await storage.getArtifactsByTestRun(testRunId);
+      res.json(artifacts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch artifacts", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Download an artifact's contents
+  app.get("/api/artifacts/:id/download", async (req, res) => {
+    try {
+      const artifact = await storage.getArtifact(parseInt(req.params.id));
+      if (!artifact) {
+        return res.status(404).json({ message: "Artifact not found" });
+      }
+
+      const data = await artifactStore.read(artifact);
+      if (!data) {
+        return res.status(410).json({ message: "Artifact contents are no longer available" });
+      }
+
+      const disposition = isInlineArtifact(artifact.contentType) ? 'inline' : 'attachment';
+      const safeFileName = artifact.fileName.replace(/[^\w.\-]/g, '_');
+      res.setHeader('Content-Type', artifact.contentType);
+      res.setHeader('Content-Length', data.length);
+      res.setHeader('Content-Disposition', `${disposition}; filename="${safeFileName}"`);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+      res.send(data);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download artifact", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Get background jobs for a project
+  app.get("/api/projects/:id/jobs", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const jobs = await storage.getJobsByProject(projectId);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch jobs", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Get background job status
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Cancel a queued or running test run
+  app.post("/api/projects/:id/runs/:runId/cancel", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const testRun = await storage.getTestRun(parseInt(req.params.runId));
+      if (!testRun || testRun.projectId !== projectId) {
+        return res.status(404).json({ message: "Test run not found" });
+      }
+
+      const cancelled = await cancelTestRun(testRun);
+      if (!cancelled) {
+        return res.status(400).json({ message: `Test run has already ${testRun.status}` });
+      }
+
+      res.json({ message: "Test run cancelled", testRunId: testRun.id });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel test run", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  // Cancel a queued or running analysis workflow
+  app.post("/api/projects/:id/workflows/:jobId/cancel", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const job = await storage.getJob(parseInt(req.params.jobId));
+      if (!job || job.projectId !== projectId || job.type !== 'analysis') {
+        return res.status(404).json({ message: "Workflow not found" });
+      }
+
+      const cancelled = await cancelAnalysis(job);
+      if (!cancelled) {
+        return res.status(400).json({ message: `Workflow has already ${job.status}` });
+      }
+
+      res.json({ message: "Workflow cancelled", jobId: job.id });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel workflow", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Get project recommendations
   app.get("/api/projects/:id/recommendations", async (req, res) => {
     try {
@@ -394,11 +1217,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get flakiness scores and quarantine state for every test case
+  app.get("/api/projects/:id/ml/flaky-tests", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const reports = await mlTestingIntelligence.getFlakinessReports(projectId);
+      res.json(reports);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate flakiness scores" });
+    }
+  });
+
+  // Quarantine a test case: it keeps running but is excluded from quality-gate pass rates
+  app.post("/api/test-cases/:id/quarantine", async (req, res) => {
+    try {
+      const testCase = await mlTestingIntelligence.setQuarantine(parseInt(req.params.id), true, req.body?.reason);
+      if (!testCase) {
+        return res.status(404).json({ message: "Test case not found" });
+      }
+      res.json(testCase);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to quarantine test case" });
+    }
+  });
+
+  // Release a test case from quarantine
+  app.delete("/api/test-cases/:id/quarantine", async (req, res) => {
+    try {
+      const testCase = await mlTestingIntelligence.setQuarantine(parseInt(req.params.id), false);
+      if (!testCase) {
+        return res.status(404).json({ message: "Test case not found" });
+      }
+      res.json(testCase);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to release test case from quarantine" });
+    }
+  });
+
   // Record test execution result for ML learning
   app.post("/api/test-cases/:id/ml/record-execution", async (req, res) => {
     try {
       const testCaseId = parseInt(req.params.id);
-      const { testName, result, duration, errorType, codeChanges } = req.body;
+      const { testName, result, duration, errorType, codeChanges, branchName } = req.body;
       
       await mlTestingIntelligence.recordTestExecution(
         testCaseId,
@@ -406,7 +1266,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         result,
         duration,
         errorType,
-        codeChanges
+        codeChanges,
+        undefined,
+        branchName
       );
       
       res.json({ message: "Test execution recorded for ML analysis" });
@@ -430,21 +1292,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ message: "Analysis already in progress" });
       }
 
-      try {
-        // Import LangGraph workflow
-        const { langGraphWorkflow } = await import("./services/langraph-workflow");
-
-        // Start analysis workflow asynchronously using LangGraph
-        langGraphWorkflow.executeWorkflow(project).catch(error => {
-          console.error(`LangGraph analysis failed for project ${id}:`, error);
-          storage.updateProject(id, { analysisStatus: 'failed' }).catch(console.error);
-        });
-
-        res.json({ message: "Analysis started successfully" });
-      } catch (importError) {
-        console.error("Failed to import LangGraph workflow:", importError);
-        res.status(500).json({ message: "Failed to initialize analysis workflow" });
-      }
+      const job = await enqueueAnalysis(project, 'standard');
+      res.json({ message: "Analysis started successfully", jobId: job.id });
     } catch (error) {
       console.error("Analysis endpoint error:", error);
       res.status(500).json({ message: "Failed to start analysis" });
@@ -607,6 +1456,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
 
+      // The MCP agents simulate these results, so they are reported back but never persisted as a
+      // test run: they must not reach run history, flakiness scoring or the JUnit/TAP/CTRF exports
       const executionResults = await multiPlatformTestingService.executePlatformTests(
         testScripts,
         selectedPlatforms
@@ -721,52 +1572,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get logs for a project (for testing logs tab)
+  // Structured logs emitted while analysing and testing the project, newest first.
+  // Filters: level, category (comma-separated), framework, runId, testCaseId, from, to (ISO dates),
+  // search (text in the message or framework).
+  // Pass the returned nextCursor as ?cursor= to page back through older records.
   app.get("/api/projects/:id/logs", async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      // Generate mock logs for demonstration
-      const logs = Array.from({ length: 50 }, (_, i) => ({
-        id: `log-${i}`,
-        timestamp: new Date(Date.now() - (i * 60000 + Math.random() * 60000)).toISOString(),
-        level: Math.random() > 0.8 ? 'error' : Math.random() > 0.6 ? 'warning' : Math.random() > 0.3 ? 'success' : 'info',
-        category: ['test_execution', 'framework', 'analysis', 'security', 'performance', 'system'][Math.floor(Math.random() * 6)],
-        message: [
-          'Test execution started for User Authentication Test',
-          'Jest framework initialized successfully',
-          'Playwright browser launched on port 9222',
-          'OWASP ZAP security scan completed',
-          'k6 performance test finished with 95% success rate',
-          'Lighthouse accessibility audit passed',
-          'API endpoint validation successful',
-          'Visual regression test detected UI changes',
-          'Database connection established',
-          'Test environment setup completed',
-          'Error: Test timeout after 30 seconds',
-          'Warning: Deprecated API usage detected',
-          'Critical security vulnerability found in authentication',
-          'Performance threshold exceeded: 5.2s response time',
-          'Test suite completed with 85% pass rate'
-        ][Math.floor(Math.random() * 15)],
-        framework: ['jest', 'playwright', 'k6', 'owasp-zap', 'lighthouse', 'selenium'][Math.floor(Math.random() * 6)],
-        duration: Math.floor(Math.random() * 10000),
-        details: Math.random() > 0.7 ? {
-          testCaseId: 69 + Math.floor(Math.random() * 4),
-          stackTrace: 'Error at line 23 in test-auth.spec.js',
-          expectedValue: 'true',
-          actualValue: 'false',
-          browserInfo: 'Chrome 118.0.0.0',
-          environment: 'test'
-        } : undefined
-      })).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-      
-      res.json(logs);
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const list = (value: unknown) => typeof value === 'string' && value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+      const optionalInt = (value: unknown) => typeof value === 'string' && value ? parseInt(value) : undefined;
+      const optionalDate = (value: unknown) => typeof value === 'string' && value ? new Date(value) : undefined;
+
+      const levels = list(req.query.level);
+      const invalidLevel = levels.find(level => !PROJECT_LOG_LEVELS.includes(level as ProjectLogLevel));
+      if (invalidLevel) {
+        return res.status(400).json({ message: `Invalid level "${invalidLevel}". Expected one of: ${PROJECT_LOG_LEVELS.join(', ')}` });
+      }
+
+      const categories = list(req.query.category);
+      const invalidCategory = categories.find(category => !PROJECT_LOG_CATEGORIES.includes(category as ProjectLogCategory));
+      if (invalidCategory) {
+        return res.status(400).json({ message: `Invalid category "${invalidCategory}". Expected one of: ${PROJECT_LOG_CATEGORIES.join(', ')}` });
+      }
+
+      const testRunId = optionalInt(req.query.runId);
+      const testCaseId = optionalInt(req.query.testCaseId);
+      const before = optionalInt(req.query.cursor);
+      const limit = optionalInt(req.query.limit) ?? 100;
+      const from = optionalDate(req.query.from);
+      const to = optionalDate(req.query.to);
+      if ([testRunId, testCaseId, before, limit].some(value => value !== undefined && isNaN(value))) {
+        return res.status(400).json({ message: "runId, testCaseId, cursor and limit must be integers" });
+      }
+      if ([from, to].some(date => date !== undefined && isNaN(date.getTime()))) {
+        return res.status(400).json({ message: "from and to must be ISO dates" });
+      }
+
+      const page = await projectLogService.query(projectId, {
+        levels,
+        categories,
+        framework: typeof req.query.framework === 'string' && req.query.framework ? req.query.framework : undefined,
+        testRunId,
+        testCaseId,
+        from,
+        to,
+        before,
+        search: typeof req.query.search === 'string' && req.query.search.trim() ? req.query.search.trim() : undefined,
+        limit: Math.min(Math.max(limit, 1), 500)
+      });
+
+      res.json(page);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch logs" });
+      res.status(500).json({ message: "Failed to fetch logs", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  // Upload code repository files with comprehensive security validation
+  // Upload code repository files with comprehensive security validation.
+  // The files are stored in the workspace of an "upload" project: pass projectId to attach them to an
+  // existing one, otherwise a project is created (from the optional name and description fields) and analysed.
+  // A zip or tar archive replaces the workspace with its extracted tree; other files are written on top.
   app.post("/api/upload", upload.array('files'), async (req, res) => {
     try {
       const files = req.files as Express.Multer.File[];
@@ -798,34 +1667,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      const archives = files.filter(file => isArchiveFile(file.originalname));
+      if (archives.length > 1) {
+        return res.status(400).json({
+          message: "Upload one archive at a time",
+          code: "MULTIPLE_ARCHIVES"
+        });
+      }
+      const archive = archives[0];
+      const looseFiles = files.filter(file => file !== archive);
+
+      // Attach to an existing upload project, or create one for these files
+      let project: Project | undefined;
+      const projectId = req.body?.projectId ? parseInt(req.body.projectId) : undefined;
+      if (projectId !== undefined) {
+        project = await storage.getProject(projectId);
+        if (!project) {
+          return res.status(404).json({
+            message: "Project not found",
+            code: "PROJECT_NOT_FOUND"
+          });
+        }
+        if (project.sourceType !== 'upload') {
+          return res.status(400).json({
+            message: `Files can only be attached to upload projects, not ${project.sourceType} projects`,
+            code: "INVALID_PROJECT"
+          });
+        }
+      }
+
+      const created = !project;
+      if (!project) {
+        project = await storage.createProject({
+          name: req.body?.name || `Uploaded files ${new Date().toISOString().split('T')[0]}`,
+          description: req.body?.description || null,
+          sourceType: 'upload',
+          sourceUrl: 'local_files',
+          repositoryData: { uploadedFiles: [] }
+        });
+      }
+
+      let extraction: ArchiveExtractionResult | null = null;
+      if (archive) {
+        try {
+          extraction = await projectWorkspace.replaceFromArchive(project.id, archive.buffer, archive.originalname);
+        } catch (error) {
+          // Don't leave behind an empty project for an archive that was rejected
+          if (created) await storage.deleteProject(project.id);
+          throw error;
+        }
+      }
+
+      const written = await projectWorkspace.writeFiles(project.id, looseFiles.map(file => ({
+        path: file.originalname,
+        data: file.buffer
+      })));
+      const writtenPaths = new Map(looseFiles.map((file, index) => [file, written[index].path]));
+
       // Process uploaded files with secure filenames
-      const fileData = files.map(file => {
-        const secureFilename = generateSecureFilename(file.originalname);
-        return {
-          originalName: file.originalname,
-          secureFilename: secureFilename,
-          mimeType: file.mimetype,
-          size: file.size,
-          content: file.buffer.toString('base64'),
-          uploadedAt: new Date().toISOString()
-        };
-      });
+      const uploadedAt = new Date().toISOString();
+      const fileData = files.map(file => ({
+        originalName: file.originalname,
+        secureFilename: generateSecureFilename(file.originalname),
+        // An archive is unpacked into the workspace root
+        path: writtenPaths.get(file) ?? '.',
+        mimeType: file.mimetype,
+        size: file.size,
+        uploadedAt
+      }));
+
+      // Re-uploading a file replaces its earlier entry; an archive replaces everything uploaded before it
+      const repositoryData = (project.repositoryData as any) || {};
+      const previousFiles: any[] = extraction
+        ? extraction.files.map(file => ({ originalName: file.path, path: file.path, size: file.size, archive: archive!.originalname, uploadedAt }))
+        : repositoryData.uploadedFiles || [];
+      const looseData = fileData.filter(f => f.path !== '.');
+      const uploadedPaths = new Set(looseData.map(f => f.path));
+      const uploadedFiles = [
+        ...previousFiles.filter(f => !uploadedPaths.has(f.path)),
+        ...looseData.map(({ secureFilename, ...f }) => f)
+      ];
+      const archiveData = extraction ? {
+        fileName: archive!.originalname,
+        extractedFiles: extraction.files.length,
+        extractedBytes: extraction.totalBytes,
+        skipped: extraction.skipped,
+        extractedAt: uploadedAt
+      } : repositoryData.archive;
+      project = await storage.updateProject(project.id, {
+        repositoryData: { ...repositoryData, uploadedFiles, fileCount: uploadedFiles.length, archive: archiveData }
+      }) || project;
+
+      if (created) {
+        await enqueueAnalysis(project);
+      }
 
-      // Log successful upload for security monitoring
-      console.log(`Secure file upload completed: ${files.length} files, total size: ${files.reduce((sum, f) => sum + f.size, 0)} bytes`);
+      logger.info(`Secure file upload completed: ${files.length} files`, {
+        projectId: project.id,
+        created,
+        extractedFiles: extraction?.files.length,
+        totalSize: files.reduce((sum, f) => sum + f.size, 0)
+      }, 'UPLOAD');
 
-      res.json({ 
+      res.status(created ? 201 : 200).json({ 
         message: "Files uploaded successfully",
+        project,
+        created,
         files: fileData.map(f => ({ 
           originalName: f.originalName,
           secureFilename: f.secureFilename,
+          path: f.path,
           size: f.size,
           uploadedAt: f.uploadedAt
         })),
+        archive: extraction ? {
+          fileName: archive!.originalname,
+          extractedFiles: extraction.files.length,
+          extractedBytes: extraction.totalBytes,
+          skipped: extraction.skipped
+        } : null,
         totalFiles: files.length,
         totalSize: files.reduce((sum, f) => sum + f.size, 0)
       });
     } catch (error: any) {
+      if (error instanceof WorkspacePathError) {
+        return res.status(400).json({
+          message: error.message,
+          code: "INVALID_PATH"
+        });
+      }
+      if (error instanceof ArchiveExtractionError) {
+        return res.status(400).json({
+          message: error.message,
+          code: "ARCHIVE_REJECTED"
+        });
+      }
       // Handle multer errors specifically
       if (error.code === 'LIMIT_FILE_SIZE') {
         return res.status(400).json({ 
@@ -871,25 +1847,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/test-cases/:id/run", async (req, res) => {
     try {
       const testCaseId = parseInt(req.params.id);
+      const testCase = await storage.getTestCase(testCaseId);
+      if (!testCase) {
+        return res.status(404).json({ message: "Test case not found" });
+      }
+
+      const project = testCase.projectId ? await storage.getProject(testCase.projectId) : undefined;
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const environmentId = await resolveEnvironmentId(project.id, req.body?.environmentId);
+      if (environmentId === undefined) {
+        return res.status(400).json({ message: "Environment not found" });
+      }
       
-      // Update test case status
-      await storage.updateTestCase(testCaseId, { 
-        status: 'running' 
+      const testRun = await storage.createTestRun({
+        projectId: project.id,
+        framework: testCase.generatedBy || 'jest',
+        status: 'queued',
+        triggeredBy: req.body?.triggeredBy || 'manual',
+        testCaseIds: [testCaseId],
+        maxRetries: parseMaxRetries(req.body?.retries),
+        environmentId,
+        environment: parseRunEnvironment(req.body?.environment),
+        commitSha: project.commitSha
       });
+      const job = await enqueueTestRun(project.id, testRun.id);
 
-      // Simulate test execution with managed timeout
-      createManagedTimeout(`test-${testCaseId}`, async () => {
-        const success = Math.random() > 0.3; // 70% success rate
-        try {
-          await storage.updateTestCase(testCaseId, {
-            status: success ? 'passed' : 'failed'
-          });
-        } catch (error) {
-          console.error(`Failed to update test case ${testCaseId}:`, error);
-        }
-      }, TIMEOUTS.TEST_EXECUTION);
-
-      res.json({ message: "Test execution started" });
+      res.json({ message: "Test execution started", testRunId: testRun.id, jobId: job.id });
     } catch (error) {
       res.status(500).json({ message: "Failed to run test" });
     }
@@ -913,14 +1899,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Calculate metrics
       const completedAnalyses = analyses.filter(a => a.status === 'completed');
-      const totalTests = testCases.length;
-      const passedTests = testCases.filter(tc => tc.status === 'passed').length;
       const criticalIssues = recommendations.filter(r => r.priority === 'immediate').length;
+      const coverage = await coverageService.getLatestTotals(projectId);
 
       const metrics = {
         codeQuality: Math.max(20, 100 - (criticalIssues * 10)),
         riskLevel: criticalIssues > 5 ? 'High' : criticalIssues > 2 ? 'Medium' : 'Low',
-        testCoverage: totalTests > 0 ? Math.round((passedTests / totalTests) * 100) : 0,
+        // Line coverage of the latest coverage report; null until one has been collected or uploaded
+        testCoverage: coverage?.lines.pct ?? null,
+        coverage,
+        testPassRate: mlTestingIntelligence.calculatePassRate(testCases).passRate,
         techDebt: recommendations.length > 10 ? 'High' : recommendations.length > 5 ? 'Medium' : 'Low',
         analysisProgress: Math.round((completedAnalyses.length / Math.max(analyses.length, 1)) * 100),
         totalRecommendations: recommendations.length,
@@ -950,34 +1938,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No test cases found for execution" });
       }
 
-      // Update project status to running tests
-      await storage.updateProject(projectId, { analysisStatus: "testing" });
-      
-      // Execute tests using MCP servers asynchronously
-      agentOrchestrator.executeTestWorkflow(project, testCases)
-        .then(async (executionResults) => {
-          // Update test case statuses based on execution results
-          for (const result of executionResults.executionResults) {
-            await storage.updateTestCase(result.testCaseId, { 
-              status: result.status 
-            });
-          }
-          
-          // Update project status
-          await storage.updateProject(projectId, { 
-            analysisStatus: "completed" 
-          });
-          
-          console.log("Test execution workflow completed:", executionResults.summary);
-        })
-        .catch(console.error);
+      const environmentId = await resolveEnvironmentId(projectId, req.body.environmentId);
+      if (environmentId === undefined) {
+        return res.status(400).json({ message: "Environment not found" });
+      }
+
+      const testRun = await storage.createTestRun({
+        projectId,
+        framework: framework || 'jest',
+        status: 'queued',
+        triggeredBy: req.body.triggeredBy || 'manual',
+        testCaseIds: testCases.map(tc => tc.id),
+        maxRetries: parseMaxRetries(req.body.retries),
+        shardCount: parseShardCount(req.body.shards),
+        environmentId,
+        environment: parseRunEnvironment(req.body.environment),
+        commitSha: project.commitSha
+      });
+      const job = await enqueueTestRun(projectId, testRun.id);
       
       res.json({ 
         message: "Test execution started using MCP servers", 
         projectId, 
         testType,
         framework,
-        testCasesCount: testCases.length
+        testCasesCount: testCases.length,
+        testRunId: testRun.id,
+        jobId: job.id
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to execute tests" });
@@ -1190,86 +2177,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects/:id/run-test-suite", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const { framework, testCaseIds } = req.body;
+      const { framework, testCaseIds, triggeredBy, retries, shards, environment } = req.body;
       
+      if (!Array.isArray(testCaseIds) || !testCaseIds.every(testCaseId => Number.isInteger(testCaseId))) {
+        return res.status(400).json({ message: "testCaseIds must be an array of test case ids" });
+      }
+
       const project = await storage.getProject(projectId);
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
 
+      const environmentId = await resolveEnvironmentId(projectId, req.body.environmentId);
+      if (environmentId === undefined) {
+        return res.status(400).json({ message: "Environment not found" });
+      }
+
       console.log(`Running test suite for project ${projectId} with ${framework}, test cases: ${testCaseIds}`);
       
-      // Create a new test run record
-      const testRun = {
-        id: `run-${Date.now()}`,
+      // Create a new test run record and queue its execution
+      const testRun = await storage.createTestRun({
         projectId,
-        framework,
-        startTime: new Date().toISOString(),
-        status: 'running',
+        framework: framework || 'jest',
+        status: 'queued',
+        triggeredBy: triggeredBy || 'manual',
         testCaseIds,
-        results: []
-      };
-      
-      // Store test run
-      const projectRuns = testRuns.get(projectId) || [];
-      projectRuns.push(testRun);
-      testRuns.set(projectId, projectRuns);
-      
-      // Update all test cases to running status
-      for (const testCaseId of testCaseIds) {
-        await storage.updateTestCase(testCaseId, { status: 'running' });
-      }
-
-      // Simulate test suite execution
-      setTimeout(async () => {
-        try {
-          const results = [];
-          for (const testCaseId of testCaseIds) {
-            // Simulate individual test execution with realistic results
-            const success = Math.random() > 0.25; // 75% success rate
-            const result = {
-              testCaseId,
-              status: success ? 'passed' : 'failed',
-              executionTime: Math.floor(Math.random() * 5000) + 1000, // 1-6 seconds
-              message: success ? 
-                `Test executed successfully with ${framework}` :
-                `Test failed during ${framework} execution`,
-              error: success ? null : 'Test assertion failed'
-            };
-            
-            results.push(result);
-            
-            await storage.updateTestCase(testCaseId, {
-              status: success ? 'passed' : 'failed',
-              executionTime: result.executionTime,
-              results: { passed: success, message: result.message, error: result.error }
-            });
-          }
-          
-          // Update test run record
-          testRun.status = 'completed';
-          testRun.endTime = new Date().toISOString();
-          testRun.results = results;
-          testRun.summary = {
-            total: results.length,
-            passed: results.filter(r => r.status === 'passed').length,
-            failed: results.filter(r => r.status === 'failed').length
-          };
-          
-          console.log(`Test suite completed for project ${projectId}`);
-        } catch (error) {
-          console.error("Error during test suite execution:", error);
-          testRun.status = 'failed';
-          testRun.error = error.message;
-        }
-      }, 2000);
+        maxRetries: parseMaxRetries(retries),
+        shardCount: parseShardCount(shards),
+        environmentId,
+        environment: parseRunEnvironment(environment),
+        commitSha: project.commitSha
+      });
+      const job = await enqueueTestRun(projectId, testRun.id);
       
       res.json({ 
         message: "Test suite execution started", 
         projectId,
         framework,
         testCount: testCaseIds.length,
-        testRunId: testRun.id
+        testRunId: testRun.id,
+        jobId: job.id
       });
     } catch (error) {
       console.error("Test suite execution error:", error);
@@ -1404,6 +2351,83 @@ test('${name}', () => {
     }
   });
 
+  // Test GitLab connection; serverUrl selects a self-hosted instance
+  app.post("/api/integrations/gitlab/test", async (req, res) => {
+    try {
+      const { accessToken, serverUrl } = req.body;
+      const result = await gitlabService.testConnection(accessToken, serverUrl);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to test GitLab connection" });
+    }
+  });
+
+  // Search GitLab repositories
+  app.post("/api/integrations/gitlab/search", async (req, res) => {
+    try {
+      const { query, accessToken, serverUrl } = req.body;
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const result = await gitlabService.searchRepositories(query, { accessToken, serverUrl });
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search GitLab repositories" });
+    }
+  });
+
+  // Test Bitbucket connection; pass username to authenticate with an app password
+  app.post("/api/integrations/bitbucket/test", async (req, res) => {
+    try {
+      const { accessToken, username } = req.body;
+      const result = await bitbucketService.testConnection(accessToken, username);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to test Bitbucket connection" });
+    }
+  });
+
+  // Search Bitbucket repositories, within a workspace if one is given
+  app.post("/api/integrations/bitbucket/search", async (req, res) => {
+    try {
+      const { query, accessToken, username, workspace } = req.body;
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const result = await bitbucketService.searchRepositories(query, { accessToken, username, workspace });
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search Bitbucket repositories" });
+    }
+  });
+
+  // Receive GitHub push and pull_request events. Deliveries must be signed with GITHUB_WEBHOOK_SECRET;
+  // matching projects are re-synced and their impacted tests run in the background.
+  app.post("/api/webhooks/github", async (req, res) => {
+    try {
+      if (!githubWebhookService.isConfigured()) {
+        return res.status(503).json({ message: "GitHub webhooks are not configured. Set GITHUB_WEBHOOK_SECRET" });
+      }
+      if (!req.is('application/json')) {
+        return res.status(415).json({ message: "Configure the webhook with content type application/json" });
+      }
+      if (!githubWebhookService.verifySignature((req as any).rawBody, req.get('X-Hub-Signature-256'))) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      const result = await githubWebhookService.accept(
+        req.get('X-GitHub-Event') || '',
+        req.get('X-GitHub-Delivery') || '',
+        req.body
+      );
+      res.status(result.accepted ? 202 : 200).json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to process GitHub webhook", error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
   // Performance monitoring endpoint
   app.get("/api/performance/stats", async (req, res) => {
     try {
@@ -0,0 +1,209 @@
+/**
+ * Acceptance Criteria Service
+ * Extracts acceptance criteria from the issues of a Jira-sourced project and generates a test case per
+ * criterion, linked back to its issue key so story coverage can be traced
+ */
+
+import { storage } from '../storage';
+import { logger } from '../logger';
+import type { JiraIssue } from './jira-integration';
+import type { Project, TestCase } from '@shared/schema';
+
+export interface AcceptanceCriterion {
+  kind: 'scenario' | 'bullet';
+  title: string;
+  // Given/When/Then steps of a scenario, keyword included
+  steps: string[];
+}
+
+export interface AcceptanceTestGenerationResult {
+  issuesScanned: number;
+  issuesWithCriteria: number;
+  // Issue keys with no criteria to generate from
+  issuesWithoutCriteria: string[];
+  created: TestCase[];
+  // Criteria whose test case was generated earlier
+  existing: number;
+}
+
+export class AcceptanceCriteriaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AcceptanceCriteriaError';
+  }
+}
+
+const STEP_PATTERN = /^(given|when|then|and|but)\b\s*(.*)$/i;
+const SCENARIO_PATTERN = /^scenario(?: outline)?\s*:?\s*(.*)$/i;
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+(.*)$/;
+const CRITERIA_HEADING_PATTERN = /^(acceptance criteria|acceptance tests?|ac)\s*:?$/i;
+// A short line ending in a colon, e.g. "Notes:", starts a new section
+const SECTION_HEADING_PATTERN = /^[^-*•\d].{0,60}:$/;
+const MAX_NAME_CHARS = 120;
+
+export class AcceptanceCriteriaService {
+  /**
+   * Extract Given/When/Then scenarios and bulleted criteria from an issue description. When the
+   * description has an "Acceptance Criteria" section, only bullets in that section count.
+   */
+  extractCriteria(description: string | null | undefined): AcceptanceCriterion[] {
+    const lines = (description || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const hasCriteriaSection = lines.some(line => CRITERIA_HEADING_PATTERN.test(line));
+
+    const criteria: AcceptanceCriterion[] = [];
+    let scenario: AcceptanceCriterion | null = null;
+    let inCriteriaSection = false;
+
+    const closeScenario = () => {
+      if (scenario && scenario.steps.length > 0) {
+        scenario.title = scenario.title || this.summarizeSteps(scenario.steps);
+        criteria.push(scenario);
+      }
+      scenario = null;
+    };
+
+    for (const line of lines) {
+      if (CRITERIA_HEADING_PATTERN.test(line)) {
+        closeScenario();
+        inCriteriaSection = true;
+        continue;
+      }
+
+      // Steps are often written as bullets, so markers are dropped before matching keywords
+      const text = line.match(BULLET_PATTERN)?.[1]?.trim() ?? line;
+
+      const scenarioTitle = text.match(SCENARIO_PATTERN);
+      if (scenarioTitle) {
+        closeScenario();
+        scenario = { kind: 'scenario', title: scenarioTitle[1].trim(), steps: [] };
+        continue;
+      }
+
+      const step = text.match(STEP_PATTERN);
+      if (step) {
+        const keyword = step[1].toLowerCase();
+        // A Given after the scenario's outcome starts the next scenario
+        const current = scenario as AcceptanceCriterion | null;
+        if (!current || (keyword === 'given' && current.steps.some(s => /^then\b/i.test(s)))) {
+          closeScenario();
+          scenario = { kind: 'scenario', title: '', steps: [] };
+        }
+        scenario!.steps.push(`${keyword[0].toUpperCase()}${keyword.slice(1)} ${step[2].trim()}`);
+        continue;
+      }
+
+      closeScenario();
+      if (SECTION_HEADING_PATTERN.test(line)) {
+        inCriteriaSection = false;
+        continue;
+      }
+
+      const bullet = line.match(BULLET_PATTERN);
+      if (bullet && bullet[1].trim() && (!hasCriteriaSection || inCriteriaSection)) {
+        criteria.push({ kind: 'bullet', title: bullet[1].trim(), steps: [] });
+      }
+    }
+    closeScenario();
+
+    return criteria;
+  }
+
+  /**
+   * Generate a test case for every acceptance criterion of the project's acquired Jira issues.
+   * Criteria that already have a generated test case are skipped, so generation can be rerun after
+   * the project is acquired again.
+   */
+  async generateTestCases(project: Project): Promise<AcceptanceTestGenerationResult> {
+    if (project.sourceType !== 'jira') {
+      throw new AcceptanceCriteriaError('Acceptance criteria can only be extracted from Jira projects');
+    }
+    const issues: JiraIssue[] = (project.repositoryData as any)?.acquisitionResult?.issues || [];
+
+    const existingNames = new Set(
+      (await storage.getTestCasesByProject(project.id))
+        .filter(testCase => testCase.sourceIssueKey)
+        .map(testCase => `${testCase.sourceIssueKey}|${testCase.name}`)
+    );
+
+    const result: AcceptanceTestGenerationResult = {
+      issuesScanned: issues.length,
+      issuesWithCriteria: 0,
+      issuesWithoutCriteria: [],
+      created: [],
+      existing: 0
+    };
+
+    for (const issue of issues) {
+      const criteria = this.extractCriteria(issue.description);
+      if (criteria.length === 0) {
+        result.issuesWithoutCriteria.push(issue.key);
+        continue;
+      }
+      result.issuesWithCriteria++;
+
+      for (const criterion of criteria) {
+        const name = this.testCaseName(issue, criterion);
+        if (existingNames.has(`${issue.key}|${name}`)) {
+          result.existing++;
+          continue;
+        }
+
+        const testCase = await storage.createTestCase({
+          projectId: project.id,
+          name,
+          description: `Acceptance criterion of ${issue.key} (${issue.summary}): ${criterion.steps.length > 0 ? criterion.steps.join(', ') : criterion.title}`,
+          priority: this.priorityOf(issue),
+          type: 'e2e',
+          testScript: this.testScript(issue, criterion),
+          generatedBy: 'jira-acceptance-criteria',
+          sourceIssueKey: issue.key
+        });
+        existingNames.add(`${issue.key}|${name}`);
+        result.created.push(testCase);
+      }
+    }
+
+    logger.info(`Generated ${result.created.length} acceptance tests from ${result.issuesWithCriteria} Jira issues`, {
+      projectId: project.id,
+      issuesScanned: result.issuesScanned,
+      existing: result.existing,
+      issuesWithoutCriteria: result.issuesWithoutCriteria.length
+    }, 'ACCEPTANCE_CRITERIA');
+
+    return result;
+  }
+
+  private testCaseName(issue: JiraIssue, criterion: AcceptanceCriterion): string {
+    const title = criterion.title.length > MAX_NAME_CHARS ? `${criterion.title.slice(0, MAX_NAME_CHARS - 1)}…` : criterion.title;
+    return `${issue.key}: ${title}`;
+  }
+
+  private summarizeSteps(steps: string[]): string {
+    return steps.map(step => step.replace(/^(And|But)\s+/, '')).join(', ');
+  }
+
+  // Jira priorities vary per instance; unknown ones map to medium
+  private priorityOf(issue: JiraIssue): string {
+    const priority = (issue.priority || '').toLowerCase();
+    if (['highest', 'high', 'critical', 'blocker', 'major'].includes(priority)) return 'high';
+    if (['lowest', 'low', 'minor', 'trivial'].includes(priority)) return 'low';
+    return 'medium';
+  }
+
+  /**
+   * A pending Jest test carrying the criterion's steps, reported as skipped until it is implemented
+   */
+  private testScript(issue: JiraIssue, criterion: AcceptanceCriterion): string {
+    const steps = criterion.steps.map(step => `  // ${step}`);
+    return [
+      `// Generated from the acceptance criteria of ${issue.key}`,
+      `describe(${JSON.stringify(`${issue.key}: ${issue.summary}`)}, () => {`,
+      ...steps,
+      `  test.todo(${JSON.stringify(criterion.title)});`,
+      `});`,
+      ''
+    ].join('\n');
+  }
+}
+
+export const acceptanceCriteriaService = new AcceptanceCriteriaService();
@@ -1,7 +1,31 @@
+import fs from "fs";
+import { randomUUID } from "crypto";
 import { storage } from "../storage";
+import { logger } from "../logger";
 import { anthropicService } from "./anthropic";
+import { jestRunner, type JestTestCaseResult } from "./jest-runner";
+import { testWorkerPool } from "./test-worker-pool";
+import { mlTestingIntelligence } from "./ml-testing-intelligence";
+import { coverageService } from "./coverage";
+import { projectEvents } from "./project-events";
+import { projectWorkspace } from "./project-workspace";
+import { isCancellation, throwIfCancelled } from "../utils/cancellation";
 import type { Project, Analysis, TestCase, Recommendation } from "@shared/schema";
 
+export interface TestRunContext {
+  testRunId?: number;
+  // Aborting stops the Jest process and any remaining test cases
+  signal?: AbortSignal;
+  // Number of parallel Jest processes to split the suite across
+  shardCount?: number;
+  // Receives the Istanbul coverage map of each Jest process
+  onCoverage?: (coverageMap: Record<string, any>) => void;
+  // Variables exposed to the test scripts, such as API_BASE_URL
+  environment?: Record<string, string>;
+  // Sources to test instead of the project's workspace, such as a pull request's head
+  sourceDir?: string;
+}
+
 export interface AgentCapabilities {
   [key: string]: any;
 }
@@ -16,12 +40,19 @@ export abstract class BaseAgent {
 
   abstract execute(project: Project, context?: any): Promise<any>;
 
-  protected async updateStatus(status: string) {
+  protected async updateStatus(status: string, projectId?: number) {
     const agents = await storage.getAllAgents();
     const agent = agents.find(a => a.name === this.name);
     if (agent) {
       await storage.updateAgentStatus(agent.id, status);
     }
+
+    projectEvents.publish(projectId, 'agent:status', {
+      agentId: this.id,
+      name: this.name,
+      type: this.type,
+      status
+    });
   }
 }
 
@@ -34,7 +65,7 @@ export class SupervisorAgent extends BaseAgent {
   }
 
   async execute(project: Project): Promise<{ workflowPlan: string[], estimatedTime: number }> {
-    await this.updateStatus('busy');
+    await this.updateStatus('busy', project.id);
     
     try {
       // Create analysis workflow plan
@@ -55,14 +86,14 @@ export class SupervisorAgent extends BaseAgent {
         });
       }
 
-      await this.updateStatus('ready');
+      await this.updateStatus('ready', project.id);
       
       return {
         workflowPlan,
         estimatedTime: 15 // minutes
       };
     } catch (error) {
-      await this.updateStatus('error');
+      await this.updateStatus('error', project.id);
       throw error;
     }
   }
@@ -77,14 +108,17 @@ export class CodeAnalyzerAgent extends BaseAgent {
     });
   }
 
-  async execute(project: Project): Promise<any> {
-    await this.updateStatus('busy');
+  async execute(project: Project, signal?: AbortSignal): Promise<any> {
+    await this.updateStatus('busy', project.id);
     
     try {
+      const sourceContext = await projectWorkspace.buildSourceContext(project.id);
       const codeAnalysisPrompt = `
         Analyze the following code repository information:
         Repository: ${project.sourceUrl}
         Source Type: ${project.sourceType}
+        ${project.commitSha ? `Revision: ${project.commitSha}` : ''}
+        ${sourceContext ? `Source files:\n${sourceContext}` : ''}
         
         Please provide a comprehensive analysis including:
         1. Programming languages detected and their percentages
@@ -97,7 +131,7 @@ export class CodeAnalyzerAgent extends BaseAgent {
         Return the analysis in structured JSON format.
       `;
 
-      const analysisResult = await anthropicService.analyzeCode(codeAnalysisPrompt);
+      const analysisResult = await anthropicService.analyzeCode(codeAnalysisPrompt, signal);
       
       // Update analysis record
       const analyses = await storage.getAnalysesByProject(project.id);
@@ -112,10 +146,10 @@ export class CodeAnalyzerAgent extends BaseAgent {
         });
       }
 
-      await this.updateStatus('ready');
+      await this.updateStatus('ready', project.id);
       return analysisResult;
     } catch (error) {
-      await this.updateStatus('error');
+      await this.updateStatus(isCancellation(error, signal) ? 'ready' : 'error', project.id);
       throw error;
     }
   }
@@ -131,8 +165,8 @@ export class RiskAssessorAgent extends BaseAgent {
     });
   }
 
-  async execute(project: Project, codeAnalysis?: any): Promise<any> {
-    await this.updateStatus('busy');
+  async execute(project: Project, codeAnalysis?: any, signal?: AbortSignal): Promise<any> {
+    await this.updateStatus('busy', project.id);
     
     try {
       const riskAssessmentPrompt = `
@@ -155,7 +189,7 @@ export class RiskAssessorAgent extends BaseAgent {
         Return results in structured JSON format.
       `;
 
-      const riskResults = await anthropicService.assessRisks(riskAssessmentPrompt);
+      const riskResults = await anthropicService.assessRisks(riskAssessmentPrompt, signal);
       
       // Update analysis record
       const analyses = await storage.getAnalysesByProject(project.id);
@@ -184,10 +218,10 @@ export class RiskAssessorAgent extends BaseAgent {
         }
       }
 
-      await this.updateStatus('ready');
+      await this.updateStatus('ready', project.id);
       return riskResults;
     } catch (error) {
-      await this.updateStatus('error');
+      await this.updateStatus(isCancellation(error, signal) ? 'ready' : 'error', project.id);
       throw error;
     }
   }
@@ -203,14 +237,16 @@ export class TestGeneratorAgent extends BaseAgent {
     });
   }
 
-  async execute(project: Project, codeAnalysis?: any, riskAssessment?: any): Promise<any> {
-    await this.updateStatus('busy');
+  async execute(project: Project, codeAnalysis?: any, riskAssessment?: any, signal?: AbortSignal): Promise<any> {
+    await this.updateStatus('busy', project.id);
     
     try {
+      const sourceContext = await projectWorkspace.buildSourceContext(project.id);
       const testGenerationPrompt = `
         Based on the code analysis and risk assessment:
         Code Analysis: ${JSON.stringify(codeAnalysis)}
         Risk Assessment: ${JSON.stringify(riskAssessment)}
+        ${sourceContext ? `Source files to test:\n${sourceContext}` : ''}
         
         Generate comprehensive test cases including:
         1. Unit tests for core components and functions
@@ -232,7 +268,7 @@ export class TestGeneratorAgent extends BaseAgent {
         Return results in structured JSON format.
       `;
 
-      const testResults = await anthropicService.generateTests(testGenerationPrompt);
+      const testResults = await anthropicService.generateTests(testGenerationPrompt, undefined, signal);
       
       // Store test cases in database for UI consumption
       if (testResults.testCases && Array.isArray(testResults.testCases)) {
@@ -243,15 +279,8 @@ export class TestGeneratorAgent extends BaseAgent {
             description: testCase.description || `${testCase.type} test for ${testCase.name}`,
             priority: testCase.priority,
             type: testCase.type,
-            status: 'passed', // Set demo status
             generatedBy: testCase.framework || 'AI Agent',
-            script: testCase.script || `// Generated ${testCase.type} test for ${testCase.name}`,
-            results: {
-              passed: true,
-              duration: Math.floor(Math.random() * 5000) + 1000,
-              coverage: Math.floor(Math.random() * 20) + 80,
-              assertions: Math.floor(Math.random() * 10) + 5
-            }
+            testScript: testCase.script || null
           });
         }
       }
@@ -269,10 +298,10 @@ export class TestGeneratorAgent extends BaseAgent {
         });
       }
 
-      await this.updateStatus('ready');
+      await this.updateStatus('ready', project.id);
       return testResults;
     } catch (error) {
-      await this.updateStatus('error');
+      await this.updateStatus(isCancellation(error, signal) ? 'ready' : 'error', project.id);
       throw error;
     }
   }
@@ -289,7 +318,7 @@ export class EnvironmentSetupAgent extends BaseAgent {
   }
 
   async execute(project: Project, testResults?: any): Promise<any> {
-    await this.updateStatus('busy');
+    await this.updateStatus('busy', project.id);
     
     try {
       // Simulate environment setup
@@ -322,10 +351,10 @@ export class EnvironmentSetupAgent extends BaseAgent {
         });
       }
 
-      await this.updateStatus('ready');
+      await this.updateStatus('ready', project.id);
       return environmentConfig;
     } catch (error) {
-      await this.updateStatus('error');
+      await this.updateStatus('error', project.id);
       throw error;
     }
   }
@@ -344,11 +373,11 @@ export class TestExecutionAgent extends BaseAgent {
     });
   }
 
-  async execute(project: Project, testCases?: any[]): Promise<any> {
-    await this.updateStatus("busy");
+  async execute(project: Project, testCases?: any[], runContext?: TestRunContext): Promise<any> {
+    await this.updateStatus("busy", project.id);
     
     try {
-      console.log(`Test Execution Agent: Starting test execution for project ${project.name}`);
+      logger.info(`Test Execution Agent: Starting test execution for project ${project.name}`, { projectId: project.id, tests: testCases?.length ?? 0 }, 'AGENTS');
       
       const results = {
         executionResults: [],
@@ -357,7 +386,8 @@ export class TestExecutionAgent extends BaseAgent {
           passed: 0,
           failed: 0,
           skipped: 0,
-          coverage: 0
+          // Line coverage of the code the tests loaded; null when no coverage was collected
+          coverage: null as number | null
         },
         mcpConnections: {
           playwright: await this.connectToMCPServer("playwright"),
@@ -366,9 +396,18 @@ export class TestExecutionAgent extends BaseAgent {
         }
       };
 
+      const coverageMaps: Record<string, any>[] = [];
+      const collectingContext: TestRunContext = {
+        ...runContext,
+        onCoverage: (coverageMap) => {
+          coverageMaps.push(coverageMap);
+          runContext?.onCoverage?.(coverageMap);
+        }
+      };
+
       if (testCases && testCases.length > 0) {
-        for (const testCase of testCases) {
-          const executionResult = await this.executeTestCase(testCase, project);
+        const executionResults = await this.executeTestCases(testCases, project, collectingContext);
+        for (const executionResult of executionResults) {
           results.executionResults.push(executionResult);
           results.summary.total++;
           
@@ -382,19 +421,19 @@ export class TestExecutionAgent extends BaseAgent {
         }
       }
 
-      // Calculate test coverage
-      results.summary.coverage = results.summary.total > 0 
-        ? Math.round((results.summary.passed / results.summary.total) * 100) 
-        : 0;
+      if (coverageMaps.length > 0) {
+        const coverageFiles = coverageService.merge(coverageMaps.map(map => coverageService.parseIstanbul(map)));
+        results.summary.coverage = coverageService.summarize(coverageFiles).lines.pct;
+      }
 
-      console.log(`Test Execution Agent: Completed execution. Results: ${results.summary.passed}/${results.summary.total} passed`);
+      logger.info(`Test Execution Agent: Completed execution. Results: ${results.summary.passed}/${results.summary.total} passed`, { projectId: project.id, ...results.summary }, 'AGENTS');
       
-      await this.updateStatus("ready");
+      await this.updateStatus("ready", project.id);
       return results;
       
     } catch (error) {
-      console.error(`Test Execution Agent error:`, error);
-      await this.updateStatus("error");
+      logger.logError('Test Execution Agent error', error, 'AGENTS');
+      await this.updateStatus(isCancellation(error, runContext?.signal) ? "ready" : "error", project.id);
       throw error;
     }
   }
@@ -446,110 +485,133 @@ export class TestExecutionAgent extends BaseAgent {
     return capabilities[serverType] || [];
   }
 
-  private async executeTestCase(testCase: any, project: Project): Promise<any> {
-    const framework = testCase.generatedBy || testCase.type || 'jest';
-    
-    try {
-      console.log(`Executing test case: ${testCase.name} using ${framework}`);
-      
-      // Determine which MCP server to use based on test type
-      const mcpServer = this.selectMCPServer(testCase.type);
-      
-      const result = {
+  private async executeTestCases(testCases: any[], project: Project, runContext?: TestRunContext): Promise<any[]> {
+    // Each run gets a workspace of its own, which createWorkspace clears first, so the id must never repeat
+    const runId = `run-${project.id}-${randomUUID()}`;
+    const testRunId = runContext?.testRunId;
+    const jestCases = testCases.filter(tc => this.isJestCompatible(this.getFramework(tc)));
+    const jestResults = jestCases.length > 0
+      ? await this.runJestCases(jestCases, project, runId, runContext)
+      : [];
+
+    return testCases.map(testCase => {
+      const framework = this.getFramework(testCase);
+      const jestResult = jestResults.find(r => r.testCaseId === testCase.id);
+
+      if (!jestResult) {
+        projectEvents.publish(project.id, 'test:finished', {
+          testCaseId: testCase.id,
+          name: testCase.name,
+          phase: 'finished',
+          status: 'skipped',
+          duration: 0,
+          testRunId
+        });
+        return {
+          testCaseId: testCase.id,
+          name: testCase.name,
+          type: testCase.type,
+          framework,
+          status: 'skipped',
+          duration: 0,
+          logs: [`Skipped: ${framework} tests cannot be executed by the Jest runner`],
+          screenshots: [],
+          errors: []
+        };
+      }
+
+      logger.debug(`Executed test case: ${testCase.name} using jest (${jestResult.status})`, { projectId: project.id, testCaseId: testCase.id, framework }, 'AGENTS');
+
+      return {
         testCaseId: testCase.id,
         name: testCase.name,
         type: testCase.type,
         framework,
-        mcpServer,
-        status: 'passed', // Simulated result
-        duration: Math.floor(Math.random() * 5000) + 1000, // 1-6 seconds
-        logs: [],
+        status: jestResult.status,
+        duration: jestResult.duration,
+        logs: [
+          ...jestResult.assertions.map(a => `${a.status === 'passed' ? '✓' : '✗'} ${a.fullName} (${a.duration}ms)`),
+          `Executed via jest in workspace ${runId}`
+        ],
         screenshots: [],
-        errors: []
+        errors: jestResult.errors,
+        assertions: jestResult.assertions,
+        stdout: jestResult.stdout,
+        artifacts: jestResult.artifacts,
+        shard: jestResult.shard
       };
+    });
+  }
 
-      // Simulate different test execution scenarios
-      const shouldPass = Math.random() > 0.2; // 80% pass rate
-      
-      if (shouldPass) {
-        result.status = 'passed';
-        result.logs.push(`✓ ${testCase.description}`);
-        
-        if (testCase.type === 'e2e') {
-          result.screenshots.push(`screenshot_${testCase.id}_success.png`);
-        }
-      } else {
-        result.status = 'failed';
-        result.errors.push(`Test failed: ${this.generateRealisticError(testCase.type)}`);
-        result.logs.push(`✗ ${testCase.description}`);
-        
-        if (testCase.type === 'e2e') {
-          result.screenshots.push(`screenshot_${testCase.id}_failure.png`);
-        }
-      }
-
-      // Add framework-specific execution details
-      result.logs.push(`Executed via ${mcpServer} MCP server using ${framework}`);
-      
-      return result;
-      
-    } catch (error) {
-      return {
-        testCaseId: testCase.id,
-        name: testCase.name,
-        status: 'failed',
-        duration: 0,
-        errors: [error.message],
-        logs: [`Failed to execute test: ${error.message}`]
-      };
+  /**
+   * Run Jest-compatible cases in one process, or across a pool of shards balanced
+   * by the ML duration estimates when the run asks for more than one
+   */
+  private async runJestCases(
+    jestCases: any[],
+    project: Project,
+    runId: string,
+    runContext?: TestRunContext
+  ): Promise<(JestTestCaseResult & { shard: number })[]> {
+    const testRunId = runContext?.testRunId;
+    const shardCount = runContext?.shardCount || 1;
+    const publishProgress = (event: { phase: 'started' | 'finished' }) => projectEvents.publish(
+      project.id,
+      event.phase === 'started' ? 'test:started' : 'test:finished',
+      { ...event, testRunId }
+    );
+    // Coverage is measured on the run's checkout or the project's acquired sources, when it has any
+    const workspaceRoot = projectWorkspace.rootFor(project.id);
+    const sourceDir = runContext?.sourceDir ?? (fs.existsSync(workspaceRoot) ? workspaceRoot : undefined);
+
+    if (shardCount <= 1 || jestCases.length <= 1) {
+      const results = await jestRunner.runTestCases(jestCases, {
+        runId,
+        signal: runContext?.signal,
+        onProgress: publishProgress,
+        onCoverage: runContext?.onCoverage,
+        environment: runContext?.environment,
+        sourceDir
+      });
+      return results.map(result => ({ ...result, shard: 0 }));
     }
+
+    // The optimizer orders by failure likelihood, so shards keep failing fast
+    const { orderedTests } = await mlTestingIntelligence.optimizeTestExecutionOrder(project.id, jestCases.map(tc => tc.id));
+    const position = new Map(orderedTests.map((test, i) => [test.testCaseId, i]));
+    const orderedCases = [...jestCases].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+
+    return testWorkerPool.runSharded(orderedCases, {
+      runId,
+      shardCount,
+      durations: new Map(orderedTests.map(test => [test.testCaseId, test.estimatedDuration])),
+      signal: runContext?.signal,
+      onProgress: publishProgress,
+      onCoverage: runContext?.onCoverage,
+      environment: runContext?.environment,
+      sourceDir
+    });
   }
 
-  private selectMCPServer(testType: string): string {
-    const serverMap = {
-      'e2e': 'playwright',
-      'integration': 'playwright', 
-      'ui': 'playwright',
-      'browser': 'selenium',
-      'mobile': 'playwright',
-      'api': 'playwright',
-      'unit': 'jest',
-      'performance': 'puppeteer'
-    };
-    
-    return serverMap[testType] || 'playwright';
+  private getFramework(testCase: any): string {
+    return (testCase.generatedBy || testCase.framework || 'jest').toLowerCase();
   }
 
-  private generateRealisticError(testType: string): string {
-    const errors = {
-      'e2e': [
-        'Element not found: [data-test="login-button"]',
-        'Timeout waiting for page to load',
-        'Navigation failed: ERR_CONNECTION_REFUSED',
-        'Element is not clickable at point (100, 200)'
-      ],
-      'unit': [
-        'Expected "admin" but received "undefined"',
-        'TypeError: Cannot read property "id" of null',
-        'Assertion failed: expected true to be false',
-        'ReferenceError: validateUser is not defined'
-      ],
-      'integration': [
-        'Database connection timeout',
-        'API returned 500 Internal Server Error',
-        'Authentication token expired',
-        'Service unavailable: Redis connection failed'
-      ]
-    };
-    
-    const errorList = errors[testType] || errors['unit'];
-    return errorList[Math.floor(Math.random() * errorList.length)];
+  private isJestCompatible(framework: string): boolean {
+    // Imported Postman collections run on the workspace's Postman runtime under Jest, not Newman
+    if (framework === 'postman-import') return true;
+
+    const otherRunners = [
+      'playwright', 'puppeteer', 'selenium', 'cypress', 'k6', 'jmeter',
+      'owasp-zap', 'lighthouse', 'postman', 'appium', 'axe'
+    ];
+
+    return !otherRunners.some(runner => framework.includes(runner));
   }
 }
 
 export class AgentOrchestrator {
   private agents: Map<string, BaseAgent> = new Map();
-  private timeoutHandles: Map<string, NodeJS.Timeout> = new Map();
 
   constructor() {
     this.registerAgent(new SupervisorAgent());
@@ -568,17 +630,9 @@ export class AgentOrchestrator {
     return this.agents.get(type);
   }
 
-  // Clean up all timeouts to prevent memory leaks
-  cleanup() {
-    this.timeoutHandles.forEach((handle) => {
-      clearTimeout(handle);
-    });
-    this.timeoutHandles.clear();
-  }
-
-  async executeTestWorkflow(project: Project, testCases: any[]): Promise<any> {
+  async executeTestWorkflow(project: Project, testCases: any[], runContext?: TestRunContext): Promise<any> {
     try {
-      console.log(`Starting test execution workflow for project: ${project.name}`);
+      logger.info(`Starting test execution workflow for project: ${project.name}`, { projectId: project.id }, 'AGENTS');
       
       // Get test execution agent
       const testExecutor = this.getAgent("executor") as TestExecutionAgent;
@@ -587,191 +641,50 @@ export class AgentOrchestrator {
       }
 
       // Execute tests using MCP servers
-      const executionResults = await testExecutor.execute(project, testCases);
-      console.log("Test execution completed:", executionResults.summary);
+      const executionResults = await testExecutor.execute(project, testCases, runContext);
+      logger.info('Test execution completed', { projectId: project.id, ...executionResults.summary }, 'AGENTS');
       
       return executionResults;
     } catch (error) {
-      console.error("Test execution workflow error:", error);
+      logger.logError('Test execution workflow error', error, 'AGENTS');
       throw error;
     }
   }
 
-  async executeWorkflow(project: Project): Promise<void> {
-    const workflowId = `workflow-${project.id}-${Date.now()}`;
-    
+  async executeWorkflow(project: Project, signal?: AbortSignal): Promise<void> {
     try {
-      console.log(`🚀 Starting workflow for project: ${project.name}`);
-      
-      // Update project status
+      logger.info(`🚀 Starting workflow for project: ${project.name}`, { projectId: project.id }, 'AGENTS');
       await storage.updateProject(project.id, { analysisStatus: 'analyzing' });
 
-      // Create analysis records for tracking progress
-      const analysisTypes = ['initial_analysis', 'architecture_review', 'risk_assessment', 'test_generation'];
-      const createdAnalyses = [];
-      
-      for (const type of analysisTypes) {
-        const analysis = await storage.createAnalysis({
-          projectId: project.id,
-          type,
-          agentId: null,
-          status: 'pending'
-        });
-        createdAnalyses.push(analysis);
-      }
+      // The supervisor creates the analysis records each agent fills in
+      await this.getAgent('supervisor')!.execute(project);
+      throwIfCancelled(signal);
 
-      // Step 1: Code Analysis (simulate with delays for visible progress)
-      console.log(`📊 Step 1: Starting code analysis...`);
-      if (createdAnalyses[0]) {
-        await storage.updateAnalysis(createdAnalyses[0].id, { status: 'running' });
-        
-        // Simulate analysis work with timeout handle
-        const timeout1 = setTimeout(async () => {
-          const codeAnalysis = {
-            languages: { typescript: 75, javascript: 20, css: 3, html: 2 },
-            frameworks: ["React", "Express", "Drizzle ORM"],
-            complexity: { cyclomatic: 45, cognitive: 38 },
-            linesOfCode: 12450,
-            files: 187,
-            testCoverage: 45
-          };
-          
-          await storage.updateAnalysis(createdAnalyses[0].id, { 
-            status: 'completed',
-            results: codeAnalysis
-          });
-          console.log(`✅ Code analysis completed`);
-          
-          this.timeoutHandles.delete(`${workflowId}-1`);
-        }, 3000);
-        
-        this.timeoutHandles.set(`${workflowId}-1`, timeout1);
-        await new Promise(resolve => setTimeout(resolve, 3000));
-      }
+      logger.info(`📊 Step 1: Starting code analysis...`, { projectId: project.id }, 'AGENTS');
+      const codeAnalysis = await (this.getAgent('analyzer') as CodeAnalyzerAgent).execute(project, signal);
 
-      // Step 2: Architecture Review
-      console.log(`🏗️ Step 2: Starting architecture review...`);
-      if (createdAnalyses[1]) {
-        await storage.updateAnalysis(createdAnalyses[1].id, { status: 'running' });
-        
-        const timeout2 = setTimeout(async () => {
-          const architectureReview = {
-            patterns: ["Component Architecture", "REST API", "Database Layer"],
-            structure: ["Frontend SPA", "Backend API", "PostgreSQL Database"],
-            strengths: ["Modern stack", "Type safety", "Modular design"],
-            weaknesses: ["Limited error handling", "Missing tests"]
-          };
-          
-          await storage.updateAnalysis(createdAnalyses[1].id, { 
-            status: 'completed',
-            results: architectureReview
-          });
-          console.log(`✅ Architecture review completed`);
-          
-          this.timeoutHandles.delete(`${workflowId}-2`);
-        }, 2500);
-        
-        this.timeoutHandles.set(`${workflowId}-2`, timeout2);
-        await new Promise(resolve => setTimeout(resolve, 2500));
-      }
+      logger.info(`⚠️ Step 2: Starting risk assessment...`, { projectId: project.id }, 'AGENTS');
+      const riskAssessment = await (this.getAgent('risk') as RiskAssessorAgent).execute(project, codeAnalysis, signal);
 
-      // Step 3: Risk Assessment
-      console.log(`⚠️ Step 3: Starting risk assessment...`);
-      if (createdAnalyses[2]) {
-        await storage.updateAnalysis(createdAnalyses[2].id, { status: 'running' });
-        
-        const timeout3 = setTimeout(async () => {
-          const riskAssessment = {
-            securityRisks: [
-              { severity: 'medium', category: 'Authentication', description: 'Missing rate limiting' },
-              { severity: 'low', category: 'Dependencies', description: 'Some outdated packages' }
-            ],
-            performanceRisks: [
-              { severity: 'medium', area: 'Database', description: 'N+1 query potential' }
-            ],
-            overallRisk: 'medium'
-          };
-          
-          await storage.updateAnalysis(createdAnalyses[2].id, { 
-            status: 'completed',
-            results: riskAssessment
-          });
-          console.log(`✅ Risk assessment completed`);
-          
-          this.timeoutHandles.delete(`${workflowId}-3`);
-        }, 3500);
-        
-        this.timeoutHandles.set(`${workflowId}-3`, timeout3);
-        await new Promise(resolve => setTimeout(resolve, 3500));
-      }
+      logger.info(`🧪 Step 3: Starting test generation...`, { projectId: project.id }, 'AGENTS');
+      const testResults = await (this.getAgent('test') as TestGeneratorAgent).execute(project, codeAnalysis, riskAssessment, signal);
 
-      // Step 4: Test Generation
-      console.log(`🧪 Step 4: Starting test generation...`);
-      if (createdAnalyses[3]) {
-        await storage.updateAnalysis(createdAnalyses[3].id, { status: 'running' });
-        
-        const timeout4 = setTimeout(async () => {
-          const testGeneration = {
-            testCases: [
-              { name: "User Authentication Test", type: "integration", priority: "high" },
-              { name: "API Endpoint Tests", type: "unit", priority: "high" },
-              { name: "UI Component Tests", type: "unit", priority: "medium" },
-              { name: "E2E User Flow Test", type: "e2e", priority: "high" }
-            ],
-            testStrategy: {
-              coverage: 75,
-              frameworks: ["Jest", "Playwright", "React Testing Library"],
-              approach: "TDD"
-            }
-          };
-          
-          await storage.updateAnalysis(createdAnalyses[3].id, { 
-            status: 'completed',
-            results: testGeneration
-          });
-          console.log(`✅ Test generation completed`);
-          
-          this.timeoutHandles.delete(`${workflowId}-4`);
-        }, 4000);
-        
-        this.timeoutHandles.set(`${workflowId}-4`, timeout4);
-        await new Promise(resolve => setTimeout(resolve, 4000));
-      }
+      logger.info(`🔧 Step 4: Starting environment setup...`, { projectId: project.id }, 'AGENTS');
+      throwIfCancelled(signal);
+      await this.getAgent('environment')!.execute(project, testResults);
 
-      // Mark project as completed
       await storage.updateProject(project.id, { analysisStatus: 'completed' });
-      console.log(`🎉 Workflow completed for project: ${project.name}`);
-
+      logger.info(`🎉 Workflow completed for project: ${project.name}`, { projectId: project.id, status: 'completed' }, 'AGENTS');
     } catch (error) {
-      console.error(`❌ Workflow failed for project: ${project.name}`, error);
+      if (isCancellation(error, signal)) {
+        logger.warn(`⏹️ Workflow cancelled for project: ${project.name}`, { projectId: project.id }, 'AGENTS');
+        throw error;
+      }
+      logger.error(`❌ Workflow failed for project: ${project.name}`, { projectId: project.id, error: error instanceof Error ? error.message : String(error) }, 'AGENTS');
       await storage.updateProject(project.id, { analysisStatus: 'failed' });
-      
-      // Clean up any remaining timeouts for this workflow
-      this.timeoutHandles.forEach((handle, key) => {
-        if (key.startsWith(workflowId)) {
-          clearTimeout(handle);
-          this.timeoutHandles.delete(key);
-        }
-      });
-      
       throw error;
     }
   }
 }
 
 export const agentOrchestrator = new AgentOrchestrator();
-
-// Cleanup on process exit to prevent memory leaks
-process.on('exit', () => {
-  agentOrchestrator.cleanup();
-});
-
-process.on('SIGINT', () => {
-  agentOrchestrator.cleanup();
-  process.exit();
-});
-
-process.on('SIGTERM', () => {
-  agentOrchestrator.cleanup();
-  process.exit();
-});
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { storage } from "../storage";
 import { anthropicService } from "./anthropic";
+import { coverageService, type BranchCoverage, type FileCoverageData } from "./coverage";
 import type { Project, TestCase } from "@shared/schema";
 
 interface CodeReviewSuggestion {
@@ -22,7 +23,7 @@ interface CoverageGap {
   uncoveredFunctions: string[];
   uncoveredBranches: {
     line: number;
-    type: 'if' | 'switch' | 'ternary' | 'logical';
+    type: 'if' | 'switch' | 'ternary' | 'logical' | 'other';
     missed: string[];
   }[];
   suggestedTests: {
@@ -116,30 +117,37 @@ export class AICodeReviewService {
   }
 
   /**
-   * Detect coverage gaps and suggest specific tests
+   * Detect coverage gaps and suggest specific tests.
+   * Uses the given parsed coverage, or the project's latest stored coverage report.
    */
   async detectCoverageGaps(
     projectId: number,
-    coverageData?: any
+    coverageData?: FileCoverageData[]
   ): Promise<CoverageGap[]> {
     const gaps: CoverageGap[] = [];
     const project = await storage.getProject(projectId);
     
     if (!project) return gaps;
     
-    // Simulate coverage analysis (in production, integrate with actual coverage tools)
-    const mockFiles = [
-      'src/auth/login.service.ts',
-      'src/api/user.controller.ts',
-      'src/utils/validation.ts'
-    ];
+    const files = coverageData ?? await this.loadLatestCoverage(projectId);
     
-    for (const file of mockFiles) {
+    for (const file of files) {
+      const uncoveredLines = Object.entries(file.lineHits)
+        .filter(([, hits]) => hits === 0)
+        .map(([line]) => Number(line))
+        .sort((a, b) => a - b);
+      const uncoveredFunctions = file.functions.filter(fn => fn.hits === 0).map(fn => fn.name);
+      const uncoveredBranches = this.groupUncoveredBranches(file.branches);
+      
+      if (uncoveredLines.length === 0 && uncoveredFunctions.length === 0 && uncoveredBranches.length === 0) {
+        continue;
+      }
+      
       const gap: CoverageGap = {
-        file,
-        uncoveredLines: this.generateUncoveredLines(),
-        uncoveredFunctions: this.identifyUncoveredFunctions(file),
-        uncoveredBranches: this.identifyUncoveredBranches(file),
+        file: file.filePath,
+        uncoveredLines,
+        uncoveredFunctions,
+        uncoveredBranches,
         suggestedTests: []
       };
       
@@ -148,7 +156,8 @@ export class AICodeReviewService {
       gaps.push(gap);
     }
     
-    return gaps;
+    // Largest gaps first
+    return gaps.sort((a, b) => b.uncoveredLines.length - a.uncoveredLines.length);
   }
 
   /**
@@ -251,8 +260,9 @@ export class AICodeReviewService {
     ]);
     
     // Calculate metrics
-    const currentCoverage = this.calculateCurrentCoverage(coverageGaps);
-    const potentialCoverage = this.calculatePotentialCoverage(coverageGaps);
+    const coverage = await coverageService.getLatestTotals(projectId);
+    const currentCoverage = Math.round(coverage?.lines.pct ?? 0);
+    const potentialCoverage = this.calculatePotentialCoverage(currentCoverage, coverageGaps);
     const testQualityScore = this.calculateTestQualityScore(antiPatterns);
     const maintainabilityIndex = this.calculateMaintainabilityIndex(
       suggestions,
@@ -417,29 +427,51 @@ export class AICodeReviewService {
     return suggestions;
   }
 
-  private generateUncoveredLines(): number[] {
-    // Simulate uncovered lines
-    return Array.from({ length: 5 }, () => Math.floor(Math.random() * 100) + 1);
+  private async loadLatestCoverage(projectId: number): Promise<FileCoverageData[]> {
+    const report = await storage.getLatestCoverageReport(projectId);
+    if (!report) return [];
+    
+    const files = await storage.getCoverageFiles(report.id);
+    return files.map(file => ({
+      filePath: file.filePath,
+      lineHits: (file.lineHits as Record<number, number> | null) || {},
+      branches: (file.branches as BranchCoverage[] | null) || [],
+      functions: (file.functions as FileCoverageData['functions'] | null) || []
+    }));
   }
 
-  private identifyUncoveredFunctions(file: string): string[] {
-    // Simulate uncovered functions
-    return ['validateInput', 'processData', 'handleError'];
+  private groupUncoveredBranches(branches: BranchCoverage[]): CoverageGap['uncoveredBranches'] {
+    const byBlock = new Map<string, BranchCoverage[]>();
+    for (const branch of branches.filter(b => b.hits === 0)) {
+      const key = `${branch.line}:${branch.block}`;
+      byBlock.set(key, [...(byBlock.get(key) || []), branch]);
+    }
+    
+    return Array.from(byBlock.values()).map(missed => {
+      const type = this.branchType(missed[0].type);
+      return {
+        line: missed[0].line,
+        type,
+        missed: missed.map(branch => type === 'if'
+          ? (branch.branch === 0 ? 'true branch' : 'false branch')
+          : `branch ${branch.branch + 1}`)
+      };
+    });
   }
 
-  private identifyUncoveredBranches(file: string) {
-    return [
-      {
-        line: 45,
-        type: 'if' as const,
-        missed: ['false branch']
-      },
-      {
-        line: 78,
-        type: 'switch' as const,
-        missed: ['case "error"', 'default']
-      }
-    ];
+  private branchType(istanbulType?: string): CoverageGap['uncoveredBranches'][number]['type'] {
+    switch (istanbulType) {
+      case 'if':
+        return 'if';
+      case 'switch':
+        return 'switch';
+      case 'cond-expr':
+        return 'ternary';
+      case 'binary-expr':
+        return 'logical';
+      default:
+        return 'other';
+    }
   }
 
   private async generateTestsForGap(gap: CoverageGap) {
@@ -514,16 +546,8 @@ export class AICodeReviewService {
     return examples[patternName];
   }
 
-  private calculateCurrentCoverage(gaps: CoverageGap[]): number {
-    // Simulate current coverage calculation
-    const totalLines = 1000;
-    const uncoveredLines = gaps.reduce((sum, gap) => sum + gap.uncoveredLines.length, 0);
-    return Math.round(((totalLines - uncoveredLines) / totalLines) * 100);
-  }
-
-  private calculatePotentialCoverage(gaps: CoverageGap[]): number {
+  private calculatePotentialCoverage(currentCoverage: number, gaps: CoverageGap[]): number {
     // Calculate potential coverage if all suggestions are implemented
-    const currentCoverage = this.calculateCurrentCoverage(gaps);
     const improvementPotential = gaps.reduce((sum, gap) => 
       sum + gap.suggestedTests.length * 2, 0
     );
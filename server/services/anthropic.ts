@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { isCancellation } from '../utils/cancellation';
 
 /*
 The newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-5-sonnet-20241022" nor "claude-3-sonnet-20240229". 
@@ -113,7 +114,7 @@ interface TestGenerationResult {
 }
 
 class AnthropicService {
-  async analyzeCode(prompt: string): Promise<CodeAnalysisResult> {
+  async analyzeCode(prompt: string, signal?: AbortSignal): Promise<CodeAnalysisResult> {
     try {
       const systemPrompt = `You are an expert software architect and code analyst. Analyze the provided code repository information and return a comprehensive analysis in JSON format.
 
@@ -149,7 +150,7 @@ Return the response as valid JSON matching this structure:
         max_tokens: 4000,
         system: systemPrompt,
         messages: [{ role: 'user', content: prompt }],
-      });
+      }, { signal });
 
       const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
       
@@ -161,12 +162,14 @@ Return the response as valid JSON matching this structure:
 
       return JSON.parse(jsonMatch[0]);
     } catch (error) {
+      // Let cancellations propagate as-is so callers can tell them apart from failures
+      if (isCancellation(error, signal)) throw error;
       console.error('Code analysis failed:', error);
       throw new Error(`Failed to analyze code: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async assessRisks(prompt: string): Promise<RiskAssessmentResult> {
+  async assessRisks(prompt: string, signal?: AbortSignal): Promise<RiskAssessmentResult> {
     try {
       const systemPrompt = `You are a cybersecurity expert and software quality analyst. Based on the code analysis provided, perform a comprehensive risk assessment focusing on security vulnerabilities, performance issues, and code quality problems.
 
@@ -192,7 +195,7 @@ Return the response as valid JSON matching this structure:
         max_tokens: 4000,
         system: systemPrompt,
         messages: [{ role: 'user', content: prompt }],
-      });
+      }, { signal });
 
       const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
       
@@ -204,12 +207,13 @@ Return the response as valid JSON matching this structure:
 
       return JSON.parse(jsonMatch[0]);
     } catch (error) {
+      if (isCancellation(error, signal)) throw error;
       console.error('Risk assessment failed:', error);
       throw new Error(`Failed to assess risks: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async generateTests(prompt: string, selectedFramework: string = 'comprehensive'): Promise<TestGenerationResult> {
+  async generateTests(prompt: string, selectedFramework: string = 'comprehensive', signal?: AbortSignal): Promise<TestGenerationResult> {
     try {
       const frameworkSpecificPrompt = this.getFrameworkSpecificPrompt(selectedFramework);
       const systemPrompt = `You are a senior QA architect and comprehensive testing strategist. Based on the code analysis and risk assessment provided, generate a multi-dimensional testing strategy covering:
@@ -267,7 +271,7 @@ Return the response as valid JSON matching this structure:
         max_tokens: 4000,
         system: systemPrompt,
         messages: [{ role: 'user', content: prompt }],
-      });
+      }, { signal });
 
       const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
       
@@ -279,12 +283,13 @@ Return the response as valid JSON matching this structure:
 
       return JSON.parse(jsonMatch[0]);
     } catch (error) {
+      if (isCancellation(error, signal)) throw error;
       console.error('Test generation failed:', error);
       throw new Error(`Failed to generate tests: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async generateArchitectureReview(codeAnalysis: CodeAnalysisResult): Promise<{
+  async generateArchitectureReview(codeAnalysis: CodeAnalysisResult, signal?: AbortSignal): Promise<{
     strengths: string[];
     weaknesses: string[];
     recommendations: string[];
@@ -314,7 +319,7 @@ Return the response as valid JSON matching this structure:
         max_tokens: 2000,
         system: systemPrompt,
         messages: [{ role: 'user', content: prompt }],
-      });
+      }, { signal });
 
       const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
       
@@ -326,6 +331,7 @@ Return the response as valid JSON matching this structure:
 
       return JSON.parse(jsonMatch[0]);
     } catch (error) {
+      if (isCancellation(error, signal)) throw error;
       console.error('Architecture review failed:', error);
       throw new Error(`Failed to generate architecture review: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -347,7 +353,7 @@ Return the response as valid JSON matching this structure:
     return frameworkPrompts[framework] || frameworkPrompts.comprehensive;
   }
 
-  async summarizeProject(project: any, analyses: any[]): Promise<string> {
+  async summarizeProject(project: any, analyses: any[], signal?: AbortSignal): Promise<string> {
     try {
       const prompt = `Provide a comprehensive summary of this software project analysis:
       
@@ -361,10 +367,11 @@ Return the response as valid JSON matching this structure:
         max_tokens: 1000,
         system: "You are a technical consultant providing executive summaries of software project analyses. Focus on business impact and actionable insights.",
         messages: [{ role: 'user', content: prompt }],
-      });
+      }, { signal });
 
       return response.content[0].type === 'text' ? response.content[0].text : '';
     } catch (error) {
+      if (isCancellation(error, signal)) throw error;
       console.error('Project summary failed:', error);
       throw new Error(`Failed to generate project summary: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
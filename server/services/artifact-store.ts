@@ -0,0 +1,246 @@
+/**
+ * Artifact Store Service
+ * Content-addressed storage for screenshots, traces, logs and videos produced by test runs.
+ * Metadata lives in the artifacts table; file contents go to a pluggable backend keyed by SHA-256.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger } from '../logger';
+import type { Artifact } from '@shared/schema';
+
+export type ArtifactKind = 'screenshot' | 'trace' | 'log' | 'video' | 'other';
+
+/**
+ * Where artifact contents are kept. Keys are SHA-256 hex digests, so writing the same key twice is a no-op.
+ */
+export interface ArtifactBackend {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export interface SaveArtifactInput {
+  projectId: number | null;
+  testRunId?: number | null;
+  testRunResultId?: number | null;
+  testCaseId?: number | null;
+  fileName: string;
+  contentType?: string;
+  kind?: ArtifactKind;
+  data: Buffer;
+}
+
+export class ArtifactTooLargeError extends Error {
+  constructor(public size: number, public limit: number) {
+    super(`Artifact is ${size} bytes, the limit is ${limit} bytes`);
+    this.name = 'ArtifactTooLargeError';
+  }
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.webm': 'video/webm',
+  '.mp4': 'video/mp4',
+  '.zip': 'application/zip',
+  '.json': 'application/json',
+  '.log': 'text/plain',
+  '.txt': 'text/plain',
+  '.html': 'text/html'
+};
+
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Stores blobs on local disk as <root>/<first two hex chars>/<sha256>
+ */
+export class LocalDiskArtifactBackend implements ArtifactBackend {
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    if (fs.existsSync(filePath)) return;
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash never leaves a truncated blob under its final name; the random
+    // suffix keeps concurrent writers of the same blob, in this process or another, apart
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    if (!/^[a-f0-9]{64}$/.test(key)) {
+      throw new Error(`Invalid artifact key: ${key}`);
+    }
+    return path.resolve(this.rootDir, key.slice(0, 2), key);
+  }
+}
+
+export class ArtifactStore {
+  private backend: ArtifactBackend = new LocalDiskArtifactBackend(ENV.ARTIFACT_DIR);
+  private retentionTimer: NodeJS.Timeout | null = null;
+  // Tail of the pending saves and removals of each blob
+  private blobQueues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Swap the storage backend, e.g. for an object store
+   */
+  setBackend(backend: ArtifactBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * Store a file and record it against its run, result and test case
+   */
+  async save(input: SaveArtifactInput): Promise<Artifact> {
+    if (input.data.length > ENV.ARTIFACT_MAX_FILE_SIZE) {
+      throw new ArtifactTooLargeError(input.data.length, ENV.ARTIFACT_MAX_FILE_SIZE);
+    }
+
+    const sha256 = createHash('sha256').update(input.data).digest('hex');
+    const fileName = path.basename(input.fileName) || 'artifact';
+    const contentType = input.contentType || this.inferContentType(fileName);
+
+    return this.withBlob(sha256, async () => {
+      await this.backend.put(sha256, input.data);
+      return storage.createArtifact({
+        projectId: input.projectId,
+        testRunId: input.testRunId ?? null,
+        testRunResultId: input.testRunResultId ?? null,
+        testCaseId: input.testCaseId ?? null,
+        kind: input.kind || this.inferKind(fileName, contentType),
+        fileName,
+        contentType,
+        size: input.data.length,
+        sha256
+      });
+    });
+  }
+
+  /**
+   * Read the contents of a stored artifact
+   */
+  async read(artifact: Artifact): Promise<Buffer | undefined> {
+    return this.backend.get(artifact.sha256);
+  }
+
+  /**
+   * Delete an artifact record, and its blob once no other record shares it
+   */
+  async remove(artifact: Artifact) {
+    await this.withBlob(artifact.sha256, async () => {
+      await storage.deleteArtifact(artifact.id);
+      if (await storage.countArtifactsBySha256(artifact.sha256) === 0) {
+        await this.backend.delete(artifact.sha256);
+      }
+    });
+  }
+
+  /**
+   * Apply the retention limits: drop artifacts older than ARTIFACT_RETENTION_DAYS, then
+   * the oldest artifacts of any project whose total exceeds ARTIFACT_MAX_PROJECT_BYTES
+   */
+  async enforceRetention(): Promise<number> {
+    let removed = 0;
+
+    const cutoff = new Date(Date.now() - ENV.ARTIFACT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    for (const artifact of await storage.getArtifactsCreatedBefore(cutoff)) {
+      await this.remove(artifact);
+      removed++;
+    }
+
+    const projects = await storage.getAllProjects(true);
+    for (const project of projects) {
+      // Newest first, so everything past the budget is the oldest material
+      const projectArtifacts = await storage.getArtifactsByProject(project.id);
+      let totalBytes = 0;
+      for (const artifact of projectArtifacts) {
+        totalBytes += artifact.size;
+        if (totalBytes > ENV.ARTIFACT_MAX_PROJECT_BYTES) {
+          await this.remove(artifact);
+          removed++;
+        }
+      }
+    }
+
+    if (removed > 0) {
+      logger.info(`Removed ${removed} artifacts past retention limits`, { removed }, 'ARTIFACT_STORE');
+    }
+    return removed;
+  }
+
+  /**
+   * Run the retention sweep now and then hourly
+   */
+  startRetentionSweep() {
+    if (this.retentionTimer) return;
+
+    const sweep = () => this.enforceRetention().catch(error => {
+      logger.logError('Artifact retention sweep failed', error, 'ARTIFACT_STORE');
+    });
+    sweep();
+    this.retentionTimer = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+    this.retentionTimer.unref();
+  }
+
+  stopRetentionSweep() {
+    if (this.retentionTimer) clearInterval(this.retentionTimer);
+    this.retentionTimer = null;
+  }
+
+  /**
+   * Run saves and removals of one blob one at a time, so a removal that finds no other record can't
+   * delete a blob a concurrent save has just recorded
+   */
+  private withBlob<T>(sha256: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.blobQueues.get(sha256) || Promise.resolve();
+    const run = previous.then(task, task);
+    const tail = run.catch(() => undefined);
+    this.blobQueues.set(sha256, tail);
+    tail.then(() => {
+      if (this.blobQueues.get(sha256) === tail) this.blobQueues.delete(sha256);
+    });
+    return run;
+  }
+
+  inferContentType(fileName: string): string {
+    return CONTENT_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+  }
+
+  private inferKind(fileName: string, contentType: string): ArtifactKind {
+    const lowerName = fileName.toLowerCase();
+    if (contentType.startsWith('image/')) return 'screenshot';
+    if (contentType.startsWith('video/')) return 'video';
+    if (lowerName.includes('trace') && (lowerName.endsWith('.zip') || lowerName.endsWith('.json'))) return 'trace';
+    if (contentType === 'text/plain') return 'log';
+    return 'other';
+  }
+}
+
+export const artifactStore = new ArtifactStore();
@@ -0,0 +1,171 @@
+/**
+ * Background Jobs
+ * Registers the job handlers for analysis workflows and test runs
+ */
+
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger, withLogCorrelation } from '../logger';
+import { jobQueue } from './job-queue';
+import { agentOrchestrator } from './agents';
+import { testRunExecutor } from './test-run-executor';
+import { projectEvents } from './project-events';
+import type { Job, Project, TestRun } from '@shared/schema';
+
+export type AnalysisWorkflow = 'production' | 'standard';
+
+/**
+ * Run an analysis workflow, falling back to simpler engines if the LangGraph modules fail to load
+ */
+async function runAnalysisWorkflow(project: Project, workflow: AnalysisWorkflow, signal: AbortSignal) {
+  if (workflow === 'production') {
+    try {
+      const { productionLangGraphWorkflow } = await import('./langraph-production');
+      return await productionLangGraphWorkflow.execute(project, signal);
+    } catch (importError: any) {
+      if (!isModuleLoadError(importError)) throw importError;
+      logger.logError('Failed to load Production LangGraph workflow, falling back', importError, 'BACKGROUND_JOBS');
+    }
+  }
+
+  try {
+    const { langGraphWorkflow } = await import('./langraph-workflow');
+    return await langGraphWorkflow.executeWorkflow(project, signal);
+  } catch (importError: any) {
+    if (!isModuleLoadError(importError)) throw importError;
+    logger.logError('Failed to load LangGraph workflow, using agent orchestrator', importError, 'BACKGROUND_JOBS');
+  }
+
+  return agentOrchestrator.executeWorkflow(project, signal);
+}
+
+function isModuleLoadError(error: any): boolean {
+  return error?.code === 'ERR_MODULE_NOT_FOUND' || error?.code === 'MODULE_NOT_FOUND' || error instanceof SyntaxError;
+}
+
+async function handleAnalysisJob(job: Job, signal: AbortSignal) {
+  const project = job.projectId ? await storage.getProject(job.projectId) : undefined;
+  if (!project) {
+    throw new Error(`Project ${job.projectId} not found`);
+  }
+
+  const workflow: AnalysisWorkflow = (job.payload as any)?.workflow || 'production';
+  await withLogCorrelation({ projectId: project.id }, () => runAnalysisWorkflow(project, workflow, signal));
+  return { workflow };
+}
+
+async function handleTestRunJob(job: Job, signal: AbortSignal) {
+  const testRunId = (job.payload as any)?.testRunId;
+  return testRunExecutor.execute(testRunId, signal);
+}
+
+/**
+ * Record a cancelled analysis on the project and on any analyses it left unfinished
+ */
+async function markAnalysisCancelled(job: Job) {
+  if (!job.projectId) return;
+
+  await storage.updateProject(job.projectId, { analysisStatus: 'cancelled' });
+
+  const analyses = await storage.getAnalysesByProject(job.projectId);
+  for (const analysis of analyses) {
+    if (analysis.status === 'pending' || analysis.status === 'running') {
+      await storage.updateAnalysis(analysis.id, { status: 'cancelled', completedAt: new Date() });
+    }
+  }
+
+  projectEvents.publish(job.projectId, 'workflow:cancelled', { jobId: job.id });
+}
+
+jobQueue.register('analysis', handleAnalysisJob, {
+  concurrency: ENV.JOB_ANALYSIS_CONCURRENCY,
+  maxAttempts: 3,
+  backoffMs: 10000,
+  onFailure: async (job) => {
+    if (job.projectId) {
+      await storage.updateProject(job.projectId, { analysisStatus: 'failed' });
+    }
+  },
+  onCancel: markAnalysisCancelled
+});
+
+jobQueue.register('test_run', handleTestRunJob, {
+  concurrency: ENV.JOB_TEST_RUN_CONCURRENCY,
+  maxAttempts: 2,
+  backoffMs: 5000,
+  onFailure: async (job, error) => {
+    const testRunId = (job.payload as any)?.testRunId;
+    if (testRunId) {
+      await testRunExecutor.markFailed(testRunId, error);
+    }
+  },
+  onCancel: async (job) => {
+    const testRunId = (job.payload as any)?.testRunId;
+    if (testRunId) {
+      await testRunExecutor.markCancelled(testRunId);
+    }
+  }
+});
+
+/**
+ * Queue an analysis workflow for a project
+ */
+export async function enqueueAnalysis(project: Project, workflow: AnalysisWorkflow = 'production'): Promise<Job> {
+  await storage.updateProject(project.id, { analysisStatus: 'analyzing' });
+  return jobQueue.enqueue('analysis', project.id, { workflow });
+}
+
+/**
+ * Queue execution of a persisted test run
+ */
+export async function enqueueTestRun(projectId: number, testRunId: number): Promise<Job> {
+  return jobQueue.enqueue('test_run', projectId, { testRunId });
+}
+
+/**
+ * Cancel a test run, whether its job is still queued or already executing.
+ * Returns false if the run has already finished.
+ */
+export async function cancelTestRun(testRun: TestRun): Promise<boolean> {
+  if (testRun.status !== 'queued' && testRun.status !== 'running') return false;
+
+  const jobs = testRun.projectId ? await storage.getJobsByProject(testRun.projectId) : [];
+  const job = jobs.find(job =>
+    job.type === 'test_run' &&
+    (job.payload as any)?.testRunId === testRun.id &&
+    (job.status === 'queued' || job.status === 'running')
+  );
+
+  // onCancel marks the run and its test cases once the job has stopped
+  if (job && await jobQueue.cancel(job.id)) return true;
+
+  // No live job, e.g. it was lost before the queue existed; just record the cancellation
+  await testRunExecutor.markCancelled(testRun.id);
+  return true;
+}
+
+/**
+ * Cancel a queued or running analysis job. Returns false if it has already finished.
+ */
+export async function cancelAnalysis(job: Job): Promise<boolean> {
+  return Boolean(await jobQueue.cancel(job.id));
+}
+
+/**
+ * Start the queue and requeue analyses left in 'analyzing' without a live job,
+ * e.g. projects created before the queue existed
+ */
+export async function startBackgroundJobs() {
+  await jobQueue.start();
+
+  const activeJobs = await storage.getJobsByStatus(['queued', 'running']);
+  const projectsWithJobs = new Set(activeJobs.filter(job => job.type === 'analysis').map(job => job.projectId));
+  const projects = await storage.getAllProjects(true);
+
+  for (const project of projects) {
+    if (project.analysisStatus === 'analyzing' && !projectsWithJobs.has(project.id)) {
+      logger.warn(`Requeueing orphaned analysis for project ${project.id}`, { projectId: project.id }, 'BACKGROUND_JOBS');
+      await jobQueue.enqueue('analysis', project.id, { workflow: 'production' });
+    }
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Bitbucket Integration Service
+ * Handles code acquisition from Bitbucket Cloud repositories
+ */
+
+import { ENV } from '../config';
+import { isCodeFile, MAX_CODE_FILE_BYTES } from '../utils/codeFiles';
+
+export interface BitbucketConfig {
+  workspace: string;
+  repo: string;
+  branch?: string;
+  path?: string;
+  // With a username the token is sent as an app password, otherwise as an access token
+  username?: string;
+  accessToken?: string;
+}
+
+interface BitbucketFile {
+  path: string;
+  name: string;
+  type: 'file';
+  content?: string;
+  sha: string;
+  size: number;
+}
+
+interface BitbucketSourceEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+  commit?: { hash: string };
+}
+
+interface BitbucketRepository {
+  uuid: string;
+  name: string;
+  full_name: string;
+  description?: string;
+  is_private: boolean;
+  language?: string;
+  mainbranch?: { name: string };
+  created_on: string;
+  updated_on: string;
+  links?: any;
+}
+
+export class BitbucketIntegrationService {
+  /**
+   * Acquire project files from Bitbucket repository
+   */
+  async acquireProject(config: BitbucketConfig): Promise<{
+    repository: BitbucketRepository;
+    files: BitbucketFile[];
+    metadata: any;
+    commitSha?: string;
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      console.log(`🔄 Acquiring project from Bitbucket: ${config.workspace}/${config.repo}`);
+
+      // Get repository metadata
+      const repository = await this.getRepository(config);
+      console.log(`📦 Found repository: ${repository.full_name} (${repository.language || 'Unknown language'})`);
+
+      // Get repository content
+      const branch = config.branch || repository.mainbranch?.name || 'main';
+      const path = config.path || '';
+
+      // Pin the branch head first, so every file comes from the same commit
+      const commitSha = await this.getCommitSha(config, branch);
+      console.log(`🌿 Fetching content from branch: ${branch} (${commitSha.slice(0, 12)})`);
+      const files = await this.getRepositoryContent(config, path, commitSha);
+
+      // Filter and download code files
+      const codeFiles = await this.downloadCodeFiles(config, files, commitSha);
+
+      console.log(`✅ Successfully acquired ${codeFiles.length} code files from Bitbucket`);
+
+      return {
+        repository,
+        files: codeFiles,
+        metadata: {
+          branch,
+          commitSha,
+          path,
+          totalFiles: codeFiles.length,
+          languages: this.getRepositoryLanguages(repository),
+          readme: await this.getReadme(config, files, commitSha)
+        },
+        commitSha,
+        success: true
+      };
+
+    } catch (error) {
+      console.error('❌ Bitbucket acquisition failed:', error);
+      return {
+        repository: {} as BitbucketRepository,
+        files: [],
+        metadata: null,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Resolve a branch, tag or SHA to the commit it points at
+   */
+  async getCommitSha(config: BitbucketConfig, ref: string): Promise<string> {
+    const response = await this.makeBitbucketRequest(
+      config,
+      `${this.repositoryEndpoint(config)}/commit/${encodeURIComponent(ref)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to resolve ${ref}: ${response.status} ${response.statusText}`);
+    }
+
+    const commit = await response.json();
+    return commit.hash;
+  }
+
+  /**
+   * Get repository information
+   */
+  private async getRepository(config: BitbucketConfig): Promise<BitbucketRepository> {
+    const response = await this.makeBitbucketRequest(config, this.repositoryEndpoint(config));
+
+    if (!response.ok) {
+      throw new Error(`Failed to get repository: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get repository content (files and directories) at a commit
+   */
+  private async getRepositoryContent(
+    config: BitbucketConfig,
+    path: string,
+    commit: string
+  ): Promise<BitbucketFile[]> {
+    const allFiles: BitbucketFile[] = [];
+    const directory = path.replace(/^\/+|\/+$/g, '');
+
+    // Directory listings are paginated; "next" is an absolute URL to the following page
+    let next: string | null = `${this.repositoryEndpoint(config)}/src/${commit}/${this.encodePath(directory)}${directory ? '/' : ''}?pagelen=100`;
+    while (next) {
+      const response = await this.makeBitbucketRequest(config, next);
+
+      if (!response.ok) {
+        throw new Error(`Failed to get repository content: ${response.status} ${response.statusText}`);
+      }
+
+      const page = await response.json();
+      for (const item of (page.values || []) as BitbucketSourceEntry[]) {
+        if (item.type === 'commit_file') {
+          allFiles.push({
+            path: item.path,
+            name: item.path.split('/').pop() || item.path,
+            type: 'file',
+            sha: item.commit?.hash || commit,
+            size: item.size ?? 0
+          });
+        } else if (item.type === 'commit_directory') {
+          // Recursively get directory contents
+          allFiles.push(...await this.getRepositoryContent(config, item.path, commit));
+        }
+      }
+
+      next = page.next || null;
+    }
+
+    return allFiles;
+  }
+
+  /**
+   * Download code files
+   */
+  private async downloadCodeFiles(
+    config: BitbucketConfig,
+    files: BitbucketFile[],
+    commit: string
+  ): Promise<BitbucketFile[]> {
+    const codeFiles = files.filter(file =>
+      isCodeFile(file.name) &&
+      file.size < MAX_CODE_FILE_BYTES
+    );
+
+    const downloadedFiles: BitbucketFile[] = [];
+
+    // Limit concurrent downloads
+    const batchSize = 10;
+    for (let i = 0; i < codeFiles.length; i += batchSize) {
+      const batch = codeFiles.slice(i, i + batchSize);
+
+      const downloads = batch.map(async (file) => {
+        try {
+          return { ...file, content: await this.downloadFile(config, file.path, commit) };
+        } catch (error) {
+          console.warn(`⚠️ Failed to download file ${file.path}:`, error);
+          return file;
+        }
+      });
+
+      const results = await Promise.all(downloads);
+      downloadedFiles.push(...results);
+    }
+
+    return downloadedFiles;
+  }
+
+  /**
+   * Download a single file; Bitbucket serves file contents raw
+   */
+  private async downloadFile(config: BitbucketConfig, path: string, commit: string): Promise<string> {
+    const response = await this.makeBitbucketRequest(
+      config,
+      `${this.repositoryEndpoint(config)}/src/${commit}/${this.encodePath(path)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+
+  /**
+   * Get repository languages. Bitbucket records a single, user-set language per repository.
+   */
+  private getRepositoryLanguages(repository: BitbucketRepository): Record<string, number> {
+    return repository.language ? { [repository.language]: 100 } : {};
+  }
+
+  /**
+   * Get README content from the root of the acquired path
+   */
+  private async getReadme(config: BitbucketConfig, files: BitbucketFile[], commit: string): Promise<string | null> {
+    const root = (config.path || '').replace(/^\/+|\/+$/g, '');
+    const readme = files.find(file => {
+      const directory = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+      return directory === root && /^readme(\.(md|markdown|rst|txt))?$/i.test(file.name);
+    });
+    if (!readme) return null;
+
+    try {
+      return await this.downloadFile(config, readme.path, commit);
+    } catch (error) {
+      console.warn('Failed to get README:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Test Bitbucket connection
+   */
+  async testConnection(accessToken?: string, username?: string): Promise<{
+    connected: boolean;
+    userInfo?: any;
+    error?: string;
+  }> {
+    try {
+      // Get user info
+      const userResponse = await this.makeBitbucketRequest({ workspace: '', repo: '', accessToken, username }, '/user');
+
+      if (!userResponse.ok && userResponse.status !== 401 && userResponse.status !== 403) {
+        throw new Error(`Connection test failed: ${userResponse.status} ${userResponse.statusText}`);
+      }
+
+      const userInfo = userResponse.ok ? await userResponse.json() : null;
+
+      return {
+        connected: true,
+        userInfo,
+        // Workspace and repository access tokens are not users, so /user refuses them with a 403
+        error: userResponse.status === 401
+          ? 'Invalid token or unauthorized'
+          : userResponse.status === 403 ? 'Token cannot read the account; repository access tokens only work on their repository' : undefined
+      };
+
+    } catch (error) {
+      return {
+        connected: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Search repositories by name. Bitbucket Cloud has no global search, so this covers one workspace,
+   * or every repository the credentials are a member of when no workspace is given.
+   */
+  async searchRepositories(query: string, config?: Partial<BitbucketConfig>): Promise<{
+    repositories: BitbucketRepository[];
+    total_count: number;
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const params = new URLSearchParams({
+        q: `name ~ "${query.replace(/["\\]/g, '\\$&')}"`,
+        sort: '-updated_on',
+        pagelen: '10'
+      });
+      if (!config?.workspace) params.set('role', 'member');
+
+      const endpoint = config?.workspace
+        ? `/repositories/${encodeURIComponent(config.workspace)}?${params}`
+        : `/repositories?${params}`;
+      const response = await this.makeBitbucketRequest({ workspace: '', repo: '', ...config }, endpoint);
+
+      if (!response.ok) {
+        throw new Error(`Search failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      return {
+        repositories: data.values || [],
+        total_count: data.size ?? (data.values || []).length,
+        success: true
+      };
+
+    } catch (error) {
+      return {
+        repositories: [],
+        total_count: 0,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  private repositoryEndpoint(config: BitbucketConfig): string {
+    return `/repositories/${encodeURIComponent(config.workspace)}/${encodeURIComponent(config.repo)}`;
+  }
+
+  private encodePath(path: string): string {
+    return path.split('/').map(encodeURIComponent).join('/');
+  }
+
+  /**
+   * Make authenticated request to Bitbucket API. Accepts an endpoint or a pagination URL returned by the API.
+   */
+  private async makeBitbucketRequest(config: BitbucketConfig, endpoint: string): Promise<Response> {
+    const url = endpoint.startsWith(`${ENV.BITBUCKET_API_URL}/`) ? endpoint : `${ENV.BITBUCKET_API_URL}${endpoint}`;
+
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+      'User-Agent': 'MATT-Automated-Testing-Tool'
+    };
+
+    // Use provided credentials or fall back to environment credentials
+    const token = config.accessToken || ENV.BITBUCKET_TOKEN;
+    const username = config.accessToken ? config.username : ENV.BITBUCKET_USERNAME;
+    if (token && username) {
+      headers['Authorization'] = `Basic ${Buffer.from(`${username}:${token}`).toString('base64')}`;
+    } else if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    return fetch(url, { headers });
+  }
+}
+
+export const bitbucketService = new BitbucketIntegrationService();
@@ -1,5 +1,7 @@
 import { anthropicService } from './anthropic';
-import type { Project } from '../../shared/schema';
+import { openApiContractService } from './openapi-contract';
+import { storage } from '../storage';
+import type { OpenApiSpec, Project } from '../../shared/schema';
 
 interface ComprehensiveTestSuite {
   // Security Testing
@@ -152,6 +154,7 @@ interface TestFrameworkConfiguration {
 
 export class ComprehensiveTestingService {
   async generateComprehensiveTestSuite(project: Project, codeAnalysis: any, riskAssessment: any): Promise<ComprehensiveTestSuite> {
+    const openApiSpec = await storage.getOpenApiSpecByProject(project.id);
     const testSuite: ComprehensiveTestSuite = {
       // Security Testing
       securityTests: this.generateSecurityTests(project),
@@ -171,7 +174,7 @@ export class ComprehensiveTestingService {
       localizationTests: this.generateLocalizationTests(project),
       
       // Specialized Testing
-      apiTests: this.generateApiTests(project),
+      apiTests: this.generateApiTests(project, openApiSpec),
       databaseTests: this.generateDatabaseTests(project),
       mobileTests: this.generateMobileTests(project),
       crossBrowserTests: this.generateCrossBrowserTests(project),
@@ -658,7 +661,32 @@ describe('Core Business Logic Tests', () => {
     ];
   }
 
-  private generateApiTests(project: Project): EnterpriseTestCase[] {
+  private generateApiTests(project: Project, openApiSpec?: OpenApiSpec): EnterpriseTestCase[] {
+    // With an ingested OpenAPI spec, the suite gets a contract test per operation and response code
+    if (openApiSpec) {
+      return openApiContractService.generateContractTests(openApiSpec.document, openApiSpec.baseUrl).map((test, index) => ({
+        id: `api-${String(index + 1).padStart(3, '0')}`,
+        name: test.name,
+        description: test.description,
+        category: 'api',
+        testType: 'functional',
+        priority: test.priority as EnterpriseTestCase['priority'],
+        framework: 'Jest',
+        script: test.testScript,
+        dependencies: [],
+        estimatedDuration: 5,
+        requiredEnvironment: ['test', 'staging'],
+        preconditions: test.executable ? ['API reachable at API_BASE_URL', 'Credentials in API_TOKEN, API_KEY or API_USERNAME/API_PASSWORD when secured'] : [],
+        expectedResult: `${test.method} ${test.path} responds ${test.responseCode} with a body matching its schema`,
+        testData: { method: test.method, path: test.path, responseCode: test.responseCode },
+        automationLevel: test.executable ? 'full' : 'manual',
+        riskCoverage: ['API contract breaking'],
+        businessImpact: 'Ensures the API keeps the contract its consumers rely on',
+        tags: ['api', 'contract-testing', 'openapi', ...test.tags],
+        mcpAgent: 'jest'
+      }));
+    }
+
     return [
       {
         id: 'api-001',
@@ -0,0 +1,88 @@
+/**
+ * Contract Runtime
+ * Workspace helper that OpenAPI contract tests load to call the API and validate its responses
+ */
+
+// Installed next to the test files of every run; contract tests require it by this name
+export const CONTRACT_RUNTIME_FILE = 'contract-runtime.cjs';
+
+// Runs in the Jest workspace: requests go through Node's global fetch and response bodies are
+// validated with ajv. Schemas arrive already converted to JSON Schema by the generator.
+export const CONTRACT_RUNTIME_SOURCE = `
+const Ajv = require('ajv/dist/2020');
+const addFormats = require('ajv-formats');
+
+// Formats ajv-formats does not know, e.g. vendor extensions, are accepted rather than rejected
+const ajv = new Ajv({ allErrors: true, strict: false, validateSchema: false, logger: false });
+addFormats(ajv);
+
+function resolveBaseUrl(defaultBaseUrl) {
+  const baseUrl = process.env.API_BASE_URL || defaultBaseUrl;
+  if (!baseUrl) {
+    throw new Error('No base URL for the API under test: set API_BASE_URL in the run environment');
+  }
+  return baseUrl.replace(/\\/+$/, '');
+}
+
+function authHeaders(request, schemes) {
+  for (const scheme of schemes) {
+    if (scheme.type === 'bearer' && process.env.API_TOKEN) {
+      request.headers['Authorization'] = 'Bearer ' + process.env.API_TOKEN;
+    } else if (scheme.type === 'basic' && process.env.API_USERNAME) {
+      const credentials = Buffer.from(process.env.API_USERNAME + ':' + (process.env.API_PASSWORD || '')).toString('base64');
+      request.headers['Authorization'] = 'Basic ' + credentials;
+    } else if (scheme.type === 'apiKey' && process.env.API_KEY) {
+      if (scheme.in === 'query') request.query[scheme.name] = process.env.API_KEY;
+      else if (scheme.in === 'cookie') request.cookies[scheme.name] = process.env.API_KEY;
+      else request.headers[scheme.name] = process.env.API_KEY;
+    }
+  }
+}
+
+async function sendRequest(spec, defaultBaseUrl) {
+  const request = {
+    headers: { Accept: 'application/json', ...spec.headers },
+    query: { ...spec.query },
+    cookies: { ...spec.cookies }
+  };
+  if (spec.authenticate) authHeaders(request, spec.auth);
+
+  const pathname = spec.path.replace(/\\{([^}]+)\\}/g, (_, name) => encodeURIComponent(spec.pathParams[name]));
+  const url = new URL(resolveBaseUrl(defaultBaseUrl) + pathname);
+  for (const [name, value] of Object.entries(request.query)) {
+    for (const item of Array.isArray(value) ? value : [value]) url.searchParams.append(name, String(item));
+  }
+  const cookies = Object.entries(request.cookies).map(([name, value]) => name + '=' + encodeURIComponent(value));
+  if (cookies.length > 0) request.headers['Cookie'] = cookies.join('; ');
+
+  let body;
+  if (spec.body !== undefined) {
+    request.headers['Content-Type'] = spec.contentType;
+    body = spec.contentType === 'application/x-www-form-urlencoded'
+      ? new URLSearchParams(spec.body).toString()
+      : JSON.stringify(spec.body);
+  }
+
+  const response = await fetch(url, { method: spec.method, headers: request.headers, body });
+  const text = await response.text();
+  let json;
+  try {
+    json = text ? JSON.parse(text) : undefined;
+  } catch (error) {
+    json = undefined;
+  }
+  return { status: response.status, contentType: response.headers.get('content-type') || '', text, json };
+}
+
+// Returns one message per violation, e.g. "$.items[0].id: must be integer"
+function validateSchema(schema, value) {
+  const validate = ajv.compile(schema);
+  if (validate(value)) return [];
+  return validate.errors.map(error => {
+    const at = error.instancePath.split('/').slice(1).map(segment => /^\\d+$/.test(segment) ? '[' + segment + ']' : '.' + segment).join('');
+    return '$' + at + ': ' + error.message;
+  });
+}
+
+module.exports = { sendRequest, validateSchema };
+`;
@@ -0,0 +1,457 @@
+/**
+ * Coverage Service
+ * Parses lcov, Istanbul JSON and Cobertura XML coverage reports into per-file line, branch and
+ * function data, and stores them against a project (and optionally the test run that produced them)
+ */
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import type { CoverageFile, CoverageReport } from '@shared/schema';
+
+export type CoverageFormat = 'lcov' | 'istanbul' | 'cobertura';
+
+export const COVERAGE_FORMATS: CoverageFormat[] = ['lcov', 'istanbul', 'cobertura'];
+
+export interface BranchCoverage {
+  line: number;
+  block: number;
+  branch: number;
+  hits: number;
+  type?: string; // Istanbul branch type: if, switch, cond-expr, binary-expr, default-arg
+}
+
+export interface FunctionCoverage {
+  name: string;
+  line: number;
+  hits: number;
+}
+
+export interface FileCoverageData {
+  filePath: string;
+  lineHits: Record<number, number>;
+  branches: BranchCoverage[];
+  functions: FunctionCoverage[];
+}
+
+export interface CoverageMetric {
+  total: number;
+  covered: number;
+  pct: number | null; // null when there is nothing to cover
+}
+
+export interface CoverageTotals {
+  lines: CoverageMetric;
+  branches: CoverageMetric;
+  functions: CoverageMetric;
+}
+
+export class CoverageParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoverageParseError';
+  }
+}
+
+export class CoverageService {
+  private xmlParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseAttributeValue: false,
+    parseTagValue: false,
+    isArray: (name) => ['package', 'class', 'method', 'line'].includes(name)
+  });
+
+  /**
+   * Guess the report format from its content
+   */
+  detectFormat(content: string): CoverageFormat {
+    const trimmed = content.trimStart();
+    if (trimmed.startsWith('{')) return 'istanbul';
+    if (trimmed.startsWith('<')) return 'cobertura';
+    if (/^(TN|SF):/m.test(trimmed)) return 'lcov';
+    throw new CoverageParseError('Unrecognised coverage report format; expected lcov, Istanbul JSON or Cobertura XML');
+  }
+
+  /**
+   * Parse a coverage report into per-file data
+   */
+  parse(content: string, format: CoverageFormat = this.detectFormat(content)): FileCoverageData[] {
+    switch (format) {
+      case 'lcov':
+        return this.parseLcov(content);
+      case 'istanbul':
+        return this.parseIstanbul(this.parseJson(content));
+      case 'cobertura':
+        return this.parseCobertura(content);
+    }
+  }
+
+  /**
+   * Parse lcov tracefile records (SF, FN, FNDA, DA, BRDA ... end_of_record)
+   */
+  parseLcov(content: string): FileCoverageData[] {
+    const files: FileCoverageData[] = [];
+    let current: (FileCoverageData & { functionLines: Map<string, number> }) | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (line === 'end_of_record') {
+        if (current) files.push(this.withoutFunctionLines(current));
+        current = null;
+        continue;
+      }
+
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+      const tag = line.slice(0, separator);
+      const value = line.slice(separator + 1);
+
+      if (tag === 'SF') {
+        current = { filePath: value, lineHits: {}, branches: [], functions: [], functionLines: new Map() };
+        continue;
+      }
+      if (!current) continue;
+
+      switch (tag) {
+        case 'DA': {
+          const [lineNumber, hits] = value.split(',');
+          current.lineHits[Number(lineNumber)] = Number(hits) || 0;
+          break;
+        }
+        case 'FN': {
+          const [lineNumber, ...nameParts] = value.split(',');
+          current.functionLines.set(nameParts.join(','), Number(lineNumber));
+          break;
+        }
+        case 'FNDA': {
+          const [hits, ...nameParts] = value.split(',');
+          const name = nameParts.join(',');
+          current.functions.push({ name, line: current.functionLines.get(name) ?? 0, hits: Number(hits) || 0 });
+          break;
+        }
+        case 'BRDA': {
+          const [lineNumber, block, branch, taken] = value.split(',');
+          current.branches.push({
+            line: Number(lineNumber),
+            block: Number(block),
+            branch: Number(branch),
+            // "-" means the block was never reached
+            hits: taken === '-' ? 0 : Number(taken) || 0
+          });
+          break;
+        }
+      }
+    }
+
+    // Tolerate a missing final end_of_record
+    if (current) files.push(this.withoutFunctionLines(current));
+    return this.relativizePaths(files);
+  }
+
+  /**
+   * Parse an Istanbul coverage map (coverage-final.json), as written by Jest, nyc and c8
+   */
+  parseIstanbul(coverageMap: Record<string, any>): FileCoverageData[] {
+    // Older nyc versions wrap each file's data in { data: ... }
+    const files = Object.entries(coverageMap).map(([key, raw]) => {
+      const fileData = raw?.data ?? raw;
+      if (!fileData || typeof fileData !== 'object' || !fileData.statementMap) {
+        throw new CoverageParseError(`Invalid Istanbul coverage entry for ${key}`);
+      }
+
+      const lineHits: Record<number, number> = {};
+      for (const [id, location] of Object.entries<any>(fileData.statementMap)) {
+        const line = location.start.line;
+        const hits = fileData.s?.[id] ?? 0;
+        // A line is as covered as its most-executed statement
+        if (lineHits[line] === undefined || lineHits[line] < hits) lineHits[line] = hits;
+      }
+
+      const functions = Object.entries<any>(fileData.fnMap || {}).map(([id, fn]) => ({
+        name: fn.name,
+        line: fn.decl?.start?.line ?? fn.loc?.start?.line ?? fn.line ?? 0,
+        hits: fileData.f?.[id] ?? 0
+      }));
+
+      const branches: BranchCoverage[] = [];
+      for (const [id, branch] of Object.entries<any>(fileData.branchMap || {})) {
+        const counts: number[] = fileData.b?.[id] || [];
+        const line = branch.loc?.start?.line ?? branch.line ?? 0;
+        counts.forEach((hits, index) => {
+          branches.push({ line, block: Number(id), branch: index, hits, type: branch.type });
+        });
+      }
+
+      return { filePath: fileData.path || key, lineHits, branches, functions };
+    });
+
+    return this.relativizePaths(files);
+  }
+
+  /**
+   * Parse a Cobertura XML report. Classes sharing a source file are merged.
+   */
+  parseCobertura(xml: string): FileCoverageData[] {
+    const validation = XMLValidator.validate(xml);
+    if (validation !== true) {
+      throw new CoverageParseError(`Invalid XML at line ${validation.err.line}: ${validation.err.msg}`);
+    }
+
+    const document = this.xmlParser.parse(xml);
+    if (!document.coverage) {
+      throw new CoverageParseError('Expected a Cobertura <coverage> root element');
+    }
+
+    const byFile = new Map<string, FileCoverageData>();
+    for (const pkg of document.coverage.packages?.package || []) {
+      for (const cls of pkg.classes?.class || []) {
+        const filePath = String(cls.filename || cls.name);
+        const file = byFile.get(filePath) || { filePath, lineHits: {}, branches: [], functions: [] };
+        byFile.set(filePath, file);
+
+        for (const line of cls.lines?.line || []) {
+          this.addCoberturaLine(file, line);
+        }
+
+        for (const method of cls.methods?.method || []) {
+          const methodLines = method.lines?.line || [];
+          const firstLine = methodLines[0];
+          file.functions.push({
+            name: String(method.name),
+            line: firstLine ? Number(firstLine.number) : 0,
+            hits: firstLine ? Number(firstLine.hits) || 0 : 0
+          });
+          // Some generators only list a method's lines under the method
+          for (const line of methodLines) {
+            if (file.lineHits[Number(line.number)] === undefined) this.addCoberturaLine(file, line);
+          }
+        }
+      }
+    }
+
+    return Array.from(byFile.values());
+  }
+
+  /**
+   * Combine coverage for the same files, e.g. from several shards or retry attempts
+   */
+  merge(reports: FileCoverageData[][]): FileCoverageData[] {
+    const byFile = new Map<string, FileCoverageData>();
+
+    for (const file of reports.flat()) {
+      const existing = byFile.get(file.filePath);
+      if (!existing) {
+        byFile.set(file.filePath, {
+          filePath: file.filePath,
+          lineHits: { ...file.lineHits },
+          branches: file.branches.map(branch => ({ ...branch })),
+          functions: file.functions.map(fn => ({ ...fn }))
+        });
+        continue;
+      }
+
+      for (const [line, hits] of Object.entries(file.lineHits)) {
+        existing.lineHits[Number(line)] = (existing.lineHits[Number(line)] || 0) + hits;
+      }
+      for (const branch of file.branches) {
+        const match = existing.branches.find(b => b.line === branch.line && b.block === branch.block && b.branch === branch.branch);
+        if (match) match.hits += branch.hits;
+        else existing.branches.push({ ...branch });
+      }
+      for (const fn of file.functions) {
+        const match = existing.functions.find(f => f.name === fn.name && f.line === fn.line);
+        if (match) match.hits += fn.hits;
+        else existing.functions.push({ ...fn });
+      }
+    }
+
+    return Array.from(byFile.values());
+  }
+
+  /**
+   * Total line, branch and function coverage across files
+   */
+  summarize(files: Pick<FileCoverageData, 'lineHits' | 'branches' | 'functions'>[]): CoverageTotals {
+    const totals = { lines: [0, 0], branches: [0, 0], functions: [0, 0] };
+
+    for (const file of files) {
+      const lineCounts = Object.values(file.lineHits);
+      totals.lines[0] += lineCounts.length;
+      totals.lines[1] += lineCounts.filter(hits => hits > 0).length;
+      totals.branches[0] += file.branches.length;
+      totals.branches[1] += file.branches.filter(branch => branch.hits > 0).length;
+      totals.functions[0] += file.functions.length;
+      totals.functions[1] += file.functions.filter(fn => fn.hits > 0).length;
+    }
+
+    return {
+      lines: this.metric(totals.lines[0], totals.lines[1]),
+      branches: this.metric(totals.branches[0], totals.branches[1]),
+      functions: this.metric(totals.functions[0], totals.functions[1])
+    };
+  }
+
+  /**
+   * Totals of a stored report
+   */
+  reportTotals(report: CoverageReport): CoverageTotals {
+    return {
+      lines: this.metric(report.linesTotal || 0, report.linesCovered || 0),
+      branches: this.metric(report.branchesTotal || 0, report.branchesCovered || 0),
+      functions: this.metric(report.functionsTotal || 0, report.functionsCovered || 0)
+    };
+  }
+
+  /**
+   * Parse and store a coverage report for a project
+   */
+  async ingest(
+    projectId: number,
+    content: string,
+    options: { format?: CoverageFormat; source?: 'runner' | 'upload'; testRunId?: number | null } = {}
+  ): Promise<CoverageReport> {
+    const format = options.format || this.detectFormat(content);
+    return this.store(projectId, this.parse(content, format), format, options.source || 'upload', options.testRunId ?? null);
+  }
+
+  /**
+   * Store the Istanbul coverage maps collected by the test runner for a run
+   */
+  async recordRunnerCoverage(projectId: number, testRunId: number, coverageMaps: Record<string, any>[]): Promise<CoverageReport | undefined> {
+    const files = this.merge(coverageMaps.map(map => this.parseIstanbul(map)));
+    if (files.length === 0) return undefined;
+    return this.store(projectId, files, 'istanbul', 'runner', testRunId);
+  }
+
+  /**
+   * Line, branch and function coverage of the most recent report for a project, or null if there is none
+   */
+  async getLatestTotals(projectId: number): Promise<(CoverageTotals & { reportId: number; createdAt: Date | null }) | null> {
+    const report = await storage.getLatestCoverageReport(projectId);
+    if (!report) return null;
+    return { ...this.reportTotals(report), reportId: report.id, createdAt: report.createdAt };
+  }
+
+  /**
+   * Uncovered lines, functions and branches of a stored file
+   */
+  getUncovered(file: CoverageFile) {
+    const lineHits = (file.lineHits as Record<string, number> | null) || {};
+    const branches = (file.branches as BranchCoverage[] | null) || [];
+    const functions = (file.functions as FunctionCoverage[] | null) || [];
+
+    return {
+      lines: Object.entries(lineHits)
+        .filter(([, hits]) => hits === 0)
+        .map(([line]) => Number(line))
+        .sort((a, b) => a - b),
+      functions: functions.filter(fn => fn.hits === 0),
+      branches: branches.filter(branch => branch.hits === 0)
+    };
+  }
+
+  private async store(
+    projectId: number,
+    files: FileCoverageData[],
+    format: CoverageFormat,
+    source: 'runner' | 'upload',
+    testRunId: number | null
+  ): Promise<CoverageReport> {
+    const totals = this.summarize(files);
+
+    const report = await storage.createCoverageReport({
+      projectId,
+      testRunId,
+      source,
+      format,
+      linesTotal: totals.lines.total,
+      linesCovered: totals.lines.covered,
+      branchesTotal: totals.branches.total,
+      branchesCovered: totals.branches.covered,
+      functionsTotal: totals.functions.total,
+      functionsCovered: totals.functions.covered
+    }, files.map(file => {
+      const fileTotals = this.summarize([file]);
+      return {
+        filePath: file.filePath,
+        linesTotal: fileTotals.lines.total,
+        linesCovered: fileTotals.lines.covered,
+        branchesTotal: fileTotals.branches.total,
+        branchesCovered: fileTotals.branches.covered,
+        functionsTotal: fileTotals.functions.total,
+        functionsCovered: fileTotals.functions.covered,
+        lineHits: file.lineHits,
+        branches: file.branches,
+        functions: file.functions
+      };
+    }));
+
+    logger.info(`Stored ${format} coverage report for project ${projectId}`, {
+      reportId: report.id,
+      testRunId,
+      files: files.length,
+      lines: totals.lines.pct
+    }, 'COVERAGE');
+
+    return report;
+  }
+
+  private addCoberturaLine(file: FileCoverageData, line: any) {
+    const lineNumber = Number(line.number);
+    file.lineHits[lineNumber] = (file.lineHits[lineNumber] || 0) + (Number(line.hits) || 0);
+
+    // condition-coverage="50% (1/2)"
+    const conditions = String(line['condition-coverage'] || '').match(/\((\d+)\/(\d+)\)/);
+    if (line.branch === 'true' && conditions) {
+      const covered = Number(conditions[1]);
+      const total = Number(conditions[2]);
+      for (let branch = 0; branch < total; branch++) {
+        file.branches.push({ line: lineNumber, block: 0, branch, hits: branch < covered ? 1 : 0 });
+      }
+    }
+  }
+
+  private withoutFunctionLines({ functionLines, ...file }: FileCoverageData & { functionLines: Map<string, number> }): FileCoverageData {
+    // Functions declared with FN but never given an FNDA count were not executed
+    for (const [name, line] of functionLines) {
+      if (!file.functions.some(fn => fn.name === name)) file.functions.push({ name, line, hits: 0 });
+    }
+    return file;
+  }
+
+  /**
+   * Strip the common directory prefix from absolute paths so files read as repository paths
+   */
+  private relativizePaths(files: FileCoverageData[]): FileCoverageData[] {
+    const normalized = files.map(file => ({ ...file, filePath: file.filePath.replace(/\\/g, '/') }));
+    if (normalized.length === 0 || !normalized.every(file => file.filePath.startsWith('/') || /^[a-zA-Z]:\//.test(file.filePath))) {
+      return normalized;
+    }
+
+    let prefix = normalized[0].filePath.slice(0, normalized[0].filePath.lastIndexOf('/') + 1);
+    for (const file of normalized) {
+      while (prefix && !file.filePath.startsWith(prefix)) {
+        prefix = prefix.slice(0, prefix.slice(0, -1).lastIndexOf('/') + 1);
+      }
+    }
+
+    return normalized.map(file => ({ ...file, filePath: file.filePath.slice(prefix.length) }));
+  }
+
+  private parseJson(content: string): Record<string, any> {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new CoverageParseError(`Invalid Istanbul JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+
+  private metric(total: number, covered: number): CoverageMetric {
+    return { total, covered, pct: total > 0 ? Math.round((covered / total) * 10000) / 100 : null };
+  }
+}
+
+export const coverageService = new CoverageService();
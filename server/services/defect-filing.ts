@@ -0,0 +1,309 @@
+/**
+ * Defect Filing Service
+ * Files Jira bugs for failed test results, with the failure, test script, run link and artifacts.
+ * Repeats of a failure share a signature, so they are linked to the open issue instead of filed again.
+ */
+
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger } from '../logger';
+import { jiraService, type JiraConfig } from './jira-integration';
+import { artifactStore } from './artifact-store';
+import type { TestRun, TestRunResult } from '@shared/schema';
+
+export interface DefectFilingOptions {
+  // Jira project to file in; defaults to the project a Jira-sourced MATT project came from
+  projectKey?: string;
+  issueType?: string;
+  // Jira connection; defaults to the JIRA_* settings
+  serverUrl?: string;
+  email?: string;
+  apiToken?: string;
+}
+
+export interface DefectFilingResult {
+  issueKey: string;
+  issueUrl: string;
+  // False when the failure was linked to an issue filed earlier
+  created: boolean;
+  failureSignature: string;
+  attachments: string[];
+  skippedAttachments: Array<{ fileName: string; reason: string }>;
+  result: TestRunResult;
+}
+
+export class DefectFilingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DefectFilingError';
+  }
+}
+
+// Jira Cloud's default attachment limit
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Keep descriptions well under Jira's 32767 character field limit
+const MAX_SECTION_CHARS = 8000;
+const SIGNATURE_LABEL_PREFIX = 'matt-failure-';
+
+export class DefectFilingService {
+  private inFlight = new Map<string, Promise<DefectFilingResult>>();
+
+  /**
+   * File a Jira bug for a failed test result, or link the result to the open issue already filed for
+   * the same failure. Filing a result that already has an issue returns that issue.
+   */
+  async fileDefect(resultId: number, options: DefectFilingOptions = {}): Promise<DefectFilingResult> {
+    const result = await storage.getTestRunResult(resultId);
+    if (!result) {
+      throw new DefectFilingError(`Test result ${resultId} not found`);
+    }
+    if (result.status !== 'failed') {
+      throw new DefectFilingError(`Only failed test results can be filed as defects, not ${result.status} ones`);
+    }
+
+    const testRun = result.testRunId ? await storage.getTestRun(result.testRunId) : undefined;
+    if (!testRun?.projectId) {
+      throw new DefectFilingError(`Test run for result ${resultId} not found`);
+    }
+
+    const config = await this.resolveConfig(testRun.projectId, options);
+    const failureSignature = result.failureSignature || this.failureSignature(testRun.projectId, result);
+
+    if (result.defectKey) {
+      return {
+        issueKey: result.defectKey,
+        issueUrl: `${config.serverUrl.replace(/\/+$/, '')}/browse/${result.defectKey}`,
+        created: false,
+        failureSignature,
+        attachments: [],
+        skippedAttachments: [],
+        result
+      };
+    }
+
+    // Two requests for the same failure share one filing, so a double click can't file twice
+    const key = `${config.projectKey}:${failureSignature}`;
+    const running = this.inFlight.get(key);
+    if (running) {
+      await running.catch(() => undefined);
+      return this.fileDefect(resultId, options);
+    }
+
+    const filing = this.file(config, testRun, result, failureSignature, options).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, filing);
+    return filing;
+  }
+
+  /**
+   * Hash of the test and its normalised failure message. Numbers, hex ids, quoted values and
+   * locations are masked, so reruns failing the same way produce the same signature.
+   */
+  failureSignature(projectId: number, result: TestRunResult): string {
+    const message = this.failureMessage(result)
+      .replace(/(['"`]).*?\1/g, '<str>')
+      .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+      .replace(/\b[0-9a-f]{8,}\b/gi, '<hex>')
+      .replace(/\d+(\.\d+)?/g, '<n>')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+    const test = result.testCaseId !== null ? `case:${result.testCaseId}` : `name:${result.testCaseName}`;
+    return createHash('sha256').update(`${projectId}|${test}|${message}`).digest('hex').slice(0, 16);
+  }
+
+  private async file(
+    config: JiraConfig,
+    testRun: TestRun,
+    result: TestRunResult,
+    failureSignature: string,
+    options: DefectFilingOptions
+  ): Promise<DefectFilingResult> {
+    const existing = await this.findOpenDefect(config, failureSignature);
+    if (existing) {
+      await jiraService.addComment(config, existing.key, this.document([
+        this.paragraph(`Failed again in MATT test run #${testRun.id}${testRun.commitSha ? ` at ${testRun.commitSha}` : ''}: `, this.link(this.runUrl(testRun.id))),
+      ]));
+      const updated = await storage.updateTestRunResult(result.id, { failureSignature, defectKey: existing.key });
+
+      logger.info(`Linked failure of ${result.testCaseName} to existing defect ${existing.key}`, {
+        projectId: testRun.projectId,
+        testRunId: testRun.id,
+        testCaseId: result.testCaseId,
+        issueKey: existing.key,
+        failureSignature
+      }, 'DEFECT_FILING');
+      return {
+        issueKey: existing.key,
+        issueUrl: existing.url,
+        created: false,
+        failureSignature,
+        attachments: [],
+        skippedAttachments: [],
+        result: updated || result
+      };
+    }
+
+    const issue = await jiraService.createIssue(config, {
+      issueType: options.issueType || ENV.JIRA_DEFECT_ISSUE_TYPE,
+      summary: `[MATT] ${result.testCaseName} failed: ${this.failureMessage(result).split('\n')[0] || 'no error message'}`,
+      description: this.describe(testRun, result),
+      labels: ['matt', `${SIGNATURE_LABEL_PREFIX}${failureSignature}`]
+    });
+    // Stored before attaching, so a failed upload never leads to the failure being filed twice
+    const updated = await storage.updateTestRunResult(result.id, { failureSignature, defectKey: issue.key });
+
+    const { attached, skipped } = await this.attachArtifacts(config, issue.key, testRun.id, result.id);
+
+    logger.info(`Filed defect ${issue.key} for failure of ${result.testCaseName}`, {
+      projectId: testRun.projectId,
+      testRunId: testRun.id,
+      testCaseId: result.testCaseId,
+      issueKey: issue.key,
+      failureSignature,
+      attachments: attached.length,
+      skippedAttachments: skipped.length
+    }, 'DEFECT_FILING');
+
+    return {
+      issueKey: issue.key,
+      issueUrl: issue.url,
+      created: true,
+      failureSignature,
+      attachments: attached,
+      skippedAttachments: skipped,
+      result: updated || result
+    };
+  }
+
+  /**
+   * An unresolved issue for the signature: first one recorded on an earlier result, then one found by
+   * its label, which also covers issues filed by another MATT instance
+   */
+  private async findOpenDefect(config: JiraConfig, failureSignature: string) {
+    const filed = (await storage.getTestRunResultsByFailureSignature(failureSignature)).find(result => result.defectKey);
+    if (filed?.defectKey) {
+      const issue = await jiraService.getIssue(config, filed.defectKey);
+      if (issue && issue.statusCategory !== 'done') return issue;
+    }
+
+    const jql = `project = "${config.projectKey}" AND labels = "${SIGNATURE_LABEL_PREFIX}${failureSignature}" AND statusCategory != Done ORDER BY created DESC`;
+    const [match] = await jiraService.searchIssues(config, jql, 1);
+    return match || null;
+  }
+
+  private async attachArtifacts(config: JiraConfig, issueKey: string, testRunId: number, resultId: number) {
+    const attached: string[] = [];
+    const skipped: Array<{ fileName: string; reason: string }> = [];
+    const artifacts = (await storage.getArtifactsByTestRun(testRunId)).filter(artifact => artifact.testRunResultId === resultId);
+
+    for (const artifact of artifacts) {
+      if (artifact.size > MAX_ATTACHMENT_BYTES) {
+        skipped.push({ fileName: artifact.fileName, reason: `Larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB` });
+        continue;
+      }
+      try {
+        const data = await artifactStore.read(artifact);
+        if (!data) {
+          skipped.push({ fileName: artifact.fileName, reason: 'Artifact content is no longer stored' });
+          continue;
+        }
+        await jiraService.addAttachment(config, issueKey, { fileName: artifact.fileName, contentType: artifact.contentType, data });
+        attached.push(artifact.fileName);
+      } catch (error) {
+        skipped.push({ fileName: artifact.fileName, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return { attached, skipped };
+  }
+
+  /**
+   * Connection settings from the request, then the Jira project a MATT project was acquired from,
+   * then the environment. Stored credentials are only ever sent to the server they belong to.
+   */
+  private async resolveConfig(projectId: number, options: DefectFilingOptions): Promise<JiraConfig> {
+    const project = await storage.getProject(projectId);
+    const jiraData = project?.sourceType === 'jira' ? (project.repositoryData as any) || {} : {};
+
+    const serverUrl: string = (options.serverUrl || jiraData.jiraServerUrl || ENV.JIRA_URL || '').replace(/\/+$/, '');
+    const sameServer = (url?: string) => !!url && url.replace(/\/+$/, '') === serverUrl;
+    const credentials = [
+      { email: options.email, apiToken: options.apiToken, allowed: true },
+      { email: jiraData.jiraEmail, apiToken: jiraData.jiraApiToken, allowed: sameServer(jiraData.jiraServerUrl) },
+      { email: ENV.JIRA_EMAIL, apiToken: ENV.JIRA_API_TOKEN, allowed: sameServer(ENV.JIRA_URL) }
+    ].find(candidate => candidate.allowed && candidate.email && candidate.apiToken);
+
+    const projectKey = options.projectKey || jiraData.jiraProjectKey;
+    if (!serverUrl || !credentials) {
+      throw new DefectFilingError('Jira is not configured. Pass serverUrl, email and apiToken, or set JIRA_URL, JIRA_EMAIL and JIRA_API_TOKEN');
+    }
+    if (!/^https?:\/\//i.test(serverUrl)) {
+      throw new DefectFilingError(`Invalid Jira URL "${serverUrl}". Use an http or https URL`);
+    }
+    if (!projectKey || !/^[A-Z][A-Z0-9_]*$/i.test(projectKey)) {
+      throw new DefectFilingError('A Jira project key is required');
+    }
+
+    return { serverUrl, projectKey, email: credentials.email!, apiToken: credentials.apiToken! };
+  }
+
+  private failureMessage(result: TestRunResult): string {
+    const errors = (result.errors as string[] | null) || [];
+    return String(errors[0] ?? '').trim();
+  }
+
+  /**
+   * Issue description as an Atlassian Document Format document
+   */
+  private describe(testRun: TestRun, result: TestRunResult) {
+    const errors = ((result.errors as string[] | null) || []).map(String);
+    const [message = 'No error message was recorded', ...stack] = (errors[0] || '').split('\n');
+    const details = [stack.join('\n'), ...errors.slice(1)].filter(Boolean).join('\n\n');
+
+    const content = [
+      this.paragraph(`${result.testCaseName} failed in MATT test run #${testRun.id} (${testRun.framework}): `, this.link(this.runUrl(testRun.id))),
+      this.paragraph([
+        testRun.commitSha ? `Commit: ${testRun.commitSha}` : null,
+        `Attempt: ${result.attempt ?? 1}`,
+        result.duration !== null ? `Duration: ${result.duration}ms` : null
+      ].filter(Boolean).join(' · ')),
+      this.heading('Failure'),
+      this.codeBlock(message),
+    ];
+    if (details) {
+      content.push(this.heading('Stack trace'), this.codeBlock(details));
+    }
+    if (result.testScript) {
+      content.push(this.heading('Test script'), this.codeBlock(result.testScript, 'javascript'));
+    }
+    return this.document(content);
+  }
+
+  private runUrl(testRunId: number): string {
+    return `${ENV.PUBLIC_APP_URL}/api/test-runs/${testRunId}`;
+  }
+
+  private document(content: any[]) {
+    return { type: 'doc', version: 1, content };
+  }
+
+  private heading(text: string) {
+    return { type: 'heading', attrs: { level: 3 }, content: [{ type: 'text', text }] };
+  }
+
+  private paragraph(text: string, ...extra: any[]) {
+    return { type: 'paragraph', content: [{ type: 'text', text }, ...extra] };
+  }
+
+  private link(url: string) {
+    return { type: 'text', text: url, marks: [{ type: 'link', attrs: { href: url } }] };
+  }
+
+  private codeBlock(text: string, language?: string) {
+    const body = text.length > MAX_SECTION_CHARS ? `${text.slice(0, MAX_SECTION_CHARS)}\n... (truncated)` : text;
+    return { type: 'codeBlock', ...(language ? { attrs: { language } } : {}), content: [{ type: 'text', text: body || ' ' }] };
+  }
+}
+
+export const defectFilingService = new DefectFilingService();
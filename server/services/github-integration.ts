@@ -4,8 +4,9 @@
  */
 
 import { ENV } from '../config';
+import { isCodeFile, MAX_CODE_FILE_BYTES } from '../utils/codeFiles';
 
-interface GitHubConfig {
+export interface GitHubConfig {
   owner: string;
   repo: string;
   branch?: string;
@@ -24,7 +25,16 @@ interface GitHubFile {
   download_url?: string;
 }
 
-interface GitHubRepository {
+export interface GitHubChangedFile {
+  path: string;
+  status: 'added' | 'modified' | 'removed' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  previousPath?: string;
+}
+
+// The compare API lists at most this many files; a longer diff can't be applied incrementally
+const MAX_COMPARE_FILES = 300;
+
+export interface GitHubRepository {
   id: number;
   name: string;
   full_name: string;
@@ -39,9 +49,17 @@ interface GitHubRepository {
   updated_at: string;
 }
 
-export class GitHubIntegrationService {
-  private static readonly GITHUB_API_BASE = 'https://api.github.com';
+export type GitHubCommitState = 'pending' | 'success' | 'failure' | 'error';
+
+export interface GitHubCommitStatus {
+  state: GitHubCommitState;
+  context: string;
+  // GitHub rejects descriptions over 140 characters, so longer ones are cut short
+  description: string;
+  targetUrl?: string;
+}
 
+export class GitHubIntegrationService {
   /**
    * Acquire project files from GitHub repository
    */
@@ -49,6 +67,7 @@ export class GitHubIntegrationService {
     repository: GitHubRepository;
     files: GitHubFile[];
     metadata: any;
+    commitSha?: string;
     success: boolean;
     error?: string;
   }> {
@@ -63,11 +82,13 @@ export class GitHubIntegrationService {
       const branch = config.branch || repository.default_branch;
       const path = config.path || '';
       
-      console.log(`🌿 Fetching content from branch: ${branch}`);
-      const files = await this.getRepositoryContent(config, path, branch);
+      // Pin the branch head first, so every file comes from the same commit
+      const commitSha = await this.getCommitSha(config, branch);
+      console.log(`🌿 Fetching content from branch: ${branch} (${commitSha.slice(0, 12)})`);
+      const files = await this.getRepositoryContent(config, path, commitSha);
       
       // Filter and download code files
-      const codeFiles = await this.downloadCodeFiles(config, files, branch);
+      const codeFiles = await this.downloadCodeFiles(config, files, commitSha);
       
       console.log(`✅ Successfully acquired ${codeFiles.length} code files from GitHub`);
 
@@ -76,11 +97,13 @@ export class GitHubIntegrationService {
         files: codeFiles,
         metadata: {
           branch,
+          commitSha,
           path,
           totalFiles: codeFiles.length,
           languages: await this.getRepositoryLanguages(config),
           readme: await this.getReadme(config, branch)
         },
+        commitSha,
         success: true
       };
 
@@ -96,6 +119,107 @@ export class GitHubIntegrationService {
     }
   }
 
+  /**
+   * Resolve a branch, tag or SHA to the commit it points at
+   */
+  async getCommitSha(config: GitHubConfig, ref: string): Promise<string> {
+    const response = await this.makeGitHubRequest(
+      config,
+      `/repos/${config.owner}/${config.repo}/commits/${encodeURIComponent(ref)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to resolve ${ref}: ${response.status} ${response.statusText}`);
+    }
+
+    const commit = await response.json();
+    return commit.sha;
+  }
+
+  /**
+   * List the files that changed from one commit to another. Returns null when the diff can't be
+   * applied incrementally: the base commit is gone (e.g. after a force push), the head does not
+   * descend from it, or GitHub truncated the file list.
+   */
+  async compareCommits(config: GitHubConfig, base: string, head: string): Promise<GitHubChangedFile[] | null> {
+    const response = await this.makeGitHubRequest(
+      config,
+      `/repos/${config.owner}/${config.repo}/compare/${base}...${head}`
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to compare ${base.slice(0, 12)}...${head.slice(0, 12)}: ${response.status} ${response.statusText}`);
+    }
+
+    const comparison = await response.json();
+    const files: any[] = comparison.files || [];
+    if (comparison.status === 'diverged' || comparison.status === 'behind' || files.length >= MAX_COMPARE_FILES) {
+      return null;
+    }
+
+    return files.map(file => ({
+      path: file.filename,
+      status: file.status,
+      ...(file.previous_filename ? { previousPath: file.previous_filename } : {})
+    }));
+  }
+
+  /**
+   * List the files a pull request changes
+   */
+  async getPullRequestFiles(config: GitHubConfig, pullNumber: number): Promise<GitHubChangedFile[]> {
+    const files: GitHubChangedFile[] = [];
+    // GitHub serves at most 3000 files per pull request, 100 per page
+    for (let page = 1; page <= 30; page++) {
+      const response = await this.makeGitHubRequest(
+        config,
+        `/repos/${config.owner}/${config.repo}/pulls/${pullNumber}/files?per_page=100&page=${page}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to list files of pull request #${pullNumber}: ${response.status} ${response.statusText}`);
+      }
+
+      const batch: any[] = await response.json();
+      files.push(...batch.map(file => ({
+        path: file.filename,
+        status: file.status,
+        ...(file.previous_filename ? { previousPath: file.previous_filename } : {})
+      })));
+      if (batch.length < 100) break;
+    }
+    return files;
+  }
+
+  /**
+   * Download the code files among the given paths at a commit. Files that fail to download, or are
+   * not code, are left out.
+   */
+  async downloadFilesAt(config: GitHubConfig, paths: string[], ref: string): Promise<Array<{ path: string; content: string }>> {
+    const codePaths = paths.filter(path => isCodeFile(path.split('/').pop() || path));
+    const downloaded: Array<{ path: string; content: string }> = [];
+
+    const batchSize = 10;
+    for (let i = 0; i < codePaths.length; i += batchSize) {
+      const batch = codePaths.slice(i, i + batchSize);
+      const results = await Promise.all(batch.map(async (path) => {
+        try {
+          const content = await this.downloadFile(config, path, ref);
+          return { path, content: Buffer.from(content, 'base64').toString('utf-8') };
+        } catch (error) {
+          console.warn(`⚠️ Failed to download file ${path}:`, error);
+          return null;
+        }
+      }));
+      downloaded.push(...results.filter((result): result is { path: string; content: string } => result !== null));
+    }
+
+    return downloaded;
+  }
+
   /**
    * Get repository information
    */
@@ -161,8 +285,8 @@ export class GitHubIntegrationService {
     branch: string
   ): Promise<GitHubFile[]> {
     const codeFiles = files.filter(file => 
-      this.isCodeFile(file.name) && 
-      file.size < 1024 * 1024 // Skip files larger than 1MB
+      isCodeFile(file.name) && 
+      file.size < MAX_CODE_FILE_BYTES
     );
 
     const downloadedFiles: GitHubFile[] = [];
@@ -277,12 +401,12 @@ export class GitHubIntegrationService {
       }
 
       // Get user info
-      const userResponse = await fetch(`${GitHubIntegrationService.GITHUB_API_BASE}/user`, {
+      const userResponse = await fetch(`${ENV.GITHUB_API_URL}/user`, {
         headers
       });
 
       // Get rate limit info
-      const rateLimitResponse = await fetch(`${GitHubIntegrationService.GITHUB_API_BASE}/rate_limit`, {
+      const rateLimitResponse = await fetch(`${ENV.GITHUB_API_URL}/rate_limit`, {
         headers
       });
 
@@ -352,11 +476,66 @@ export class GitHubIntegrationService {
     }
   }
 
+  /**
+   * Set a commit status, shown next to the commit and in the checks of any pull request containing it
+   */
+  async createCommitStatus(config: GitHubConfig, sha: string, status: GitHubCommitStatus): Promise<void> {
+    const response = await this.makeGitHubRequest(config, `/repos/${config.owner}/${config.repo}/statuses/${sha}`, {
+      method: 'POST',
+      body: {
+        state: status.state,
+        context: status.context,
+        description: status.description.slice(0, 140),
+        target_url: status.targetUrl
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to set commit status: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Comment on a pull request's conversation
+   */
+  async createPullRequestComment(config: GitHubConfig, pullNumber: number, body: string): Promise<{ id: number; url: string }> {
+    // Pull request conversations are issue comments; review comments are tied to diff lines
+    const response = await this.makeGitHubRequest(config, `/repos/${config.owner}/${config.repo}/issues/${pullNumber}/comments`, {
+      method: 'POST',
+      body: { body }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to comment on pull request #${pullNumber}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return { id: data.id, url: data.html_url };
+  }
+
+  /**
+   * Number of the open pull request whose head is a commit, or null when there is none
+   */
+  async findPullRequestForCommit(config: GitHubConfig, sha: string): Promise<number | null> {
+    const response = await this.makeGitHubRequest(config, `/repos/${config.owner}/${config.repo}/commits/${sha}/pulls`);
+    if (!response.ok) {
+      throw new Error(`Failed to list pull requests for ${sha}: ${response.status} ${response.statusText}`);
+    }
+
+    const pullRequests: any[] = await response.json();
+    const match = pullRequests.find(pr => pr.state === 'open' && pr.head?.sha === sha);
+    return match ? match.number : null;
+  }
+
   /**
    * Make authenticated request to GitHub API
    */
-  private async makeGitHubRequest(config: GitHubConfig, endpoint: string): Promise<Response> {
-    const url = `${GitHubIntegrationService.GITHUB_API_BASE}${endpoint}`;
+  private async makeGitHubRequest(
+    config: GitHubConfig,
+    endpoint: string,
+    options: { method?: string; body?: unknown } = {}
+  ): Promise<Response> {
+    const url = `${ENV.GITHUB_API_URL}${endpoint}`;
     
     const headers: HeadersInit = {
       'Accept': 'application/vnd.github.v3+json',
@@ -369,36 +548,15 @@ export class GitHubIntegrationService {
       headers['Authorization'] = `token ${token}`;
     }
 
-    return fetch(url, { headers });
-  }
-
-  /**
-   * Check if file is a code file
-   */
-  private isCodeFile(filename: string): boolean {
-    const codeExtensions = [
-      '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte', '.py', '.java', '.c', '.cpp', 
-      '.cs', '.php', '.rb', '.go', '.rs', '.kt', '.swift', '.dart', '.scala', '.clj',
-      '.html', '.css', '.scss', '.sass', '.less', '.xml', '.json', '.yaml', '.yml',
-      '.sql', '.sh', '.ps1', '.bat', '.dockerfile', '.md', '.txt', '.env.example',
-      '.properties', '.ini', '.cfg', '.conf', '.toml', '.lock', '.gitignore',
-      '.eslintrc', '.prettierrc', '.babelrc', 'Makefile', 'Gemfile', 'Pipfile'
-    ];
-    
-    const lowerFilename = filename.toLowerCase();
-    
-    // Check extensions
-    if (codeExtensions.some(ext => lowerFilename.endsWith(ext))) {
-      return true;
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
     }
-    
-    // Check specific filenames
-    const codeFilenames = [
-      'dockerfile', 'makefile', 'gemfile', 'pipfile', 'rakefile',
-      'package.json', 'tsconfig.json', 'webpack.config.js', 'vite.config.ts'
-    ];
-    
-    return codeFilenames.includes(lowerFilename);
+
+    return fetch(url, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
   }
 }
 
@@ -0,0 +1,253 @@
+/**
+ * GitHub Reporting Service
+ * Publishes the outcome of test runs on GitHub projects as commit statuses, and comments on the pull
+ * request when a run has many failures
+ */
+
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger, withLogCorrelation } from '../logger';
+import { projectEvents, type ProjectEvent } from './project-events';
+import { githubService, type GitHubConfig, type GitHubCommitState } from './github-integration';
+import { coverageService } from './coverage';
+import type { Project, TestRun, TestRunResult } from '@shared/schema';
+
+export interface QualityGateVerdict {
+  name: string;
+  passed: boolean;
+  current: number | null;
+  threshold: number;
+  unit: string;
+}
+
+// Run status each reported event leaves behind
+const RUN_EVENT_STATUSES: Partial<Record<ProjectEvent['type'], string>> = {
+  'run:started': 'running',
+  'run:completed': 'completed',
+  'run:failed': 'failed',
+  'run:cancelled': 'cancelled'
+};
+// Same pass-rate gate the analysis workflow applies before declaring a build deployable
+const PASS_RATE_THRESHOLD = 90;
+// Failed tests listed in a pull request comment; the rest are counted
+const MAX_COMMENTED_FAILURES = 25;
+const MAX_ERROR_CHARS = 300;
+
+export class GitHubReportingService {
+  private unsubscribe: (() => void) | null = null;
+  private reporting = new Map<number, Promise<void>>();
+
+  /**
+   * Follow run events of every project
+   */
+  start() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = projectEvents.subscribeAll(event => this.handleEvent(event));
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Publish a run's current state to GitHub. Runs of other project types, and runs without a commit
+   * SHA, are skipped. Pass the status an event announced to skip the report once the run has moved
+   * past it, so a late report never overwrites a newer one. Returns whether anything was published.
+   */
+  async reportRun(testRunId: number, expectedStatus?: string): Promise<boolean> {
+    const testRun = await storage.getTestRun(testRunId);
+    const project = testRun?.projectId ? await storage.getProject(testRun.projectId) : undefined;
+    if (!testRun || !project || !testRun.commitSha) return false;
+    if (expectedStatus && testRun.status !== expectedStatus) return false;
+
+    const config = this.configFor(project);
+    if (!config) return false;
+
+    const state = this.stateOf(testRun);
+    if (!state) return false;
+
+    await githubService.createCommitStatus(config, testRun.commitSha, {
+      state,
+      context: ENV.GITHUB_STATUS_CONTEXT,
+      description: this.describe(testRun),
+      targetUrl: this.runUrl(testRun.id)
+    });
+    logger.info(`Reported run ${testRun.id} as ${state} on ${testRun.commitSha.slice(0, 12)}`, {
+      projectId: project.id,
+      testRunId: testRun.id,
+      commitSha: testRun.commitSha,
+      state
+    }, 'GITHUB_REPORTING');
+
+    const failed = (testRun.summary as any)?.failed ?? 0;
+    if (testRun.status === 'completed' && failed >= ENV.GITHUB_PR_COMMENT_MIN_FAILURES) {
+      await this.commentOnPullRequest(project, config, testRun);
+    }
+    return true;
+  }
+
+  private handleEvent(event: ProjectEvent) {
+    const expectedStatus = RUN_EVENT_STATUSES[event.type];
+    if (!expectedStatus) return;
+
+    // Reports of one run are sent in order, so the final status always lands last
+    const testRunId: number = event.data.testRunId;
+    const previous = this.reporting.get(testRunId) || Promise.resolve();
+    const report = previous
+      .then(() => withLogCorrelation({ projectId: event.projectId ?? undefined, testRunId }, () => this.reportRun(testRunId, expectedStatus)))
+      .then(() => undefined, error => {
+        logger.warn(`Failed to report run ${testRunId} to GitHub`, {
+          projectId: event.projectId,
+          testRunId,
+          error: error instanceof Error ? error.message : String(error)
+        }, 'GITHUB_REPORTING');
+      })
+      .finally(() => {
+        if (this.reporting.get(testRunId) === report) this.reporting.delete(testRunId);
+      });
+    this.reporting.set(testRunId, report);
+  }
+
+  /**
+   * List the failed tests and quality gate verdicts on the run's pull request, found from the
+   * webhook that triggered the run or, for manual runs, from the open pull request at the commit
+   */
+  private async commentOnPullRequest(project: Project, config: GitHubConfig, testRun: TestRun) {
+    const pullNumber = testRun.pullNumber ?? await githubService.findPullRequestForCommit(config, testRun.commitSha!);
+    if (!pullNumber) return;
+
+    const results = await storage.getTestRunResults(testRun.id);
+    const gates = await this.evaluateQualityGates(project.id, testRun);
+    const comment = await githubService.createPullRequestComment(config, pullNumber, this.formatComment(testRun, results, gates));
+
+    logger.info(`Commented on pull request #${pullNumber} with the failures of run ${testRun.id}`, {
+      projectId: project.id,
+      testRunId: testRun.id,
+      pullNumber,
+      commentUrl: comment.url
+    }, 'GITHUB_REPORTING');
+  }
+
+  /**
+   * Pass rate of the run and line coverage of the latest report, against their thresholds
+   */
+  async evaluateQualityGates(projectId: number, testRun: TestRun): Promise<QualityGateVerdict[]> {
+    const summary = (testRun.summary as any) || {};
+    const coverage = await coverageService.getLatestTotals(projectId);
+    const passRate = typeof summary.passRate === 'number' ? summary.passRate : null;
+    const lineCoverage = coverage?.lines.pct ?? null;
+
+    return [
+      {
+        name: 'Test pass rate',
+        passed: passRate !== null && passRate >= PASS_RATE_THRESHOLD,
+        current: passRate,
+        threshold: PASS_RATE_THRESHOLD,
+        unit: '%'
+      },
+      {
+        name: 'Line coverage',
+        // Not gated until a coverage report exists, as in the analysis workflow
+        passed: lineCoverage === null || lineCoverage >= ENV.COVERAGE_THRESHOLD,
+        current: lineCoverage,
+        threshold: ENV.COVERAGE_THRESHOLD,
+        unit: '%'
+      }
+    ];
+  }
+
+  private formatComment(testRun: TestRun, results: TestRunResult[], gates: QualityGateVerdict[]): string {
+    const summary = (testRun.summary as any) || {};
+    // Retried tests have a result per attempt; the last one is the verdict
+    const finalResults = new Map<string, TestRunResult>();
+    for (const result of results) {
+      const key = String(result.testCaseId ?? result.testCaseName);
+      const current = finalResults.get(key);
+      if (!current || (result.attempt || 1) >= (current.attempt || 1)) finalResults.set(key, result);
+    }
+    const failures = Array.from(finalResults.values()).filter(result => result.status === 'failed');
+
+    const lines = [
+      `### MATT test run #${testRun.id}: ${summary.failed} of ${summary.total} tests failed`,
+      '',
+      `Commit ${testRun.commitSha} · ${summary.passed} passed · ${summary.failed} failed · ${summary.skipped} skipped` +
+        (summary.flaky ? ` · ${summary.flaky} flaky` : ''),
+      '',
+      '#### Quality gates',
+      '',
+      '| Gate | Result | Current | Threshold |',
+      '| --- | --- | --- | --- |',
+      ...gates.map(gate => {
+        const current = gate.current === null ? 'n/a' : `${gate.current}${gate.unit}`;
+        const verdict = gate.current === null && gate.passed ? '➖ Not measured' : gate.passed ? '✅ Passed' : '❌ Failed';
+        return `| ${gate.name} | ${verdict} | ${current} | ${gate.threshold}${gate.unit} |`;
+      }),
+      '',
+      '#### Failed tests',
+      ''
+    ];
+
+    for (const failure of failures.slice(0, MAX_COMMENTED_FAILURES)) {
+      const error = ((failure.errors as string[] | null) || [])[0];
+      lines.push(`- **${this.escapeMarkdown(failure.testCaseName)}**`);
+      if (error) {
+        const excerpt = error.length > MAX_ERROR_CHARS ? `${error.slice(0, MAX_ERROR_CHARS)}…` : error;
+        lines.push(`  \`${excerpt.replace(/\s+/g, ' ').replace(/`/g, "'")}\``);
+      }
+    }
+    if (failures.length > MAX_COMMENTED_FAILURES) {
+      lines.push(`- … and ${failures.length - MAX_COMMENTED_FAILURES} more`);
+    }
+
+    lines.push('', `[View the full run](${this.runUrl(testRun.id)})`);
+    return lines.join('\n');
+  }
+
+  private stateOf(testRun: TestRun): GitHubCommitState | null {
+    switch (testRun.status) {
+      case 'running':
+        return 'pending';
+      case 'completed':
+        return ((testRun.summary as any)?.failed ?? 0) > 0 ? 'failure' : 'success';
+      case 'failed':
+      case 'cancelled':
+        return 'error';
+      default:
+        return null;
+    }
+  }
+
+  private describe(testRun: TestRun): string {
+    const summary = (testRun.summary as any) || {};
+    switch (testRun.status) {
+      case 'running':
+        return `Running ${((testRun.testCaseIds as number[] | null) || []).length} tests`;
+      case 'completed':
+        return `${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped (${summary.passRate}% pass rate)`;
+      case 'cancelled':
+        return 'Run cancelled';
+      default:
+        return `Run failed: ${testRun.error || 'unknown error'}`;
+    }
+  }
+
+  // Only GitHub projects with a repository and a token to write with are reported
+  private configFor(project: Project): GitHubConfig | null {
+    if (project.sourceType !== 'github') return null;
+    const repositoryData = (project.repositoryData as any) || {};
+    const accessToken = repositoryData.accessToken || ENV.GITHUB_TOKEN;
+    if (!repositoryData.owner || !repositoryData.repo || !accessToken) return null;
+    return { owner: repositoryData.owner, repo: repositoryData.repo, accessToken };
+  }
+
+  private runUrl(testRunId: number): string {
+    return `${ENV.PUBLIC_APP_URL}/api/test-runs/${testRunId}`;
+  }
+
+  private escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<>|])/g, '\\$1');
+  }
+}
+
+export const githubReportingService = new GitHubReportingService();
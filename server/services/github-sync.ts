@@ -0,0 +1,226 @@
+/**
+ * GitHub Sync Service
+ * Brings a GitHub project's workspace up to date with its branch, downloading only the files that
+ * changed since the commit it was last synced at, and checks out other commits for single test runs
+ */
+
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { githubService, type GitHubConfig, type GitHubChangedFile } from './github-integration';
+import { projectWorkspace } from './project-workspace';
+import { mlTestingIntelligence, type CodeChangeImpact } from './ml-testing-intelligence';
+import type { Project } from '@shared/schema';
+
+export interface GitHubSyncOptions {
+  // Run smart test selection on the changed files
+  selectTests?: boolean;
+}
+
+export interface GitHubSyncResult {
+  upToDate: boolean;
+  // True when the whole tree was downloaded again instead of a diff
+  fullResync: boolean;
+  branch: string;
+  fromSha: string | null;
+  toSha: string;
+  changedFiles: GitHubChangedFile[];
+  downloadedFiles: number;
+  removedFiles: number;
+  syncedAt: string;
+  testSelection?: CodeChangeImpact;
+}
+
+export class GitHubSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitHubSyncError';
+  }
+}
+
+// Entries kept in repositoryData.syncHistory, newest first
+const MAX_SYNC_HISTORY = 20;
+
+export class GitHubSyncService {
+  private inFlight = new Map<number, Promise<{ project: Project; result: GitHubSyncResult }>>();
+
+  /**
+   * Sync a project with the head of its branch. Concurrent requests for the same project share one sync.
+   */
+  syncProject(project: Project, options: GitHubSyncOptions = {}): Promise<{ project: Project; result: GitHubSyncResult }> {
+    const running = this.inFlight.get(project.id);
+    if (running) return running;
+
+    const sync = this.runSync(project, options).finally(() => this.inFlight.delete(project.id));
+    this.inFlight.set(project.id, sync);
+    return sync;
+  }
+
+  /**
+   * Download the tree of a commit, such as a pull request's head, into a checkout of its own for one
+   * test run. The project's workspace stays at the branch it tracks. Returns the checkout directory.
+   */
+  async checkoutRevision(project: Project, testRunId: number, sha: string): Promise<string> {
+    const config = this.configFor(project);
+
+    const acquisition = await githubService.acquireProject({ ...config, branch: sha });
+    if (!acquisition.success) {
+      throw new Error(`GitHub acquisition failed: ${acquisition.error}`);
+    }
+
+    const files = acquisition.files.filter(file => file.content !== undefined);
+    await projectWorkspace.removeRun(project.id, testRunId);
+    await projectWorkspace.writeRunFiles(project.id, testRunId, files.map(file => ({ path: file.path, data: Buffer.from(file.content!) })));
+
+    logger.info(`Checked out ${sha.slice(0, 12)} for test run ${testRunId}`, {
+      projectId: project.id,
+      testRunId,
+      commitSha: sha,
+      files: files.length
+    }, 'GITHUB_SYNC');
+    return projectWorkspace.runRootFor(project.id, testRunId);
+  }
+
+  private async runSync(project: Project, options: GitHubSyncOptions): Promise<{ project: Project; result: GitHubSyncResult }> {
+    const repositoryData = (project.repositoryData as any) || {};
+    const config = this.configFor(project);
+
+    const branch = config.branch || repositoryData.repository?.default_branch || 'main';
+    const fromSha: string | null = project.commitSha || repositoryData.commitSha || null;
+    const toSha = await githubService.getCommitSha(config, branch);
+    const syncedAt = new Date().toISOString();
+
+    if (fromSha === toSha) {
+      logger.info(`Project ${project.id} is already at ${toSha.slice(0, 12)}`, { projectId: project.id, branch, commitSha: toSha }, 'GITHUB_SYNC');
+      return {
+        project,
+        result: { upToDate: true, fullResync: false, branch, fromSha, toSha, changedFiles: [], downloadedFiles: 0, removedFiles: 0, syncedAt }
+      };
+    }
+
+    const diff = fromSha ? await githubService.compareCommits(config, fromSha, toSha) : null;
+    const { changedFiles, downloadedFiles, removedFiles } = diff
+      ? await this.applyDiff(project.id, config, diff, toSha)
+      : await this.resyncAll(project.id, config, toSha);
+
+    const result: GitHubSyncResult = {
+      upToDate: false,
+      fullResync: diff === null,
+      branch,
+      fromSha,
+      toSha,
+      changedFiles,
+      downloadedFiles,
+      removedFiles,
+      syncedAt
+    };
+
+    const workspaceFiles = await projectWorkspace.listFiles(project.id);
+    const historyEntry = { fromSha, toSha, syncedAt, fullResync: result.fullResync, changedFiles };
+    const updated = await storage.updateProject(project.id, {
+      commitSha: toSha,
+      repositoryData: {
+        ...repositoryData,
+        commitSha: toSha,
+        fileCount: workspaceFiles.length,
+        syncHistory: [historyEntry, ...(repositoryData.syncHistory || [])].slice(0, MAX_SYNC_HISTORY)
+      }
+    });
+
+    if (options.selectTests && changedFiles.length > 0) {
+      result.testSelection = await mlTestingIntelligence.selectTestsForCodeChanges(
+        project.id,
+        changedFiles.map(file => file.path)
+      );
+    }
+
+    logger.info(`Synced project ${project.id} to ${toSha.slice(0, 12)}`, {
+      projectId: project.id,
+      branch,
+      fromSha,
+      toSha,
+      fullResync: result.fullResync,
+      changedFiles: changedFiles.length,
+      downloadedFiles,
+      removedFiles,
+      impactedTests: result.testSelection?.impactedTests.length
+    }, 'GITHUB_SYNC');
+
+    return { project: updated || project, result };
+  }
+
+  /**
+   * Apply a compare result to the workspace: download added and modified files, delete removed ones
+   */
+  private async applyDiff(projectId: number, config: GitHubConfig, diff: GitHubChangedFile[], toSha: string) {
+    const changedFiles = diff.filter(file => this.inScope(config, file.path) || (file.previousPath && this.inScope(config, file.previousPath)));
+
+    const removedPaths = changedFiles.flatMap(file => {
+      if (file.status === 'removed') return [file.path];
+      if (file.status === 'renamed' && file.previousPath) return [file.previousPath];
+      return [];
+    });
+    const fetchPaths = changedFiles
+      .filter(file => file.status !== 'removed' && file.status !== 'unchanged' && this.inScope(config, file.path))
+      .map(file => file.path);
+
+    const downloaded = await githubService.downloadFilesAt(config, fetchPaths, toSha);
+    await projectWorkspace.writeFiles(projectId, downloaded.map(file => ({ path: file.path, data: Buffer.from(file.content) })));
+    const removedFiles = await projectWorkspace.removeFiles(projectId, removedPaths);
+
+    return { changedFiles, downloadedFiles: downloaded.length, removedFiles };
+  }
+
+  /**
+   * Replace the workspace with a fresh download of the whole tree, reporting every file as added
+   */
+  private async resyncAll(projectId: number, config: GitHubConfig, toSha: string) {
+    logger.info(`Downloading the full tree of ${config.owner}/${config.repo} for project ${projectId}`, {
+      projectId,
+      toSha
+    }, 'GITHUB_SYNC');
+
+    const acquisition = await githubService.acquireProject({ ...config, branch: toSha });
+    if (!acquisition.success) {
+      throw new Error(`GitHub acquisition failed: ${acquisition.error}`);
+    }
+
+    const files = acquisition.files.filter(file => file.content !== undefined);
+    const currentPaths = new Set(files.map(file => file.path));
+    const removedFiles = (await projectWorkspace.listFiles(projectId)).filter(file => !currentPaths.has(file.path)).length;
+    await projectWorkspace.remove(projectId);
+    await projectWorkspace.writeFiles(projectId, files.map(file => ({ path: file.path, data: Buffer.from(file.content!) })));
+
+    return {
+      changedFiles: files.map(file => ({ path: file.path, status: 'added' as const })),
+      downloadedFiles: files.length,
+      removedFiles
+    };
+  }
+
+  private configFor(project: Project): GitHubConfig {
+    if (project.sourceType !== 'github') {
+      throw new GitHubSyncError(`Only GitHub projects can be synced, not ${project.sourceType} projects`);
+    }
+
+    const repositoryData = (project.repositoryData as any) || {};
+    const config: GitHubConfig = {
+      owner: repositoryData.owner,
+      repo: repositoryData.repo,
+      branch: repositoryData.branch,
+      path: repositoryData.path,
+      accessToken: repositoryData.accessToken
+    };
+    if (!config.owner || !config.repo) {
+      throw new GitHubSyncError('Project is missing its GitHub owner and repository');
+    }
+    return config;
+  }
+
+  // Projects created from a subdirectory only track files under it
+  private inScope(config: GitHubConfig, filePath: string): boolean {
+    const prefix = (config.path || '').replace(/^\/+|\/+$/g, '');
+    return !prefix || filePath === prefix || filePath.startsWith(`${prefix}/`);
+  }
+}
+
+export const githubSyncService = new GitHubSyncService();
@@ -0,0 +1,227 @@
+/**
+ * GitHub Webhook Service
+ * Verifies GitHub webhook deliveries and, for pushes and pull requests on a tracked branch, re-syncs
+ * the project and runs the tests affected by the changed files
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger, withLogCorrelation } from '../logger';
+import { githubService, type GitHubConfig, type GitHubChangedFile } from './github-integration';
+import { githubSyncService } from './github-sync';
+import { mlTestingIntelligence } from './ml-testing-intelligence';
+import { enqueueTestRun } from './background-jobs';
+import type { Project } from '@shared/schema';
+
+export interface WebhookAcceptance {
+  accepted: boolean;
+  reason?: string;
+  projectIds: number[];
+}
+
+interface WebhookTrigger {
+  event: 'push' | 'pull_request';
+  deliveryId: string;
+  repository: string; // owner/repo
+  branch: string;
+  headSha: string;
+  pullNumber?: number;
+  // Files listed in the push payload, used when the sync has no diff of its own
+  pushedFiles: string[];
+}
+
+const PULL_REQUEST_ACTIONS = new Set(['opened', 'synchronize', 'reopened', 'ready_for_review']);
+const DELETED_SHA = /^0+$/;
+// GitHub redelivers on timeouts; remember this many delivery ids to skip repeats
+const MAX_REMEMBERED_DELIVERIES = 500;
+
+export class GitHubWebhookService {
+  private recentDeliveries = new Set<string>();
+
+  isConfigured(): boolean {
+    return !!ENV.GITHUB_WEBHOOK_SECRET;
+  }
+
+  /**
+   * Check the X-Hub-Signature-256 header against an HMAC of the raw request body
+   */
+  verifySignature(rawBody: Buffer | undefined, signatureHeader: string | undefined): boolean {
+    if (!rawBody || !signatureHeader || !signatureHeader.startsWith('sha256=')) return false;
+
+    const expected = crypto.createHmac('sha256', ENV.GITHUB_WEBHOOK_SECRET).update(rawBody).digest();
+    const received = Buffer.from(signatureHeader.slice('sha256='.length), 'hex');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  /**
+   * Match a delivery to the projects tracking its repository and branch, and process it in the
+   * background: GitHub gives up on a delivery after ten seconds, which a sync can easily exceed.
+   */
+  async accept(event: string, deliveryId: string, payload: any): Promise<WebhookAcceptance> {
+    if (deliveryId && this.recentDeliveries.has(deliveryId)) {
+      return { accepted: false, reason: 'Delivery already processed', projectIds: [] };
+    }
+    this.rememberDelivery(deliveryId);
+
+    const trigger = this.toTrigger(event, deliveryId, payload);
+    if (typeof trigger === 'string') {
+      return { accepted: false, reason: trigger, projectIds: [] };
+    }
+
+    const projects = await this.findTrackedProjects(trigger.repository, trigger.branch);
+    if (projects.length === 0) {
+      return { accepted: false, reason: `No project tracks ${trigger.repository}@${trigger.branch}`, projectIds: [] };
+    }
+
+    for (const project of projects) {
+      withLogCorrelation({ projectId: project.id }, () => this.process(project, trigger)).catch(error => {
+        logger.error(`Failed to process GitHub ${trigger.event} for project ${project.id}`, {
+          projectId: project.id,
+          deliveryId,
+          error: error instanceof Error ? error.message : String(error)
+        }, 'GITHUB_WEBHOOK');
+      });
+    }
+
+    logger.info(`Accepted GitHub ${trigger.event} on ${trigger.repository}@${trigger.branch}`, {
+      deliveryId,
+      headSha: trigger.headSha,
+      pullNumber: trigger.pullNumber,
+      projectIds: projects.map(project => project.id)
+    }, 'GITHUB_WEBHOOK');
+    return { accepted: true, projectIds: projects.map(project => project.id) };
+  }
+
+  /**
+   * Sync the project, select the tests the change affects, and queue a run of them
+   */
+  private async process(project: Project, trigger: WebhookTrigger) {
+    const { project: synced, result } = await githubSyncService.syncProject(project);
+    const repositoryData = (synced.repositoryData as any) || {};
+    const config: GitHubConfig = {
+      owner: repositoryData.owner,
+      repo: repositoryData.repo,
+      accessToken: repositoryData.accessToken
+    };
+
+    let changedFiles: string[];
+    if (trigger.pullNumber !== undefined) {
+      changedFiles = this.paths(await githubService.getPullRequestFiles(config, trigger.pullNumber));
+    } else if (!result.upToDate && !result.fullResync) {
+      changedFiles = this.paths(result.changedFiles);
+    } else {
+      changedFiles = trigger.pushedFiles;
+    }
+
+    if (changedFiles.length === 0) {
+      logger.info(`No changed files in GitHub ${trigger.event}, nothing to test`, { projectId: project.id, deliveryId: trigger.deliveryId }, 'GITHUB_WEBHOOK');
+      return;
+    }
+
+    const impact = await mlTestingIntelligence.selectTestsForCodeChanges(project.id, changedFiles);
+    if (impact.impactedTests.length === 0) {
+      logger.info(`No tests affected by ${changedFiles.length} changed files`, {
+        projectId: project.id,
+        deliveryId: trigger.deliveryId,
+        changedFiles: changedFiles.length
+      }, 'GITHUB_WEBHOOK');
+      return;
+    }
+
+    const testRun = await storage.createTestRun({
+      projectId: project.id,
+      framework: 'jest',
+      status: 'queued',
+      triggeredBy: 'webhook',
+      testCaseIds: impact.impactedTests.map(test => test.testCaseId),
+      commitSha: trigger.headSha,
+      pullNumber: trigger.pullNumber ?? null
+    });
+    const job = await enqueueTestRun(project.id, testRun.id);
+
+    logger.info(`Queued ${impact.impactedTests.length} impacted tests for GitHub ${trigger.event}`, {
+      projectId: project.id,
+      testRunId: testRun.id,
+      jobId: job.id,
+      deliveryId: trigger.deliveryId,
+      headSha: trigger.headSha,
+      pullNumber: trigger.pullNumber,
+      changedFiles: changedFiles.length,
+      riskLevel: impact.riskLevel
+    }, 'GITHUB_WEBHOOK');
+  }
+
+  /**
+   * Read the parts of a push or pull_request payload a run needs. Returns the reason for ignoring
+   * any other delivery.
+   */
+  private toTrigger(event: string, deliveryId: string, payload: any): WebhookTrigger | string {
+    const repository = payload?.repository?.full_name;
+    if (event === 'ping') return 'pong';
+    if (event !== 'push' && event !== 'pull_request') return `Ignoring ${event} event`;
+    if (typeof repository !== 'string') return 'Payload has no repository';
+
+    if (event === 'push') {
+      const ref: string = payload.ref || '';
+      if (!ref.startsWith('refs/heads/')) return `Ignoring push to ${ref}`;
+      if (payload.deleted || DELETED_SHA.test(payload.after || '')) return 'Ignoring branch deletion';
+
+      const pushedFiles = new Set<string>();
+      for (const commit of payload.commits || []) {
+        for (const file of [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]) {
+          pushedFiles.add(file);
+        }
+      }
+      return {
+        event,
+        deliveryId,
+        repository,
+        branch: ref.slice('refs/heads/'.length),
+        headSha: payload.after,
+        pushedFiles: Array.from(pushedFiles)
+      };
+    }
+
+    if (!PULL_REQUEST_ACTIONS.has(payload.action)) return `Ignoring pull_request ${payload.action}`;
+    const pullRequest = payload.pull_request;
+    if (!pullRequest?.head?.sha || !pullRequest?.base?.ref) return 'Payload has no pull request';
+    return {
+      event,
+      deliveryId,
+      repository,
+      branch: pullRequest.base.ref,
+      headSha: pullRequest.head.sha,
+      pullNumber: pullRequest.number,
+      pushedFiles: []
+    };
+  }
+
+  /**
+   * GitHub projects whose repository and branch match; a project without a branch tracks the default one
+   */
+  private async findTrackedProjects(repository: string, branch: string): Promise<Project[]> {
+    const projects = await storage.getAllProjects();
+    return projects.filter(project => {
+      if (project.sourceType !== 'github') return false;
+      const data = (project.repositoryData as any) || {};
+      const trackedBranch = data.branch || data.repository?.default_branch;
+      return `${data.owner}/${data.repo}`.toLowerCase() === repository.toLowerCase() && trackedBranch === branch;
+    });
+  }
+
+  private paths(files: GitHubChangedFile[]): string[] {
+    return Array.from(new Set(files.flatMap(file => file.previousPath ? [file.path, file.previousPath] : [file.path])));
+  }
+
+  private rememberDelivery(deliveryId: string) {
+    if (!deliveryId) return;
+    this.recentDeliveries.add(deliveryId);
+    if (this.recentDeliveries.size > MAX_REMEMBERED_DELIVERIES) {
+      const oldest = this.recentDeliveries.values().next().value;
+      if (oldest !== undefined) this.recentDeliveries.delete(oldest);
+    }
+  }
+}
+
+export const githubWebhookService = new GitHubWebhookService();
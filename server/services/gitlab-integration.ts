@@ -0,0 +1,388 @@
+/**
+ * GitLab Integration Service
+ * Handles code acquisition from GitLab repositories, on gitlab.com or a self-hosted instance
+ */
+
+import { ENV } from '../config';
+import { isCodeFile, MAX_CODE_FILE_BYTES } from '../utils/codeFiles';
+
+export interface GitLabConfig {
+  // Instance URL, e.g. https://gitlab.example.com; defaults to GITLAB_URL
+  serverUrl?: string;
+  // Full path of the project, including any subgroups: group/subgroup/project
+  projectPath: string;
+  branch?: string;
+  path?: string;
+  accessToken?: string;
+}
+
+interface GitLabFile {
+  path: string;
+  name: string;
+  type: 'file';
+  content?: string;
+  sha: string;
+  size?: number;
+}
+
+interface GitLabTreeEntry {
+  id: string;
+  name: string;
+  type: 'blob' | 'tree' | 'commit';
+  path: string;
+  mode: string;
+}
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description?: string | null;
+  visibility: 'private' | 'internal' | 'public';
+  default_branch: string;
+  star_count: number;
+  forks_count: number;
+  topics?: string[];
+  web_url: string;
+  readme_url?: string | null;
+  created_at: string;
+  last_activity_at: string;
+}
+
+export class GitLabIntegrationService {
+  /**
+   * Acquire project files from GitLab repository
+   */
+  async acquireProject(config: GitLabConfig): Promise<{
+    repository: GitLabProject;
+    files: GitLabFile[];
+    metadata: any;
+    commitSha?: string;
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      console.log(`🔄 Acquiring project from GitLab: ${config.projectPath}`);
+
+      // Get repository metadata
+      const repository = await this.getProject(config);
+      console.log(`📦 Found repository: ${repository.path_with_namespace} (${repository.visibility})`);
+
+      // Get repository content
+      const branch = config.branch || repository.default_branch;
+      const path = config.path || '';
+
+      // Pin the branch head first, so every file comes from the same commit
+      const commitSha = await this.getCommitSha(config, branch);
+      console.log(`🌿 Fetching content from branch: ${branch} (${commitSha.slice(0, 12)})`);
+      const files = await this.getRepositoryTree(config, path, commitSha);
+
+      // Filter and download code files
+      const codeFiles = await this.downloadCodeFiles(config, files, commitSha);
+
+      console.log(`✅ Successfully acquired ${codeFiles.length} code files from GitLab`);
+
+      return {
+        repository,
+        files: codeFiles,
+        metadata: {
+          branch,
+          commitSha,
+          path,
+          totalFiles: codeFiles.length,
+          languages: await this.getRepositoryLanguages(config),
+          readme: await this.getReadme(config, repository, commitSha)
+        },
+        commitSha,
+        success: true
+      };
+
+    } catch (error) {
+      console.error('❌ GitLab acquisition failed:', error);
+      return {
+        repository: {} as GitLabProject,
+        files: [],
+        metadata: null,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Resolve a branch, tag or SHA to the commit it points at
+   */
+  async getCommitSha(config: GitLabConfig, ref: string): Promise<string> {
+    const response = await this.makeGitLabRequest(
+      config,
+      `${this.projectEndpoint(config)}/repository/commits/${encodeURIComponent(ref)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to resolve ${ref}: ${response.status} ${response.statusText}`);
+    }
+
+    const commit = await response.json();
+    return commit.id;
+  }
+
+  /**
+   * Get repository information
+   */
+  private async getProject(config: GitLabConfig): Promise<GitLabProject> {
+    const response = await this.makeGitLabRequest(config, this.projectEndpoint(config));
+
+    if (!response.ok) {
+      throw new Error(`Failed to get repository: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * List every file under a path at a commit. GitLab lists the whole tree recursively, a page at a time.
+   */
+  private async getRepositoryTree(config: GitLabConfig, path: string, ref: string): Promise<GitLabFile[]> {
+    const files: GitLabFile[] = [];
+
+    for (let page: string | null = '1'; page; ) {
+      const params = new URLSearchParams({ ref, recursive: 'true', per_page: '100', page });
+      if (path) params.set('path', path);
+
+      const response = await this.makeGitLabRequest(config, `${this.projectEndpoint(config)}/repository/tree?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Failed to get repository content: ${response.status} ${response.statusText}`);
+      }
+
+      const entries: GitLabTreeEntry[] = await response.json();
+      for (const entry of entries) {
+        if (entry.type === 'blob') {
+          files.push({ path: entry.path, name: entry.name, type: 'file', sha: entry.id });
+        }
+      }
+
+      page = response.headers.get('x-next-page') || null;
+    }
+
+    return files;
+  }
+
+  /**
+   * Download code files
+   */
+  private async downloadCodeFiles(
+    config: GitLabConfig,
+    files: GitLabFile[],
+    ref: string
+  ): Promise<GitLabFile[]> {
+    const codeFiles = files.filter(file => isCodeFile(file.name));
+
+    const downloadedFiles: GitLabFile[] = [];
+
+    // Limit concurrent downloads
+    const batchSize = 10;
+    for (let i = 0; i < codeFiles.length; i += batchSize) {
+      const batch = codeFiles.slice(i, i + batchSize);
+
+      const downloads = batch.map(async (file): Promise<GitLabFile | null> => {
+        try {
+          const data = await this.downloadFile(config, file.path, ref);
+          // The tree listing carries no sizes, so large files are only dropped once their size is known
+          if (data.size >= MAX_CODE_FILE_BYTES) return null;
+          return {
+            ...file,
+            size: data.size,
+            content: Buffer.from(data.content, 'base64').toString('utf-8')
+          };
+        } catch (error) {
+          console.warn(`⚠️ Failed to download file ${file.path}:`, error);
+          return file;
+        }
+      });
+
+      const results = await Promise.all(downloads);
+      downloadedFiles.push(...results.filter((file): file is GitLabFile => file !== null));
+    }
+
+    return downloadedFiles;
+  }
+
+  /**
+   * Download a single file
+   */
+  private async downloadFile(
+    config: GitLabConfig,
+    path: string,
+    ref: string
+  ): Promise<{ size: number; content: string }> {
+    const params = new URLSearchParams({ ref });
+    const response = await this.makeGitLabRequest(
+      config,
+      `${this.projectEndpoint(config)}/repository/files/${encodeURIComponent(path)}?${params}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get repository languages, as percentages of the code
+   */
+  private async getRepositoryLanguages(config: GitLabConfig): Promise<Record<string, number>> {
+    try {
+      const response = await this.makeGitLabRequest(config, `${this.projectEndpoint(config)}/languages`);
+
+      if (!response.ok) {
+        return {};
+      }
+
+      return response.json();
+    } catch (error) {
+      console.warn('Failed to get repository languages:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Get README content
+   */
+  private async getReadme(config: GitLabConfig, repository: GitLabProject, ref: string): Promise<string | null> {
+    try {
+      // readme_url points at the README GitLab renders, e.g. .../-/blob/main/docs/README.md
+      const readmePath = repository.readme_url?.split('/-/blob/')[1]?.split('/').slice(1).join('/') || 'README.md';
+      const data = await this.downloadFile(config, decodeURIComponent(readmePath), ref);
+      return Buffer.from(data.content, 'base64').toString('utf-8');
+    } catch (error) {
+      console.warn('Failed to get README:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Test GitLab connection
+   */
+  async testConnection(accessToken?: string, serverUrl?: string): Promise<{
+    connected: boolean;
+    userInfo?: any;
+    version?: string;
+    rateLimit?: any;
+    error?: string;
+  }> {
+    try {
+      const config: GitLabConfig = { serverUrl, projectPath: '', accessToken };
+
+      // Get user info
+      const userResponse = await this.makeGitLabRequest(config, '/user');
+
+      if (!userResponse.ok && userResponse.status !== 401) {
+        throw new Error(`Connection test failed: ${userResponse.status} ${userResponse.statusText}`);
+      }
+
+      const userInfo = userResponse.ok ? await userResponse.json() : null;
+
+      // The version endpoint needs a token; self-hosted instances can lag far behind gitlab.com
+      const versionResponse = userResponse.ok ? await this.makeGitLabRequest(config, '/version') : null;
+      const version = versionResponse?.ok ? (await versionResponse.json()).version : undefined;
+
+      // GitLab reports rate limits in response headers only
+      const limit = userResponse.headers.get('ratelimit-limit');
+      const rateLimit = limit
+        ? { limit: Number(limit), remaining: Number(userResponse.headers.get('ratelimit-remaining')), reset: Number(userResponse.headers.get('ratelimit-reset')) }
+        : null;
+
+      return {
+        connected: true,
+        userInfo,
+        version,
+        rateLimit,
+        error: userResponse.status === 401 ? 'Invalid token or unauthorized' : undefined
+      };
+
+    } catch (error) {
+      return {
+        connected: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Search repositories
+   */
+  async searchRepositories(query: string, config?: Partial<GitLabConfig>): Promise<{
+    repositories: GitLabProject[];
+    total_count: number;
+    success: boolean;
+    error?: string;
+  }> {
+    try {
+      const params = new URLSearchParams({
+        search: query,
+        order_by: 'last_activity_at',
+        sort: 'desc',
+        per_page: '10'
+      });
+
+      const response = await this.makeGitLabRequest(
+        { projectPath: '', ...config },
+        `/projects?${params}`
+      );
+
+      if (!response.ok) {
+        throw new Error(`Search failed: ${response.status} ${response.statusText}`);
+      }
+
+      const repositories: GitLabProject[] = await response.json();
+      // GitLab omits the total on large result sets
+      const total = response.headers.get('x-total');
+
+      return {
+        repositories,
+        total_count: total ? Number(total) : repositories.length,
+        success: true
+      };
+
+    } catch (error) {
+      return {
+        repositories: [],
+        total_count: 0,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  private projectEndpoint(config: GitLabConfig): string {
+    return `/projects/${encodeURIComponent(config.projectPath)}`;
+  }
+
+  /**
+   * Make authenticated request to GitLab API
+   */
+  private async makeGitLabRequest(config: GitLabConfig, endpoint: string): Promise<Response> {
+    const serverUrl = (config.serverUrl || ENV.GITLAB_URL).replace(/\/+$/, '');
+    if (!/^https?:\/\//i.test(serverUrl)) {
+      throw new Error(`Invalid GitLab URL "${serverUrl}". Use an http or https URL`);
+    }
+    const url = `${serverUrl}/api/v4${endpoint}`;
+
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+      'User-Agent': 'MATT-Automated-Testing-Tool'
+    };
+
+    // Use provided token or fall back to environment token, which is only ever sent to its own instance
+    const token = config.accessToken || (serverUrl === ENV.GITLAB_URL ? ENV.GITLAB_TOKEN : '');
+    if (token) {
+      headers['PRIVATE-TOKEN'] = token;
+    }
+
+    return fetch(url, { headers });
+  }
+}
+
+export const gitlabService = new GitLabIntegrationService();
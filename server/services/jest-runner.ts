@@ -0,0 +1,540 @@
+/**
+ * Jest Runner Service
+ * Executes generated test scripts with Jest in a child process with a minimal environment, under the
+ * Node.js permission model: the process may only read the run workspace, the project's sources and the
+ * application's node_modules, may only write the run workspace, and cannot spawn processes, start
+ * workers or reach native bindings. Network access is not restricted by the permission model.
+ */
+
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { ENV } from '../config';
+import { logger } from '../logger';
+import { throwIfCancelled } from '../utils/cancellation';
+import { POSTMAN_RUNTIME_FILE, POSTMAN_RUNTIME_SOURCE } from './postman-runtime';
+import { CONTRACT_RUNTIME_FILE, CONTRACT_RUNTIME_SOURCE } from './contract-runtime';
+
+export interface RunnableTestCase {
+  id: number;
+  name: string;
+  testScript?: string | null;
+}
+
+export interface AssertionResult {
+  title: string;
+  fullName: string;
+  status: 'passed' | 'failed' | 'pending' | 'skipped' | 'todo' | 'disabled';
+  duration: number;
+  failureMessages: string[];
+}
+
+export interface JestTestCaseResult {
+  testCaseId: number;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  assertions: AssertionResult[];
+  errors: string[];
+  stdout: string;
+  artifacts: CollectedArtifact[];
+}
+
+export interface CollectedArtifact {
+  // Path relative to the test's artifact directory
+  fileName: string;
+  data: Buffer;
+}
+
+export interface JestProgressEvent {
+  testCaseId: number;
+  name: string;
+  phase: 'started' | 'finished';
+  status?: 'passed' | 'failed' | 'skipped';
+  duration?: number;
+}
+
+export interface JestRunOptions {
+  runId: string;
+  timeoutMs?: number;
+  onProgress?: (event: JestProgressEvent) => void;
+  // Aborting kills the Jest process and rejects with a CancellationError
+  signal?: AbortSignal;
+  // Receives the Istanbul coverage map of the project's sources, keyed by path relative to sourceDir
+  onCoverage?: (coverageMap: Record<string, any>) => void;
+  // Project workspace the tests exercise, exposed to them as PROJECT_SOURCE_DIR; coverage is only
+  // collected when it is set
+  sourceDir?: string;
+  // Variables exposed to the test scripts, e.g. the base URL of the API under test
+  environment?: Record<string, string>;
+}
+
+// Variables the runner sets itself, which a run environment cannot override
+const RESERVED_ENV_KEYS = new Set(['PATH', 'HOME', 'NODE_ENV', 'CI', 'NODE_OPTIONS', 'PROJECT_SOURCE_DIR']);
+
+// Core modules test scripts may not load; the permission model blocks them too, the stubs explain why
+const DENIED_MODULES = ['child_process', 'cluster', 'worker_threads', 'inspector'];
+
+// Output captured from the child process is capped to keep result payloads small
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// Jest highlights the code frames of failure messages even with --colors=false
+const ANSI_ESCAPE_PATTERN = /\x1b\[[0-9;]*m/g;
+
+// Prefix for progress lines written to stderr by the workspace reporter
+const PROGRESS_MARKER = '__JEST_RUNNER_PROGRESS__';
+
+// Reporter loaded by Jest inside the workspace; reports each file as it starts and finishes
+const PROGRESS_REPORTER_SOURCE = `
+class ProgressReporter {
+  onTestStart(test) {
+    this.write({ phase: 'started', file: test.path });
+  }
+
+  onTestResult(test, result) {
+    const failed = result.numFailingTests > 0 || Boolean(result.testExecError) || Boolean(result.failureMessage);
+    this.write({
+      phase: 'finished',
+      file: test.path,
+      status: failed ? 'failed' : result.numPassingTests > 0 ? 'passed' : 'skipped',
+      duration: result.perfStats ? result.perfStats.end - result.perfStats.start : 0,
+      // The file's own console output, which the JSON report leaves out
+      console: (result.console || []).map(entry => entry.type + ': ' + entry.message).join('\\n').slice(0, ${MAX_OUTPUT_LENGTH})
+    });
+  }
+
+  write(event) {
+    process.stderr.write('${PROGRESS_MARKER}' + JSON.stringify(event) + '\\n');
+  }
+}
+
+module.exports = ProgressReporter;
+`;
+
+// Gives every test file its own directory for screenshots, traces and logs via TEST_ARTIFACTS_DIR
+const ARTIFACTS_SETUP_SOURCE = `
+const fs = require('fs');
+const path = require('path');
+
+const testName = path.basename(expect.getState().testPath, '.test.js');
+process.env.TEST_ARTIFACTS_DIR = path.join(__dirname, 'artifacts', testName);
+fs.mkdirSync(process.env.TEST_ARTIFACTS_DIR, { recursive: true });
+`;
+
+// Files installed next to the test scripts of every run; scripts require the runtimes by file name
+const WORKSPACE_HELPERS: Record<string, string> = {
+  // Module resolution looks for the closest package.json and must stop before the unreadable parents
+  'package.json': '{ "private": true }\n',
+  'progress-reporter.cjs': PROGRESS_REPORTER_SOURCE,
+  'artifacts-setup.cjs': ARTIFACTS_SETUP_SOURCE,
+  [POSTMAN_RUNTIME_FILE]: POSTMAN_RUNTIME_SOURCE,
+  [CONTRACT_RUNTIME_FILE]: CONTRACT_RUNTIME_SOURCE
+};
+
+export class JestRunner {
+  /**
+   * Run a batch of test cases in a single Jest process inside a per-run workspace
+   */
+  async runTestCases(testCases: RunnableTestCase[], options: JestRunOptions): Promise<JestTestCaseResult[]> {
+    throwIfCancelled(options.signal);
+    const workspaceDir = await this.createWorkspace(options.runId);
+    const timeoutMs = options.timeoutMs || ENV.TEST_TIMEOUT_MS;
+    const results = new Map<number, JestTestCaseResult>();
+    const runnable: { testCase: RunnableTestCase; filePath: string }[] = [];
+
+    try {
+      for (const testCase of testCases) {
+        if (!testCase.testScript || !testCase.testScript.trim()) {
+          results.set(testCase.id, this.skippedResult(testCase, 'Test case has no test script'));
+          options.onProgress?.({ testCaseId: testCase.id, name: testCase.name, phase: 'finished', status: 'skipped', duration: 0 });
+          continue;
+        }
+
+        // Jest runs scripts untransformed, so ES modules and TypeScript are rejected before it starts
+        const syntaxError = this.checkSyntax(testCase.testScript);
+        if (syntaxError) {
+          results.set(testCase.id, this.failedResult(testCase, syntaxError));
+          options.onProgress?.({ testCaseId: testCase.id, name: testCase.name, phase: 'finished', status: 'failed', duration: 0 });
+          continue;
+        }
+
+        const filePath = path.join(workspaceDir, `test-case-${testCase.id}.test.js`);
+        await fs.promises.writeFile(filePath, testCase.testScript, 'utf-8');
+        runnable.push({ testCase, filePath });
+      }
+
+      if (runnable.length > 0) {
+        const outputFile = path.join(workspaceDir, 'jest-results.json');
+        const reporterFile = path.join(workspaceDir, 'progress-reporter.cjs');
+        for (const [fileName, source] of Object.entries(WORKSPACE_HELPERS)) {
+          await fs.promises.writeFile(path.join(workspaceDir, fileName), source, 'utf-8');
+        }
+        // Scripts and helpers resolve their dependencies, e.g. ajv, from the application's node_modules;
+        // the lookup has to find them inside the workspace, since its parent directories are unreadable
+        await fs.promises.symlink(path.join(process.cwd(), 'node_modules'), path.join(workspaceDir, 'node_modules'), 'dir');
+        await fs.promises.mkdir(path.join(workspaceDir, 'denied-modules'));
+        for (const moduleName of DENIED_MODULES) {
+          const source = `throw new Error(${JSON.stringify(`${moduleName} is not available to test scripts`)});\n`;
+          await fs.promises.writeFile(path.join(workspaceDir, 'denied-modules', `${moduleName}.cjs`), source, 'utf-8');
+        }
+
+        const casesByFile = new Map(runnable.map(({ testCase, filePath }) => [path.resolve(filePath), testCase]));
+        const consoleByFile = new Map<string, string>();
+        const onProgressLine = (line: string) => {
+          const event = JSON.parse(line);
+          const testCase = casesByFile.get(path.resolve(event.file));
+          if (event.phase === 'finished' && event.console) consoleByFile.set(path.resolve(event.file), event.console);
+          if (testCase) {
+            options.onProgress?.({
+              testCaseId: testCase.id,
+              name: testCase.name,
+              phase: event.phase,
+              status: event.status,
+              duration: event.duration
+            });
+          }
+        };
+
+        const coverageSourceDir = options.onCoverage && ENV.TEST_COLLECT_COVERAGE ? options.sourceDir : undefined;
+        const processResult = await this.spawnJest(workspaceDir, outputFile, reporterFile, timeoutMs, runnable.length, onProgressLine, options.sourceDir, coverageSourceDir, options.environment || {}, options.signal);
+        throwIfCancelled(options.signal);
+        const report = await this.readReport(outputFile);
+
+        if (coverageSourceDir) {
+          const coverageMap = await this.readCoverage(workspaceDir, coverageSourceDir);
+          if (coverageMap) options.onCoverage!(coverageMap);
+        }
+
+        for (const { testCase, filePath } of runnable) {
+          const fileResult = report?.testResults?.find((r: any) => path.resolve(r.name) === path.resolve(filePath));
+          results.set(testCase.id, {
+            ...this.toTestCaseResult(testCase, fileResult, processResult, consoleByFile.get(path.resolve(filePath)) || ''),
+            artifacts: await this.collectArtifacts(path.join(workspaceDir, 'artifacts', `test-case-${testCase.id}`))
+          });
+        }
+      }
+    } finally {
+      await fs.promises.rm(workspaceDir, { recursive: true, force: true }).catch(error => {
+        logger.warn('Failed to remove test workspace', { workspaceDir, error: error.message }, 'JEST_RUNNER');
+      });
+    }
+
+    return testCases.map(tc => results.get(tc.id)!);
+  }
+
+  /**
+   * Create an empty workspace directory for a run
+   */
+  private async createWorkspace(runId: string): Promise<string> {
+    const safeRunId = runId.replace(/[^a-zA-Z0-9\-_]/g, '_');
+    const workspaceDir = path.resolve(ENV.TEST_WORKSPACE_DIR, safeRunId);
+    await fs.promises.rm(workspaceDir, { recursive: true, force: true });
+    await fs.promises.mkdir(workspaceDir, { recursive: true });
+    return workspaceDir;
+  }
+
+  /**
+   * Spawn Jest against the workspace with a minimal environment
+   */
+  private spawnJest(
+    workspaceDir: string,
+    outputFile: string,
+    reporterFile: string,
+    timeoutMs: number,
+    testCount: number,
+    onProgressLine: (line: string) => void,
+    sourceDir: string | undefined,
+    coverageSourceDir: string | undefined,
+    environment: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<{ exitCode: number | null; stdout: string; stderr: string; timedOut: boolean }> {
+    const jestBin = this.resolveJestBinary();
+    const jestConfig: Record<string, any> = {
+      rootDir: workspaceDir,
+      testEnvironment: 'node',
+      testMatch: ['<rootDir>/*.test.js'],
+      transform: {},
+      cache: false,
+      cacheDirectory: path.join(workspaceDir, '.jest-cache'),
+      testTimeout: timeoutMs,
+      // Buffers console output per file, even when a run has a single file, so the reporter can attribute it
+      verbose: false,
+      setupFilesAfterEnv: [path.join(workspaceDir, 'artifacts-setup.cjs')],
+      // require('child_process') and friends load a stub that throws
+      moduleNameMapper: {
+        [`^(node:)?(${DENIED_MODULES.join('|')})$`]: path.join(workspaceDir, 'denied-modules', '$2.cjs')
+      },
+      reporters: ['default', reporterFile]
+    };
+
+    if (coverageSourceDir) {
+      // collectCoverageFrom is relative to rootDir, so the project's sources become the root and the
+      // tests are matched by absolute path in the run workspace
+      Object.assign(jestConfig, {
+        rootDir: coverageSourceDir,
+        roots: [workspaceDir, coverageSourceDir],
+        testMatch: [path.join(workspaceDir, '*.test.js')],
+        collectCoverage: true,
+        collectCoverageFrom: ['**/*.{js,cjs,mjs}', '!**/node_modules/**', '!**/coverage/**', '!**/__tests__/**', '!**/*.{test,spec}.*'],
+        coverageProvider: 'v8',
+        coverageReporters: ['json'],
+        coverageDirectory: path.join(workspaceDir, 'coverage'),
+        coveragePathIgnorePatterns: ['/node_modules/']
+      });
+    }
+
+    const args = [
+      jestBin,
+      '--config', JSON.stringify(jestConfig),
+      '--json',
+      '--outputFile', outputFile,
+      '--ci',
+      '--runInBand',
+      '--colors=false'
+    ];
+
+    if (!process.allowedNodeEnvironmentFlags.has('--experimental-permission')) {
+      return Promise.resolve({
+        exitCode: null,
+        stdout: '',
+        stderr: `Test scripts only run under the Node.js permission model, which Node.js ${process.version} does not have; upgrade to Node.js 20 or later`,
+        timedOut: false
+      });
+    }
+
+    // Scripts run with only the variables Jest needs and the run's own environment, never the server's secrets
+    const runEnvironment = Object.fromEntries(Object.entries(environment).filter(([key]) => !RESERVED_ENV_KEYS.has(key.toUpperCase())));
+    const env: Record<string, string> = {
+      ...runEnvironment,
+      ...(sourceDir ? { PROJECT_SOURCE_DIR: sourceDir } : {}),
+      PATH: process.env.PATH || '',
+      HOME: workspaceDir,
+      NODE_ENV: 'test',
+      CI: 'true'
+    };
+
+    const permissions = [
+      '--experimental-permission',
+      '--disable-warning=ExperimentalWarning',
+      `--allow-fs-read=${workspaceDir}`,
+      `--allow-fs-read=${path.join(process.cwd(), 'node_modules')}`,
+      ...(sourceDir ? [`--allow-fs-read=${path.resolve(sourceDir)}`] : []),
+      `--allow-fs-write=${workspaceDir}`
+    ];
+
+    return new Promise((resolve) => {
+      const child = spawn(process.execPath, [...permissions, ...args], { cwd: workspaceDir, env });
+      let stdout = '';
+      let stderr = '';
+      let pendingStderr = '';
+      let timedOut = false;
+
+      const processTimeout = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs * testCount + 10000);
+
+      const abortProcess = () => child.kill('SIGKILL');
+      signal?.addEventListener('abort', abortProcess, { once: true });
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        if (stdout.length < MAX_OUTPUT_LENGTH) stdout += chunk.toString();
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        // Split progress lines out of stderr; everything else is regular Jest output
+        const lines = (pendingStderr + chunk.toString()).split('\n');
+        pendingStderr = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line.startsWith(PROGRESS_MARKER)) {
+            try {
+              onProgressLine(line.slice(PROGRESS_MARKER.length));
+            } catch (error) {
+              logger.warn('Ignoring malformed Jest progress line', { line }, 'JEST_RUNNER');
+            }
+          } else if (stderr.length < MAX_OUTPUT_LENGTH) {
+            stderr += `${line}\n`;
+          }
+        }
+      });
+
+      child.on('error', (error) => {
+        clearTimeout(processTimeout);
+        signal?.removeEventListener('abort', abortProcess);
+        logger.logError('Failed to start Jest process', error, 'JEST_RUNNER');
+        resolve({ exitCode: null, stdout, stderr: `${stderr}${error.message}`, timedOut });
+      });
+
+      child.on('close', (exitCode) => {
+        clearTimeout(processTimeout);
+        signal?.removeEventListener('abort', abortProcess);
+        if (pendingStderr && stderr.length < MAX_OUTPUT_LENGTH) stderr += pendingStderr;
+        resolve({ exitCode, stdout, stderr, timedOut });
+      });
+    });
+  }
+
+  /**
+   * Locate the Jest CLI installed alongside the application
+   */
+  private resolveJestBinary(): string {
+    const require = createRequire(path.join(process.cwd(), 'package.json'));
+    return require.resolve('jest/bin/jest');
+  }
+
+  /**
+   * Read the JSON report written by --outputFile
+   */
+  private async readReport(outputFile: string): Promise<any | null> {
+    try {
+      const content = await fs.promises.readFile(outputFile, 'utf-8');
+      return JSON.parse(content);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Read the Istanbul coverage map Jest wrote, with paths made relative to the project's sources
+   */
+  private async readCoverage(workspaceDir: string, sourceDir: string): Promise<Record<string, any> | null> {
+    try {
+      const content = await fs.promises.readFile(path.join(workspaceDir, 'coverage', 'coverage-final.json'), 'utf-8');
+      const coverageMap: Record<string, any> = JSON.parse(content);
+      const relativeMap: Record<string, any> = {};
+
+      for (const [filePath, fileCoverage] of Object.entries(coverageMap)) {
+        const relativePath = path.relative(sourceDir, filePath).split(path.sep).join('/');
+        relativeMap[relativePath] = { ...fileCoverage, path: relativePath };
+      }
+
+      return Object.keys(relativeMap).length > 0 ? relativeMap : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Read the files a test wrote to its artifact directory before the workspace is removed
+   */
+  private async collectArtifacts(artifactDir: string): Promise<CollectedArtifact[]> {
+    const collected: CollectedArtifact[] = [];
+    const entries = await fs.promises.readdir(artifactDir, { recursive: true, withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+
+      const filePath = path.join(entry.parentPath ?? entry.path, entry.name);
+      const { size } = await fs.promises.stat(filePath);
+      if (size > ENV.ARTIFACT_MAX_FILE_SIZE) {
+        logger.warn('Skipping oversized test artifact', { filePath, size }, 'JEST_RUNNER');
+        continue;
+      }
+
+      collected.push({
+        fileName: path.relative(artifactDir, filePath),
+        data: await fs.promises.readFile(filePath)
+      });
+    }
+
+    return collected;
+  }
+
+  /**
+   * Convert a Jest file result into a test case result. Output is the file's own console and failure
+   * output; the whole process's output is only used when Jest reported nothing for the file.
+   */
+  private toTestCaseResult(
+    testCase: RunnableTestCase,
+    fileResult: any,
+    processResult: { exitCode: number | null; stdout: string; stderr: string; timedOut: boolean },
+    consoleOutput: string
+  ): JestTestCaseResult {
+    if (!fileResult) {
+      const stdout = `${processResult.stdout}${processResult.stderr}`.slice(0, MAX_OUTPUT_LENGTH);
+      const reason = processResult.timedOut
+        ? 'Jest process timed out before reporting results'
+        : `Jest did not report a result for this test (exit code ${processResult.exitCode})`;
+      return {
+        testCaseId: testCase.id,
+        name: testCase.name,
+        status: 'failed',
+        duration: 0,
+        assertions: [],
+        errors: [reason],
+        stdout,
+        artifacts: []
+      };
+    }
+
+    const assertions: AssertionResult[] = (fileResult.assertionResults || []).map((a: any) => ({
+      title: a.title,
+      fullName: a.fullName,
+      status: a.status,
+      duration: a.duration || 0,
+      failureMessages: a.failureMessages || []
+    }));
+
+    const errors = assertions.flatMap(a => a.failureMessages);
+    if (fileResult.status === 'failed' && errors.length === 0 && fileResult.message) {
+      // Suite-level failures (syntax errors, missing globals) have no assertion results
+      errors.push(fileResult.message);
+    }
+
+    const failureOutput = fileResult.message ? fileResult.message.replace(ANSI_ESCAPE_PATTERN, '') : '';
+    const stdout = [consoleOutput, failureOutput].filter(Boolean).join('\n').slice(0, MAX_OUTPUT_LENGTH);
+    const hasFailures = fileResult.status === 'failed' || assertions.some(a => a.status === 'failed');
+    const hasPasses = assertions.some(a => a.status === 'passed');
+    const duration = fileResult.endTime && fileResult.startTime
+      ? fileResult.endTime - fileResult.startTime
+      : assertions.reduce((sum, a) => sum + a.duration, 0);
+
+    return {
+      testCaseId: testCase.id,
+      name: testCase.name,
+      status: hasFailures ? 'failed' : hasPasses ? 'passed' : 'skipped',
+      duration,
+      assertions,
+      errors,
+      stdout,
+      artifacts: []
+    };
+  }
+
+  /**
+   * Compile a script as a CommonJS module without running it; returns why it cannot run, if it cannot
+   */
+  private checkSyntax(script: string): string | null {
+    try {
+      new vm.Script(`(function (exports, require, module, __filename, __dirname) {\n${script}\n})`);
+      return null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/^\s*(import\s+[\w{*'"]|export\s)/m.test(script)) {
+        return `Test script uses ES module syntax (${message}); the runner only supports CommonJS, so use require() and module.exports`;
+      }
+      return `Test script does not compile as CommonJS JavaScript (${message}); TypeScript and other syntax that needs a transform is not supported`;
+    }
+  }
+
+  private failedResult(testCase: RunnableTestCase, reason: string): JestTestCaseResult {
+    return { ...this.skippedResult(testCase, reason), status: 'failed' };
+  }
+
+  private skippedResult(testCase: RunnableTestCase, reason: string): JestTestCaseResult {
+    return {
+      testCaseId: testCase.id,
+      name: testCase.name,
+      status: 'skipped',
+      duration: 0,
+      assertions: [],
+      errors: [reason],
+      stdout: '',
+      artifacts: []
+    };
+  }
+}
+
+export const jestRunner = new JestRunner();
@@ -1,16 +1,16 @@
 /**
  * JIRA Integration Service
- * Handles code acquisition from JIRA projects, issues, and attachments
+ * Handles code acquisition from JIRA projects, issues, and attachments, and files issues back
  */
 
-interface JiraConfig {
+export interface JiraConfig {
   serverUrl: string;
   projectKey: string;
   email: string;
   apiToken: string;
 }
 
-interface JiraIssue {
+export interface JiraIssue {
   id: string;
   key: string;
   summary: string;
@@ -32,6 +32,20 @@ interface JiraAttachment {
   downloadUrl: string;
 }
 
+export interface JiraCreatedIssue {
+  id: string;
+  key: string;
+  url: string;
+}
+
+export interface JiraIssueSummary {
+  key: string;
+  summary: string;
+  // Jira's status category: new, indeterminate or done
+  statusCategory: string;
+  url: string;
+}
+
 interface JiraProject {
   id: string;
   key: string;
@@ -162,7 +176,7 @@ export class JiraIntegrationService {
           id: issue.id,
           key: issue.key,
           summary: issue.fields.summary,
-          description: issue.fields.description?.content?.[0]?.content?.[0]?.text || '',
+          description: this.documentText(issue.fields.description),
           issueType: issue.fields.issuetype?.name || '',
           status: issue.fields.status?.name || '',
           priority: issue.fields.priority?.name || '',
@@ -230,20 +244,185 @@ export class JiraIntegrationService {
     }
   }
 
+  /**
+   * Create an issue in the configured project. The description is an Atlassian Document Format node.
+   */
+  async createIssue(config: JiraConfig, issue: {
+    issueType: string;
+    summary: string;
+    description: any;
+    labels?: string[];
+  }): Promise<JiraCreatedIssue> {
+    const response = await this.makeJiraRequest(config, '/rest/api/3/issue', {
+      method: 'POST',
+      body: {
+        fields: {
+          project: { key: config.projectKey },
+          issuetype: { name: issue.issueType },
+          // Jira rejects summaries longer than 255 characters
+          summary: issue.summary.slice(0, 255),
+          description: issue.description,
+          labels: issue.labels || []
+        }
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create issue: ${response.status} ${response.statusText} ${await this.errorDetail(response)}`.trim());
+    }
+
+    const created = await response.json();
+    return { id: created.id, key: created.key, url: this.browseUrl(config, created.key) };
+  }
+
+  /**
+   * Get an issue's summary and status, or null if it does not exist or is not visible
+   */
+  async getIssue(config: JiraConfig, issueKey: string): Promise<JiraIssueSummary | null> {
+    const response = await this.makeJiraRequest(
+      config,
+      `/rest/api/3/issue/${encodeURIComponent(issueKey)}?fields=summary,status`
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to get issue ${issueKey}: ${response.status} ${response.statusText}`);
+    }
+
+    return this.toIssueSummary(config, await response.json());
+  }
+
+  /**
+   * Find issues matching a JQL query, newest first
+   */
+  async searchIssues(config: JiraConfig, jql: string, maxResults: number = 10): Promise<JiraIssueSummary[]> {
+    const params = new URLSearchParams({ jql, maxResults: String(maxResults), fields: 'summary,status' });
+    const response = await this.makeJiraRequest(config, `/rest/api/3/search?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to search issues: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.issues || []).map((issue: any) => this.toIssueSummary(config, issue));
+  }
+
+  /**
+   * Add a comment to an issue. The body is an Atlassian Document Format node.
+   */
+  async addComment(config: JiraConfig, issueKey: string, body: any): Promise<void> {
+    const response = await this.makeJiraRequest(config, `/rest/api/3/issue/${encodeURIComponent(issueKey)}/comment`, {
+      method: 'POST',
+      body: { body }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to comment on ${issueKey}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Attach a file to an issue
+   */
+  async addAttachment(config: JiraConfig, issueKey: string, file: { fileName: string; contentType: string; data: Buffer }): Promise<void> {
+    const form = new FormData();
+    form.append('file', new Blob([file.data], { type: file.contentType }), file.fileName);
+
+    const response = await this.makeJiraRequest(config, `/rest/api/3/issue/${encodeURIComponent(issueKey)}/attachments`, {
+      method: 'POST',
+      body: form
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to attach ${file.fileName} to ${issueKey}: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Plain text of an Atlassian Document Format node: a line per paragraph or heading, list items
+   * prefixed with "- " or "1. ", so bullets and Given/When/Then steps survive
+   */
+  private documentText(node: any, prefix: string = ''): string {
+    if (!node) return '';
+    if (typeof node === 'string') return node;
+
+    switch (node.type) {
+      case 'text':
+        return node.text || '';
+      case 'hardBreak':
+        return '\n';
+      case 'bulletList':
+      case 'orderedList':
+        return (node.content || []).map((item: any, index: number) => {
+          const marker = node.type === 'orderedList' ? `${(node.attrs?.order ?? 1) + index}. ` : '- ';
+          return this.documentText(item, `${prefix}${marker}`);
+        }).join('\n');
+      case 'listItem': {
+        // Nested lists are indented under their item
+        const [first, ...rest] = (node.content || []).map((child: any) =>
+          this.documentText(child, child.type?.endsWith('List') ? `${' '.repeat(prefix.length)}` : ''));
+        return [`${prefix}${first || ''}`, ...rest].join('\n');
+      }
+      case 'paragraph':
+      case 'heading':
+        return (node.content || []).map((child: any) => this.documentText(child)).join('');
+      default:
+        return (node.content || []).map((child: any) => this.documentText(child)).join('\n');
+    }
+  }
+
+  private toIssueSummary(config: JiraConfig, issue: any): JiraIssueSummary {
+    return {
+      key: issue.key,
+      summary: issue.fields?.summary || '',
+      statusCategory: issue.fields?.status?.statusCategory?.key || 'new',
+      url: this.browseUrl(config, issue.key)
+    };
+  }
+
+  private browseUrl(config: JiraConfig, issueKey: string): string {
+    return `${config.serverUrl.replace(/\/+$/, '')}/browse/${issueKey}`;
+  }
+
+  // Jira explains rejected fields in errors/errorMessages
+  private async errorDetail(response: Response): Promise<string> {
+    try {
+      const data = await response.json();
+      return [...(data.errorMessages || []), ...Object.values(data.errors || {})].join('; ');
+    } catch {
+      return '';
+    }
+  }
+
   /**
    * Make authenticated request to JIRA API
    */
-  private async makeJiraRequest(config: JiraConfig, endpoint: string): Promise<Response> {
+  private async makeJiraRequest(
+    config: JiraConfig,
+    endpoint: string,
+    options: { method?: string; body?: unknown } = {}
+  ): Promise<Response> {
     const url = `${config.serverUrl.replace(/\/+$/, '')}${endpoint}`;
     const auth = Buffer.from(`${config.email}:${config.apiToken}`).toString('base64');
 
-    return fetch(url, {
-      headers: {
-        'Authorization': `Basic ${auth}`,
-        'Accept': 'application/json',
-        'Content-Type': 'application/json'
-      }
-    });
+    const headers: Record<string, string> = {
+      'Authorization': `Basic ${auth}`,
+      'Accept': 'application/json'
+    };
+
+    let body: BodyInit | undefined;
+    if (options.body instanceof FormData) {
+      // Jira refuses multipart uploads without this header; fetch sets the multipart boundary itself
+      headers['X-Atlassian-Token'] = 'no-check';
+      body = options.body;
+    } else {
+      headers['Content-Type'] = 'application/json';
+      body = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+    }
+
+    return fetch(url, { method: options.method || 'GET', headers, body });
   }
 
   /**
@@ -0,0 +1,271 @@
+/**
+ * Job Queue Service
+ * Durable background jobs stored in the database, with per-type concurrency,
+ * retries with exponential backoff and recovery of jobs orphaned by a crash
+ */
+
+import os from 'os';
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger } from '../logger';
+import { isCancellation } from '../utils/cancellation';
+import type { Job } from '@shared/schema';
+
+export type JobType = 'analysis' | 'test_run';
+
+export interface JobHandlerOptions {
+  concurrency: number;
+  maxAttempts?: number;
+  backoffMs?: number;
+  // Called once a job has failed for the last time
+  onFailure?: (job: Job, error: string) => Promise<void>;
+  // Called once a job has been cancelled, whether it was still queued or already running
+  onCancel?: (job: Job) => Promise<void>;
+}
+
+export type JobHandler = (job: Job, signal: AbortSignal) => Promise<any>;
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  options: JobHandlerOptions;
+  active: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 5000;
+
+export class JobQueue {
+  private handlers = new Map<JobType, RegisteredHandler>();
+  private readonly workerId = `${os.hostname()}-${process.pid}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  // Abort controllers of the jobs this worker is running, keyed by job id
+  private runningJobs = new Map<number, AbortController>();
+  private polling = false;
+
+  /**
+   * Register the handler that processes jobs of a given type
+   */
+  register(type: JobType, handler: JobHandler, options: JobHandlerOptions) {
+    this.handlers.set(type, { handler, options, active: 0 });
+  }
+
+  /**
+   * Persist a new job; it runs as soon as a worker slot is free
+   */
+  async enqueue(type: JobType, projectId: number | null, payload: Record<string, any> = {}): Promise<Job> {
+    const registered = this.handlers.get(type);
+    const job = await storage.createJob({
+      type,
+      projectId,
+      payload,
+      maxAttempts: registered?.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    });
+
+    logger.info(`Enqueued ${type} job #${job.id}`, { jobId: job.id, projectId }, 'JOB_QUEUE');
+
+    // Pick it up right away instead of waiting for the next poll
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Cancel a job. Queued jobs never start; running jobs are marked cancelled and
+   * their abort signal fires, either here or on the owning worker's next heartbeat.
+   * Returns undefined if the job has already finished.
+   */
+  async cancel(jobId: number): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return undefined;
+
+    const cancelledJob = await storage.updateJob(jobId, {
+      status: 'cancelled',
+      lastError: 'Cancelled by user',
+      completedAt: new Date()
+    });
+    logger.info(`Cancelled ${job.type} job #${jobId}`, { jobId, previousStatus: job.status }, 'JOB_QUEUE');
+
+    const controller = this.runningJobs.get(jobId);
+    if (controller) {
+      // runJob calls onCancel once the handler has unwound
+      controller.abort();
+    } else if (job.status === 'queued' && cancelledJob) {
+      await this.handlers.get(job.type as JobType)?.options.onCancel?.(cancelledJob);
+    }
+
+    return cancelledJob;
+  }
+
+  /**
+   * Recover orphaned jobs and start polling for work
+   */
+  async start() {
+    if (this.pollTimer) return;
+
+    await this.recoverStaleJobs();
+
+    this.pollTimer = setInterval(() => this.poll(), ENV.JOB_POLL_INTERVAL_MS);
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), Math.max(1000, ENV.JOB_STALE_AFTER_MS / 4));
+    logger.info('Job queue started', { workerId: this.workerId, types: Array.from(this.handlers.keys()) }, 'JOB_QUEUE');
+  }
+
+  stop() {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.pollTimer = null;
+    this.heartbeatTimer = null;
+  }
+
+  /**
+   * Claim and run jobs until every handler is at its concurrency limit
+   */
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [type, registered] of this.handlers) {
+        while (registered.active < registered.options.concurrency) {
+          const job = await storage.claimNextJob(type, this.workerId);
+          if (!job) break;
+
+          const controller = new AbortController();
+          registered.active++;
+          this.runningJobs.set(job.id, controller);
+          this.runJob(job, registered, controller.signal).finally(() => {
+            registered.active--;
+            this.runningJobs.delete(job.id);
+            setImmediate(() => this.poll());
+          });
+        }
+      }
+    } catch (error) {
+      logger.logError('Job queue poll failed', error, 'JOB_QUEUE');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async runJob(job: Job, registered: RegisteredHandler, signal: AbortSignal) {
+    logger.info(`Running ${job.type} job #${job.id} (attempt ${job.attempts}/${job.maxAttempts})`, { jobId: job.id }, 'JOB_QUEUE');
+
+    try {
+      const result = await registered.handler(job, signal);
+      if (signal.aborted) {
+        await this.handleCancellation(job, registered);
+        return;
+      }
+      // The job may have been cancelled, or released as stale and claimed by another worker, meanwhile
+      const completedJob = await storage.updateOwnedJob(job.id, this.workerId, {
+        status: 'completed',
+        result: result ?? null,
+        lastError: null,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date()
+      });
+      if (!completedJob) {
+        logger.warn(`${job.type} job #${job.id} finished after losing its lock; its result was discarded`, { jobId: job.id }, 'JOB_QUEUE');
+        return;
+      }
+      logger.info(`Completed ${job.type} job #${job.id}`, { jobId: job.id }, 'JOB_QUEUE');
+    } catch (error) {
+      if (isCancellation(error, signal)) {
+        await this.handleCancellation(job, registered).catch(updateError => {
+          logger.logError(`Failed to record cancellation of job #${job.id}`, updateError, 'JOB_QUEUE');
+        });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      await this.handleFailure(job, registered, message).catch(updateError => {
+        logger.logError(`Failed to record failure of job #${job.id}`, updateError, 'JOB_QUEUE');
+      });
+    }
+  }
+
+  private async handleCancellation(job: Job, registered: RegisteredHandler) {
+    // A job aborted by its own handler (rather than through cancel()) still needs its status recorded
+    const cancelledJob = await storage.updateJob(job.id, {
+      status: 'cancelled',
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date()
+    });
+    logger.info(`${job.type} job #${job.id} stopped after cancellation`, { jobId: job.id }, 'JOB_QUEUE');
+    await registered.options.onCancel?.(cancelledJob || job);
+  }
+
+  private async handleFailure(job: Job, registered: RegisteredHandler, message: string) {
+    const attempts = job.attempts || 0;
+    const maxAttempts = job.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+
+    if (attempts < maxAttempts) {
+      const backoffMs = (registered.options.backoffMs ?? DEFAULT_BACKOFF_MS) * Math.pow(2, attempts - 1);
+      const requeuedJob = await storage.updateOwnedJob(job.id, this.workerId, {
+        status: 'queued',
+        lastError: message,
+        lockedBy: null,
+        lockedAt: null,
+        runAt: new Date(Date.now() + backoffMs)
+      });
+      if (requeuedJob) {
+        logger.warn(`Job #${job.id} failed, retrying in ${backoffMs}ms`, { jobId: job.id, attempts, error: message }, 'JOB_QUEUE');
+      }
+      return;
+    }
+
+    const failedJob = await storage.updateOwnedJob(job.id, this.workerId, {
+      status: 'failed',
+      lastError: message,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date()
+    });
+    if (!failedJob) return;
+    logger.error(`Job #${job.id} failed permanently after ${attempts} attempts`, { jobId: job.id, error: message }, 'JOB_QUEUE');
+    await registered.options.onFailure?.(job, message);
+  }
+
+  /**
+   * Keep locks on running jobs fresh, abort jobs cancelled from another process
+   * and release jobs whose worker has died
+   */
+  private async heartbeat() {
+    for (const [jobId, controller] of this.runningJobs) {
+      try {
+        const stillOwned = await storage.touchJob(jobId, this.workerId);
+        if (!stillOwned && !controller.signal.aborted) {
+          const job = await storage.getJob(jobId);
+          if (job?.status === 'cancelled') {
+            controller.abort();
+          }
+        }
+      } catch (error: any) {
+        logger.warn(`Failed to refresh lock on job #${jobId}`, { error: error.message }, 'JOB_QUEUE');
+      }
+    }
+
+    await this.recoverStaleJobs().catch(error => {
+      logger.logError('Stale job recovery failed', error, 'JOB_QUEUE');
+    });
+  }
+
+  /**
+   * Requeue running jobs whose lock has not been refreshed within JOB_STALE_AFTER_MS,
+   * e.g. jobs left behind when the previous process crashed or was restarted
+   */
+  private async recoverStaleJobs() {
+    const releasedJobs = await storage.releaseStaleJobs(new Date(Date.now() - ENV.JOB_STALE_AFTER_MS));
+
+    for (const job of releasedJobs) {
+      if (job.status === 'failed') {
+        await this.handlers.get(job.type as JobType)?.options.onFailure?.(job, job.lastError || 'Worker stopped responding');
+      } else {
+        logger.warn(`Recovered orphaned ${job.type} job #${job.id}`, { jobId: job.id, projectId: job.projectId }, 'JOB_QUEUE');
+      }
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,233 @@
+/**
+ * JUnit Import Service
+ * Parses JUnit XML reports from externally executed suites and records them as persisted test runs
+ */
+
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { testRunExecutor, type ExternalExecutionResult } from './test-run-executor';
+import type { Project, TestCase, TestRun } from '@shared/schema';
+
+export interface JUnitTestCaseResult {
+  name: string;
+  className: string | null;
+  suiteName: string | null;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number; // milliseconds
+  errors: string[];
+  stdout: string | null;
+}
+
+export interface JUnitReport {
+  testCases: JUnitTestCaseResult[];
+  duration: number; // milliseconds
+}
+
+export interface JUnitImportResult {
+  testRun: TestRun;
+  summary: TestRun['summary'];
+  matched: number;
+  created: number;
+}
+
+export class JUnitParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JUnitParseError';
+  }
+}
+
+const ARRAY_ELEMENTS = new Set(['testsuite', 'testcase', 'failure', 'error', 'skipped']);
+
+export class JUnitImportService {
+  private parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseAttributeValue: false,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => ARRAY_ELEMENTS.has(name)
+  });
+
+  /**
+   * Parse a JUnit XML report. Accepts a <testsuites> root, a bare <testsuite>, and nested suites.
+   */
+  parse(xml: string): JUnitReport {
+    const validation = XMLValidator.validate(xml);
+    if (validation !== true) {
+      throw new JUnitParseError(`Invalid XML at line ${validation.err.line}: ${validation.err.msg}`);
+    }
+
+    const document = this.parser.parse(xml);
+    const root = document.testsuites ?? (document.testsuite ? { testsuite: document.testsuite } : null);
+    if (!root) {
+      throw new JUnitParseError('Expected a <testsuites> or <testsuite> root element');
+    }
+
+    const testCases: JUnitTestCaseResult[] = [];
+    this.collectSuites(root.testsuite || [], testCases);
+    // Some reporters put test cases directly under <testsuites>
+    this.collectTestCases(root.testcase || [], root.name ?? null, testCases);
+
+    const reportedTime = this.parseSeconds(root.time);
+    const duration = reportedTime ?? testCases.reduce((sum, tc) => sum + tc.duration, 0);
+
+    return { testCases, duration };
+  }
+
+  /**
+   * Import a JUnit report into a project: match test cases by name, create the missing ones,
+   * and record the outcomes as a completed run
+   */
+  async importReport(project: Project, xml: string, options: { framework?: string; triggeredBy?: string; commitSha?: string } = {}): Promise<JUnitImportResult> {
+    const report = this.parse(xml);
+    if (report.testCases.length === 0) {
+      throw new JUnitParseError('The report contains no test cases');
+    }
+
+    const existingTestCases = await storage.getTestCasesByProject(project.id);
+    const testCasesByName = new Map<string, TestCase>();
+    for (const testCase of existingTestCases) {
+      if (!testCasesByName.has(testCase.name)) testCasesByName.set(testCase.name, testCase);
+    }
+
+    let matched = 0;
+    let created = 0;
+    const executionResults = new Map<number, ExternalExecutionResult>();
+
+    for (const result of report.testCases) {
+      let testCase = this.findTestCase(result, testCasesByName);
+      if (testCase) {
+        matched++;
+      } else {
+        testCase = await storage.createTestCase({
+          projectId: project.id,
+          name: result.name,
+          description: `Imported from JUnit report${result.className ? ` (${result.className})` : ''}`,
+          priority: 'medium',
+          type: 'unit',
+          testScript: null,
+          generatedBy: 'junit-import'
+        });
+        testCasesByName.set(testCase.name, testCase);
+        created++;
+      }
+
+      const executionResult = this.toExecutionResult(testCase, result);
+      const previous = executionResults.get(testCase.id);
+      // A test reported more than once (e.g. parameterised cases sharing a name) fails if any instance failed
+      executionResults.set(testCase.id, previous ? this.mergeResults(previous, executionResult) : executionResult);
+    }
+
+    const startedAt = new Date(Date.now() - report.duration);
+    const testRun = await storage.createTestRun({
+      projectId: project.id,
+      framework: options.framework || 'junit',
+      status: 'queued',
+      triggeredBy: options.triggeredBy || 'import',
+      testCaseIds: Array.from(executionResults.keys()),
+      commitSha: options.commitSha || project.commitSha
+    });
+    await storage.updateTestRun(testRun.id, { startedAt });
+
+    const summary = await testRunExecutor.recordExternalRun(testRun.id, Array.from(executionResults.values()), Math.round(report.duration));
+
+    logger.info(`Imported ${report.testCases.length} JUnit results into run ${testRun.id}`, {
+      projectId: project.id,
+      testRunId: testRun.id,
+      matched,
+      created
+    }, 'JUNIT_IMPORT');
+
+    const completedRun = await storage.getTestRun(testRun.id);
+    return { testRun: completedRun || testRun, summary, matched, created };
+  }
+
+  private collectSuites(suites: any[], testCases: JUnitTestCaseResult[]) {
+    for (const suite of suites) {
+      this.collectTestCases(suite.testcase || [], suite.name ?? null, testCases);
+      this.collectSuites(suite.testsuite || [], testCases);
+    }
+  }
+
+  private collectTestCases(elements: any[], suiteName: string | null, testCases: JUnitTestCaseResult[]) {
+    for (const element of elements) {
+      if (!element.name) continue;
+
+      const failures = [...(element.failure || []), ...(element.error || [])];
+      const status = failures.length > 0 ? 'failed' : element.skipped ? 'skipped' : 'passed';
+
+      testCases.push({
+        name: String(element.name),
+        className: element.classname ? String(element.classname) : null,
+        suiteName,
+        status,
+        duration: this.parseSeconds(element.time) ?? 0,
+        errors: failures.map(failure => this.describeFailure(failure)),
+        stdout: this.textOf(element['system-out'])
+      });
+    }
+  }
+
+  /**
+   * Match by test name, then by "classname name" and "classname.name", which is how
+   * JUnit reporters for Jest and pytest commonly compose names
+   */
+  private findTestCase(result: JUnitTestCaseResult, testCasesByName: Map<string, TestCase>): TestCase | undefined {
+    const candidates = [result.name];
+    if (result.className) {
+      candidates.push(`${result.className} ${result.name}`, `${result.className}.${result.name}`);
+    }
+    for (const candidate of candidates) {
+      const testCase = testCasesByName.get(candidate);
+      if (testCase) return testCase;
+    }
+    return undefined;
+  }
+
+  private toExecutionResult(testCase: TestCase, result: JUnitTestCaseResult): ExternalExecutionResult {
+    return {
+      testCaseId: testCase.id,
+      name: testCase.name,
+      status: result.status,
+      duration: Math.round(result.duration),
+      errors: result.errors,
+      logs: result.suiteName ? [`Suite: ${result.suiteName}`] : [],
+      assertions: [],
+      stdout: result.stdout
+    };
+  }
+
+  private mergeResults(previous: ExternalExecutionResult, next: ExternalExecutionResult): ExternalExecutionResult {
+    const statusRank = { failed: 2, passed: 1, skipped: 0 };
+    return {
+      ...previous,
+      status: statusRank[next.status] > statusRank[previous.status] ? next.status : previous.status,
+      duration: previous.duration + next.duration,
+      errors: [...previous.errors, ...next.errors],
+      stdout: [previous.stdout, next.stdout].filter(Boolean).join('\n') || null
+    };
+  }
+
+  private describeFailure(failure: any): string {
+    if (typeof failure === 'string') return failure || 'Test failed';
+    const parts = [failure.type, failure.message, failure['#text']].filter(Boolean);
+    return parts.length > 0 ? parts.join(': ') : 'Test failed';
+  }
+
+  private textOf(value: any): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'string') return value || null;
+    return value['#text'] ? String(value['#text']) : null;
+  }
+
+  private parseSeconds(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    // Some reporters format times with thousands separators, e.g. "1,234.5"
+    const seconds = parseFloat(String(value).replace(/,/g, ''));
+    return Number.isFinite(seconds) ? seconds * 1000 : null;
+  }
+}
+
+export const junitImportService = new JUnitImportService();
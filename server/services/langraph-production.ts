@@ -4,6 +4,12 @@ import { comprehensiveTestingService } from './comprehensive-testing';
 import { storage } from '../storage';
 import type { Project } from "@shared/schema";
 import { logger } from '../logger';
+import { projectEvents } from './project-events';
+import { mlTestingIntelligence } from './ml-testing-intelligence';
+import { coverageService } from './coverage';
+import { projectWorkspace } from './project-workspace';
+import { ENV } from '../config';
+import { isCancellation, throwIfCancelled } from '../utils/cancellation';
 
 // Production-Grade LangGraph State Management
 interface ProductionWorkflowState {
@@ -20,7 +26,7 @@ interface ProductionWorkflowState {
     phaseTimings: Record<string, number>;
     totalTests: number;
     passedTests: number;
-    coverage: number;
+    coverage: number | null;
     criticalIssues: number;
   };
   mcpAgents: {
@@ -95,7 +101,7 @@ async function initializationNode(state: ProductionWorkflowState): Promise<Parti
   }
 }
 
-async function comprehensiveAnalysisNode(state: ProductionWorkflowState): Promise<Partial<ProductionWorkflowState>> {
+async function comprehensiveAnalysisNode(state: ProductionWorkflowState, signal?: AbortSignal): Promise<Partial<ProductionWorkflowState>> {
   const timer = logger.startTimer('LANGRAPH_ANALYSIS');
   logger.info(`[LangGraph Production] Running comprehensive analysis`, {
     projectId: state.project.id,
@@ -108,17 +114,22 @@ async function comprehensiveAnalysisNode(state: ProductionWorkflowState): Promis
     // Parallel execution of multiple analysis types
     logger.debug('Starting parallel analysis execution', {}, 'LANGRAPH_WORKFLOW');
     
+    const sourceContext = await projectWorkspace.buildSourceContext(state.project.id);
+    const codeAnalysisPrompt = sourceContext
+      ? `Analyze project: ${state.project.name}\n\nSource files:\n${sourceContext}`
+      : `Analyze project: ${state.project.name}`;
+
     const [
       codeAnalysis,
       securityAnalysis,
       performanceAnalysis,
       architectureReview
     ] = await Promise.all([
-      anthropicService.analyzeCode(`Analyze project: ${state.project.name}`).catch(err => {
+      anthropicService.analyzeCode(codeAnalysisPrompt, signal).catch(err => {
         logger.error('Code analysis failed', { error: err.message }, 'LANGRAPH_WORKFLOW');
         throw err;
       }),
-      anthropicService.assessRisks(`Security assessment for: ${state.project.name}`).catch(err => {
+      anthropicService.assessRisks(`Security assessment for: ${state.project.name}`, signal).catch(err => {
         logger.error('Security analysis failed', { error: err.message }, 'LANGRAPH_WORKFLOW');
         throw err;
       }),
@@ -126,7 +137,7 @@ async function comprehensiveAnalysisNode(state: ProductionWorkflowState): Promis
         logger.error('Performance analysis failed', { error: err.message }, 'LANGRAPH_WORKFLOW');
         throw err;
       }),
-      anthropicService.generateArchitectureReview({} as any).catch(err => {
+      anthropicService.generateArchitectureReview({} as any, signal).catch(err => {
         logger.error('Architecture review failed', { error: err.message }, 'LANGRAPH_WORKFLOW');
         throw err;
       })
@@ -351,6 +362,13 @@ async function qualityGatesNode(state: ProductionWorkflowState): Promise<Partial
   const phaseStart = Date.now();
   
   try {
+    // Quarantined (flaky) tests still run but are left out of the pass rate
+    const testCases = await storage.getTestCasesByProject(state.project.id);
+    const testPassRate = mlTestingIntelligence.calculatePassRate(testCases);
+    // Line coverage from the latest runner or uploaded coverage report
+    const coverage = await coverageService.getLatestTotals(state.project.id);
+    const lineCoverage = coverage?.lines.pct ?? null;
+
     // Enterprise-grade quality gates
     const qualityGates = {
       security: {
@@ -369,9 +387,25 @@ async function qualityGatesNode(state: ProductionWorkflowState): Promise<Partial
         screenReaderCompat: { current: 94, threshold: 90, passed: true, unit: '%' }
       },
       codeQuality: {
-        coverage: { current: 87, threshold: 80, passed: true, unit: '%' },
+        coverage: lineCoverage === null
+          ? { current: null, threshold: ENV.COVERAGE_THRESHOLD, passed: true, unit: '%', skipped: 'No coverage report' }
+          : {
+              current: lineCoverage,
+              threshold: ENV.COVERAGE_THRESHOLD,
+              passed: lineCoverage >= ENV.COVERAGE_THRESHOLD,
+              unit: '%',
+              branches: coverage?.branches.pct ?? null,
+              functions: coverage?.functions.pct ?? null
+            },
         complexity: { current: 12, threshold: 15, passed: true },
-        technicalDebt: { current: 8, threshold: 10, passed: true, unit: 'hours' }
+        technicalDebt: { current: 8, threshold: 10, passed: true, unit: 'hours' },
+        testPassRate: {
+          current: testPassRate.passRate,
+          threshold: 90,
+          passed: testPassRate.passRate >= 90,
+          unit: '%',
+          quarantinedTests: testPassRate.quarantined
+        }
       }
     };
 
@@ -413,7 +447,7 @@ async function qualityGatesNode(state: ProductionWorkflowState): Promise<Partial
       metrics: {
         ...state.metrics,
         passedTests: Math.floor(state.metrics.totalTests * 0.95),
-        coverage: 87,
+        coverage: lineCoverage,
         criticalIssues: 0,
         phaseTimings: {
           ...state.metrics.phaseTimings,
@@ -479,6 +513,7 @@ async function deploymentPrepNode(state: ProductionWorkflowState): Promise<Parti
     
     logger.info(`[LangGraph Production] Workflow completed successfully for project ${state.project.id}`, {
       projectId: state.project.id,
+      commitSha: state.project.commitSha,
       totalDuration: Date.now() - state.metrics.startTime,
       phases: Object.keys(state.metrics.phaseTimings),
       totalTests: state.metrics.totalTests,
@@ -542,6 +577,35 @@ async function analyzePerformanceRequirements(project: Project) {
   };
 }
 
+// Publish phase transitions so dashboards can follow the workflow live, and hand
+// the run's abort signal to the node
+function withPhaseEvents(
+  phase: ProductionWorkflowState['phase'],
+  node: (state: ProductionWorkflowState, signal?: AbortSignal) => Promise<Partial<ProductionWorkflowState>>
+) {
+  return async (state: ProductionWorkflowState, config?: { signal?: AbortSignal }): Promise<Partial<ProductionWorkflowState>> => {
+    const signal = config?.signal;
+    throwIfCancelled(signal);
+
+    const phaseStart = Date.now();
+    projectEvents.publish(state.project.id, 'workflow:phase', { phase, status: 'started' });
+
+    const update = await node(state, signal);
+
+    // Nodes record their own failures in state.errors, so a cancelled call has to be rethrown here
+    throwIfCancelled(signal);
+
+    projectEvents.publish(state.project.id, 'workflow:phase', {
+      phase,
+      status: 'completed',
+      nextPhase: update.phase,
+      duration: Date.now() - phaseStart,
+      errors: update.errors || []
+    });
+    return update;
+  };
+}
+
 // Production LangGraph Workflow
 export class ProductionLangGraphWorkflow {
   private workflow: StateGraph<ProductionWorkflowState>;
@@ -579,11 +643,11 @@ export class ProductionLangGraphWorkflow {
     
     try {
       // Add nodes
-      this.workflow.addNode("initialization", initializationNode);
-      this.workflow.addNode("comprehensive_analysis", comprehensiveAnalysisNode);
-      this.workflow.addNode("enterprise_testing", enterpriseTestingNode);
-      this.workflow.addNode("quality_gates", qualityGatesNode);
-      this.workflow.addNode("deployment_prep", deploymentPrepNode);
+      this.workflow.addNode("initialization", withPhaseEvents('initialization', initializationNode));
+      this.workflow.addNode("comprehensive_analysis", withPhaseEvents('analysis', comprehensiveAnalysisNode));
+      this.workflow.addNode("enterprise_testing", withPhaseEvents('testing', enterpriseTestingNode));
+      this.workflow.addNode("quality_gates", withPhaseEvents('quality_gates', qualityGatesNode));
+      this.workflow.addNode("deployment_prep", withPhaseEvents('deployment_prep', deploymentPrepNode));
 
       // Set entry point
       this.workflow.setEntryPoint("initialization");
@@ -605,7 +669,7 @@ export class ProductionLangGraphWorkflow {
     }
   }
 
-  async execute(project: Project): Promise<void> {
+  async execute(project: Project, signal?: AbortSignal): Promise<void> {
     const workflowTimer = logger.startTimer('LANGRAPH_FULL_WORKFLOW');
     const workflowId = `workflow-${project.id}-${Date.now()}`;
     
@@ -623,7 +687,7 @@ export class ProductionLangGraphWorkflow {
         phaseTimings: {},
         totalTests: 0,
         passedTests: 0,
-        coverage: 0,
+        coverage: null,
         criticalIssues: 0
       },
       mcpAgents: {
@@ -638,11 +702,12 @@ export class ProductionLangGraphWorkflow {
       projectId: project.id,
       projectName: project.name,
       projectType: project.projectType,
-      sourceType: project.sourceType
+      sourceType: project.sourceType,
+      commitSha: project.commitSha
     }, 'LANGRAPH_WORKFLOW');
 
     try {
-      const result = await this.compiledWorkflow.invoke(initialState);
+      const result = await this.compiledWorkflow.invoke(initialState, { signal });
       
       workflowTimer.end({ 
         success: true, 
@@ -658,6 +723,12 @@ export class ProductionLangGraphWorkflow {
         errors: result.errors,
         phase: result.phase
       }, 'LANGRAPH_WORKFLOW');
+
+      projectEvents.publish(project.id, 'workflow:completed', {
+        workflowId,
+        metrics: result.metrics,
+        errors: result.errors
+      });
       
     } catch (error: any) {
       workflowTimer.end({ 
@@ -665,8 +736,14 @@ export class ProductionLangGraphWorkflow {
         workflowId,
         error: error.message 
       });
+
+      if (isCancellation(error, signal)) {
+        logger.info(`[LangGraph Production] Workflow cancelled for project ${project.id}`, { workflowId }, 'LANGRAPH_WORKFLOW');
+        throw error;
+      }
       
       logger.logError(`[LangGraph Production] Workflow failed for project ${project.id}`, error, 'LANGRAPH_WORKFLOW');
+      projectEvents.publish(project.id, 'workflow:failed', { workflowId, error: error.message });
       
       // Try to update project status to failed
       try {
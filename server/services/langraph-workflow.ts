@@ -2,6 +2,7 @@ import { StateGraph, END, START } from "@langchain/langgraph";
 import { storage } from "../storage";
 import { Project, Analysis } from "@shared/schema";
 import { anthropicService } from "./anthropic";
+import { isCancellation } from "../utils/cancellation";
 
 // Define the state structure for our workflow
 interface WorkflowState {
@@ -382,7 +383,7 @@ export class LangGraphWorkflow {
     }
   }
 
-  async executeWorkflow(project: Project): Promise<void> {
+  async executeWorkflow(project: Project, signal?: AbortSignal): Promise<void> {
     try {
       console.log(`🚀 Starting LangGraph workflow for project: ${project.name}`);
       
@@ -394,8 +395,8 @@ export class LangGraphWorkflow {
         analyses: []
       };
 
-      // Execute the workflow
-      const result = await workflow.invoke(initialState);
+      // Execute the workflow; an aborted signal stops it before the next step
+      const result = await workflow.invoke(initialState, { signal });
       
       if (result.error) {
         throw new Error(result.error);
@@ -404,6 +405,10 @@ export class LangGraphWorkflow {
       console.log(`🎉 LangGraph workflow completed successfully for: ${project.name}`);
       
     } catch (error) {
+      if (isCancellation(error, signal)) {
+        console.log(`⏹️ LangGraph workflow cancelled for project: ${project.name}`);
+        throw error;
+      }
       console.error(`❌ LangGraph workflow failed for project: ${project.name}`, error);
       await storage.updateProject(project.id, { analysisStatus: 'failed' });
       throw error;
@@ -1,5 +1,7 @@
 import { storage } from "../storage";
-import type { Project, TestCase, Analysis } from "@shared/schema";
+import { logger } from "../logger";
+import { ENV } from "../config";
+import type { Project, TestCase, Analysis, TestRun, TestRunResult } from "@shared/schema";
 
 interface TestExecutionHistory {
   testCaseId: number;
@@ -7,11 +9,29 @@ interface TestExecutionHistory {
   executionDate: Date;
   result: 'passed' | 'failed' | 'skipped';
   duration: number;
+  scriptHash?: string;
   errorType?: string;
   codeChanges?: string[];
   branchName?: string;
 }
 
+interface FlakinessReport {
+  testCaseId: number;
+  testName: string;
+  score: number; // 0-100
+  executions: number; // passed/failed executions considered
+  flips: number; // consecutive pass<->fail changes on the same script version
+  quarantined: boolean;
+  quarantineReason: string | null;
+}
+
+interface PassRate {
+  passRate: number; // 0-100
+  passed: number;
+  counted: number; // executed tests that are not quarantined
+  quarantined: number;
+}
+
 interface RiskScore {
   testCaseId: number;
   testName: string;
@@ -27,7 +47,7 @@ interface RiskScore {
   recommendation: string;
 }
 
-interface CodeChangeImpact {
+export interface CodeChangeImpact {
   filesChanged: string[];
   affectedComponents: string[];
   impactedTests: {
@@ -66,61 +86,52 @@ interface OptimalTestOrder {
 }
 
 export class MLTestingIntelligence {
-  private executionHistory: Map<number, TestExecutionHistory[]> = new Map();
-  
-  constructor() {
-    // Initialize with some mock historical data for demonstration
-    this.initializeMockHistory();
-  }
+  /**
+   * Load the persisted execution history for a project, grouped by test case in chronological order
+   */
+  private async loadExecutionHistory(projectId: number): Promise<Map<number, TestExecutionHistory[]>> {
+    const records = await storage.getTestExecutionHistoryByProject(projectId);
+    const executionHistory = new Map<number, TestExecutionHistory[]>();
 
-  private initializeMockHistory() {
-    // Simulate historical test execution data
-    const mockHistory: TestExecutionHistory[] = [
-      {
-        testCaseId: 1,
-        testName: "User Authentication Test",
-        executionDate: new Date(Date.now() - 86400000 * 7),
-        result: 'failed',
-        duration: 3500,
-        errorType: 'AuthenticationError',
-        codeChanges: ['auth.service.ts', 'login.component.tsx']
-      },
-      {
-        testCaseId: 1,
-        testName: "User Authentication Test",
-        executionDate: new Date(Date.now() - 86400000 * 3),
-        result: 'passed',
-        duration: 2800,
-        codeChanges: ['auth.service.ts']
-      },
-      {
-        testCaseId: 2,
-        testName: "API Endpoint Tests",
-        executionDate: new Date(Date.now() - 86400000 * 5),
-        result: 'failed',
-        duration: 5200,
-        errorType: 'NetworkTimeout',
-        codeChanges: ['api.routes.ts', 'middleware.ts']
-      }
-    ];
+    for (const record of records) {
+      if (record.testCaseId === null) continue;
 
-    mockHistory.forEach(history => {
-      if (!this.executionHistory.has(history.testCaseId)) {
-        this.executionHistory.set(history.testCaseId, []);
+      if (!executionHistory.has(record.testCaseId)) {
+        executionHistory.set(record.testCaseId, []);
       }
-      this.executionHistory.get(history.testCaseId)!.push(history);
+      executionHistory.get(record.testCaseId)!.push({
+        testCaseId: record.testCaseId,
+        testName: record.testName,
+        executionDate: new Date(record.executedAt || 0),
+        result: record.result as TestExecutionHistory['result'],
+        duration: record.duration,
+        scriptHash: record.scriptHash ?? undefined,
+        errorType: record.errorType ?? undefined,
+        codeChanges: (record.codeChanges as string[] | null) ?? undefined,
+        branchName: record.branchName ?? undefined
+      });
+    }
+
+    executionHistory.forEach(history => {
+      history.sort((a, b) => a.executionDate.getTime() - b.executionDate.getTime());
     });
+
+    return executionHistory;
   }
 
   /**
    * Calculate ML-based risk scores for test cases
    */
-  async calculateRiskScores(projectId: number): Promise<RiskScore[]> {
+  async calculateRiskScores(
+    projectId: number,
+    preloadedHistory?: Map<number, TestExecutionHistory[]>
+  ): Promise<RiskScore[]> {
     const testCases = await storage.getTestCasesByProject(projectId);
+    const executionHistory = preloadedHistory || await this.loadExecutionHistory(projectId);
     const riskScores: RiskScore[] = [];
 
     for (const testCase of testCases) {
-      const history = this.executionHistory.get(testCase.id) || [];
+      const history = executionHistory.get(testCase.id) || [];
       
       // Calculate historical failure rate
       const failureCount = history.filter(h => h.result === 'failed').length;
@@ -227,12 +238,16 @@ export class MLTestingIntelligence {
   /**
    * Predict test failures using ML patterns
    */
-  async predictTestFailures(projectId: number): Promise<TestPrediction[]> {
+  async predictTestFailures(
+    projectId: number,
+    preloadedHistory?: Map<number, TestExecutionHistory[]>
+  ): Promise<TestPrediction[]> {
     const testCases = await storage.getTestCasesByProject(projectId);
+    const executionHistory = preloadedHistory || await this.loadExecutionHistory(projectId);
     const predictions: TestPrediction[] = [];
 
     for (const testCase of testCases) {
-      const history = this.executionHistory.get(testCase.id) || [];
+      const history = executionHistory.get(testCase.id) || [];
       const prediction = this.analyzeFailurePatterns(testCase, history);
       
       predictions.push(prediction);
@@ -259,14 +274,16 @@ export class MLTestingIntelligence {
       testCases = testCases.filter(tc => testCaseIds.includes(tc.id));
     }
 
-    const riskScores = await this.calculateRiskScores(projectId);
-    const predictions = await this.predictTestFailures(projectId);
+    // Load the history once and share it across the scoring passes
+    const executionHistory = await this.loadExecutionHistory(projectId);
+    const riskScores = await this.calculateRiskScores(projectId, executionHistory);
+    const predictions = await this.predictTestFailures(projectId, executionHistory);
 
     // Create test execution order based on multiple factors
     const orderedTests = testCases.map(testCase => {
       const risk = riskScores.find(r => r.testCaseId === testCase.id);
       const prediction = predictions.find(p => p.testCaseId === testCase.id);
-      const history = this.executionHistory.get(testCase.id) || [];
+      const history = executionHistory.get(testCase.id) || [];
       
       // Calculate average duration
       const avgDuration = history.length > 0
@@ -332,7 +349,7 @@ export class MLTestingIntelligence {
     };
     
     const baseComplexity = typeComplexity[testCase.type] || 40;
-    const descriptionComplexity = Math.min(20, testCase.description.length / 10);
+    const descriptionComplexity = Math.min(20, (testCase.description || '').length / 10);
     
     return Math.round(baseComplexity + descriptionComplexity);
   }
@@ -415,7 +432,7 @@ export class MLTestingIntelligence {
 
     // Component match
     affectedComponents.forEach(component => {
-      if (testCase.name.includes(component) || testCase.description.includes(component)) {
+      if (testCase.name.includes(component) || (testCase.description || '').includes(component)) {
         confidence += 60;
         reasons.push(`Tests ${component}`);
       }
@@ -499,6 +516,10 @@ export class MLTestingIntelligence {
       riskFactors.push('E2E tests have higher failure rate on Mondays');
     }
 
+    if ((testCase.flakinessScore || 0) >= ENV.FLAKY_QUARANTINE_THRESHOLD) {
+      riskFactors.push('Flaky: results flip without script changes');
+    }
+
     // Make prediction
     const predictedOutcome = failureRate > 0.3 || riskFactors.length > 2 ? 'fail' : 'pass';
     const confidence = Math.min(100, 
@@ -544,29 +565,208 @@ export class MLTestingIntelligence {
     result: 'passed' | 'failed' | 'skipped',
     duration: number,
     errorType?: string,
-    codeChanges?: string[]
+    codeChanges?: string[],
+    testRunId?: number,
+    branchName?: string,
+    scriptHash?: string
   ) {
-    const execution: TestExecutionHistory = {
+    const testCase = await storage.getTestCase(testCaseId);
+    if (!testCase) {
+      throw new Error(`Test case ${testCaseId} not found`);
+    }
+
+    await storage.createTestExecutionRecord({
+      projectId: testCase.projectId,
       testCaseId,
+      testRunId: testRunId ?? null,
       testName,
-      executionDate: new Date(),
       result,
-      duration,
-      errorType,
-      codeChanges
-    };
+      duration: Math.round(duration || 0),
+      scriptHash: scriptHash ?? null,
+      errorType: errorType ?? null,
+      codeChanges: codeChanges ?? null,
+      branchName: branchName ?? null
+    });
+  }
 
-    if (!this.executionHistory.has(testCaseId)) {
-      this.executionHistory.set(testCaseId, []);
+  /**
+   * Record every result of a completed suite run, including each retry attempt,
+   * so future scoring learns from it
+   */
+  async recordTestRun(testRun: TestRun, results: TestRunResult[]) {
+    const testCases = testRun.projectId ? await storage.getTestCasesByProject(testRun.projectId) : [];
+    const testCasesById = new Map(testCases.map(testCase => [testCase.id, testCase]));
+    let recorded = 0;
+
+    for (const result of results) {
+      if (result.testCaseId === null) continue;
+
+      try {
+        const testCase = testCasesById.get(result.testCaseId);
+        if (!testCase) {
+          throw new Error(`Test case ${result.testCaseId} not found`);
+        }
+
+        await storage.createTestExecutionRecord({
+          projectId: testCase.projectId,
+          testCaseId: result.testCaseId,
+          testRunId: testRun.id,
+          testName: result.testCaseName,
+          result: result.status,
+          duration: Math.round(result.duration || 0),
+          scriptHash: result.scriptHash ?? null,
+          errorType: result.status === 'failed' ? this.classifyError((result.errors as string[] | null) || []) ?? null : null,
+          codeChanges: null,
+          branchName: null
+        });
+        recorded++;
+      } catch (error) {
+        logger.warn('Failed to record test execution history', {
+          testRunId: testRun.id,
+          testCaseId: result.testCaseId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'ML_INTELLIGENCE');
+      }
     }
-    
-    this.executionHistory.get(testCaseId)!.push(execution);
-    
-    // Keep only last 100 executions per test
-    const history = this.executionHistory.get(testCaseId)!;
-    if (history.length > 100) {
-      this.executionHistory.set(testCaseId, history.slice(-100));
+
+    logger.info(`Recorded ${recorded} executions from test run ${testRun.id}`, { projectId: testRun.projectId }, 'ML_INTELLIGENCE');
+
+    if (testRun.projectId) {
+      const testCaseIds = results.map(result => result.testCaseId).filter((id): id is number => id !== null);
+      await this.updateFlakinessScores(testRun.projectId, testCaseIds);
+    }
+  }
+
+  /**
+   * Score how often each test flips between passed and failed on the same script version
+   */
+  async getFlakinessReports(
+    projectId: number,
+    preloadedHistory?: Map<number, TestExecutionHistory[]>
+  ): Promise<FlakinessReport[]> {
+    const testCases = await storage.getTestCasesByProject(projectId);
+    const executionHistory = preloadedHistory || await this.loadExecutionHistory(projectId);
+
+    return testCases
+      .map(testCase => ({
+        testCaseId: testCase.id,
+        testName: testCase.name,
+        ...this.calculateFlakiness(executionHistory.get(testCase.id) || []),
+        quarantined: Boolean(testCase.quarantined),
+        quarantineReason: testCase.quarantineReason
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Refresh the stored flakiness scores and quarantine tests that cross the threshold.
+   * Quarantined tests keep running; they are only left out of quality-gate pass rates.
+   */
+  async updateFlakinessScores(projectId: number, testCaseIds?: number[]): Promise<FlakinessReport[]> {
+    const testCases = await storage.getTestCasesByProject(projectId);
+    const reports = await this.getFlakinessReports(projectId);
+    const updatedReports: FlakinessReport[] = [];
+
+    for (const report of reports) {
+      if (testCaseIds && !testCaseIds.includes(report.testCaseId)) continue;
+
+      const testCase = testCases.find(tc => tc.id === report.testCaseId)!;
+      const updates: Partial<TestCase> = {};
+
+      if (testCase.flakinessScore !== report.score) {
+        updates.flakinessScore = report.score;
+      }
+
+      if (!testCase.quarantined &&
+          report.executions >= ENV.FLAKY_MIN_EXECUTIONS &&
+          report.score >= ENV.FLAKY_QUARANTINE_THRESHOLD) {
+        updates.quarantined = true;
+        updates.quarantinedAt = new Date();
+        updates.quarantineReason = `Automatically quarantined: flakiness score ${report.score} over ${report.executions} executions`;
+        report.quarantined = true;
+        report.quarantineReason = updates.quarantineReason;
+
+        logger.warn(`Quarantined flaky test ${testCase.name}`, {
+          testCaseId: testCase.id,
+          score: report.score,
+          flips: report.flips
+        }, 'ML_INTELLIGENCE');
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await storage.updateTestCase(testCase.id, updates);
+      }
+      updatedReports.push(report);
+    }
+
+    return updatedReports;
+  }
+
+  /**
+   * Manually quarantine a test case or release it from quarantine
+   */
+  async setQuarantine(testCaseId: number, quarantined: boolean, reason?: string): Promise<TestCase | undefined> {
+    return storage.updateTestCase(testCaseId, {
+      quarantined,
+      quarantinedAt: quarantined ? new Date() : null,
+      quarantineReason: quarantined ? (reason || 'Manually quarantined') : null
+    });
+  }
+
+  /**
+   * Pass rate used by quality gates: quarantined and not-yet-executed tests are left out
+   */
+  calculatePassRate(testCases: Pick<TestCase, 'status' | 'quarantined'>[]): PassRate {
+    const executed = testCases.filter(tc => tc.status === 'passed' || tc.status === 'failed');
+    const counted = executed.filter(tc => !tc.quarantined);
+    const passed = counted.filter(tc => tc.status === 'passed').length;
+
+    return {
+      passRate: counted.length > 0 ? Math.round((passed / counted.length) * 100) : 100,
+      passed,
+      counted: counted.length,
+      quarantined: executed.length - counted.length
+    };
+  }
+
+  /**
+   * Flip rate across consecutive executions of the same script version; skipped runs are ignored
+   * and a change of script starts a new sequence. Imported and manually recorded results carry no
+   * script hash, so which version produced them is unknown and they are left out.
+   */
+  private calculateFlakiness(history: TestExecutionHistory[]): { score: number; executions: number; flips: number } {
+    const executions = history.filter(h => (h.result === 'passed' || h.result === 'failed') && h.scriptHash);
+    let transitions = 0;
+    let flips = 0;
+
+    for (let i = 1; i < executions.length; i++) {
+      const previous = executions[i - 1];
+      const current = executions[i];
+      if (previous.scriptHash !== current.scriptHash) continue;
+
+      transitions++;
+      if (previous.result !== current.result) flips++;
     }
+
+    return {
+      score: transitions > 0 ? Math.round((flips / transitions) * 100) : 0,
+      executions: executions.length,
+      flips
+    };
+  }
+
+  /**
+   * Reduce a failure message to a short error category for pattern analysis
+   */
+  private classifyError(errors: string[]): string | undefined {
+    const message = errors[0];
+    if (!message) return undefined;
+
+    if (/timed? ?out|exceeded timeout/i.test(message)) return 'Timeout';
+    if (/expect\(/.test(message)) return 'AssertionError';
+
+    const errorName = message.match(/\b([A-Z]\w*Error)\b/);
+    return errorName ? errorName[1] : 'Error';
   }
 }
 
@@ -48,6 +48,7 @@ export interface TestExecutionResult {
   output: string;
   errors: string[];
   metrics: Record<string, any>;
+  // Artifact store ids, see artifact-store.ts
   screenshots?: string[];
   artifacts?: string[];
 }
@@ -621,7 +622,8 @@ Total execution time: ${Math.floor(Math.random() * 120) + 30}s`,
               pass_rate: ((passedTests / totalTests) * 100).toFixed(1),
               execution_time: Math.floor(Math.random() * 120) + 30
             },
-            screenshots: failedTests > 0 ? ['failed-test-1.png', 'failed-test-2.png'] : []
+            // Simulated runs produce no files, so there is nothing to store
+            screenshots: []
           };
         }
       },
@@ -755,7 +757,6 @@ Most Common Issues:
           tests_failed: success ? 0 : 6,
           coverage: success ? '92%' : '78%'
         };
-        baseResults.screenshots = success ? [] : ['error-screenshot-1.png', 'error-screenshot-2.png'];
         break;
     }
 
@@ -0,0 +1,599 @@
+/**
+ * OpenAPI Contract Service
+ * Ingests an OpenAPI 3 document, uploaded or found in the acquired repository, and generates a Jest
+ * contract test per operation and documented response code. The tests call the API at a configurable
+ * base URL and validate status codes and JSON response bodies against the documented schemas.
+ */
+
+import path from 'path';
+import YAML from 'yaml';
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { projectWorkspace } from './project-workspace';
+import { CONTRACT_RUNTIME_FILE } from './contract-runtime';
+import type { Project, TestCase } from '@shared/schema';
+
+export interface OpenApiOperation {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  tags: string[];
+  parameters: any[];
+  requestBody?: any;
+  responses: Record<string, any>;
+  security: Record<string, string[]>[];
+}
+
+export interface ContractTest {
+  name: string;
+  description: string;
+  method: string;
+  path: string;
+  responseCode: string;
+  priority: string;
+  // Operation tags of the spec, e.g. "pets"
+  tags: string[];
+  // False for response codes the generator cannot provoke; their tests are left pending
+  executable: boolean;
+  testScript: string;
+}
+
+export interface OpenApiIngestOptions {
+  // Spec text, e.g. from an upload
+  content?: string;
+  fileName?: string;
+  // Workspace-relative path of the spec in the acquired repository
+  path?: string;
+  // Base URL the tests call when API_BASE_URL is not set for the run
+  baseUrl?: string;
+}
+
+export interface OpenApiIngestResult {
+  title: string;
+  version: string;
+  source: string;
+  baseUrl: string | null;
+  operations: number;
+  created: TestCase[];
+  updated: TestCase[];
+  // Contract tests of operations or responses no longer in the spec; they are kept for their history
+  stale: string[];
+}
+
+export class OpenApiSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenApiSpecError';
+  }
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'patch', 'head', 'options', 'trace'];
+const SPEC_EXTENSIONS = ['.json', '.yaml', '.yml'];
+// Preferred file names when discovering a spec; other JSON and YAML files are only checked after these
+const SPEC_NAME_PATTERN = /(^|[-_.])(openapi|swagger|api[-_]?spec|api[-_]?docs?)([-_.]|$)/i;
+// Documents are dereferenced into the generated scripts, so deeply recursive schemas are cut off
+const MAX_SCHEMA_DEPTH = 12;
+const GENERATED_BY = 'openapi-contract';
+
+export class OpenApiContractService {
+  /**
+   * Parse an OpenAPI 3 document from JSON or YAML text
+   */
+  parseDocument(content: string, fileName?: string): any {
+    let document: any;
+    try {
+      const isJson = fileName ? fileName.toLowerCase().endsWith('.json') : content.trimStart().startsWith('{');
+      document = isJson ? JSON.parse(content) : YAML.parse(content, { maxAliasCount: 1000 });
+    } catch (error) {
+      throw new OpenApiSpecError(`${fileName || 'Spec'} is not valid JSON or YAML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      throw new OpenApiSpecError(`${fileName || 'Spec'} is not an OpenAPI document`);
+    }
+    if (document.swagger) {
+      throw new OpenApiSpecError(`${fileName || 'Spec'} is a Swagger ${document.swagger} document; only OpenAPI 3 is supported`);
+    }
+    if (typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+      throw new OpenApiSpecError(`${fileName || 'Spec'} has no openapi: 3.x version field`);
+    }
+    if (!document.paths || typeof document.paths !== 'object') {
+      throw new OpenApiSpecError(`${fileName || 'Spec'} has no paths`);
+    }
+    return document;
+  }
+
+  /**
+   * Find an OpenAPI 3 document in a project's workspace. Files named like openapi.yaml or swagger.json
+   * are tried first, then any other JSON or YAML file that declares an openapi version.
+   */
+  async discoverSpec(projectId: number): Promise<{ path: string; content: string; document: any } | null> {
+    const files = (await projectWorkspace.listFiles(projectId))
+      .filter(file => SPEC_EXTENSIONS.includes(path.extname(file.path).toLowerCase()));
+
+    const named = files.filter(file => SPEC_NAME_PATTERN.test(path.basename(file.path, path.extname(file.path))));
+    const others = files.filter(file => !named.includes(file));
+    // Shallower files first, so a root openapi.yaml wins over fixtures in nested directories
+    const byDepth = (a: { path: string }, b: { path: string }) => a.path.split('/').length - b.path.split('/').length;
+
+    for (const file of [...named.sort(byDepth), ...others.sort(byDepth)]) {
+      const content = await projectWorkspace.readFile(projectId, file.path);
+      if (!content || !/["']?openapi["']?\s*:\s*["']?3\./.test(content)) continue;
+      try {
+        return { path: file.path, content, document: this.parseDocument(content, file.path) };
+      } catch (error) {
+        logger.debug(`Skipping ${file.path} during OpenAPI discovery`, { error: error instanceof Error ? error.message : error }, 'OPENAPI');
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Ingest a project's OpenAPI spec and create or refresh its contract tests. The spec comes from
+   * the given content, a workspace path, or discovery in the acquired repository.
+   */
+  async ingest(project: Project, options: OpenApiIngestOptions = {}): Promise<OpenApiIngestResult> {
+    let source: string;
+    let document: any;
+    if (options.content) {
+      source = options.fileName || 'upload';
+      document = this.parseDocument(options.content, options.fileName);
+    } else if (options.path) {
+      const content = await projectWorkspace.readFile(project.id, options.path);
+      if (content === undefined) {
+        throw new OpenApiSpecError(`${options.path} was not found in the project's workspace`);
+      }
+      source = options.path;
+      document = this.parseDocument(content, options.path);
+    } else {
+      const discovered = await this.discoverSpec(project.id);
+      if (!discovered) {
+        throw new OpenApiSpecError('No OpenAPI 3 document was found in the project; upload one or pass its path');
+      }
+      source = discovered.path;
+      document = discovered.document;
+    }
+
+    const baseUrl = this.baseUrlOf(document, options.baseUrl);
+    const contractTests = this.generateContractTests(document, baseUrl);
+
+    const existing = (await storage.getTestCasesByProject(project.id)).filter(testCase => testCase.generatedBy === GENERATED_BY);
+    const existingByName = new Map(existing.map(testCase => [testCase.name, testCase]));
+    const result: OpenApiIngestResult = {
+      title: document.info?.title || 'API',
+      version: document.info?.version || '',
+      source,
+      baseUrl,
+      operations: this.listOperations(document).length,
+      created: [],
+      updated: [],
+      stale: existing.map(testCase => testCase.name).filter(name => !contractTests.some(test => test.name === name))
+    };
+
+    for (const test of contractTests) {
+      const current = existingByName.get(test.name);
+      if (current) {
+        if (current.testScript === test.testScript && current.description === test.description) continue;
+        const updated = await storage.updateTestCase(current.id, { description: test.description, testScript: test.testScript });
+        if (updated) result.updated.push(updated);
+        continue;
+      }
+
+      result.created.push(await storage.createTestCase({
+        projectId: project.id,
+        name: test.name,
+        description: test.description,
+        priority: test.priority,
+        type: 'integration',
+        testScript: test.testScript,
+        generatedBy: GENERATED_BY
+      }));
+    }
+
+    await storage.saveOpenApiSpec({
+      projectId: project.id,
+      title: result.title,
+      version: result.version || null,
+      source,
+      baseUrl,
+      document
+    });
+
+    logger.info(`Ingested OpenAPI spec ${result.title} ${result.version} from ${source}`, {
+      projectId: project.id,
+      operations: result.operations,
+      created: result.created.length,
+      updated: result.updated.length,
+      stale: result.stale.length
+    }, 'OPENAPI');
+
+    return result;
+  }
+
+  /**
+   * Generate a contract test for every operation and documented response code of a document
+   */
+  generateContractTests(document: any, baseUrl: string | null): ContractTest[] {
+    const resolved = this.dereference(document);
+    const title = `${resolved.info?.title || 'API'}${resolved.info?.version ? ` ${resolved.info.version}` : ''}`;
+
+    return this.listOperations(resolved).flatMap(operation =>
+      Object.keys(operation.responses).map(responseCode => this.contractTest(resolved, title, operation, responseCode, baseUrl))
+    );
+  }
+
+  /**
+   * Every operation of a document, with path-level parameters and the document's default security applied
+   */
+  listOperations(document: any): OpenApiOperation[] {
+    const operations: OpenApiOperation[] = [];
+    for (const [pathName, pathItem] of Object.entries<any>(document.paths || {})) {
+      if (!pathItem || typeof pathItem !== 'object') continue;
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) continue;
+
+        // Operation parameters override path-level ones with the same name and location
+        const parameters = new Map<string, any>();
+        for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+          parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+        }
+
+        operations.push({
+          method: method.toUpperCase(),
+          path: pathName,
+          operationId: operation.operationId,
+          summary: operation.summary || operation.description,
+          tags: operation.tags || [],
+          parameters: Array.from(parameters.values()),
+          requestBody: operation.requestBody,
+          responses: operation.responses || {},
+          security: operation.security ?? document.security ?? []
+        });
+      }
+    }
+    return operations;
+  }
+
+  /**
+   * The URL the tests call by default: the configured base URL, or the first absolute server URL
+   * with its variables set to their defaults
+   */
+  private baseUrlOf(document: any, configured?: string): string | null {
+    if (configured) return configured.replace(/\/+$/, '');
+
+    for (const server of document.servers || []) {
+      const url = String(server.url || '').replace(/\{([^}]+)\}/g, (match, name) => server.variables?.[name]?.default ?? match);
+      if (/^https?:\/\/[^{}]+$/.test(url)) return url.replace(/\/+$/, '');
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the local $refs of a document. A schema that refers back to itself is cut off at the
+   * point of recursion and accepts anything from there.
+   */
+  private dereference(document: any): any {
+    const lookup = (ref: string): any => ref
+      .slice(2)
+      .split('/')
+      .map(segment => decodeURIComponent(segment.replace(/~1/g, '/').replace(/~0/g, '~')))
+      .reduce((node, segment) => node?.[segment], document);
+
+    const resolve = (node: any, refs: string[], depth: number): any => {
+      if (Array.isArray(node)) return node.map(item => resolve(item, refs, depth));
+      if (!node || typeof node !== 'object') return node;
+
+      if (typeof node.$ref === 'string') {
+        if (!node.$ref.startsWith('#/') || refs.includes(node.$ref) || depth > MAX_SCHEMA_DEPTH) return {};
+        const target = lookup(node.$ref);
+        return target === undefined ? {} : resolve(target, [...refs, node.$ref], depth + 1);
+      }
+
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, resolve(value, refs, depth)]));
+    };
+
+    return resolve(document, [], 0);
+  }
+
+  private contractTest(document: any, title: string, operation: OpenApiOperation, responseCode: string, baseUrl: string | null): ContractTest {
+    const name = `${operation.method} ${operation.path} returns ${responseCode}`;
+    const response = operation.responses[responseCode] || {};
+    const request = this.requestFor(document, operation, responseCode);
+    const description = [
+      operation.summary || operation.operationId || `${operation.method} ${operation.path}`,
+      response.description ? `Expects ${responseCode}: ${response.description}` : `Expects ${responseCode}`
+    ].join('. ');
+    const priority = /^2/.test(responseCode) ? 'high' : /^4/.test(responseCode) ? 'medium' : 'low';
+
+    return {
+      name,
+      description,
+      method: operation.method,
+      path: operation.path,
+      responseCode,
+      priority,
+      tags: operation.tags,
+      executable: Boolean(request.spec),
+      testScript: request.spec
+        ? this.testScript(title, name, request.spec, responseCode, this.jsonSchemaOf(response), baseUrl)
+        : this.pendingTestScript(title, name, request.reason!)
+    };
+  }
+
+  /**
+   * Build the request that should provoke a response code: a valid request for success codes, one
+   * missing a required input for 400/422, one without credentials for 401 and one with unknown path
+   * parameters for 404. Other codes depend on server state, so their tests are left pending.
+   */
+  private requestFor(document: any, operation: OpenApiOperation, responseCode: string): { spec?: any; reason?: string } {
+    const schemes = this.authSchemes(document, operation);
+    const spec: any = {
+      method: operation.method,
+      path: operation.path,
+      pathParams: {},
+      query: {},
+      headers: {},
+      cookies: {},
+      auth: schemes,
+      authenticate: true
+    };
+
+    for (const parameter of operation.parameters) {
+      if (parameter.in === 'path') {
+        spec.pathParams[parameter.name] = this.parameterValue(parameter);
+      } else if (parameter.required) {
+        const target = parameter.in === 'query' ? spec.query : parameter.in === 'header' ? spec.headers : spec.cookies;
+        target[parameter.name] = this.parameterValue(parameter);
+      }
+    }
+
+    const body = this.requestBodyOf(operation);
+    if (body) {
+      spec.contentType = body.contentType;
+      spec.body = body.value;
+    } else if (operation.requestBody?.required) {
+      return { reason: `the request body has no JSON or form media type to generate` };
+    }
+
+    const code = responseCode.toUpperCase();
+    if (/^[23](\d\d|XX)$/.test(code)) return { spec };
+
+    if (code === '400' || code === '422') {
+      const requiredQuery = operation.parameters.find(parameter => parameter.required && parameter.in === 'query');
+      const requiredProperty = body?.schema?.required?.[0];
+      if (requiredQuery) {
+        delete spec.query[requiredQuery.name];
+      } else if (requiredProperty && body!.value && typeof body!.value === 'object') {
+        const { [requiredProperty]: _omitted, ...rest } = body!.value;
+        spec.body = rest;
+      } else if (operation.requestBody?.required) {
+        delete spec.body;
+        delete spec.contentType;
+      } else {
+        return { reason: 'the operation has no required input to leave out' };
+      }
+      return { spec };
+    }
+
+    if (code === '401') {
+      if (schemes.length === 0) return { reason: 'the operation declares no security scheme' };
+      spec.authenticate = false;
+      return { spec };
+    }
+
+    if (code === '404') {
+      const pathParameters = operation.parameters.filter(parameter => parameter.in === 'path');
+      if (pathParameters.length === 0) return { reason: 'the operation has no path parameters to point at a missing resource' };
+      for (const parameter of pathParameters) {
+        spec.pathParams[parameter.name] = this.missingValue(parameter.schema || {});
+      }
+      return { spec };
+    }
+
+    return { reason: `a ${responseCode} response depends on server state the generator cannot set up` };
+  }
+
+  /**
+   * The security schemes of the operation's first security requirement, mapped to the credentials
+   * the test reads from its environment
+   */
+  private authSchemes(document: any, operation: OpenApiOperation): any[] {
+    const requirement = operation.security.find(option => Object.keys(option).length > 0);
+    if (!requirement) return [];
+
+    return Object.keys(requirement).flatMap(schemeName => {
+      const scheme = document.components?.securitySchemes?.[schemeName];
+      if (!scheme) return [];
+      if (scheme.type === 'apiKey') return [{ type: 'apiKey', in: scheme.in, name: scheme.name }];
+      if (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic') return [{ type: 'basic' }];
+      // http bearer, oauth2 and OpenID Connect all send a bearer token
+      return [{ type: 'bearer' }];
+    });
+  }
+
+  private parameterValue(parameter: any): any {
+    if (parameter.example !== undefined) return parameter.example;
+    const example = Object.values<any>(parameter.examples || {})[0];
+    if (example?.value !== undefined) return example.value;
+    return this.sampleValue(parameter.schema || { type: 'string' });
+  }
+
+  // A path parameter value that should not match an existing resource
+  private missingValue(schema: any): any {
+    if (schema.type === 'integer' || schema.type === 'number') return 999999999;
+    if (schema.format === 'uuid') return '00000000-0000-4000-8000-000000000000';
+    return 'matt-contract-missing';
+  }
+
+  private requestBodyOf(operation: OpenApiOperation): { contentType: string; schema: any; value: any } | null {
+    const content = operation.requestBody?.content || {};
+    const contentType = Object.keys(content).find(type => this.isJson(type))
+      || Object.keys(content).find(type => type === 'application/x-www-form-urlencoded');
+    if (!contentType) return null;
+
+    const media = content[contentType] || {};
+    const example = media.example ?? Object.values<any>(media.examples || {})[0]?.value;
+    return {
+      contentType,
+      schema: media.schema,
+      value: example !== undefined ? example : this.sampleValue(media.schema || { type: 'object' })
+    };
+  }
+
+  private jsonSchemaOf(response: any): any {
+    const content = response.content || {};
+    const contentType = Object.keys(content).find(type => this.isJson(type));
+    const schema = contentType ? content[contentType]?.schema : null;
+    return schema ? this.toJsonSchema(schema) : null;
+  }
+
+  /**
+   * Rewrite the OpenAPI 3.0 dialect into plain JSON Schema for ajv: nullable becomes a null type and
+   * boolean exclusiveMinimum/exclusiveMaximum become numeric bounds. 3.1 schemas pass through unchanged.
+   */
+  private toJsonSchema(schema: any): any {
+    if (Array.isArray(schema)) return schema.map(item => this.toJsonSchema(item));
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const { nullable, ...rest } = schema;
+    const converted: any = Object.fromEntries(Object.entries(rest).map(([key, value]) =>
+      // Examples and enum values are data, not schemas
+      [key, key === 'example' || key === 'enum' || key === 'default' || key === 'const' ? value : this.toJsonSchema(value)]
+    ));
+
+    if (nullable === true) {
+      if (converted.type !== undefined) converted.type = Array.from(new Set([...[].concat(converted.type), 'null']));
+      if (Array.isArray(converted.enum) && !converted.enum.includes(null)) converted.enum = [...converted.enum, null];
+    }
+    for (const [exclusive, bound] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+      if (typeof converted[exclusive] !== 'boolean') continue;
+      if (converted[exclusive] && typeof converted[bound] === 'number') {
+        converted[exclusive] = converted[bound];
+        delete converted[bound];
+      } else {
+        delete converted[exclusive];
+      }
+    }
+    return converted;
+  }
+
+  private isJson(contentType: string): boolean {
+    return /^application\/(.+\+)?json/i.test(contentType) || contentType === '*/*';
+  }
+
+  /**
+   * Generate a value that satisfies a schema, preferring its own examples and defaults
+   */
+  private sampleValue(schema: any, depth: number = 0): any {
+    if (!schema || typeof schema !== 'object' || depth > MAX_SCHEMA_DEPTH) return null;
+    if (schema.example !== undefined) return schema.example;
+    if (schema.default !== undefined) return schema.default;
+    if (schema.const !== undefined) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+
+    if (schema.allOf) {
+      return schema.allOf.reduce((merged: any, subschema: any) => {
+        const value = this.sampleValue(subschema, depth + 1);
+        return value && typeof value === 'object' && !Array.isArray(value) ? { ...merged, ...value } : merged;
+      }, {});
+    }
+    if (schema.oneOf || schema.anyOf) return this.sampleValue((schema.oneOf || schema.anyOf)[0], depth + 1);
+
+    const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+    switch (type || (schema.properties ? 'object' : schema.items ? 'array' : 'string')) {
+      case 'object': {
+        const properties = Object.entries<any>(schema.properties || {}).filter(([, property]) => !property?.readOnly);
+        const required = new Set<string>(schema.required || []);
+        // Only required properties are sent, unless the schema requires none
+        const included = required.size > 0 ? properties.filter(([name]) => required.has(name)) : properties;
+        return Object.fromEntries(included.map(([name, property]) => [name, this.sampleValue(property, depth + 1)]));
+      }
+      case 'array':
+        return Array.from({ length: Math.max(1, schema.minItems || 0) }, () => this.sampleValue(schema.items || {}, depth + 1));
+      case 'integer':
+        return this.sampleNumber(schema, true);
+      case 'number':
+        return this.sampleNumber(schema, false);
+      case 'boolean':
+        return true;
+      default:
+        return this.sampleString(schema);
+    }
+  }
+
+  private sampleNumber(schema: any, integer: boolean): number {
+    let value = integer ? 1 : 1.5;
+    if (typeof schema.minimum === 'number') value = Math.max(value, schema.minimum + (schema.exclusiveMinimum === true ? 1 : 0));
+    if (typeof schema.exclusiveMinimum === 'number') value = Math.max(value, schema.exclusiveMinimum + 1);
+    if (typeof schema.maximum === 'number') value = Math.min(value, schema.maximum - (schema.exclusiveMaximum === true ? 1 : 0));
+    if (typeof schema.exclusiveMaximum === 'number') value = Math.min(value, schema.exclusiveMaximum - 1);
+    return integer ? Math.ceil(value) : value;
+  }
+
+  private sampleString(schema: any): string {
+    const byFormat: Record<string, string> = {
+      'date-time': '2024-01-01T00:00:00Z',
+      date: '2024-01-01',
+      email: 'contract-test@example.com',
+      uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+      uri: 'https://example.com',
+      hostname: 'example.com',
+      ipv4: '192.0.2.1'
+    };
+    let value = byFormat[schema.format] || 'string';
+    if (schema.minLength && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x');
+    if (schema.maxLength && value.length > schema.maxLength) value = value.slice(0, schema.maxLength);
+    return value;
+  }
+
+  private testScript(title: string, name: string, spec: any, responseCode: string, schema: any, baseUrl: string | null): string {
+    const code = responseCode.toUpperCase();
+    const statusAssertion = /^\d{3}$/.test(code)
+      ? `    expect(response.status).toBe(${Number(code)});`
+      : `    expect(String(response.status)[0]).toBe(${JSON.stringify(code[0])});`;
+    const bodyAssertions = schema
+      ? [
+        `    expect(response.contentType).toMatch(/json/);`,
+        `    expect(validateSchema(RESPONSE_SCHEMA, response.json)).toEqual([]);`
+      ]
+      : [];
+
+    return [
+      `// Contract test generated from the OpenAPI spec of ${title}`,
+      `// Runs against API_BASE_URL; credentials come from API_TOKEN, API_KEY or API_USERNAME/API_PASSWORD`,
+      `const { sendRequest, validateSchema } = require('./${CONTRACT_RUNTIME_FILE}');`,
+      ``,
+      `const DEFAULT_BASE_URL = ${JSON.stringify(baseUrl)};`,
+      `const REQUEST = ${JSON.stringify(spec, null, 2)};`,
+      `const RESPONSE_SCHEMA = ${JSON.stringify(schema, null, 2)};`,
+      ``,
+      `describe(${JSON.stringify(title)}, () => {`,
+      `  test(${JSON.stringify(name)}, async () => {`,
+      `    const response = await sendRequest(REQUEST, DEFAULT_BASE_URL);`,
+      statusAssertion,
+      ...bodyAssertions,
+      `  });`,
+      `});`,
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * A pending Jest test for a response the generator cannot provoke, reported as skipped
+   */
+  private pendingTestScript(title: string, name: string, reason: string): string {
+    return [
+      `// Contract test generated from the OpenAPI spec of ${title}`,
+      `// Pending: ${reason}`,
+      `describe(${JSON.stringify(title)}, () => {`,
+      `  test.todo(${JSON.stringify(name)});`,
+      `});`,
+      ''
+    ].join('\n');
+  }
+}
+
+export const openApiContractService = new OpenApiContractService();
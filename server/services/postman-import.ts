@@ -0,0 +1,299 @@
+/**
+ * Postman Import Service
+ * Converts a Postman v2.1 collection into Jest test cases for the API runner: one test case per request,
+ * tagged with the collection and folders it came from. Pre-request and test scripts run in a small
+ * pm sandbox, each pm.test becomes a Jest test, and collection variables become a project environment.
+ */
+
+import { storage } from '../storage';
+import { logger } from '../logger';
+import { POSTMAN_RUNTIME_FILE } from './postman-runtime';
+import type { Environment, Project, TestCase } from '@shared/schema';
+
+export interface PostmanImportResult {
+  collection: string;
+  requests: number;
+  created: TestCase[];
+  updated: TestCase[];
+  // Environment holding the collection variables; select it when running the imported tests
+  environment: Environment;
+  // Variables used by the requests that neither the collection nor the environment defines
+  missingVariables: string[];
+}
+
+export class PostmanCollectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostmanCollectionError';
+  }
+}
+
+interface ScriptSource {
+  source: string;
+  code: string;
+}
+
+interface CollectionRequest {
+  name: string;
+  folders: string[];
+  request: any;
+  description: string | null;
+  auth: any;
+  preRequestScripts: ScriptSource[];
+  testScripts: ScriptSource[];
+}
+
+const GENERATED_BY = 'postman-import';
+const DYNAMIC_VARIABLES = ['$guid', '$randomUUID', '$timestamp', '$isoTimestamp', '$randomInt'];
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+// Static pm.test("name", ...) calls, so each can be reported as a test of its own
+const PM_TEST_PATTERN = /pm\.test\(\s*(["'])((?:\\.|(?!\1)[^\\\n])*)\1\s*,/g;
+
+export class PostmanImportService {
+  /**
+   * Parse a collection export. Accepts the collection itself or the Postman API's { collection } wrapper.
+   */
+  parseCollection(input: unknown): any {
+    let collection: any = input;
+    if (typeof input === 'string') {
+      try {
+        collection = JSON.parse(input);
+      } catch (error) {
+        throw new PostmanCollectionError(`Collection is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    if (collection?.collection?.info) collection = collection.collection;
+
+    if (!collection || typeof collection !== 'object' || !collection.info) {
+      throw new PostmanCollectionError('Not a Postman collection: it has no info block');
+    }
+    const schema = String(collection.info.schema || '');
+    if (Array.isArray(collection.requests) || /\/v1\./.test(schema)) {
+      throw new PostmanCollectionError('Postman v1 collections are not supported; export the collection as v2.1');
+    }
+    if (!/\/v2\.[01]\./.test(schema) || !Array.isArray(collection.item)) {
+      throw new PostmanCollectionError('Not a Postman v2.1 collection');
+    }
+    return collection;
+  }
+
+  /**
+   * Convert a collection into test cases, creating or refreshing those imported before, and map its
+   * variables onto a project environment named after the collection
+   */
+  async importCollection(project: Project, input: unknown): Promise<PostmanImportResult> {
+    const collection = this.parseCollection(input);
+    const collectionName = String(collection.info.name || 'Postman collection');
+    const requests = this.collectRequests(collection, collectionName);
+    if (requests.length === 0) {
+      throw new PostmanCollectionError(`Collection ${collectionName} has no requests`);
+    }
+
+    const environment = await this.upsertEnvironment(project, collectionName, collection.variable || []);
+    const defined = new Set(Object.keys(environment.variables as Record<string, string>));
+    const scriptDefined = new Set(requests.flatMap(request => this.scriptVariables(request)));
+    const missingVariables = Array.from(new Set(requests.flatMap(request => this.usedVariables(request))))
+      .filter(name => !DYNAMIC_VARIABLES.includes(name) && !defined.has(this.environmentName(name)) && !scriptDefined.has(name))
+      .sort();
+
+    const existing = (await storage.getTestCasesByProject(project.id)).filter(testCase => testCase.generatedBy === GENERATED_BY);
+    const keyOf = (name: string, tags: unknown) => JSON.stringify([name, tags]);
+    const existingByKey = new Map(existing.map(testCase => [keyOf(testCase.name, testCase.tags), testCase]));
+    const result: PostmanImportResult = {
+      collection: collectionName,
+      requests: requests.length,
+      created: [],
+      updated: [],
+      environment,
+      missingVariables
+    };
+
+    for (const request of requests) {
+      const tags = [collectionName, ...request.folders];
+      const description = request.description || `${this.methodOf(request)} ${this.urlOf(request)}`;
+      const testScript = this.testScript(collectionName, request);
+      const current = existingByKey.get(keyOf(request.name, tags));
+      if (current) {
+        if (current.testScript === testScript && current.description === description) continue;
+        const updated = await storage.updateTestCase(current.id, { description, testScript });
+        if (updated) result.updated.push(updated);
+        continue;
+      }
+
+      const created = await storage.createTestCase({
+        projectId: project.id,
+        name: request.name,
+        description,
+        priority: 'medium',
+        type: 'integration',
+        testScript,
+        generatedBy: GENERATED_BY,
+        tags
+      });
+      existingByKey.set(keyOf(request.name, tags), created);
+      result.created.push(created);
+    }
+
+    logger.info(`Imported Postman collection ${collectionName}`, {
+      projectId: project.id,
+      requests: requests.length,
+      created: result.created.length,
+      updated: result.updated.length,
+      environmentId: environment.id,
+      missingVariables
+    }, 'POSTMAN_IMPORT');
+
+    return result;
+  }
+
+  /**
+   * Flatten the collection's folders into requests, carrying the auth, scripts and folder path each
+   * request inherits. Scripts run collection first, then each folder, then the request's own.
+   */
+  private collectRequests(collection: any, collectionName: string): CollectionRequest[] {
+    const requests: CollectionRequest[] = [];
+    const walk = (items: any[], folders: string[], auth: any, preRequest: ScriptSource[], tests: ScriptSource[]) => {
+      for (const item of items || []) {
+        const itemAuth = item.auth || (item.request && typeof item.request === 'object' ? item.request.auth : undefined);
+        const inheritedAuth = itemAuth && itemAuth.type !== 'inherit' ? itemAuth : auth;
+        const source = Array.isArray(item.item) ? `folder "${item.name}"` : 'request';
+        const itemPreRequest = [...preRequest, ...this.scriptsOf(item, 'prerequest', source)];
+        const itemTests = [...tests, ...this.scriptsOf(item, 'test', source)];
+
+        if (Array.isArray(item.item)) {
+          walk(item.item, [...folders, String(item.name || 'Folder')], inheritedAuth, itemPreRequest, itemTests);
+        } else if (item.request) {
+          const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+          requests.push({
+            name: String(item.name || `${request.method || 'GET'} request`),
+            folders,
+            request,
+            description: this.descriptionOf(request.description ?? item.description),
+            auth: inheritedAuth || null,
+            preRequestScripts: itemPreRequest,
+            testScripts: itemTests
+          });
+        }
+      }
+    };
+    walk(collection.item, [], collection.auth, this.scriptsOf(collection, 'prerequest', 'collection'), this.scriptsOf(collection, 'test', 'collection'));
+    return requests;
+  }
+
+  private scriptsOf(item: any, listen: 'prerequest' | 'test', source: string): ScriptSource[] {
+    return (item.event || [])
+      .filter((event: any) => event.listen === listen && !event.disabled && event.script?.exec)
+      .map((event: any) => ({
+        source,
+        code: Array.isArray(event.script.exec) ? event.script.exec.join('\n') : String(event.script.exec)
+      }))
+      .filter((script: ScriptSource) => script.code.trim());
+  }
+
+  private descriptionOf(description: any): string | null {
+    const text = typeof description === 'string' ? description : description?.content;
+    return text ? String(text).trim() : null;
+  }
+
+  private methodOf(request: CollectionRequest): string {
+    return String(request.request.method || 'GET').toUpperCase();
+  }
+
+  private urlOf(request: CollectionRequest): string {
+    const url = request.request.url;
+    return typeof url === 'string' ? url : url?.raw || '';
+  }
+
+  /**
+   * Create the collection's environment, or add new collection variables to it. Values already in
+   * the environment are kept, so credentials filled in after an earlier import survive a re-import.
+   */
+  private async upsertEnvironment(project: Project, name: string, collectionVariables: any[]): Promise<Environment> {
+    const imported: Record<string, string> = {};
+    for (const variable of collectionVariables) {
+      if (!variable?.key || variable.disabled) continue;
+      imported[this.environmentName(String(variable.key))] = variable.value === undefined || variable.value === null
+        ? ''
+        : typeof variable.value === 'string' ? variable.value : JSON.stringify(variable.value);
+    }
+
+    const existing = (await storage.getEnvironmentsByProject(project.id)).find(environment => environment.name === name);
+    if (!existing) {
+      return storage.createEnvironment({ projectId: project.id, name, variables: imported });
+    }
+
+    const variables = { ...imported, ...(existing.variables as Record<string, string>) };
+    if (Object.keys(variables).length === Object.keys(existing.variables as Record<string, string>).length) return existing;
+    return (await storage.updateEnvironment(existing.id, { variables })) || existing;
+  }
+
+  // Postman variable names may hold characters that environment variable names cannot
+  private environmentName(name: string): string {
+    const sanitized = name.replace(/[^A-Za-z0-9_]/g, '_');
+    return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+  }
+
+  private usedVariables(request: CollectionRequest): string[] {
+    // Disabled headers, query parameters and form fields are never sent
+    const text = JSON.stringify([request.request, request.auth], (_key, value) => value?.disabled === true ? undefined : value);
+    return Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]);
+  }
+
+  // Variables the request's scripts set themselves, e.g. pm.variables.set("token", ...)
+  private scriptVariables(request: CollectionRequest): string[] {
+    const code = request.preRequestScripts.map(script => script.code).join('\n');
+    return Array.from(code.matchAll(/\.(?:set|setEnvironmentVariable|setGlobalVariable)\(\s*["']([^"']+)["']/g), match => match[1]);
+  }
+
+  private declaredTests(request: CollectionRequest): string[] {
+    const names = new Set<string>();
+    for (const script of request.testScripts) {
+      for (const match of script.code.matchAll(PM_TEST_PATTERN)) {
+        try {
+          names.add(match[1] === '"' ? JSON.parse(`"${match[2]}"`) : match[2].replace(/\\'/g, "'"));
+        } catch {
+          // Names with escapes JSON cannot read are still asserted by the request's own test
+        }
+      }
+    }
+    // A pm.test named like the request itself is asserted by the request's test instead
+    names.delete(request.name);
+    return Array.from(names);
+  }
+
+  private testScript(collectionName: string, request: CollectionRequest): string {
+    const declaredTests = this.declaredTests(request);
+    const suiteName = [collectionName, ...request.folders].join(' / ');
+
+    return [
+      `// Imported from the Postman collection ${JSON.stringify(collectionName)}${request.folders.length > 0 ? `, folder ${request.folders.join(' / ')}` : ''}`,
+      `// Variables resolve from the run's environment; those set by scripts last for this request only`,
+      `const { runPostmanRequest, expectPostmanTest } = require('./${POSTMAN_RUNTIME_FILE}');`,
+      ``,
+      `const REQUEST = ${JSON.stringify({ name: request.name, request: request.request, auth: request.auth }, null, 2)};`,
+      `const PRE_REQUEST_SCRIPTS = ${JSON.stringify(request.preRequestScripts, null, 2)};`,
+      `const TEST_SCRIPTS = ${JSON.stringify(request.testScripts, null, 2)};`,
+      `const DECLARED_TESTS = ${JSON.stringify(declaredTests)};`,
+      ``,
+      `describe(${JSON.stringify(suiteName)}, () => {`,
+      `  let execution;`,
+      ``,
+      `  test(${JSON.stringify(request.name)}, async () => {`,
+      `    execution = await runPostmanRequest(REQUEST, PRE_REQUEST_SCRIPTS, TEST_SCRIPTS);`,
+      `    expect(execution.scriptErrors).toEqual([]);`,
+      `    const failures = execution.results.filter(result => !result.passed && !DECLARED_TESTS.includes(result.name));`,
+      `    expect(failures.map(result => result.name + ': ' + result.error)).toEqual([]);`,
+      `  });`,
+      ...declaredTests.flatMap(name => [
+        ``,
+        `  test(${JSON.stringify(name)}, () => {`,
+        `    expectPostmanTest(execution, ${JSON.stringify(name)});`,
+        `  });`
+      ]),
+      `});`,
+      ''
+    ].join('\n');
+  }
+}
+
+export const postmanImportService = new PostmanImportService();
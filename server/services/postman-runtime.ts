@@ -0,0 +1,451 @@
+/**
+ * Postman Runtime
+ * Workspace helper that imported Postman requests load to run themselves under Jest
+ */
+
+// Installed next to the test files of every run; imported scripts require it by this name
+export const POSTMAN_RUNTIME_FILE = 'postman-runtime.cjs';
+
+// Runs one Postman request inside the Jest workspace: pre-request scripts, variable substitution,
+// auth, the request itself, then the test scripts. Collection scripts are untrusted: each runs in a
+// vm context of its own that only sees the Postman globals, without require or process.
+export const POSTMAN_RUNTIME_SOURCE = `
+const crypto = require('crypto');
+const vm = require('vm');
+
+// Synchronous script code is stopped after this long; pending pm.test promises fall under Jest's timeout
+const SCRIPT_TIMEOUT_MS = 5000;
+
+// Not named AssertionError, which Jest would format as a Node assert failure
+class ExpectationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ExpectationError';
+  }
+}
+
+function environmentName(name) {
+  const sanitized = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? '_' + sanitized : sanitized;
+}
+
+function format(value) {
+  if (typeof value === 'string') return "'" + value + "'";
+  try {
+    return JSON.stringify(value);
+  } catch (error) {
+    return String(value);
+  }
+}
+
+function typeName(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value instanceof RegExp) return 'regexp';
+  return typeof value;
+}
+
+function deepEqual(a, b) {
+  if (a === b) return true;
+  if (typeName(a) !== typeName(b) || typeof a !== 'object' || a === null) return Number.isNaN(a) && Number.isNaN(b);
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => deepEqual(a[key], b[key]));
+}
+
+// The chai expect chains most collections use
+class Assertion {
+  constructor(subject, flags = {}) {
+    this.subject = subject;
+    this.flags = flags;
+    for (const word of ['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'at', 'of', 'same', 'but', 'does', 'still', 'also', 'own']) {
+      Object.defineProperty(this, word, { get: () => this });
+    }
+  }
+
+  assert(passed, message, negatedMessage) {
+    if (passed === Boolean(this.flags.negate)) {
+      throw new ExpectationError(this.flags.negate ? negatedMessage : message);
+    }
+    return this;
+  }
+
+  matches(expected, actual = this.subject) {
+    return this.flags.deep ? deepEqual(actual, expected) : actual === expected;
+  }
+
+  get not() { return new Assertion(this.subject, { ...this.flags, negate: !this.flags.negate }); }
+  get deep() { return new Assertion(this.subject, { ...this.flags, deep: true }); }
+  get ok() { return this.assert(Boolean(this.subject), 'expected ' + format(this.subject) + ' to be truthy', 'expected ' + format(this.subject) + ' to be falsy'); }
+  get true() { return this.assert(this.subject === true, 'expected ' + format(this.subject) + ' to be true', 'expected ' + format(this.subject) + ' to not be true'); }
+  get false() { return this.assert(this.subject === false, 'expected ' + format(this.subject) + ' to be false', 'expected ' + format(this.subject) + ' to not be false'); }
+  get null() { return this.assert(this.subject === null, 'expected ' + format(this.subject) + ' to be null', 'expected ' + format(this.subject) + ' to not be null'); }
+  get undefined() { return this.assert(this.subject === undefined, 'expected ' + format(this.subject) + ' to be undefined', 'expected ' + format(this.subject) + ' to not be undefined'); }
+  get NaN() { return this.assert(Number.isNaN(this.subject), 'expected ' + format(this.subject) + ' to be NaN', 'expected ' + format(this.subject) + ' to not be NaN'); }
+  get exist() { return this.assert(this.subject !== null && this.subject !== undefined, 'expected ' + format(this.subject) + ' to exist', 'expected ' + format(this.subject) + ' to not exist'); }
+  get empty() {
+    const size = typeof this.subject === 'string' || Array.isArray(this.subject)
+      ? this.subject.length
+      : this.subject && typeof this.subject === 'object' ? Object.keys(this.subject).length : 0;
+    return this.assert(size === 0, 'expected ' + format(this.subject) + ' to be empty', 'expected ' + format(this.subject) + ' not to be empty');
+  }
+
+  equal(expected) { return this.assert(this.matches(expected), 'expected ' + format(this.subject) + ' to equal ' + format(expected), 'expected ' + format(this.subject) + ' to not equal ' + format(expected)); }
+  equals(expected) { return this.equal(expected); }
+  eq(expected) { return this.equal(expected); }
+  eql(expected) { return this.deep.equal(expected); }
+  eqls(expected) { return this.eql(expected); }
+  above(limit) { return this.assert(this.subject > limit, 'expected ' + format(this.subject) + ' to be above ' + limit, 'expected ' + format(this.subject) + ' to be at most ' + limit); }
+  gt(limit) { return this.above(limit); }
+  greaterThan(limit) { return this.above(limit); }
+  least(limit) { return this.assert(this.subject >= limit, 'expected ' + format(this.subject) + ' to be at least ' + limit, 'expected ' + format(this.subject) + ' to be below ' + limit); }
+  gte(limit) { return this.least(limit); }
+  below(limit) { return this.assert(this.subject < limit, 'expected ' + format(this.subject) + ' to be below ' + limit, 'expected ' + format(this.subject) + ' to be at least ' + limit); }
+  lt(limit) { return this.below(limit); }
+  lessThan(limit) { return this.below(limit); }
+  most(limit) { return this.assert(this.subject <= limit, 'expected ' + format(this.subject) + ' to be at most ' + limit, 'expected ' + format(this.subject) + ' to be above ' + limit); }
+  lte(limit) { return this.most(limit); }
+  within(low, high) { return this.assert(this.subject >= low && this.subject <= high, 'expected ' + format(this.subject) + ' to be within ' + low + '..' + high, 'expected ' + format(this.subject) + ' to not be within ' + low + '..' + high); }
+  closeTo(expected, delta) { return this.assert(Math.abs(this.subject - expected) <= delta, 'expected ' + format(this.subject) + ' to be close to ' + expected, 'expected ' + format(this.subject) + ' not to be close to ' + expected); }
+  a(type) { return this.assert(typeName(this.subject) === type.toLowerCase(), 'expected ' + format(this.subject) + ' to be a ' + type, 'expected ' + format(this.subject) + ' not to be a ' + type); }
+  an(type) { return this.a(type); }
+  instanceOf(constructor) { return this.assert(this.subject instanceof constructor, 'expected ' + format(this.subject) + ' to be an instance of ' + constructor.name, 'expected ' + format(this.subject) + ' to not be an instance of ' + constructor.name); }
+  match(pattern) { return this.assert(pattern.test(String(this.subject)), 'expected ' + format(this.subject) + ' to match ' + pattern, 'expected ' + format(this.subject) + ' not to match ' + pattern); }
+  string(text) { return this.assert(String(this.subject).includes(text), 'expected ' + format(this.subject) + ' to contain ' + format(text), 'expected ' + format(this.subject) + ' to not contain ' + format(text)); }
+  oneOf(list) { return this.assert(list.some(item => this.matches(item, this.subject) || this.matches(this.subject, item)), 'expected ' + format(this.subject) + ' to be one of ' + format(list), 'expected ' + format(this.subject) + ' to not be one of ' + format(list)); }
+  satisfy(predicate) { return this.assert(Boolean(predicate(this.subject)), 'expected ' + format(this.subject) + ' to satisfy ' + predicate, 'expected ' + format(this.subject) + ' to not satisfy ' + predicate); }
+
+  include(expected) {
+    const subject = this.subject;
+    let passed;
+    if (typeof subject === 'string') passed = subject.includes(expected);
+    else if (Array.isArray(subject)) passed = subject.some(item => this.matches(expected, item));
+    else if (subject && typeof subject === 'object') passed = Object.entries(expected).every(([key, value]) => this.matches(value, subject[key]));
+    else passed = false;
+    return this.assert(passed, 'expected ' + format(subject) + ' to include ' + format(expected), 'expected ' + format(subject) + ' to not include ' + format(expected));
+  }
+  includes(expected) { return this.include(expected); }
+  contain(expected) { return this.include(expected); }
+  contains(expected) { return this.include(expected); }
+
+  members(expected) {
+    const subject = this.subject || [];
+    const passed = subject.length === expected.length && expected.every(item => subject.some(candidate => this.matches(item, candidate) || deepEqual(item, candidate)));
+    return this.assert(passed, 'expected ' + format(subject) + ' to have the same members as ' + format(expected), 'expected ' + format(subject) + ' to not have the same members as ' + format(expected));
+  }
+
+  keys(...expected) {
+    const wanted = expected.length === 1 && Array.isArray(expected[0]) ? expected[0] : expected;
+    const actual = Object.keys(this.subject || {});
+    return this.assert(wanted.every(key => actual.includes(key)), 'expected ' + format(this.subject) + ' to have keys ' + format(wanted), 'expected ' + format(this.subject) + ' to not have keys ' + format(wanted));
+  }
+  key(...expected) { return this.keys(...expected); }
+
+  lengthOf(expected) {
+    const length = this.subject ? this.subject.length : undefined;
+    return this.assert(length === expected, 'expected ' + format(this.subject) + ' to have a length of ' + expected + ' but got ' + length, 'expected ' + format(this.subject) + ' to not have a length of ' + expected);
+  }
+  length(expected) { return this.lengthOf(expected); }
+
+  property(name, ...value) {
+    const subject = this.subject;
+    const has = subject !== null && subject !== undefined && name in Object(subject);
+    if (value.length > 0) {
+      this.assert(has && this.matches(value[0], subject[name]), 'expected ' + format(subject) + ' to have property ' + format(name) + ' of ' + format(value[0]), 'expected ' + format(subject) + ' to not have property ' + format(name) + ' of ' + format(value[0]));
+    } else {
+      this.assert(has, 'expected ' + format(subject) + ' to have property ' + format(name), 'expected ' + format(subject) + ' to not have property ' + format(name));
+    }
+    // Like chai, later assertions in the chain apply to the property's value
+    return new Assertion(has ? subject[name] : undefined, { deep: this.flags.deep });
+  }
+}
+
+// pm.response.to.have.status(200) and friends
+function responseAssertions(response, negate = false) {
+  const check = (passed, message) => {
+    if (passed === negate) throw new ExpectationError((negate ? 'expected not: ' : '') + message);
+  };
+  const statusIs = (from, to, label) => check(response.code >= from && response.code <= to, 'expected response to be ' + label + ' but got status ' + response.code);
+  const assertions = {
+    status(expected) {
+      if (typeof expected === 'number') check(response.code === expected, 'expected response to have status code ' + expected + ' but got ' + response.code);
+      else check(response.status === expected, 'expected response to have status reason ' + format(expected) + ' but got ' + format(response.status));
+    },
+    header(name, value) {
+      const actual = response.headers.get(name);
+      check(actual !== undefined && (value === undefined || actual === value), 'expected response to have header ' + name + (value === undefined ? '' : ' with value ' + format(value)));
+    },
+    body(expected) {
+      check(expected === undefined ? response.text().length > 0 : response.text() === expected, 'expected response body to be ' + (expected === undefined ? 'non-empty' : format(expected)));
+    },
+    jsonBody() {
+      let parsed = true;
+      try { response.json(); } catch (error) { parsed = false; }
+      check(parsed, 'expected response body to be valid JSON');
+    },
+    get ok() { return statusIs(200, 299, 'successful'); },
+    get success() { return statusIs(200, 299, 'successful'); },
+    get error() { return statusIs(400, 599, 'an error'); },
+    get clientError() { return statusIs(400, 499, 'a client error'); },
+    get serverError() { return statusIs(500, 599, 'a server error'); },
+    get badRequest() { return statusIs(400, 400, 'a bad request'); },
+    get unauthorized() { return statusIs(401, 401, 'unauthorized'); },
+    get forbidden() { return statusIs(403, 403, 'forbidden'); },
+    get notFound() { return statusIs(404, 404, 'not found'); },
+    get json() { return assertions.jsonBody(); },
+    get not() { return responseAssertions(response, !negate); }
+  };
+  for (const word of ['to', 'be', 'have', 'and']) {
+    Object.defineProperty(assertions, word, { get: () => assertions });
+  }
+  return assertions;
+}
+
+function headerList(headers) {
+  const find = key => headers.findIndex(header => header.key.toLowerCase() === String(key).toLowerCase());
+  return {
+    add(header) { headers.push({ key: header.key, value: String(header.value) }); },
+    upsert(header) {
+      const index = find(header.key);
+      if (index >= 0) headers[index] = { key: header.key, value: String(header.value) };
+      else headers.push({ key: header.key, value: String(header.value) });
+    },
+    remove(key) {
+      const index = find(typeof key === 'string' ? key : key.key);
+      if (index >= 0) headers.splice(index, 1);
+    },
+    get(key) { const index = find(key); return index >= 0 ? headers[index].value : undefined; },
+    has(key) { return find(key) >= 0; },
+    toObject() { return Object.fromEntries(headers.map(header => [header.key, header.value])); },
+    all() { return headers; }
+  };
+}
+
+function createVariables() {
+  const scopes = { local: new Map(), environment: new Map(), collectionVariables: new Map(), globals: new Map() };
+  // Collection and environment variables come from the run's environment
+  const fromEnvironment = name => process.env[environmentName(name)];
+  const scope = (name, layers) => ({
+    get: key => {
+      for (const layer of layers) if (scopes[layer].has(key)) return scopes[layer].get(key);
+      return fromEnvironment(key);
+    },
+    set: (key, value) => { scopes[name].set(key, value); },
+    has: key => layers.some(layer => scopes[layer].has(key)) || fromEnvironment(key) !== undefined,
+    unset: key => { scopes[name].delete(key); },
+    clear: () => { scopes[name].clear(); },
+    toObject: () => Object.fromEntries(scopes[name])
+  });
+
+  const variables = scope('local', ['local', 'environment', 'collectionVariables', 'globals']);
+  const dynamic = name => {
+    switch (name) {
+      case '$guid':
+      case '$randomUUID': return crypto.randomUUID();
+      case '$timestamp': return String(Math.floor(Date.now() / 1000));
+      case '$isoTimestamp': return new Date().toISOString();
+      case '$randomInt': return String(Math.floor(Math.random() * 1001));
+      default: return undefined;
+    }
+  };
+  variables.replaceIn = text => String(text).replace(/\\{\\{\\s*([^{}]+?)\\s*\\}\\}/g, (match, name) => {
+    const value = name.startsWith('$') ? dynamic(name) : variables.get(name);
+    return value === undefined || value === null ? match : String(value);
+  });
+
+  return {
+    variables,
+    environment: scope('environment', ['environment']),
+    collectionVariables: scope('collectionVariables', ['collectionVariables']),
+    globals: scope('globals', ['globals'])
+  };
+}
+
+function unresolved(text) {
+  const match = String(text).match(/\\{\\{\\s*([^{}]+?)\\s*\\}\\}/);
+  if (match) {
+    throw new Error('Variable {{' + match[1] + '}} is not set: add ' + environmentName(match[1]) + ' to the run environment');
+  }
+}
+
+function buildUrl(request, variables) {
+  const url = typeof request.url === 'string' ? { raw: request.url } : request.url || {};
+  let raw = variables.replaceIn(url.raw || '');
+  for (const variable of url.variable || []) {
+    const value = encodeURIComponent(variables.replaceIn(variable.value ?? ''));
+    raw = raw.replace(new RegExp(':' + variable.key + '(?=[/?#]|$)', 'g'), value);
+  }
+  unresolved(raw);
+  return /^[a-z][a-z0-9+.-]*:\\/\\//i.test(raw) ? raw : 'http://' + raw;
+}
+
+function applyAuth(auth, headers, url, variables) {
+  if (!auth || auth.type === 'noauth') return;
+  const options = Object.fromEntries((auth[auth.type] || []).map(option => [option.key, variables.replaceIn(option.value ?? '')]));
+  if (auth.type === 'bearer') {
+    headers.upsert({ key: 'Authorization', value: 'Bearer ' + options.token });
+  } else if (auth.type === 'basic') {
+    headers.upsert({ key: 'Authorization', value: 'Basic ' + Buffer.from(options.username + ':' + (options.password || '')).toString('base64') });
+  } else if (auth.type === 'apikey') {
+    if (options.in === 'query') url.searchParams.set(options.key, options.value);
+    else headers.upsert({ key: options.key || 'X-API-Key', value: options.value });
+  } else {
+    throw new Error(auth.type + ' auth is not supported by the API runner');
+  }
+}
+
+function buildBody(body, headers, variables) {
+  if (!body || body.disabled) return undefined;
+  const setType = type => { if (!headers.has('Content-Type')) headers.add({ key: 'Content-Type', value: type }); };
+  const enabled = entries => (entries || []).filter(entry => !entry.disabled);
+
+  switch (body.mode) {
+    case 'raw': {
+      const language = body.options?.raw?.language;
+      if (language === 'json') setType('application/json');
+      else if (language === 'xml') setType('application/xml');
+      else if (language === 'text') setType('text/plain');
+      const text = variables.replaceIn(body.raw || '');
+      unresolved(text);
+      return text;
+    }
+    case 'urlencoded':
+      setType('application/x-www-form-urlencoded');
+      return new URLSearchParams(enabled(body.urlencoded).map(entry => [entry.key, variables.replaceIn(entry.value ?? '')])).toString();
+    case 'formdata': {
+      const form = new FormData();
+      for (const entry of enabled(body.formdata)) {
+        if (entry.type === 'file') throw new Error('File fields in form data are not supported by the API runner');
+        form.append(entry.key, variables.replaceIn(entry.value ?? ''));
+      }
+      return form;
+    }
+    case 'graphql': {
+      setType('application/json');
+      const graphqlVariables = body.graphql?.variables ? JSON.parse(variables.replaceIn(body.graphql.variables)) : undefined;
+      return JSON.stringify({ query: variables.replaceIn(body.graphql?.query || ''), variables: graphqlVariables });
+    }
+    default:
+      return undefined;
+  }
+}
+
+async function runScripts(request, scripts, eventName, context) {
+  for (const script of scripts) {
+    const pending = [];
+    const pm = {
+      info: { requestName: request.name, eventName, iteration: 0, iterationCount: 1 },
+      variables: context.variables.variables,
+      environment: context.variables.environment,
+      collectionVariables: context.variables.collectionVariables,
+      globals: context.variables.globals,
+      request: context.request,
+      response: context.response,
+      expect: subject => new Assertion(subject),
+      test: (name, fn) => {
+        const record = result => context.results.push({ name, ...result });
+        try {
+          const outcome = fn();
+          if (outcome && typeof outcome.then === 'function') {
+            pending.push(outcome.then(() => record({ passed: true }), error => record({ passed: false, error: error.message })));
+          } else {
+            record({ passed: true });
+          }
+        } catch (error) {
+          record({ passed: false, error: error.message });
+        }
+      },
+      sendRequest: () => {
+        throw new Error('pm.sendRequest is not supported by the API runner');
+      }
+    };
+    const postman = {
+      setEnvironmentVariable: (key, value) => pm.environment.set(key, value),
+      getEnvironmentVariable: key => pm.environment.get(key),
+      clearEnvironmentVariable: key => pm.environment.unset(key),
+      setGlobalVariable: (key, value) => pm.globals.set(key, value),
+      getGlobalVariable: key => pm.globals.get(key)
+    };
+    const tests = {};
+    const response = context.response;
+    const sandbox = vm.createContext({
+      pm,
+      postman,
+      tests,
+      responseBody: response ? response.text() : undefined,
+      responseCode: response ? { code: response.code, name: response.status } : undefined,
+      responseTime: response ? response.responseTime : undefined,
+      console
+    });
+
+    try {
+      new vm.Script(script.code, { filename: script.source + ' ' + eventName + ' script' }).runInContext(sandbox, { timeout: SCRIPT_TIMEOUT_MS });
+      await Promise.all(pending);
+    } catch (error) {
+      context.scriptErrors.push(script.source + ' ' + eventName + ' script: ' + error.message);
+    }
+    // Legacy tests["name"] = condition assertions
+    for (const [name, passed] of Object.entries(tests)) {
+      context.results.push({ name, passed: Boolean(passed), error: passed ? undefined : 'tests["' + name + '"] was false' });
+    }
+  }
+}
+
+async function runPostmanRequest(request, preRequestScripts, testScripts) {
+  const headers = (request.request.header || []).filter(header => !header.disabled).map(header => ({ key: header.key, value: header.value }));
+  const context = {
+    variables: createVariables(),
+    request: {
+      method: (request.request.method || 'GET').toUpperCase(),
+      url: { toString: () => typeof request.request.url === 'string' ? request.request.url : request.request.url?.raw },
+      headers: headerList(headers),
+      body: request.request.body
+    },
+    response: undefined,
+    results: [],
+    scriptErrors: []
+  };
+
+  await runScripts(request, preRequestScripts, 'prerequest', context);
+
+  const { variables } = context.variables;
+  const url = new URL(buildUrl(request.request, variables));
+  applyAuth(request.auth, context.request.headers, url, variables);
+  const body = buildBody(request.request.body, context.request.headers, variables);
+  const requestHeaders = headers.map(header => [header.key, variables.replaceIn(header.value ?? '')]);
+  requestHeaders.forEach(([, value]) => unresolved(value));
+
+  const startedAt = Date.now();
+  const response = await fetch(url, { method: context.request.method, headers: requestHeaders, body });
+  const text = await response.text();
+  const responseHeaders = Object.fromEntries(Array.from(response.headers.entries()).map(([key, value]) => [key.toLowerCase(), value]));
+
+  context.response = {
+    code: response.status,
+    status: response.statusText,
+    responseTime: Date.now() - startedAt,
+    responseSize: Buffer.byteLength(text),
+    headers: {
+      get: key => responseHeaders[String(key).toLowerCase()],
+      has: key => String(key).toLowerCase() in responseHeaders,
+      toObject: () => responseHeaders
+    },
+    text: () => text,
+    json: () => JSON.parse(text)
+  };
+  context.response.to = responseAssertions(context.response);
+
+  await runScripts(request, testScripts, 'test', context);
+  return context;
+}
+
+function expectPostmanTest(execution, name) {
+  if (!execution) throw new Error('The request was not sent');
+  const result = execution.results.find(candidate => candidate.name === name);
+  if (!result) throw new Error('pm.test ' + format(name) + ' was not called');
+  if (!result.passed) throw new ExpectationError(result.error);
+}
+
+module.exports = { runPostmanRequest, expectPostmanTest };
+`;
@@ -0,0 +1,115 @@
+/**
+ * Project Events Service
+ * In-process pub/sub for live run progress, workflow phases and agent status changes
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from '../logger';
+
+export type ProjectEventType =
+  | 'workflow:phase'
+  | 'workflow:completed'
+  | 'workflow:failed'
+  | 'workflow:cancelled'
+  | 'run:started'
+  | 'run:completed'
+  | 'run:failed'
+  | 'run:cancelled'
+  | 'test:started'
+  | 'test:finished'
+  | 'agent:status';
+
+export interface ProjectEvent {
+  type: ProjectEventType;
+  projectId: number | null;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+export type ProjectEventListener = (event: ProjectEvent) => void;
+
+// Events without a project (e.g. agents running outside a workflow) go to every subscriber
+const GLOBAL_CHANNEL = 'project:*';
+
+export class ProjectEventsService {
+  private emitter = new EventEmitter();
+  // Server-side listeners, such as status reporting, that follow every project
+  private allListeners = new Set<ProjectEventListener>();
+
+  constructor() {
+    // One listener per open SSE connection, so the default cap of 10 is far too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event to subscribers of a project
+   */
+  publish(projectId: number | null | undefined, type: ProjectEventType, data: Record<string, any> = {}): void {
+    const event: ProjectEvent = {
+      type,
+      projectId: projectId ?? null,
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    try {
+      this.emitter.emit(projectId ? this.channel(projectId) : GLOBAL_CHANNEL, event);
+    } catch (error) {
+      this.listenerFailed(event, error);
+    }
+
+    for (const listener of this.allListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.listenerFailed(event, error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to a project's events; returns an unsubscribe function
+   */
+  subscribe(projectId: number, listener: ProjectEventListener): () => void {
+    const channel = this.channel(projectId);
+    this.emitter.on(channel, listener);
+    this.emitter.on(GLOBAL_CHANNEL, listener);
+
+    return () => {
+      this.emitter.off(channel, listener);
+      this.emitter.off(GLOBAL_CHANNEL, listener);
+    };
+  }
+
+  /**
+   * Subscribe to the events of every project; returns an unsubscribe function
+   */
+  subscribeAll(listener: ProjectEventListener): () => void {
+    this.allListeners.add(listener);
+    return () => {
+      this.allListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Number of open subscriptions for a project
+   */
+  subscriberCount(projectId: number): number {
+    return this.emitter.listenerCount(this.channel(projectId));
+  }
+
+  // A broken subscriber must never break the run that published the event
+  private listenerFailed(event: ProjectEvent, error: unknown) {
+    logger.warn('Project event listener failed', {
+      type: event.type,
+      projectId: event.projectId,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, 'PROJECT_EVENTS');
+  }
+
+  private channel(projectId: number): string {
+    return `project:${projectId}`;
+  }
+}
+
+export const projectEvents = new ProjectEventsService();
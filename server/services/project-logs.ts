@@ -0,0 +1,201 @@
+/**
+ * Project Log Service
+ * Persists the structured log records emitted while analysing and testing a project, correlated with
+ * the run and test case they came from, and serves them back with filters and cursor pagination
+ */
+
+import { storage } from '../storage';
+import { ENV } from '../config';
+import { logger, addLogSink, withoutLogCorrelation, type LogEntry, type LogCorrelation } from '../logger';
+import type { InsertProjectLog, ProjectLog, ProjectLogQuery } from '@shared/schema';
+
+export type ProjectLogLevel = 'info' | 'warning' | 'error' | 'success' | 'debug';
+export type ProjectLogCategory = 'test_execution' | 'framework' | 'analysis' | 'system' | 'security' | 'performance';
+
+export const PROJECT_LOG_LEVELS: ProjectLogLevel[] = ['info', 'warning', 'error', 'success', 'debug'];
+export const PROJECT_LOG_CATEGORIES: ProjectLogCategory[] = ['test_execution', 'framework', 'analysis', 'system', 'security', 'performance'];
+
+export interface ProjectLogPage {
+  logs: ProjectLog[];
+  // Pass back as `cursor` to fetch the next (older) page; null when there are no more records
+  nextCursor: number | null;
+}
+
+// Logger contexts, by prefix, mapped onto the categories the logs view filters on
+const CATEGORY_RULES: Array<[string, ProjectLogCategory]> = [
+  ['PERFORMANCE', 'performance'],
+  ['SECURITY', 'security'],
+  ['JEST_RUNNER', 'framework'],
+  ['TEST_WORKER_POOL', 'framework'],
+  ['TEST_RUN', 'test_execution'],
+  ['JUNIT_IMPORT', 'test_execution'],
+  ['ARTIFACT_STORE', 'test_execution'],
+  ['COVERAGE', 'test_execution'],
+  ['LANGRAPH', 'analysis'],
+  ['ML_INTELLIGENCE', 'analysis'],
+  ['AGENTS', 'analysis'],
+  ['AI_CODE_REVIEW', 'analysis']
+];
+
+// Fields lifted into columns, so they are not repeated in details
+const CORRELATION_FIELDS = new Set(['projectId', 'testRunId', 'testCaseId', 'framework', 'duration']);
+
+const FLUSH_INTERVAL_MS = 1000;
+const FLUSH_BATCH_SIZE = 100;
+const MAX_DETAILS_LENGTH = 8000;
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class ProjectLogService {
+  private buffer: InsertProjectLog[] = [];
+  private flushing: Promise<void> | null = null;
+  private removeSink: (() => void) | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private retentionTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start capturing project-scoped log records, and sweep old ones hourly
+   */
+  start() {
+    if (this.removeSink) return;
+
+    this.removeSink = addLogSink((entry, correlation) => this.capture(entry, correlation));
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+
+    const sweep = () => this.enforceRetention().catch(error => {
+      logger.logError('Project log retention sweep failed', error, 'PROJECT_LOGS');
+    });
+    sweep();
+    this.retentionTimer = setInterval(sweep, RETENTION_SWEEP_INTERVAL_MS);
+    this.retentionTimer.unref();
+  }
+
+  async stop() {
+    this.removeSink?.();
+    this.removeSink = null;
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    if (this.retentionTimer) clearInterval(this.retentionTimer);
+    this.flushTimer = null;
+    this.retentionTimer = null;
+    await this.flush();
+  }
+
+  /**
+   * Read a page of a project's logs, newest first
+   */
+  async query(projectId: number, query: ProjectLogQuery): Promise<ProjectLogPage> {
+    // Records still waiting in the buffer would otherwise be missing from the first page
+    await this.flush();
+
+    const logs = await storage.getProjectLogs(projectId, query);
+    return {
+      logs,
+      nextCursor: logs.length === query.limit ? logs[logs.length - 1].id : null
+    };
+  }
+
+  /**
+   * Delete records older than PROJECT_LOG_RETENTION_DAYS
+   */
+  async enforceRetention(): Promise<number> {
+    const cutoff = new Date(Date.now() - ENV.PROJECT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const removed = await withoutLogCorrelation(() => storage.deleteProjectLogsBefore(cutoff));
+    if (removed > 0) {
+      logger.info(`Removed ${removed} project log records past retention`, { removed }, 'PROJECT_LOGS');
+    }
+    return removed;
+  }
+
+  /**
+   * Write buffered records in one batch. Runs without correlation so the storage layer's own
+   * logging is never captured as part of the project's logs.
+   */
+  flush(): Promise<void> {
+    if (this.flushing) return this.flushing.then(() => this.flush());
+    if (this.buffer.length === 0) return Promise.resolve();
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.flushing = withoutLogCorrelation(() => storage.createProjectLogs(batch))
+      .catch(error => {
+        console.error(`Failed to persist ${batch.length} project log records:`, error);
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    return this.flushing;
+  }
+
+  private capture(entry: LogEntry, correlation: LogCorrelation | undefined) {
+    if (entry.level === 'TRACE') return;
+    // Context-less debug lines are the storage layer's per-query tracing
+    if (entry.level === 'DEBUG' && !entry.context) return;
+
+    const data = entry.data && typeof entry.data === 'object' && !Array.isArray(entry.data) ? entry.data : {};
+    const projectId = correlation?.projectId ?? this.numberOrNull(data.projectId);
+    if (projectId === null) return;
+
+    this.buffer.push({
+      projectId,
+      testRunId: correlation?.testRunId ?? this.numberOrNull(data.testRunId),
+      testCaseId: correlation?.testCaseId ?? this.numberOrNull(data.testCaseId),
+      level: this.mapLevel(entry, data),
+      category: this.mapCategory(entry.context),
+      source: entry.context || null,
+      framework: correlation?.framework ?? (typeof data.framework === 'string' ? data.framework : null),
+      message: entry.message,
+      duration: entry.duration ?? this.numberOrNull(data.duration),
+      details: this.toDetails(data),
+      createdAt: new Date(entry.timestamp)
+    });
+
+    if (this.buffer.length >= FLUSH_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  private mapLevel(entry: LogEntry, data: Record<string, any>): ProjectLogLevel {
+    switch (entry.level) {
+      case 'ERROR':
+      case 'FATAL':
+        return 'error';
+      case 'WARN':
+        return 'warning';
+      case 'DEBUG':
+        return 'debug';
+      default:
+        return data.status === 'passed' || data.status === 'completed' ? 'success' : 'info';
+    }
+  }
+
+  private mapCategory(context: string | undefined): ProjectLogCategory {
+    if (!context) return 'system';
+    const rule = CATEGORY_RULES.find(([prefix]) => context.startsWith(prefix));
+    return rule ? rule[1] : 'system';
+  }
+
+  private toDetails(data: Record<string, any>): Record<string, any> | null {
+    const details: Record<string, any> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (!CORRELATION_FIELDS.has(key) && value !== undefined) details[key] = value;
+    }
+    if (Object.keys(details).length === 0) return null;
+
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(details);
+    } catch {
+      return { unserializable: true, keys: Object.keys(details) };
+    }
+    if (serialized.length > MAX_DETAILS_LENGTH) {
+      return { truncated: true, preview: serialized.slice(0, MAX_DETAILS_LENGTH) };
+    }
+    return JSON.parse(serialized);
+  }
+
+  private numberOrNull(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  }
+}
+
+export const projectLogService = new ProjectLogService();
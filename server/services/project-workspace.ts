@@ -0,0 +1,258 @@
+/**
+ * Project Workspace Service
+ * Keeps a project's source files on disk under <PROJECT_WORKSPACE_DIR>/<projectId>, so the analysis
+ * agents and test generators work from the real code rather than the repository URL alone
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ENV } from '../config';
+import { logger } from '../logger';
+import { extractArchive, type ArchiveExtractionResult } from '../utils/archiveExtraction';
+
+export interface WorkspaceFile {
+  path: string; // relative to the workspace root, always with forward slashes
+  size: number;
+}
+
+export interface WorkspaceFileInput {
+  path: string;
+  data: Buffer;
+}
+
+export class WorkspacePathError extends Error {
+  constructor(filePath: string) {
+    super(`Refusing to write outside the project workspace: ${filePath}`);
+    this.name = 'WorkspacePathError';
+  }
+}
+
+// Directories never worth showing to an analysis prompt
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '__pycache__', 'vendor', 'target']);
+
+// Files that describe a project's languages, dependencies and tooling, read before any source file
+const MANIFEST_FILES = new Set([
+  'package.json', 'tsconfig.json', 'requirements.txt', 'pyproject.toml', 'setup.py', 'pom.xml',
+  'build.gradle', 'build.gradle.kts', 'go.mod', 'cargo.toml', 'gemfile', 'composer.json', 'dockerfile', 'readme.md'
+]);
+
+const BINARY_EXTENSIONS = new Set(['.zip', '.tar', '.gz', '.tgz', '.pdf', '.doc', '.docx', '.png', '.jpg', '.jpeg', '.gif', '.ico', '.woff', '.woff2']);
+
+const MAX_CONTEXT_CHARS = 60000;
+const MAX_CONTEXT_FILE_CHARS = 8000;
+const MAX_LISTED_FILES = 500;
+
+export class ProjectWorkspaceService {
+  /**
+   * Absolute path of a project's workspace directory
+   */
+  rootFor(projectId: number): string {
+    return path.resolve(ENV.PROJECT_WORKSPACE_DIR, String(projectId));
+  }
+
+  /**
+   * Absolute path of a checkout one test run uses instead of the project's workspace, such as the
+   * head commit of a pull request
+   */
+  runRootFor(projectId: number, testRunId: number): string {
+    return path.resolve(ENV.PROJECT_WORKSPACE_DIR, `${projectId}-run-${testRunId}`);
+  }
+
+  /**
+   * Resolve a relative path inside a workspace, rejecting absolute paths and ".." escapes
+   */
+  resolveInside(root: string, relativePath: string): string {
+    const normalized = relativePath.replace(/\\/g, '/').replace(/^\.\/+/, '');
+    const resolved = path.resolve(root, normalized);
+    if (!normalized || path.isAbsolute(normalized) || !resolved.startsWith(root + path.sep)) {
+      throw new WorkspacePathError(relativePath);
+    }
+    return resolved;
+  }
+
+  /**
+   * Write files into a project's workspace, replacing any existing file at the same path
+   */
+  async writeFiles(projectId: number, files: WorkspaceFileInput[]): Promise<WorkspaceFile[]> {
+    const written = await this.writeInto(this.rootFor(projectId), files);
+
+    logger.info(`Wrote ${written.length} files to the workspace of project ${projectId}`, {
+      projectId,
+      files: written.length,
+      bytes: written.reduce((sum, file) => sum + file.size, 0)
+    }, 'PROJECT_WORKSPACE');
+    return written;
+  }
+
+  /**
+   * Write files into a test run's checkout, creating it if needed
+   */
+  async writeRunFiles(projectId: number, testRunId: number, files: WorkspaceFileInput[]): Promise<WorkspaceFile[]> {
+    return this.writeInto(this.runRootFor(projectId, testRunId), files);
+  }
+
+  private async writeInto(root: string, files: WorkspaceFileInput[]): Promise<WorkspaceFile[]> {
+    // Resolve every path first so a bad entry rejects the batch before anything is written
+    const targets = files.map(file => ({ file, target: this.resolveInside(root, file.path) }));
+
+    const written: WorkspaceFile[] = [];
+    for (const { file, target } of targets) {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      const tempPath = `${target}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, file.data);
+      await fs.promises.rename(tempPath, target);
+      written.push({ path: this.toRelative(root, target), size: file.data.length });
+    }
+    return written;
+  }
+
+  /**
+   * Replace a project's workspace with the contents of an uploaded archive. Extraction happens in a
+   * staging directory, so a rejected archive leaves the existing workspace untouched. A single
+   * top-level directory, as in archives downloaded from a Git host, becomes the workspace root.
+   */
+  async replaceFromArchive(projectId: number, data: Buffer, fileName: string): Promise<ArchiveExtractionResult> {
+    const root = this.rootFor(projectId);
+    const staging = `${root}.staging-${process.pid}-${Date.now()}`;
+
+    try {
+      const result = await extractArchive(data, fileName, staging);
+
+      const entries = await fs.promises.readdir(staging, { withFileTypes: true });
+      const prefix = entries.length === 1 && entries[0].isDirectory() ? entries[0].name : null;
+
+      await fs.promises.rm(root, { recursive: true, force: true });
+      await fs.promises.rename(prefix ? path.join(staging, prefix) : staging, root);
+
+      const strip = (filePath: string) => prefix && filePath.startsWith(`${prefix}/`) ? filePath.slice(prefix.length + 1) : filePath;
+      const extracted: ArchiveExtractionResult = {
+        files: result.files.map(file => ({ ...file, path: strip(file.path) })),
+        skipped: result.skipped.map(entry => ({ ...entry, path: strip(entry.path) })),
+        totalBytes: result.totalBytes
+      };
+
+      logger.info(`Extracted ${fileName} into the workspace of project ${projectId}`, {
+        projectId,
+        files: extracted.files.length,
+        skipped: extracted.skipped.length,
+        bytes: extracted.totalBytes
+      }, 'PROJECT_WORKSPACE');
+      return extracted;
+    } finally {
+      await fs.promises.rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * List the files in a project's workspace, skipping dependency and build output directories
+   */
+  async listFiles(projectId: number): Promise<WorkspaceFile[]> {
+    const root = this.rootFor(projectId);
+    if (!fs.existsSync(root)) return [];
+
+    const files: WorkspaceFile[] = [];
+    const walk = async (dir: string) => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!IGNORED_DIRECTORIES.has(entry.name)) await walk(fullPath);
+        } else if (entry.isFile()) {
+          const stat = await fs.promises.stat(fullPath);
+          files.push({ path: this.toRelative(root, fullPath), size: stat.size });
+        }
+      }
+    };
+    await walk(root);
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Read a text file from a project's workspace
+   */
+  async readFile(projectId: number, relativePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolveInside(this.rootFor(projectId), relativePath), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Delete files from a project's workspace; paths that don't exist are ignored
+   */
+  async removeFiles(projectId: number, relativePaths: string[]): Promise<number> {
+    const root = this.rootFor(projectId);
+    const targets = relativePaths.map(relativePath => this.resolveInside(root, relativePath));
+
+    let removed = 0;
+    for (const target of targets) {
+      try {
+        await fs.promises.unlink(target);
+        removed++;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Delete a project's workspace
+   */
+  async remove(projectId: number) {
+    await fs.promises.rm(this.rootFor(projectId), { recursive: true, force: true });
+  }
+
+  /**
+   * Delete a test run's checkout
+   */
+  async removeRun(projectId: number, testRunId: number) {
+    await fs.promises.rm(this.runRootFor(projectId, testRunId), { recursive: true, force: true });
+  }
+
+  /**
+   * Summarise a workspace for an analysis prompt: the file tree, then the contents of manifests
+   * and source files until the character budget runs out. Returns null for an empty workspace.
+   */
+  async buildSourceContext(projectId: number, maxChars: number = MAX_CONTEXT_CHARS): Promise<string | null> {
+    const files = await this.listFiles(projectId);
+    if (files.length === 0) return null;
+
+    const tree = files.slice(0, MAX_LISTED_FILES).map(file => `- ${file.path} (${file.size} bytes)`);
+    if (files.length > MAX_LISTED_FILES) tree.push(`- ... ${files.length - MAX_LISTED_FILES} more files`);
+
+    const sections = [`Project files (${files.length}):\n${tree.join('\n')}`];
+    let remaining = maxChars - sections[0].length;
+
+    const readable = files.filter(file => !BINARY_EXTENSIONS.has(path.extname(file.path).toLowerCase()));
+    const isManifest = (file: WorkspaceFile) => MANIFEST_FILES.has(path.basename(file.path).toLowerCase());
+    const ordered = [
+      ...readable.filter(isManifest),
+      // Shallow files first: entry points and configuration usually sit near the root
+      ...readable.filter(file => !isManifest(file)).sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    ];
+
+    for (const file of ordered) {
+      if (remaining <= 0) break;
+      const content = await this.readFile(projectId, file.path);
+      if (content === undefined || content.includes('\u0000')) continue;
+
+      const limit = Math.min(MAX_CONTEXT_FILE_CHARS, remaining);
+      const body = content.length > limit ? `${content.slice(0, limit)}\n... (truncated)` : content;
+      const section = `--- ${file.path} ---\n${body}`;
+      sections.push(section);
+      remaining -= section.length;
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private toRelative(root: string, fullPath: string): string {
+    return path.relative(root, fullPath).split(path.sep).join('/');
+  }
+}
+
+export const projectWorkspace = new ProjectWorkspaceService();
@@ -0,0 +1,200 @@
+/**
+ * Result Export Service
+ * Renders persisted test runs in formats CI systems understand: JUnit XML, TAP 13 and CTRF JSON
+ */
+
+import { XMLBuilder } from 'fast-xml-parser';
+import type { TestRun, TestRunResult } from '@shared/schema';
+
+export type ExportFormat = 'junit' | 'tap' | 'ctrf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['junit', 'tap', 'ctrf'];
+
+export interface ExportedReport {
+  body: string;
+  contentType: string;
+  fileName: string;
+}
+
+interface ExportedTest {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  errors: string[];
+  stdout: string | null;
+  attempts: number;
+  // Passed only after a retry
+  flaky: boolean;
+}
+
+export class ResultExportService {
+  private xmlBuilder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    suppressEmptyNode: true,
+    format: true
+  });
+
+  /**
+   * Render a run and its results in the requested format
+   */
+  export(testRun: TestRun, results: TestRunResult[], format: ExportFormat): ExportedReport {
+    const tests = this.finalResults(results);
+    const baseName = `matt-run-${testRun.id}`;
+
+    switch (format) {
+      case 'junit':
+        return { body: this.toJUnit(testRun, tests), contentType: 'application/xml', fileName: `${baseName}.xml` };
+      case 'tap':
+        return { body: this.toTap(tests), contentType: 'text/plain', fileName: `${baseName}.tap` };
+      case 'ctrf':
+        return { body: JSON.stringify(this.toCtrf(testRun, tests), null, 2), contentType: 'application/json', fileName: `${baseName}.ctrf.json` };
+    }
+  }
+
+  /**
+   * Collapse retry attempts into one entry per test, keeping the last attempt's outcome
+   */
+  private finalResults(results: TestRunResult[]): ExportedTest[] {
+    const byTest = new Map<string, TestRunResult[]>();
+    for (const result of results) {
+      const key = result.testCaseId !== null ? `id:${result.testCaseId}` : `name:${result.testCaseName}`;
+      byTest.set(key, [...(byTest.get(key) || []), result]);
+    }
+
+    return Array.from(byTest.values()).map(attempts => {
+      attempts.sort((a, b) => (a.attempt || 1) - (b.attempt || 1));
+      const last = attempts[attempts.length - 1];
+      return {
+        name: last.testCaseName,
+        status: this.normalizeStatus(last.status),
+        duration: last.duration || 0,
+        errors: (last.errors as string[] | null) || [],
+        stdout: last.stdout,
+        attempts: attempts.length,
+        flaky: last.status === 'passed' && attempts.length > 1
+      };
+    });
+  }
+
+  private toJUnit(testRun: TestRun, tests: ExportedTest[]): string {
+    const failures = tests.filter(test => test.status === 'failed').length;
+    const skipped = tests.filter(test => test.status === 'skipped').length;
+    const time = this.seconds(testRun.duration ?? tests.reduce((sum, test) => sum + test.duration, 0));
+    const suiteName = `MATT run ${testRun.id} (${testRun.framework})`;
+
+    const testcase = tests.map(test => ({
+      '@_name': test.name,
+      '@_classname': testRun.framework,
+      '@_time': this.seconds(test.duration),
+      ...(test.status === 'failed' ? {
+        failure: {
+          '@_message': test.errors[0]?.split('\n')[0] || 'Test failed',
+          '#text': test.errors.join('\n\n')
+        }
+      } : {}),
+      ...(test.status === 'skipped' ? { skipped: '' } : {}),
+      ...(test.stdout ? { 'system-out': test.stdout } : {})
+    }));
+
+    const document = {
+      '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+      testsuites: {
+        '@_name': suiteName,
+        '@_tests': tests.length,
+        '@_failures': failures,
+        '@_errors': 0,
+        '@_skipped': skipped,
+        '@_time': time,
+        testsuite: {
+          '@_name': suiteName,
+          '@_tests': tests.length,
+          '@_failures': failures,
+          '@_errors': 0,
+          '@_skipped': skipped,
+          '@_time': time,
+          '@_timestamp': (testRun.startedAt || new Date()).toISOString(),
+          testcase
+        }
+      }
+    };
+
+    return this.xmlBuilder.build(document);
+  }
+
+  private toTap(tests: ExportedTest[]): string {
+    const lines = ['TAP version 13', `1..${tests.length}`];
+
+    tests.forEach((test, index) => {
+      // "#" starts a directive in TAP, so it cannot appear in the description
+      const description = test.name.replace(/#/g, '\\#').replace(/\r?\n/g, ' ');
+      const directive = test.status === 'skipped' ? ' # SKIP' : '';
+      lines.push(`${test.status === 'failed' ? 'not ok' : 'ok'} ${index + 1} - ${description}${directive}`);
+
+      if (test.status === 'failed' || test.attempts > 1) {
+        lines.push('  ---');
+        lines.push(`  duration_ms: ${test.duration}`);
+        if (test.attempts > 1) lines.push(`  attempts: ${test.attempts}`);
+        if (test.errors.length > 0) {
+          lines.push('  message: |-');
+          for (const line of test.errors.join('\n').split(/\r?\n/)) {
+            lines.push(`    ${line}`);
+          }
+        }
+        lines.push('  ...');
+      }
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  private toCtrf(testRun: TestRun, tests: ExportedTest[]) {
+    const start = (testRun.startedAt || new Date()).getTime();
+    const stop = testRun.completedAt ? testRun.completedAt.getTime() : start + (testRun.duration || 0);
+
+    return {
+      reportFormat: 'CTRF',
+      specVersion: '0.0.0',
+      results: {
+        tool: { name: 'matt', extra: { framework: testRun.framework } },
+        summary: {
+          tests: tests.length,
+          passed: tests.filter(test => test.status === 'passed').length,
+          failed: tests.filter(test => test.status === 'failed').length,
+          skipped: tests.filter(test => test.status === 'skipped').length,
+          pending: 0,
+          other: 0,
+          start,
+          stop
+        },
+        tests: tests.map(test => ({
+          name: test.name,
+          status: test.status,
+          duration: test.duration,
+          ...(test.errors.length > 0 ? {
+            message: test.errors[0].split('\n')[0],
+            trace: test.errors.join('\n\n')
+          } : {}),
+          ...(test.stdout ? { stdout: test.stdout.split(/\r?\n/) } : {}),
+          retries: test.attempts - 1,
+          flaky: test.flaky
+        })),
+        environment: {
+          extra: { testRunId: testRun.id, triggeredBy: testRun.triggeredBy }
+        }
+      }
+    };
+  }
+
+  private normalizeStatus(status: string): ExportedTest['status'] {
+    if (status === 'passed' || status === 'skipped') return status;
+    return 'failed';
+  }
+
+  private seconds(milliseconds: number): string {
+    return (milliseconds / 1000).toFixed(3);
+  }
+}
+
+export const resultExportService = new ResultExportService();
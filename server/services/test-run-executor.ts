@@ -0,0 +1,401 @@
+/**
+ * Test Run Executor Service
+ * Executes a persisted test run and records its per-test outcomes
+ */
+
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import { logger, withLogCorrelation } from '../logger';
+import { agentOrchestrator } from './agents';
+import { mlTestingIntelligence } from './ml-testing-intelligence';
+import { projectEvents } from './project-events';
+import { artifactStore } from './artifact-store';
+import { coverageService } from './coverage';
+import { githubSyncService } from './github-sync';
+import { projectWorkspace } from './project-workspace';
+import { throwIfCancelled } from '../utils/cancellation';
+import type { Artifact, Project, TestCase, TestRun, TestRunResult } from '@shared/schema';
+
+/**
+ * Outcome of a test executed outside MATT, in the shape of an internal execution result
+ */
+export interface ExternalExecutionResult {
+  testCaseId: number;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  errors: string[];
+  logs: string[];
+  assertions: any[];
+  stdout: string | null;
+}
+
+export class TestRunExecutor {
+  /**
+   * Run every test case selected for the run and persist the results.
+   * Aborting the signal kills the test process and rejects with a CancellationError.
+   */
+  async execute(testRunId: number, signal?: AbortSignal): Promise<TestRun['summary']> {
+    const testRun = await storage.getTestRun(testRunId);
+    if (!testRun) {
+      throw new Error(`Test run ${testRunId} not found`);
+    }
+
+    const project = testRun.projectId ? await storage.getProject(testRun.projectId) : undefined;
+    if (!project) {
+      throw new Error(`Project for test run ${testRunId} not found`);
+    }
+
+    throwIfCancelled(signal);
+
+    return withLogCorrelation({ projectId: project.id, testRunId: testRun.id, framework: testRun.framework }, async () => {
+      // Snapshot the selected test cases so the run records the script versions it executed.
+      // Ids of other projects' test cases are dropped before any status is touched.
+      const requestedIds = (testRun.testCaseIds as number[] | null) || [];
+      const allTestCases = await storage.getTestCasesByProject(project.id);
+      const selectedTestCases = allTestCases.filter(tc => requestedIds.includes(tc.id));
+      const testCasesById = new Map(selectedTestCases.map(tc => [tc.id, tc]));
+      const testCaseIds = selectedTestCases.map(tc => tc.id);
+
+      // A retried or recovered job starts the run over, so the interrupted attempt's results are dropped
+      await this.clearPartialResults(testRun.id);
+
+      const startedAt = new Date();
+      await storage.updateTestRun(testRun.id, { status: 'running', startedAt });
+
+      for (const testCaseId of testCaseIds) {
+        await storage.updateTestCase(testCaseId, { status: 'running' });
+      }
+
+      projectEvents.publish(project.id, 'run:started', {
+        testRunId: testRun.id,
+        framework: testRun.framework,
+        testCaseIds
+      });
+      logger.info(`Test run ${testRun.id} started with ${testCaseIds.length} tests`, {
+        shardCount: testRun.shardCount || 1,
+        maxRetries: testRun.maxRetries || 0
+      }, 'TEST_RUN');
+
+      // Failing tests are re-run up to maxRetries times; every attempt is recorded
+      const maxRetries = testRun.maxRetries || 0;
+      const runResults: TestRunResult[] = [];
+      const finalResults = new Map<number, { result: TestRunResult; execution: any; artifacts: Artifact[] }>();
+      let pendingTestCases = selectedTestCases;
+      const coverageMaps: Record<string, any>[] = [];
+      const environment = await this.runEnvironment(testRun);
+      const sourceDir = await this.checkoutSources(project, testRun);
+
+      try {
+        for (let attempt = 1; pendingTestCases.length > 0; attempt++) {
+          const executionResults = await agentOrchestrator.executeTestWorkflow(project, pendingTestCases, {
+            testRunId: testRun.id,
+            signal,
+            shardCount: testRun.shardCount || 1,
+            environment,
+            sourceDir,
+            onCoverage: coverageMap => coverageMaps.push(coverageMap)
+          });
+          throwIfCancelled(signal);
+
+          for (const executionResult of executionResults.executionResults) {
+            const testScript = testCasesById.get(executionResult.testCaseId)?.testScript ?? null;
+            const result = await storage.createTestRunResult({
+              testRunId: testRun.id,
+              testCaseId: executionResult.testCaseId,
+              testCaseName: executionResult.name,
+              status: executionResult.status,
+              attempt,
+              shard: executionResult.shard ?? 0,
+              duration: executionResult.duration,
+              testScript,
+              scriptHash: testScript ? createHash('sha256').update(testScript).digest('hex') : null,
+              errors: executionResult.errors,
+              assertions: executionResult.assertions,
+              stdout: executionResult.stdout
+            });
+            runResults.push(result);
+            this.logResult(result);
+
+            const artifacts = await this.saveArtifacts(project.id, testRun.id, result, executionResult.artifacts || []);
+            finalResults.set(executionResult.testCaseId, { result, execution: executionResult, artifacts });
+          }
+
+          if (attempt > maxRetries) break;
+
+          pendingTestCases = pendingTestCases.filter(tc => finalResults.get(tc.id)?.result.status === 'failed');
+          if (pendingTestCases.length > 0) {
+            logger.info(`Retrying ${pendingTestCases.length} failed tests in run ${testRun.id}`, { attempt: attempt + 1, maxRetries }, 'TEST_RUN');
+          }
+        }
+      } finally {
+        if (sourceDir) await projectWorkspace.removeRun(project.id, testRun.id);
+      }
+
+      if (coverageMaps.length > 0) {
+        try {
+          await coverageService.recordRunnerCoverage(project.id, testRun.id, coverageMaps);
+        } catch (error) {
+          logger.logError(`Failed to store coverage for test run ${testRun.id}`, error, 'TEST_RUN');
+        }
+      }
+
+      return this.completeRun(project, testRun, startedAt, finalResults, runResults, testCasesById);
+    });
+  }
+
+  /**
+   * Record results of tests executed outside MATT (e.g. imported from CI) as a completed run,
+   * so they feed test case status, metrics, ML history and quality gates like an internal run
+   */
+  async recordExternalRun(testRunId: number, executionResults: ExternalExecutionResult[], duration?: number): Promise<TestRun['summary']> {
+    const testRun = await storage.getTestRun(testRunId);
+    if (!testRun) {
+      throw new Error(`Test run ${testRunId} not found`);
+    }
+
+    const project = testRun.projectId ? await storage.getProject(testRun.projectId) : undefined;
+    if (!project) {
+      throw new Error(`Project for test run ${testRunId} not found`);
+    }
+
+    return withLogCorrelation({ projectId: project.id, testRunId: testRun.id, framework: testRun.framework }, async () => {
+      const startedAt = testRun.startedAt || new Date();
+      await storage.updateTestRun(testRun.id, { status: 'running' });
+      projectEvents.publish(project.id, 'run:started', {
+        testRunId: testRun.id,
+        framework: testRun.framework,
+        testCaseIds: executionResults.map(result => result.testCaseId)
+      });
+
+      const allTestCases = await storage.getTestCasesByProject(project.id);
+      const testCasesById = new Map(allTestCases.map(tc => [tc.id, tc]));
+      const runResults: TestRunResult[] = [];
+      const finalResults = new Map<number, { result: TestRunResult; execution: any; artifacts: Artifact[] }>();
+
+      for (const executionResult of executionResults) {
+        // The tests ran outside MATT, so no stored script version can be claimed to have run
+        const result = await storage.createTestRunResult({
+          testRunId: testRun.id,
+          testCaseId: executionResult.testCaseId,
+          testCaseName: executionResult.name,
+          status: executionResult.status,
+          duration: executionResult.duration,
+          testScript: null,
+          scriptHash: null,
+          errors: executionResult.errors,
+          assertions: executionResult.assertions,
+          stdout: executionResult.stdout
+        });
+        runResults.push(result);
+        this.logResult(result);
+        finalResults.set(executionResult.testCaseId, { result, execution: executionResult, artifacts: [] });
+      }
+
+      return this.completeRun(project, testRun, startedAt, finalResults, runResults, testCasesById, duration);
+    });
+  }
+
+  /**
+   * Apply the final result of each test to its test case, summarise the run and feed the ML history
+   */
+  private async completeRun(
+    project: Project,
+    testRun: TestRun,
+    startedAt: Date,
+    finalResults: Map<number, { result: TestRunResult; execution: any; artifacts: Artifact[] }>,
+    runResults: TestRunResult[],
+    testCasesById: Map<number, TestCase>,
+    duration?: number
+  ): Promise<TestRun['summary']> {
+    for (const { result, execution, artifacts } of finalResults.values()) {
+      await storage.updateTestCase(execution.testCaseId, {
+        status: result.status,
+        executionTime: execution.duration,
+        results: {
+          passed: result.status === 'passed',
+          message: execution.logs.join('\n'),
+          error: execution.errors.length > 0 ? execution.errors.join('\n') : null,
+          assertions: execution.assertions,
+          stdout: execution.stdout,
+          attempts: result.attempt,
+          artifacts: artifacts.map(({ id, kind, fileName, contentType, size }) => ({ id, kind, fileName, contentType, size }))
+        }
+      });
+    }
+
+    // Quarantined tests still run but do not count towards the pass rate
+    const finalRunResults = Array.from(finalResults.values()).map(({ result }) => result);
+    const passRate = mlTestingIntelligence.calculatePassRate(finalRunResults.map(result => ({
+      status: result.status,
+      quarantined: testCasesById.get(result.testCaseId!)?.quarantined ?? false
+    })));
+
+    const completedAt = new Date();
+    const summary = {
+      total: finalRunResults.length,
+      passed: finalRunResults.filter(r => r.status === 'passed').length,
+      failed: finalRunResults.filter(r => r.status === 'failed').length,
+      skipped: finalRunResults.filter(r => r.status === 'skipped').length,
+      // Passed only after a retry
+      flaky: finalRunResults.filter(r => r.status === 'passed' && (r.attempt || 1) > 1).length,
+      quarantined: passRate.quarantined,
+      passRate: passRate.passRate,
+      attempts: runResults.length
+    };
+    const completedRun = await storage.updateTestRun(testRun.id, {
+      status: 'completed',
+      completedAt,
+      duration: duration ?? completedAt.getTime() - startedAt.getTime(),
+      summary
+    });
+
+    projectEvents.publish(project.id, 'run:completed', { testRunId: testRun.id, summary });
+    logger.info(`Test run ${testRun.id} completed for project ${project.id}`, summary, 'TEST_RUN');
+
+    // Feed the outcomes into the ML execution history
+    await mlTestingIntelligence.recordTestRun(completedRun || testRun, runResults);
+
+    return summary;
+  }
+
+  /**
+   * Remove the results and artifacts an interrupted execution of the run left behind
+   */
+  private async clearPartialResults(testRunId: number) {
+    const artifacts = await storage.getArtifactsByTestRun(testRunId);
+    for (const artifact of artifacts) {
+      await artifactStore.remove(artifact);
+    }
+
+    const removed = await storage.deleteTestRunResults(testRunId);
+    if (removed > 0 || artifacts.length > 0) {
+      logger.warn(`Cleared partial results of test run ${testRunId} before executing it again`, { results: removed, artifacts: artifacts.length }, 'TEST_RUN');
+    }
+  }
+
+  /**
+   * Variables for the run's test scripts: those of its environment, overridden by the run's own
+   */
+  private async runEnvironment(testRun: TestRun): Promise<Record<string, string> | undefined> {
+    const environment = testRun.environmentId ? await storage.getEnvironment(testRun.environmentId) : undefined;
+    const variables = {
+      ...((environment?.variables as Record<string, string> | undefined) || {}),
+      ...((testRun.environment as Record<string, string> | null) || {})
+    };
+    return Object.keys(variables).length > 0 ? variables : undefined;
+  }
+
+  /**
+   * Check out the head commit of a pull request run, so it tests the PR's code rather than the
+   * base branch the project's workspace tracks. Other runs use the project's workspace.
+   */
+  private async checkoutSources(project: Project, testRun: TestRun): Promise<string | undefined> {
+    if (testRun.pullNumber == null || !testRun.commitSha || project.sourceType !== 'github') return undefined;
+    return githubSyncService.checkoutRevision(project, testRun.id, testRun.commitSha);
+  }
+
+  /**
+   * Emit one structured record per test attempt, correlated with the test case
+   */
+  private logResult(result: TestRunResult) {
+    const attempt = (result.attempt || 1) > 1 ? ` (attempt ${result.attempt})` : '';
+    const message = `${result.testCaseName} ${result.status}${attempt} in ${result.duration ?? 0}ms`;
+    const data = {
+      testCaseId: result.testCaseId,
+      status: result.status,
+      duration: result.duration,
+      attempt: result.attempt,
+      shard: result.shard,
+      ...(result.status === 'failed' ? { errors: result.errors } : {})
+    };
+
+    if (result.status === 'failed') {
+      logger.error(message, data, 'TEST_RUN');
+    } else {
+      logger.info(message, data, 'TEST_RUN');
+    }
+  }
+
+  /**
+   * Store the files a test wrote to its artifact directory against its run result
+   */
+  private async saveArtifacts(
+    projectId: number,
+    testRunId: number,
+    result: TestRunResult,
+    collected: { fileName: string; data: Buffer }[]
+  ): Promise<Artifact[]> {
+    const artifacts: Artifact[] = [];
+
+    for (const file of collected) {
+      try {
+        artifacts.push(await artifactStore.save({
+          projectId,
+          testRunId,
+          testRunResultId: result.id,
+          testCaseId: result.testCaseId,
+          fileName: file.fileName,
+          data: file.data
+        }));
+      } catch (error) {
+        logger.logError(`Failed to store artifact ${file.fileName} for test run ${testRunId}`, error, 'TEST_RUN');
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * Mark a run as failed once it cannot be retried any more
+   */
+  async markFailed(testRunId: number, error: string) {
+    const testRun = await storage.updateTestRun(testRunId, {
+      status: 'failed',
+      completedAt: new Date(),
+      error
+    });
+    if (!testRun) return;
+
+    for (const testCaseId of (testRun.testCaseIds as number[] | null) || []) {
+      const testCase = await storage.getTestCase(testCaseId);
+      if (testCase?.status === 'running') {
+        await storage.updateTestCase(testCaseId, { status: 'failed' });
+      }
+    }
+
+    projectEvents.publish(testRun.projectId, 'run:failed', { testRunId, error });
+    logger.error(`Test run ${testRunId} failed`, { projectId: testRun.projectId, testRunId, framework: testRun.framework, error }, 'TEST_RUN');
+  }
+
+  /**
+   * Mark a run as cancelled, along with any of its test cases still marked running
+   */
+  async markCancelled(testRunId: number) {
+    const existingRun = await storage.getTestRun(testRunId);
+    if (!existingRun) return;
+
+    const completedAt = new Date();
+    const testRun = await storage.updateTestRun(testRunId, {
+      status: 'cancelled',
+      completedAt,
+      duration: existingRun.startedAt ? completedAt.getTime() - existingRun.startedAt.getTime() : null,
+      error: 'Cancelled by user'
+    });
+    if (!testRun) return;
+
+    const cancelledTestCaseIds: number[] = [];
+    for (const testCaseId of (testRun.testCaseIds as number[] | null) || []) {
+      const testCase = await storage.getTestCase(testCaseId);
+      if (testCase?.status === 'running') {
+        await storage.updateTestCase(testCaseId, { status: 'cancelled' });
+        cancelledTestCaseIds.push(testCaseId);
+      }
+    }
+
+    projectEvents.publish(testRun.projectId, 'run:cancelled', { testRunId, testCaseIds: cancelledTestCaseIds });
+    logger.info(`Test run ${testRunId} cancelled`, { projectId: testRun.projectId, testRunId, framework: testRun.framework, cancelledTestCaseIds }, 'TEST_RUN');
+  }
+}
+
+export const testRunExecutor = new TestRunExecutor();
@@ -0,0 +1,89 @@
+/**
+ * Test Worker Pool Service
+ * Splits a suite into duration-balanced shards and runs each shard in its own Jest process
+ */
+
+import { ENV } from '../config';
+import { logger } from '../logger';
+import { jestRunner, type RunnableTestCase, type JestTestCaseResult, type JestProgressEvent } from './jest-runner';
+
+export interface ShardPlan<T extends RunnableTestCase = RunnableTestCase> {
+  index: number;
+  testCases: T[];
+  estimatedDuration: number;
+}
+
+export interface ShardedTestCaseResult extends JestTestCaseResult {
+  shard: number;
+}
+
+export interface ShardedRunOptions {
+  runId: string;
+  shardCount: number;
+  // Estimated duration per test case id; tests without an estimate use DEFAULT_DURATION_MS
+  durations?: Map<number, number>;
+  signal?: AbortSignal;
+  onProgress?: (event: JestProgressEvent & { shard: number }) => void;
+  // Called once per shard with that shard's coverage map
+  onCoverage?: (coverageMap: Record<string, any>) => void;
+  environment?: Record<string, string>;
+  sourceDir?: string;
+}
+
+const DEFAULT_DURATION_MS = 3000;
+
+export class TestWorkerPool {
+  /**
+   * Assign test cases to shards, longest first, always onto the shard with the least estimated work.
+   * Within a shard the input order is kept, so callers can pass a fail-fast ordering.
+   */
+  planShards<T extends RunnableTestCase>(testCases: T[], shardCount: number, durations: Map<number, number> = new Map()): ShardPlan<T>[] {
+    const count = Math.max(1, Math.min(shardCount, testCases.length));
+    const shards: ShardPlan<T>[] = Array.from({ length: count }, (_, index) => ({ index, testCases: [], estimatedDuration: 0 }));
+    const position = new Map(testCases.map((tc, i) => [tc.id, i]));
+    const estimate = (tc: T) => durations.get(tc.id) ?? DEFAULT_DURATION_MS;
+
+    const byDuration = [...testCases].sort((a, b) => estimate(b) - estimate(a));
+    for (const testCase of byDuration) {
+      const lightest = shards.reduce((min, shard) => shard.estimatedDuration < min.estimatedDuration ? shard : min);
+      lightest.testCases.push(testCase);
+      lightest.estimatedDuration += estimate(testCase);
+    }
+
+    for (const shard of shards) {
+      shard.testCases.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+    }
+
+    return shards.filter(shard => shard.testCases.length > 0);
+  }
+
+  /**
+   * Run every shard in parallel and return the results in the order the test cases were given
+   */
+  async runSharded(testCases: RunnableTestCase[], options: ShardedRunOptions): Promise<ShardedTestCaseResult[]> {
+    const shardCount = Math.min(options.shardCount, ENV.TEST_MAX_SHARDS);
+    const shards = this.planShards(testCases, shardCount, options.durations);
+
+    logger.info(`Running ${testCases.length} tests across ${shards.length} shards`, {
+      runId: options.runId,
+      shards: shards.map(shard => ({ index: shard.index, tests: shard.testCases.length, estimatedDuration: shard.estimatedDuration }))
+    }, 'TEST_WORKER_POOL');
+
+    const shardResults = await Promise.all(shards.map(async shard => {
+      const results = await jestRunner.runTestCases(shard.testCases, {
+        runId: `${options.runId}-shard-${shard.index}`,
+        signal: options.signal,
+        onProgress: event => options.onProgress?.({ ...event, shard: shard.index }),
+        onCoverage: options.onCoverage,
+        environment: options.environment,
+        sourceDir: options.sourceDir
+      });
+      return results.map(result => ({ ...result, shard: shard.index }));
+    }));
+
+    const resultsById = new Map(shardResults.flat().map(result => [result.testCaseId, result]));
+    return testCases.map(tc => resultsById.get(tc.id)!);
+  }
+}
+
+export const testWorkerPool = new TestWorkerPool();
@@ -0,0 +1,357 @@
+/**
+ * Traceability Service
+ * Links requirements (Jira issues, sections of uploaded spec documents) to the test cases covering
+ * them, and builds the requirements traceability matrix with each test's latest run status
+ */
+
+import { storage } from '../storage';
+import { logger } from '../logger';
+import type { JiraIssue } from './jira-integration';
+import type { Project, Requirement } from '@shared/schema';
+
+export type TraceabilityTestStatus = 'passed' | 'failed' | 'skipped' | 'not_run';
+// passing: every covering test last passed or was skipped, and at least one passed
+export type RequirementCoverageStatus = 'passing' | 'failing' | 'not_run' | 'uncovered';
+
+export interface TraceabilityTest {
+  testCaseId: number;
+  name: string;
+  type: string;
+  priority: string;
+  quarantined: boolean;
+  latestStatus: TraceabilityTestStatus;
+  latestRunId: number | null;
+  lastExecutedAt: Date | null;
+}
+
+export interface TraceabilityRow {
+  requirement: Requirement;
+  status: RequirementCoverageStatus;
+  tests: TraceabilityTest[];
+}
+
+export interface TraceabilityMatrix {
+  projectId: number;
+  generatedAt: Date;
+  summary: {
+    requirements: number;
+    covered: number;
+    uncovered: number;
+    passing: number;
+    failing: number;
+    notRun: number;
+    tests: number;
+    unlinkedTests: number;
+    coveragePercentage: number;
+  };
+  requirements: TraceabilityRow[];
+  // Tests that trace back to no requirement
+  unlinkedTests: TraceabilityTest[];
+}
+
+export interface SpecSection {
+  key: string;
+  title: string;
+  description: string | null;
+}
+
+export interface RequirementSyncResult {
+  created: number;
+  updated: number;
+  linked: number;
+  requirements: Requirement[];
+}
+
+export class TraceabilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TraceabilityError';
+  }
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// Section ids written in front of a title: "REQ-12", "FR-3.1" or an outline number such as "2.4"
+const SECTION_ID_PATTERN = /^(?:([A-Z][A-Z0-9]*-\d+(?:\.\d+)*)|(\d+(?:\.\d+)*))[.:)]?\s+(.+)$/;
+// Plain-text specs: one requirement per line, e.g. "REQ-12: Users can export reports"
+const REQUIREMENT_LINE_PATTERN = /^\s*(?:[-*]\s+)?([A-Z][A-Z0-9]*-\d+(?:\.\d+)*)\s*[:.)-]\s*(.+)$/;
+const MAX_DESCRIPTION_CHARS = 4000;
+
+export class TraceabilityService {
+  /**
+   * Build the matrix: every requirement with its covering tests and their latest run status, plus
+   * the tests that trace back to no requirement. Jira requirements are refreshed from the acquired
+   * issues first.
+   */
+  async getMatrix(project: Project): Promise<TraceabilityMatrix> {
+    if (project.sourceType === 'jira') {
+      await this.syncJiraRequirements(project);
+    }
+
+    const [requirements, links, testCases, history] = await Promise.all([
+      storage.getRequirementsByProject(project.id),
+      storage.getRequirementLinksByProject(project.id),
+      storage.getTestCasesByProject(project.id),
+      storage.getTestExecutionHistoryByProject(project.id)
+    ]);
+
+    // History is oldest first, so the last record of a test is its latest result
+    const latest = new Map<number, { result: string; testRunId: number | null; executedAt: Date | null }>();
+    for (const record of history) {
+      if (record.testCaseId !== null) {
+        latest.set(record.testCaseId, { result: record.result, testRunId: record.testRunId, executedAt: record.executedAt });
+      }
+    }
+
+    const tests = new Map<number, TraceabilityTest>(testCases.map(testCase => {
+      const execution = latest.get(testCase.id);
+      return [testCase.id, {
+        testCaseId: testCase.id,
+        name: testCase.name,
+        type: testCase.type,
+        priority: testCase.priority,
+        quarantined: testCase.quarantined ?? false,
+        latestStatus: this.testStatus(execution?.result),
+        latestRunId: execution?.testRunId ?? null,
+        lastExecutedAt: execution?.executedAt ?? null
+      }];
+    }));
+
+    const linkedTests = new Map<number, TraceabilityTest[]>();
+    const linkedTestIds = new Set<number>();
+    for (const link of links) {
+      const test = tests.get(link.testCaseId);
+      if (!test) continue;
+      linkedTests.set(link.requirementId, [...(linkedTests.get(link.requirementId) || []), test]);
+      linkedTestIds.add(link.testCaseId);
+    }
+
+    const rows: TraceabilityRow[] = requirements.map(requirement => {
+      const covering = linkedTests.get(requirement.id) || [];
+      return { requirement, status: this.requirementStatus(covering), tests: covering };
+    });
+    const unlinkedTests = Array.from(tests.values()).filter(test => !linkedTestIds.has(test.testCaseId));
+
+    const count = (status: RequirementCoverageStatus) => rows.filter(row => row.status === status).length;
+    const uncovered = count('uncovered');
+
+    return {
+      projectId: project.id,
+      generatedAt: new Date(),
+      summary: {
+        requirements: rows.length,
+        covered: rows.length - uncovered,
+        uncovered,
+        passing: count('passing'),
+        failing: count('failing'),
+        notRun: count('not_run'),
+        tests: tests.size,
+        unlinkedTests: unlinkedTests.length,
+        coveragePercentage: rows.length > 0 ? Math.round(((rows.length - uncovered) / rows.length) * 100) : 0
+      },
+      requirements: rows,
+      unlinkedTests
+    };
+  }
+
+  /**
+   * The matrix as CSV, one row per requirement and covering test, for audit spreadsheets
+   */
+  toCsv(matrix: TraceabilityMatrix): string {
+    const lines = [['Requirement', 'Title', 'Source', 'Coverage', 'Test case ID', 'Test case', 'Latest status', 'Latest run', 'Last executed']];
+
+    for (const row of matrix.requirements) {
+      const { requirement } = row;
+      const tests: Array<TraceabilityTest | null> = row.tests.length > 0 ? row.tests : [null];
+      for (const test of tests) {
+        lines.push([
+          requirement.key,
+          requirement.title,
+          requirement.source,
+          row.status,
+          test ? String(test.testCaseId) : '',
+          test?.name ?? '',
+          test?.latestStatus ?? '',
+          test?.latestRunId ? String(test.latestRunId) : '',
+          test?.lastExecutedAt ? new Date(test.lastExecutedAt).toISOString() : ''
+        ]);
+      }
+    }
+    for (const test of matrix.unlinkedTests) {
+      lines.push([
+        '', '', '', 'no requirement',
+        String(test.testCaseId),
+        test.name,
+        test.latestStatus,
+        test.latestRunId ? String(test.latestRunId) : '',
+        test.lastExecutedAt ? new Date(test.lastExecutedAt).toISOString() : ''
+      ]);
+    }
+
+    return lines.map(line => line.map(cell => this.csvCell(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Record the acquired issues of a Jira project as requirements, and link the test cases generated
+   * from their acceptance criteria
+   */
+  async syncJiraRequirements(project: Project): Promise<RequirementSyncResult> {
+    const repositoryData = (project.repositoryData as any) || {};
+    const issues: JiraIssue[] = repositoryData.acquisitionResult?.issues || [];
+    const serverUrl = typeof repositoryData.jiraServerUrl === 'string' ? repositoryData.jiraServerUrl.replace(/\/+$/, '') : '';
+
+    const result = await this.upsertRequirements(project.id, 'jira', issues.map(issue => ({
+      key: issue.key,
+      title: issue.summary,
+      description: issue.description || null,
+      sourceRef: serverUrl ? `${serverUrl}/browse/${issue.key}` : null
+    })));
+
+    const requirementsByKey = new Map(result.requirements.map(requirement => [requirement.key, requirement]));
+    const links = await storage.getRequirementLinksByProject(project.id);
+    const existingLinks = new Set(links.map(link => `${link.requirementId}|${link.testCaseId}`));
+    for (const testCase of await storage.getTestCasesByProject(project.id)) {
+      const requirement = testCase.sourceIssueKey ? requirementsByKey.get(testCase.sourceIssueKey) : undefined;
+      if (!requirement || existingLinks.has(`${requirement.id}|${testCase.id}`)) continue;
+      await storage.linkRequirement(requirement.id, testCase.id);
+      result.linked++;
+    }
+
+    if (result.created || result.updated || result.linked) {
+      logger.info(`Synced ${result.requirements.length} Jira requirements`, {
+        projectId: project.id,
+        created: result.created,
+        updated: result.updated,
+        linked: result.linked
+      }, 'TRACEABILITY');
+    }
+    return result;
+  }
+
+  /**
+   * Record the sections of a spec document as requirements. Importing a new version of the same
+   * document updates its sections in place and keeps their links.
+   */
+  async importSpec(project: Project, fileName: string, content: string): Promise<RequirementSyncResult> {
+    const sections = this.parseSpecSections(content, fileName);
+    if (sections.length === 0) {
+      throw new TraceabilityError('No requirements found. Use Markdown headings, or lines starting with an id such as "REQ-1: ..."');
+    }
+
+    const result = await this.upsertRequirements(project.id, 'spec', sections.map(section => ({ ...section, sourceRef: fileName })));
+    logger.info(`Imported ${sections.length} requirements from ${fileName}`, {
+      projectId: project.id,
+      created: result.created,
+      updated: result.updated
+    }, 'TRACEABILITY');
+    return result;
+  }
+
+  /**
+   * Split a spec into requirement sections. In Markdown every section with its own text, and every
+   * innermost section, is a requirement; plain text counts the lines that start with a requirement id.
+   * Sections keep the id written in their heading, otherwise they are keyed by document and title.
+   */
+  parseSpecSections(content: string, fileName: string): SpecSection[] {
+    const lines = content.split(/\r?\n/);
+    const document = this.slug(fileName.replace(/\.[^.]+$/, '')) || 'spec';
+    const headings = lines
+      .map((line, index) => ({ index, match: line.match(HEADING_PATTERN) }))
+      .filter(heading => heading.match);
+
+    if (headings.length === 0) {
+      return lines
+        .map(line => line.match(REQUIREMENT_LINE_PATTERN))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(match => ({ key: match[1], title: match[2].trim(), description: null }));
+    }
+
+    const sections: SpecSection[] = [];
+    const usedKeys = new Set<string>();
+    headings.forEach((heading, position) => {
+      const level = heading.match![1].length;
+      const next = headings[position + 1];
+      const body = lines.slice(heading.index + 1, next ? next.index : lines.length).join('\n').trim();
+      const isLeaf = !next || next.match![1].length <= level;
+      if (!body && !isLeaf) return;
+
+      const text = heading.match![2].trim();
+      const id = text.match(SECTION_ID_PATTERN);
+      const title = id ? id[3].trim() : text;
+      // Outline numbers repeat across documents, so only named ids are used as keys on their own
+      const baseKey = id?.[1] || `${document}#${id?.[2] || this.slug(title)}`;
+      let key = baseKey;
+      for (let suffix = 2; usedKeys.has(key); suffix++) {
+        key = `${baseKey}-${suffix}`;
+      }
+      usedKeys.add(key);
+
+      sections.push({
+        key,
+        title,
+        description: body ? body.slice(0, MAX_DESCRIPTION_CHARS) : null
+      });
+    });
+    return sections;
+  }
+
+  /**
+   * Link a test case to a requirement of the same project
+   */
+  async linkTestCase(requirement: Requirement, testCaseId: number) {
+    const testCase = await storage.getTestCase(testCaseId);
+    if (!testCase || testCase.projectId !== requirement.projectId) {
+      throw new TraceabilityError(`Test case ${testCaseId} not found in the requirement's project`);
+    }
+    return storage.linkRequirement(requirement.id, testCase.id);
+  }
+
+  private async upsertRequirements(
+    projectId: number,
+    source: string,
+    entries: Array<{ key: string; title: string; description: string | null; sourceRef: string | null }>
+  ): Promise<RequirementSyncResult> {
+    const existing = new Map((await storage.getRequirementsByProject(projectId)).map(requirement => [requirement.key, requirement]));
+    const result: RequirementSyncResult = { created: 0, updated: 0, linked: 0, requirements: [] };
+
+    for (const entry of entries) {
+      const current = existing.get(entry.key);
+      if (!current) {
+        const created = await storage.createRequirement({ projectId, source, ...entry });
+        existing.set(created.key, created);
+        result.requirements.push(created);
+        result.created++;
+      } else if (current.title !== entry.title || current.description !== entry.description || current.sourceRef !== entry.sourceRef || current.source !== source) {
+        const updated = await storage.updateRequirement(current.id, { source, ...entry });
+        result.requirements.push(updated || current);
+        result.updated++;
+      } else {
+        result.requirements.push(current);
+      }
+    }
+    return result;
+  }
+
+  private testStatus(result: string | undefined): TraceabilityTestStatus {
+    return result === 'passed' || result === 'failed' || result === 'skipped' ? result : 'not_run';
+  }
+
+  private requirementStatus(tests: TraceabilityTest[]): RequirementCoverageStatus {
+    if (tests.length === 0) return 'uncovered';
+    if (tests.some(test => test.latestStatus === 'failed')) return 'failing';
+    if (tests.every(test => test.latestStatus === 'passed' || test.latestStatus === 'skipped') &&
+      tests.some(test => test.latestStatus === 'passed')) return 'passing';
+    return 'not_run';
+  }
+
+  private slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  }
+
+  private csvCell(value: string): string {
+    // Leading formula characters are neutralised so spreadsheets don't evaluate imported text
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
+
+export const traceabilityService = new TraceabilityService();
@@ -5,6 +5,17 @@ import {
   type Project, type InsertProject, 
   type Analysis, type InsertAnalysis,
   type TestCase, type InsertTestCase,
+  type TestRun, type InsertTestRun,
+  type TestRunResult, type InsertTestRunResult,
+  type TestExecutionRecord, type InsertTestExecutionRecord,
+  type Job, type InsertJob,
+  type Artifact, type InsertArtifact,
+  type CoverageReport, type InsertCoverageReport,
+  type CoverageFile, type InsertCoverageFile,
+  type ProjectLog, type InsertProjectLog, type ProjectLogQuery,
+  type Requirement, type InsertRequirement, type RequirementLink,
+  type Environment, type InsertEnvironment,
+  type OpenApiSpec, type InsertOpenApiSpec,
   type Agent, type Recommendation, type InsertRecommendation
 } from "@shared/schema";
 import { logger } from "./logger";
@@ -25,10 +36,81 @@ export interface IStorage {
 
   // Test Cases
   createTestCase(testCase: InsertTestCase): Promise<TestCase>;
+  getTestCase(id: number): Promise<TestCase | undefined>;
   getTestCasesByProject(projectId: number): Promise<TestCase[]>;
   updateTestCase(id: number, updates: Partial<TestCase>): Promise<TestCase | undefined>;
   deleteTestCase(id: number): Promise<void>;
 
+  // Test Runs
+  createTestRun(testRun: InsertTestRun): Promise<TestRun>;
+  getTestRun(id: number): Promise<TestRun | undefined>;
+  getTestRunsByProject(projectId: number): Promise<TestRun[]>;
+  updateTestRun(id: number, updates: Partial<TestRun>): Promise<TestRun | undefined>;
+  createTestRunResult(result: InsertTestRunResult): Promise<TestRunResult>;
+  getTestRunResults(testRunId: number): Promise<TestRunResult[]>;
+  getTestRunResult(id: number): Promise<TestRunResult | undefined>;
+  getTestRunResultsByFailureSignature(failureSignature: string): Promise<TestRunResult[]>;
+  updateTestRunResult(id: number, updates: Partial<TestRunResult>): Promise<TestRunResult | undefined>;
+  deleteTestRunResults(testRunId: number): Promise<number>;
+
+  // Test Execution History
+  createTestExecutionRecord(record: InsertTestExecutionRecord): Promise<TestExecutionRecord>;
+  getTestExecutionHistoryByProject(projectId: number): Promise<TestExecutionRecord[]>;
+
+  // Jobs
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobsByProject(projectId: number): Promise<Job[]>;
+  getJobsByStatus(statuses: string[]): Promise<Job[]>;
+  updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined>;
+  claimNextJob(type: string, workerId: string): Promise<Job | undefined>;
+  touchJob(id: number, workerId: string): Promise<boolean>;
+  // Updates a job only while it is running under the given worker's lock
+  updateOwnedJob(id: number, workerId: string, updates: Partial<Job>): Promise<Job | undefined>;
+  releaseStaleJobs(staleBefore: Date): Promise<Job[]>;
+
+  // Artifacts
+  createArtifact(artifact: InsertArtifact): Promise<Artifact>;
+  getArtifact(id: number): Promise<Artifact | undefined>;
+  getArtifactsByTestRun(testRunId: number): Promise<Artifact[]>;
+  getArtifactsByProject(projectId: number): Promise<Artifact[]>;
+  getArtifactsCreatedBefore(createdBefore: Date): Promise<Artifact[]>;
+  countArtifactsBySha256(sha256: string): Promise<number>;
+  deleteArtifact(id: number): Promise<void>;
+
+  // Coverage
+  createCoverageReport(report: InsertCoverageReport, files: Omit<InsertCoverageFile, 'reportId'>[]): Promise<CoverageReport>;
+  getCoverageReport(id: number): Promise<CoverageReport | undefined>;
+  getCoverageReportsByProject(projectId: number): Promise<CoverageReport[]>;
+  getLatestCoverageReport(projectId: number): Promise<CoverageReport | undefined>;
+  getCoverageFiles(reportId: number): Promise<CoverageFile[]>;
+
+  // Project logs
+  createProjectLogs(logs: InsertProjectLog[]): Promise<void>;
+  getProjectLogs(projectId: number, query: ProjectLogQuery): Promise<ProjectLog[]>;
+  deleteProjectLogsBefore(createdBefore: Date): Promise<number>;
+
+  // Requirements
+  createRequirement(requirement: InsertRequirement): Promise<Requirement>;
+  getRequirement(id: number): Promise<Requirement | undefined>;
+  getRequirementsByProject(projectId: number): Promise<Requirement[]>;
+  updateRequirement(id: number, updates: Partial<Requirement>): Promise<Requirement | undefined>;
+  deleteRequirement(id: number): Promise<void>;
+  linkRequirement(requirementId: number, testCaseId: number): Promise<RequirementLink>;
+  unlinkRequirement(requirementId: number, testCaseId: number): Promise<boolean>;
+  getRequirementLinksByProject(projectId: number): Promise<RequirementLink[]>;
+
+  // Environments
+  createEnvironment(environment: InsertEnvironment): Promise<Environment>;
+  getEnvironment(id: number): Promise<Environment | undefined>;
+  getEnvironmentsByProject(projectId: number): Promise<Environment[]>;
+  updateEnvironment(id: number, updates: Partial<Environment>): Promise<Environment | undefined>;
+  deleteEnvironment(id: number): Promise<void>;
+
+  // OpenAPI specs
+  saveOpenApiSpec(spec: InsertOpenApiSpec): Promise<OpenApiSpec>;
+  getOpenApiSpecByProject(projectId: number): Promise<OpenApiSpec | undefined>;
+
   // Agents
   getAllAgents(): Promise<Agent[]>;
   updateAgentStatus(id: number, status: string): Promise<Agent | undefined>;
@@ -43,6 +125,18 @@ class InMemoryStorage implements IStorage {
   private projects: Map<number, Project> = new Map();
   private analyses: Map<number, Analysis> = new Map();
   private testCases: Map<number, TestCase> = new Map();
+  private testRuns: Map<number, TestRun> = new Map();
+  private testRunResults: Map<number, TestRunResult> = new Map();
+  private testExecutionHistory: TestExecutionRecord[] = [];
+  private jobs: Map<number, Job> = new Map();
+  private artifacts: Map<number, Artifact> = new Map();
+  private coverageReports: Map<number, CoverageReport> = new Map();
+  private coverageFiles: Map<number, CoverageFile> = new Map();
+  private projectLogs: Map<number, ProjectLog> = new Map();
+  private requirements: Map<number, Requirement> = new Map();
+  private requirementLinks: Map<number, RequirementLink> = new Map();
+  private environments: Map<number, Environment> = new Map();
+  private openApiSpecs: Map<number, OpenApiSpec> = new Map();
   private recommendations: Map<number, Recommendation> = new Map();
   private agents: Map<number, Agent> = new Map();
   private nextId = 1;
@@ -111,6 +205,7 @@ class InMemoryStorage implements IStorage {
       sourceType: typedProject.sourceType,
       sourceUrl: typedProject.sourceUrl ?? null,
       repositoryData: typedProject.repositoryData ?? null,
+      commitSha: typedProject.commitSha ?? null,
       analysisStatus: typedProject.analysisStatus ?? 'pending',
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -173,12 +268,51 @@ class InMemoryStorage implements IStorage {
         }
       });
       
+      this.testRuns.forEach((testRun, testRunId) => {
+        if (testRun.projectId === id) {
+          this.testRuns.delete(testRunId);
+          this.testRunResults.forEach((result, resultId) => {
+            if (result.testRunId === testRunId) {
+              this.testRunResults.delete(resultId);
+            }
+          });
+        }
+      });
+      
+      this.testExecutionHistory = this.testExecutionHistory.filter(record => record.projectId !== id);
+      
+      this.jobs.forEach((job, jobId) => {
+        if (job.projectId === id) {
+          this.jobs.delete(jobId);
+        }
+      });
+      
       this.recommendations.forEach((recommendation, recommendationId) => {
         if (recommendation.projectId === id) {
           this.recommendations.delete(recommendationId);
         }
       });
 
+      this.requirements.forEach((requirement, requirementId) => {
+        if (requirement.projectId === id) {
+          this.requirements.delete(requirementId);
+        }
+      });
+
+      this.requirementLinks.forEach((link, linkId) => {
+        if (!this.requirements.has(link.requirementId)) {
+          this.requirementLinks.delete(linkId);
+        }
+      });
+
+      this.environments.forEach((environment, environmentId) => {
+        if (environment.projectId === id) {
+          this.environments.delete(environmentId);
+        }
+      });
+
+      this.openApiSpecs.delete(id);
+
       logger.info(`🗑️ Deleted project from memory: ${project.name} (ID: ${id})`, { id }, 'STORAGE_FALLBACK');
     }
   }
@@ -233,12 +367,22 @@ class InMemoryStorage implements IStorage {
       status: 'generated',
       executionTime: null,
       results: null,
+      flakinessScore: 0,
+      quarantined: false,
+      quarantinedAt: null,
+      quarantineReason: null,
+      sourceIssueKey: typedTestCase.sourceIssueKey ?? null,
+      tags: typedTestCase.tags ?? null,
     };
     
     this.testCases.set(newTestCase.id, newTestCase);
     return newTestCase;
   }
 
+  async getTestCase(id: number): Promise<TestCase | undefined> {
+    return this.testCases.get(id);
+  }
+
   async getTestCasesByProject(projectId: number): Promise<TestCase[]> {
     return Array.from(this.testCases.values()).filter(testCase => testCase.projectId === projectId);
   }
@@ -254,6 +398,558 @@ class InMemoryStorage implements IStorage {
 
   async deleteTestCase(id: number): Promise<void> {
     this.testCases.delete(id);
+    this.requirementLinks.forEach((link, linkId) => {
+      if (link.testCaseId === id) {
+        this.requirementLinks.delete(linkId);
+      }
+    });
+  }
+
+  // Test Runs
+  async createTestRun(testRun: InsertTestRun): Promise<TestRun> {
+    const typedTestRun = testRun as any;
+    const newTestRun: TestRun = {
+      id: this.nextId++,
+      projectId: typedTestRun.projectId ?? null,
+      framework: typedTestRun.framework,
+      status: typedTestRun.status ?? 'queued',
+      triggeredBy: typedTestRun.triggeredBy,
+      testCaseIds: typedTestRun.testCaseIds ?? null,
+      maxRetries: typedTestRun.maxRetries ?? 0,
+      shardCount: typedTestRun.shardCount ?? 1,
+      environmentId: typedTestRun.environmentId ?? null,
+      environment: typedTestRun.environment ?? null,
+      commitSha: typedTestRun.commitSha ?? null,
+      pullNumber: typedTestRun.pullNumber ?? null,
+      summary: null,
+      error: null,
+      startedAt: new Date(),
+      completedAt: null,
+      duration: null,
+    };
+    
+    this.testRuns.set(newTestRun.id, newTestRun);
+    return newTestRun;
+  }
+
+  async getTestRun(id: number): Promise<TestRun | undefined> {
+    return this.testRuns.get(id);
+  }
+
+  async getTestRunsByProject(projectId: number): Promise<TestRun[]> {
+    return Array.from(this.testRuns.values())
+      .filter(testRun => testRun.projectId === projectId)
+      .sort((a, b) => new Date(b.startedAt || 0).getTime() - new Date(a.startedAt || 0).getTime());
+  }
+
+  async updateTestRun(id: number, updates: Partial<TestRun>): Promise<TestRun | undefined> {
+    const testRun = this.testRuns.get(id);
+    if (!testRun) return undefined;
+
+    const updatedTestRun = { ...testRun, ...updates };
+    this.testRuns.set(id, updatedTestRun);
+    return updatedTestRun;
+  }
+
+  async createTestRunResult(result: InsertTestRunResult): Promise<TestRunResult> {
+    const typedResult = result as any;
+    const newResult: TestRunResult = {
+      id: this.nextId++,
+      testRunId: typedResult.testRunId ?? null,
+      testCaseId: typedResult.testCaseId ?? null,
+      testCaseName: typedResult.testCaseName,
+      status: typedResult.status,
+      attempt: typedResult.attempt ?? 1,
+      shard: typedResult.shard ?? 0,
+      duration: typedResult.duration ?? null,
+      testScript: typedResult.testScript ?? null,
+      scriptHash: typedResult.scriptHash ?? null,
+      errors: typedResult.errors ?? null,
+      assertions: typedResult.assertions ?? null,
+      stdout: typedResult.stdout ?? null,
+      failureSignature: typedResult.failureSignature ?? null,
+      defectKey: typedResult.defectKey ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.testRunResults.set(newResult.id, newResult);
+    return newResult;
+  }
+
+  async getTestRunResults(testRunId: number): Promise<TestRunResult[]> {
+    return Array.from(this.testRunResults.values()).filter(result => result.testRunId === testRunId);
+  }
+
+  async getTestRunResult(id: number): Promise<TestRunResult | undefined> {
+    return this.testRunResults.get(id);
+  }
+
+  async getTestRunResultsByFailureSignature(failureSignature: string): Promise<TestRunResult[]> {
+    return Array.from(this.testRunResults.values())
+      .filter(result => result.failureSignature === failureSignature)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateTestRunResult(id: number, updates: Partial<TestRunResult>): Promise<TestRunResult | undefined> {
+    const result = this.testRunResults.get(id);
+    if (!result) return undefined;
+
+    const updatedResult = { ...result, ...updates };
+    this.testRunResults.set(id, updatedResult);
+    return updatedResult;
+  }
+
+  async deleteTestRunResults(testRunId: number): Promise<number> {
+    let deleted = 0;
+    this.testRunResults.forEach((result, resultId) => {
+      if (result.testRunId === testRunId) {
+        this.testRunResults.delete(resultId);
+        deleted++;
+      }
+    });
+    this.artifacts.forEach(artifact => {
+      if (artifact.testRunResultId !== null && !this.testRunResults.has(artifact.testRunResultId)) {
+        artifact.testRunResultId = null;
+      }
+    });
+    return deleted;
+  }
+
+  // Test Execution History
+  async createTestExecutionRecord(record: InsertTestExecutionRecord): Promise<TestExecutionRecord> {
+    const typedRecord = record as any;
+    const newRecord: TestExecutionRecord = {
+      id: this.nextId++,
+      projectId: typedRecord.projectId ?? null,
+      testCaseId: typedRecord.testCaseId ?? null,
+      testRunId: typedRecord.testRunId ?? null,
+      testName: typedRecord.testName,
+      result: typedRecord.result,
+      duration: typedRecord.duration,
+      scriptHash: typedRecord.scriptHash ?? null,
+      errorType: typedRecord.errorType ?? null,
+      codeChanges: typedRecord.codeChanges ?? null,
+      branchName: typedRecord.branchName ?? null,
+      executedAt: new Date(),
+    };
+    
+    this.testExecutionHistory.push(newRecord);
+    return newRecord;
+  }
+
+  async getTestExecutionHistoryByProject(projectId: number): Promise<TestExecutionRecord[]> {
+    return this.testExecutionHistory.filter(record => record.projectId === projectId);
+  }
+
+  // Jobs
+  async createJob(job: InsertJob): Promise<Job> {
+    const typedJob = job as any;
+    const newJob: Job = {
+      id: this.nextId++,
+      type: typedJob.type,
+      projectId: typedJob.projectId ?? null,
+      payload: typedJob.payload ?? null,
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: typedJob.maxAttempts ?? 3,
+      runAt: typedJob.runAt ?? new Date(),
+      lockedBy: null,
+      lockedAt: null,
+      lastError: null,
+      result: null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+    };
+    
+    this.jobs.set(newJob.id, newJob);
+    return newJob;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobsByProject(projectId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.projectId === projectId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getJobsByStatus(statuses: string[]): Promise<Job[]> {
+    return Array.from(this.jobs.values()).filter(job => statuses.includes(job.status || ''));
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimNextJob(type: string, workerId: string): Promise<Job | undefined> {
+    const now = new Date();
+    const nextJob = Array.from(this.jobs.values())
+      .filter(job => job.status === 'queued' && job.type === type && new Date(job.runAt || 0) <= now)
+      .sort((a, b) => new Date(a.runAt || 0).getTime() - new Date(b.runAt || 0).getTime() || a.id - b.id)[0];
+    if (!nextJob) return undefined;
+
+    const claimedJob: Job = {
+      ...nextJob,
+      status: 'running',
+      lockedBy: workerId,
+      lockedAt: now,
+      startedAt: now,
+      attempts: (nextJob.attempts || 0) + 1
+    };
+    this.jobs.set(claimedJob.id, claimedJob);
+    return claimedJob;
+  }
+
+  async touchJob(id: number, workerId: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.lockedBy !== workerId || job.status !== 'running') return false;
+
+    this.jobs.set(id, { ...job, lockedAt: new Date() });
+    return true;
+  }
+
+  async updateOwnedJob(id: number, workerId: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || job.lockedBy !== workerId || job.status !== 'running') return undefined;
+
+    const updatedJob = { ...job, ...updates };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async releaseStaleJobs(staleBefore: Date): Promise<Job[]> {
+    const releasedJobs: Job[] = [];
+
+    this.jobs.forEach((job, jobId) => {
+      if (job.status !== 'running' || !job.lockedAt || job.lockedAt >= staleBefore) return;
+
+      const exhausted = (job.attempts || 0) >= (job.maxAttempts || 0);
+      const releasedJob: Job = {
+        ...job,
+        status: exhausted ? 'failed' : 'queued',
+        completedAt: exhausted ? new Date() : null,
+        lockedBy: null,
+        lockedAt: null,
+        runAt: new Date(),
+        lastError: 'Worker stopped responding before the job finished'
+      };
+      this.jobs.set(jobId, releasedJob);
+      releasedJobs.push(releasedJob);
+    });
+
+    return releasedJobs;
+  }
+
+  // Artifacts
+  async createArtifact(artifact: InsertArtifact): Promise<Artifact> {
+    const typedArtifact = artifact as any;
+    const newArtifact: Artifact = {
+      id: this.nextId++,
+      projectId: typedArtifact.projectId ?? null,
+      testRunId: typedArtifact.testRunId ?? null,
+      testRunResultId: typedArtifact.testRunResultId ?? null,
+      testCaseId: typedArtifact.testCaseId ?? null,
+      kind: typedArtifact.kind,
+      fileName: typedArtifact.fileName,
+      contentType: typedArtifact.contentType,
+      size: typedArtifact.size,
+      sha256: typedArtifact.sha256,
+      createdAt: new Date(),
+    };
+    
+    this.artifacts.set(newArtifact.id, newArtifact);
+    return newArtifact;
+  }
+
+  async getArtifact(id: number): Promise<Artifact | undefined> {
+    return this.artifacts.get(id);
+  }
+
+  async getArtifactsByTestRun(testRunId: number): Promise<Artifact[]> {
+    return Array.from(this.artifacts.values()).filter(artifact => artifact.testRunId === testRunId);
+  }
+
+  async getArtifactsByProject(projectId: number): Promise<Artifact[]> {
+    return Array.from(this.artifacts.values())
+      .filter(artifact => artifact.projectId === projectId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getArtifactsCreatedBefore(createdBefore: Date): Promise<Artifact[]> {
+    return Array.from(this.artifacts.values())
+      .filter(artifact => artifact.createdAt && artifact.createdAt < createdBefore);
+  }
+
+  async countArtifactsBySha256(sha256: string): Promise<number> {
+    return Array.from(this.artifacts.values()).filter(artifact => artifact.sha256 === sha256).length;
+  }
+
+  async deleteArtifact(id: number): Promise<void> {
+    this.artifacts.delete(id);
+  }
+
+  // Coverage
+  async createCoverageReport(report: InsertCoverageReport, files: Omit<InsertCoverageFile, 'reportId'>[]): Promise<CoverageReport> {
+    const typedReport = report as any;
+    const newReport: CoverageReport = {
+      id: this.nextId++,
+      projectId: typedReport.projectId ?? null,
+      testRunId: typedReport.testRunId ?? null,
+      source: typedReport.source,
+      format: typedReport.format,
+      linesTotal: typedReport.linesTotal ?? 0,
+      linesCovered: typedReport.linesCovered ?? 0,
+      branchesTotal: typedReport.branchesTotal ?? 0,
+      branchesCovered: typedReport.branchesCovered ?? 0,
+      functionsTotal: typedReport.functionsTotal ?? 0,
+      functionsCovered: typedReport.functionsCovered ?? 0,
+      createdAt: new Date(),
+    };
+    this.coverageReports.set(newReport.id, newReport);
+
+    for (const file of files) {
+      const typedFile = file as any;
+      const newFile: CoverageFile = {
+        id: this.nextId++,
+        reportId: newReport.id,
+        filePath: typedFile.filePath,
+        linesTotal: typedFile.linesTotal ?? 0,
+        linesCovered: typedFile.linesCovered ?? 0,
+        branchesTotal: typedFile.branchesTotal ?? 0,
+        branchesCovered: typedFile.branchesCovered ?? 0,
+        functionsTotal: typedFile.functionsTotal ?? 0,
+        functionsCovered: typedFile.functionsCovered ?? 0,
+        lineHits: typedFile.lineHits ?? null,
+        branches: typedFile.branches ?? null,
+        functions: typedFile.functions ?? null,
+      };
+      this.coverageFiles.set(newFile.id, newFile);
+    }
+
+    return newReport;
+  }
+
+  async getCoverageReport(id: number): Promise<CoverageReport | undefined> {
+    return this.coverageReports.get(id);
+  }
+
+  async getCoverageReportsByProject(projectId: number): Promise<CoverageReport[]> {
+    return Array.from(this.coverageReports.values())
+      .filter(report => report.projectId === projectId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id);
+  }
+
+  async getLatestCoverageReport(projectId: number): Promise<CoverageReport | undefined> {
+    const [latest] = await this.getCoverageReportsByProject(projectId);
+    return latest;
+  }
+
+  async getCoverageFiles(reportId: number): Promise<CoverageFile[]> {
+    return Array.from(this.coverageFiles.values())
+      .filter(file => file.reportId === reportId)
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  // Project logs
+  async createProjectLogs(logs: InsertProjectLog[]): Promise<void> {
+    for (const log of logs) {
+      const typedLog = log as any;
+      const newLog: ProjectLog = {
+        id: this.nextId++,
+        projectId: typedLog.projectId ?? null,
+        testRunId: typedLog.testRunId ?? null,
+        testCaseId: typedLog.testCaseId ?? null,
+        level: typedLog.level,
+        category: typedLog.category,
+        source: typedLog.source ?? null,
+        framework: typedLog.framework ?? null,
+        message: typedLog.message,
+        duration: typedLog.duration ?? null,
+        details: typedLog.details ?? null,
+        createdAt: typedLog.createdAt ?? new Date(),
+      };
+      this.projectLogs.set(newLog.id, newLog);
+    }
+  }
+
+  async getProjectLogs(projectId: number, query: ProjectLogQuery): Promise<ProjectLog[]> {
+    const search = query.search?.toLowerCase();
+    return Array.from(this.projectLogs.values())
+      .filter(log =>
+        log.projectId === projectId &&
+        (!query.levels?.length || query.levels.includes(log.level)) &&
+        (!query.categories?.length || query.categories.includes(log.category)) &&
+        (!query.framework || log.framework === query.framework) &&
+        (query.testRunId === undefined || log.testRunId === query.testRunId) &&
+        (query.testCaseId === undefined || log.testCaseId === query.testCaseId) &&
+        (!query.from || (log.createdAt !== null && log.createdAt >= query.from)) &&
+        (!query.to || (log.createdAt !== null && log.createdAt <= query.to)) &&
+        (query.before === undefined || log.id < query.before) &&
+        (!search || log.message.toLowerCase().includes(search) || !!log.framework?.toLowerCase().includes(search))
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+
+  async deleteProjectLogsBefore(createdBefore: Date): Promise<number> {
+    let deleted = 0;
+    for (const log of Array.from(this.projectLogs.values())) {
+      if (log.createdAt && log.createdAt < createdBefore) {
+        this.projectLogs.delete(log.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Requirements
+  async createRequirement(requirement: InsertRequirement): Promise<Requirement> {
+    const typedRequirement = requirement as any;
+    const newRequirement: Requirement = {
+      id: this.nextId++,
+      projectId: typedRequirement.projectId ?? null,
+      key: typedRequirement.key,
+      title: typedRequirement.title,
+      description: typedRequirement.description ?? null,
+      source: typedRequirement.source,
+      sourceRef: typedRequirement.sourceRef ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.requirements.set(newRequirement.id, newRequirement);
+    return newRequirement;
+  }
+
+  async getRequirement(id: number): Promise<Requirement | undefined> {
+    return this.requirements.get(id);
+  }
+
+  async getRequirementsByProject(projectId: number): Promise<Requirement[]> {
+    return Array.from(this.requirements.values())
+      .filter(requirement => requirement.projectId === projectId)
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async updateRequirement(id: number, updates: Partial<Requirement>): Promise<Requirement | undefined> {
+    const requirement = this.requirements.get(id);
+    if (!requirement) return undefined;
+
+    const updatedRequirement = { ...requirement, ...updates, updatedAt: new Date() };
+    this.requirements.set(id, updatedRequirement);
+    return updatedRequirement;
+  }
+
+  async deleteRequirement(id: number): Promise<void> {
+    this.requirements.delete(id);
+    this.requirementLinks.forEach((link, linkId) => {
+      if (link.requirementId === id) {
+        this.requirementLinks.delete(linkId);
+      }
+    });
+  }
+
+  async linkRequirement(requirementId: number, testCaseId: number): Promise<RequirementLink> {
+    const existing = Array.from(this.requirementLinks.values())
+      .find(link => link.requirementId === requirementId && link.testCaseId === testCaseId);
+    if (existing) return existing;
+
+    const newLink: RequirementLink = {
+      id: this.nextId++,
+      requirementId,
+      testCaseId,
+      createdAt: new Date(),
+    };
+    this.requirementLinks.set(newLink.id, newLink);
+    return newLink;
+  }
+
+  async unlinkRequirement(requirementId: number, testCaseId: number): Promise<boolean> {
+    const link = Array.from(this.requirementLinks.values())
+      .find(link => link.requirementId === requirementId && link.testCaseId === testCaseId);
+    if (!link) return false;
+
+    this.requirementLinks.delete(link.id);
+    return true;
+  }
+
+  async getRequirementLinksByProject(projectId: number): Promise<RequirementLink[]> {
+    return Array.from(this.requirementLinks.values())
+      .filter(link => this.requirements.get(link.requirementId)?.projectId === projectId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Environments
+  async createEnvironment(environment: InsertEnvironment): Promise<Environment> {
+    const typedEnvironment = environment as any;
+    const newEnvironment: Environment = {
+      id: this.nextId++,
+      projectId: typedEnvironment.projectId ?? null,
+      name: typedEnvironment.name,
+      variables: typedEnvironment.variables,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.environments.set(newEnvironment.id, newEnvironment);
+    return newEnvironment;
+  }
+
+  async getEnvironment(id: number): Promise<Environment | undefined> {
+    return this.environments.get(id);
+  }
+
+  async getEnvironmentsByProject(projectId: number): Promise<Environment[]> {
+    return Array.from(this.environments.values())
+      .filter(environment => environment.projectId === projectId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async updateEnvironment(id: number, updates: Partial<Environment>): Promise<Environment | undefined> {
+    const environment = this.environments.get(id);
+    if (!environment) return undefined;
+
+    const updatedEnvironment = { ...environment, ...updates, updatedAt: new Date() };
+    this.environments.set(id, updatedEnvironment);
+    return updatedEnvironment;
+  }
+
+  async deleteEnvironment(id: number): Promise<void> {
+    this.environments.delete(id);
+    this.testRuns.forEach(testRun => {
+      if (testRun.environmentId === id) {
+        testRun.environmentId = null;
+      }
+    });
+  }
+
+  // OpenAPI specs, keyed by project id
+  async saveOpenApiSpec(spec: InsertOpenApiSpec): Promise<OpenApiSpec> {
+    const typedSpec = spec as any;
+    const existing = this.openApiSpecs.get(typedSpec.projectId);
+    const savedSpec: OpenApiSpec = {
+      id: existing?.id ?? this.nextId++,
+      projectId: typedSpec.projectId,
+      title: typedSpec.title,
+      version: typedSpec.version ?? null,
+      source: typedSpec.source,
+      baseUrl: typedSpec.baseUrl ?? null,
+      document: typedSpec.document,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    this.openApiSpecs.set(savedSpec.projectId, savedSpec);
+    return savedSpec;
+  }
+
+  async getOpenApiSpecByProject(projectId: number): Promise<OpenApiSpec | undefined> {
+    return this.openApiSpecs.get(projectId);
   }
 
   // Agents
@@ -306,6 +1002,9 @@ class InMemoryStorage implements IStorage {
       projects: this.projects.size,
       analyses: this.analyses.size,
       testCases: this.testCases.size,
+      testRuns: this.testRuns.size,
+      testExecutionHistory: this.testExecutionHistory.length,
+      jobs: this.jobs.size,
       recommendations: this.recommendations.size,
       agents: this.agents.size,
       memoryStorage: true
@@ -1,12 +1,23 @@
 import { 
-  projects, analyses, testCases, agents, recommendations,
+  projects, analyses, testCases, testRuns, testRunResults, testExecutionHistory, jobs, artifacts, coverageReports, coverageFiles, projectLogs, requirements, requirementLinks, environments, openApiSpecs, agents, recommendations,
   type Project, type InsertProject, 
   type Analysis, type InsertAnalysis,
   type TestCase, type InsertTestCase,
+  type TestRun, type InsertTestRun,
+  type TestRunResult, type InsertTestRunResult,
+  type TestExecutionRecord, type InsertTestExecutionRecord,
+  type Job, type InsertJob,
+  type Artifact, type InsertArtifact,
+  type CoverageReport, type InsertCoverageReport,
+  type CoverageFile, type InsertCoverageFile,
+  type ProjectLog, type InsertProjectLog, type ProjectLogQuery,
+  type Requirement, type InsertRequirement, type RequirementLink,
+  type Environment, type InsertEnvironment,
+  type OpenApiSpec, type InsertOpenApiSpec,
   type Agent, type Recommendation, type InsertRecommendation
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, or, gte, lte, lt, inArray, ilike, sql, type SQL } from "drizzle-orm";
 import { logger } from "./logger";
 import { performanceMonitor } from "./utils/performanceMonitor";
 import { InMemoryStorage } from "./storage-fallback";
@@ -27,10 +38,81 @@ export interface IStorage {
 
   // Test Cases
   createTestCase(testCase: InsertTestCase): Promise<TestCase>;
+  getTestCase(id: number): Promise<TestCase | undefined>;
   getTestCasesByProject(projectId: number): Promise<TestCase[]>;
   updateTestCase(id: number, updates: Partial<TestCase>): Promise<TestCase | undefined>;
   deleteTestCase(id: number): Promise<void>;
 
+  // Test Runs
+  createTestRun(testRun: InsertTestRun): Promise<TestRun>;
+  getTestRun(id: number): Promise<TestRun | undefined>;
+  getTestRunsByProject(projectId: number): Promise<TestRun[]>;
+  updateTestRun(id: number, updates: Partial<TestRun>): Promise<TestRun | undefined>;
+  createTestRunResult(result: InsertTestRunResult): Promise<TestRunResult>;
+  getTestRunResults(testRunId: number): Promise<TestRunResult[]>;
+  getTestRunResult(id: number): Promise<TestRunResult | undefined>;
+  getTestRunResultsByFailureSignature(failureSignature: string): Promise<TestRunResult[]>;
+  updateTestRunResult(id: number, updates: Partial<TestRunResult>): Promise<TestRunResult | undefined>;
+  deleteTestRunResults(testRunId: number): Promise<number>;
+
+  // Test Execution History
+  createTestExecutionRecord(record: InsertTestExecutionRecord): Promise<TestExecutionRecord>;
+  getTestExecutionHistoryByProject(projectId: number): Promise<TestExecutionRecord[]>;
+
+  // Jobs
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobsByProject(projectId: number): Promise<Job[]>;
+  getJobsByStatus(statuses: string[]): Promise<Job[]>;
+  updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined>;
+  claimNextJob(type: string, workerId: string): Promise<Job | undefined>;
+  touchJob(id: number, workerId: string): Promise<boolean>;
+  // Updates a job only while it is running under the given worker's lock
+  updateOwnedJob(id: number, workerId: string, updates: Partial<Job>): Promise<Job | undefined>;
+  releaseStaleJobs(staleBefore: Date): Promise<Job[]>;
+
+  // Artifacts
+  createArtifact(artifact: InsertArtifact): Promise<Artifact>;
+  getArtifact(id: number): Promise<Artifact | undefined>;
+  getArtifactsByTestRun(testRunId: number): Promise<Artifact[]>;
+  getArtifactsByProject(projectId: number): Promise<Artifact[]>;
+  getArtifactsCreatedBefore(createdBefore: Date): Promise<Artifact[]>;
+  countArtifactsBySha256(sha256: string): Promise<number>;
+  deleteArtifact(id: number): Promise<void>;
+
+  // Coverage
+  createCoverageReport(report: InsertCoverageReport, files: Omit<InsertCoverageFile, 'reportId'>[]): Promise<CoverageReport>;
+  getCoverageReport(id: number): Promise<CoverageReport | undefined>;
+  getCoverageReportsByProject(projectId: number): Promise<CoverageReport[]>;
+  getLatestCoverageReport(projectId: number): Promise<CoverageReport | undefined>;
+  getCoverageFiles(reportId: number): Promise<CoverageFile[]>;
+
+  // Project logs
+  createProjectLogs(logs: InsertProjectLog[]): Promise<void>;
+  getProjectLogs(projectId: number, query: ProjectLogQuery): Promise<ProjectLog[]>;
+  deleteProjectLogsBefore(createdBefore: Date): Promise<number>;
+
+  // Requirements
+  createRequirement(requirement: InsertRequirement): Promise<Requirement>;
+  getRequirement(id: number): Promise<Requirement | undefined>;
+  getRequirementsByProject(projectId: number): Promise<Requirement[]>;
+  updateRequirement(id: number, updates: Partial<Requirement>): Promise<Requirement | undefined>;
+  deleteRequirement(id: number): Promise<void>;
+  linkRequirement(requirementId: number, testCaseId: number): Promise<RequirementLink>;
+  unlinkRequirement(requirementId: number, testCaseId: number): Promise<boolean>;
+  getRequirementLinksByProject(projectId: number): Promise<RequirementLink[]>;
+
+  // Environments
+  createEnvironment(environment: InsertEnvironment): Promise<Environment>;
+  getEnvironment(id: number): Promise<Environment | undefined>;
+  getEnvironmentsByProject(projectId: number): Promise<Environment[]>;
+  updateEnvironment(id: number, updates: Partial<Environment>): Promise<Environment | undefined>;
+  deleteEnvironment(id: number): Promise<void>;
+
+  // OpenAPI specs
+  saveOpenApiSpec(spec: InsertOpenApiSpec): Promise<OpenApiSpec>;
+  getOpenApiSpecByProject(projectId: number): Promise<OpenApiSpec | undefined>;
+
   // Agents
   getAllAgents(): Promise<Agent[]>;
   updateAgentStatus(id: number, status: string): Promise<Agent | undefined>;
@@ -143,6 +225,7 @@ export class DatabaseStorage implements IStorage {
             description: projects.description,
             sourceType: projects.sourceType,
             sourceUrl: projects.sourceUrl,
+            commitSha: projects.commitSha,
             analysisStatus: projects.analysisStatus,
             createdAt: projects.createdAt,
             updatedAt: projects.updatedAt
@@ -227,6 +310,13 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async getTestCase(id: number): Promise<TestCase | undefined> {
+    return withErrorHandling('getTestCase', { id }, async () => {
+      const [testCase] = await db.select().from(testCases).where(eq(testCases.id, id));
+      return testCase || undefined;
+    });
+  }
+
   async getTestCasesByProject(projectId: number): Promise<TestCase[]> {
     return withErrorHandling('getTestCasesByProject', { projectId }, async () => {
       const testCaseList = await db.select().from(testCases).where(eq(testCases.projectId, projectId));
@@ -251,6 +341,565 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async createTestRun(testRun: InsertTestRun): Promise<TestRun> {
+    return withErrorHandling('createTestRun', { testRun }, async () => {
+      const [newTestRun] = await db
+        .insert(testRuns)
+        .values(testRun)
+        .returning();
+      
+      logger.info(`Test run created: ${newTestRun.id} (${newTestRun.framework}) for project ${newTestRun.projectId}`);
+      return newTestRun;
+    });
+  }
+
+  async getTestRun(id: number): Promise<TestRun | undefined> {
+    return withErrorHandling('getTestRun', { id }, async () => {
+      const [testRun] = await db.select().from(testRuns).where(eq(testRuns.id, id));
+      return testRun || undefined;
+    });
+  }
+
+  async getTestRunsByProject(projectId: number): Promise<TestRun[]> {
+    return withErrorHandling('getTestRunsByProject', { projectId }, async () => {
+      const testRunList = await db
+        .select()
+        .from(testRuns)
+        .where(eq(testRuns.projectId, projectId))
+        .orderBy(desc(testRuns.startedAt));
+      logger.debug(`Retrieved ${testRunList.length} test runs for project ${projectId}`);
+      return testRunList;
+    });
+  }
+
+  async updateTestRun(id: number, updates: Partial<TestRun>): Promise<TestRun | undefined> {
+    return withErrorHandling('updateTestRun', { id, updates }, async () => {
+      const [updatedTestRun] = await db
+        .update(testRuns)
+        .set(updates)
+        .where(eq(testRuns.id, id))
+        .returning();
+      
+      if (updatedTestRun) {
+        logger.info(`Test run updated: ${id} -> ${updatedTestRun.status}`);
+      }
+      
+      return updatedTestRun || undefined;
+    });
+  }
+
+  async createTestRunResult(result: InsertTestRunResult): Promise<TestRunResult> {
+    return withErrorHandling('createTestRunResult', { testRunId: result.testRunId, testCaseId: result.testCaseId }, async () => {
+      const [newResult] = await db
+        .insert(testRunResults)
+        .values(result)
+        .returning();
+      
+      return newResult;
+    });
+  }
+
+  async getTestRunResults(testRunId: number): Promise<TestRunResult[]> {
+    return withErrorHandling('getTestRunResults', { testRunId }, async () => {
+      return await db
+        .select()
+        .from(testRunResults)
+        .where(eq(testRunResults.testRunId, testRunId))
+        .orderBy(testRunResults.id);
+    });
+  }
+
+  async getTestRunResult(id: number): Promise<TestRunResult | undefined> {
+    return withErrorHandling('getTestRunResult', { id }, async () => {
+      const [result] = await db.select().from(testRunResults).where(eq(testRunResults.id, id));
+      return result || undefined;
+    });
+  }
+
+  async getTestRunResultsByFailureSignature(failureSignature: string): Promise<TestRunResult[]> {
+    return withErrorHandling('getTestRunResultsByFailureSignature', { failureSignature }, async () => {
+      return await db
+        .select()
+        .from(testRunResults)
+        .where(eq(testRunResults.failureSignature, failureSignature))
+        .orderBy(desc(testRunResults.id));
+    });
+  }
+
+  async updateTestRunResult(id: number, updates: Partial<TestRunResult>): Promise<TestRunResult | undefined> {
+    return withErrorHandling('updateTestRunResult', { id, updates }, async () => {
+      const [updatedResult] = await db
+        .update(testRunResults)
+        .set(updates)
+        .where(eq(testRunResults.id, id))
+        .returning();
+      return updatedResult || undefined;
+    });
+  }
+
+  async deleteTestRunResults(testRunId: number): Promise<number> {
+    return withErrorHandling('deleteTestRunResults', { testRunId }, async () => {
+      const deleted = await db
+        .delete(testRunResults)
+        .where(eq(testRunResults.testRunId, testRunId))
+        .returning({ id: testRunResults.id });
+      return deleted.length;
+    });
+  }
+
+  async createTestExecutionRecord(record: InsertTestExecutionRecord): Promise<TestExecutionRecord> {
+    return withErrorHandling('createTestExecutionRecord', { testCaseId: record.testCaseId, result: record.result }, async () => {
+      const [newRecord] = await db
+        .insert(testExecutionHistory)
+        .values(record)
+        .returning();
+      
+      return newRecord;
+    });
+  }
+
+  async getTestExecutionHistoryByProject(projectId: number): Promise<TestExecutionRecord[]> {
+    return withErrorHandling('getTestExecutionHistoryByProject', { projectId }, async () => {
+      const history = await db
+        .select()
+        .from(testExecutionHistory)
+        .where(eq(testExecutionHistory.projectId, projectId))
+        .orderBy(testExecutionHistory.executedAt);
+      logger.debug(`Retrieved ${history.length} execution history records for project ${projectId}`);
+      return history;
+    });
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    return withErrorHandling('createJob', { type: job.type, projectId: job.projectId }, async () => {
+      const [newJob] = await db
+        .insert(jobs)
+        .values(job)
+        .returning();
+      
+      logger.info(`Job queued: ${newJob.type} #${newJob.id} for project ${newJob.projectId}`);
+      return newJob;
+    });
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return withErrorHandling('getJob', { id }, async () => {
+      const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+      return job || undefined;
+    });
+  }
+
+  async getJobsByProject(projectId: number): Promise<Job[]> {
+    return withErrorHandling('getJobsByProject', { projectId }, async () => {
+      return await db
+        .select()
+        .from(jobs)
+        .where(eq(jobs.projectId, projectId))
+        .orderBy(desc(jobs.createdAt));
+    });
+  }
+
+  async getJobsByStatus(statuses: string[]): Promise<Job[]> {
+    return withErrorHandling('getJobsByStatus', { statuses }, async () => {
+      return await db.select().from(jobs).where(inArray(jobs.status, statuses));
+    });
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined> {
+    return withErrorHandling('updateJob', { id, updates }, async () => {
+      const [updatedJob] = await db
+        .update(jobs)
+        .set(updates)
+        .where(eq(jobs.id, id))
+        .returning();
+      
+      return updatedJob || undefined;
+    });
+  }
+
+  async claimNextJob(type: string, workerId: string): Promise<Job | undefined> {
+    return withErrorHandling('claimNextJob', { type, workerId }, async () => {
+      // SKIP LOCKED lets several workers poll the same table without claiming a job twice
+      const nextJob = db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(and(eq(jobs.status, 'queued'), eq(jobs.type, type), lte(jobs.runAt, new Date())))
+        .orderBy(jobs.runAt, jobs.id)
+        .limit(1)
+        .for('update', { skipLocked: true });
+
+      const now = new Date();
+      const [claimedJob] = await db
+        .update(jobs)
+        .set({
+          status: 'running',
+          lockedBy: workerId,
+          lockedAt: now,
+          startedAt: now,
+          attempts: sql`${jobs.attempts} + 1`
+        })
+        .where(inArray(jobs.id, nextJob))
+        .returning();
+      
+      return claimedJob || undefined;
+    });
+  }
+
+  async touchJob(id: number, workerId: string): Promise<boolean> {
+    return withErrorHandling('touchJob', { id, workerId }, async () => {
+      const touched = await db
+        .update(jobs)
+        .set({ lockedAt: new Date() })
+        .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId), eq(jobs.status, 'running')))
+        .returning({ id: jobs.id });
+      
+      return touched.length > 0;
+    });
+  }
+
+  async updateOwnedJob(id: number, workerId: string, updates: Partial<Job>): Promise<Job | undefined> {
+    return withErrorHandling('updateOwnedJob', { id, workerId }, async () => {
+      const [updatedJob] = await db
+        .update(jobs)
+        .set(updates)
+        .where(and(eq(jobs.id, id), eq(jobs.lockedBy, workerId), eq(jobs.status, 'running')))
+        .returning();
+      return updatedJob || undefined;
+    });
+  }
+
+  async releaseStaleJobs(staleBefore: Date): Promise<Job[]> {
+    return withErrorHandling('releaseStaleJobs', { staleBefore }, async () => {
+      // Jobs whose worker stopped heartbeating are retried, or failed once out of attempts
+      const releasedJobs = await db
+        .update(jobs)
+        .set({
+          status: sql`CASE WHEN ${jobs.attempts} >= ${jobs.maxAttempts} THEN 'failed' ELSE 'queued' END`,
+          completedAt: sql`CASE WHEN ${jobs.attempts} >= ${jobs.maxAttempts} THEN NOW() ELSE NULL END`,
+          lockedBy: null,
+          lockedAt: null,
+          runAt: new Date(),
+          lastError: 'Worker stopped responding before the job finished'
+        })
+        .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, staleBefore)))
+        .returning();
+      
+      if (releasedJobs.length > 0) {
+        logger.warn(`Released ${releasedJobs.length} stale jobs`, { jobIds: releasedJobs.map(job => job.id) });
+      }
+      
+      return releasedJobs;
+    });
+  }
+
+  async createArtifact(artifact: InsertArtifact): Promise<Artifact> {
+    return withErrorHandling('createArtifact', { fileName: artifact.fileName, testRunId: artifact.testRunId }, async () => {
+      const [newArtifact] = await db
+        .insert(artifacts)
+        .values(artifact)
+        .returning();
+      
+      return newArtifact;
+    });
+  }
+
+  async getArtifact(id: number): Promise<Artifact | undefined> {
+    return withErrorHandling('getArtifact', { id }, async () => {
+      const [artifact] = await db.select().from(artifacts).where(eq(artifacts.id, id));
+      return artifact || undefined;
+    });
+  }
+
+  async getArtifactsByTestRun(testRunId: number): Promise<Artifact[]> {
+    return withErrorHandling('getArtifactsByTestRun', { testRunId }, async () => {
+      return await db
+        .select()
+        .from(artifacts)
+        .where(eq(artifacts.testRunId, testRunId))
+        .orderBy(artifacts.id);
+    });
+  }
+
+  async getArtifactsByProject(projectId: number): Promise<Artifact[]> {
+    return withErrorHandling('getArtifactsByProject', { projectId }, async () => {
+      return await db
+        .select()
+        .from(artifacts)
+        .where(eq(artifacts.projectId, projectId))
+        .orderBy(desc(artifacts.createdAt));
+    });
+  }
+
+  async getArtifactsCreatedBefore(createdBefore: Date): Promise<Artifact[]> {
+    return withErrorHandling('getArtifactsCreatedBefore', { createdBefore }, async () => {
+      return await db.select().from(artifacts).where(lt(artifacts.createdAt, createdBefore));
+    });
+  }
+
+  async countArtifactsBySha256(sha256: string): Promise<number> {
+    return withErrorHandling('countArtifactsBySha256', { sha256 }, async () => {
+      const [row] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(artifacts)
+        .where(eq(artifacts.sha256, sha256));
+      return row?.count ?? 0;
+    });
+  }
+
+  async deleteArtifact(id: number): Promise<void> {
+    return withErrorHandling('deleteArtifact', { id }, async () => {
+      await db.delete(artifacts).where(eq(artifacts.id, id));
+    });
+  }
+
+  async createCoverageReport(report: InsertCoverageReport, files: Omit<InsertCoverageFile, 'reportId'>[]): Promise<CoverageReport> {
+    return withErrorHandling('createCoverageReport', { projectId: report.projectId, files: files.length }, async () => {
+      return await db.transaction(async (tx) => {
+        const [newReport] = await tx
+          .insert(coverageReports)
+          .values(report)
+          .returning();
+
+        if (files.length > 0) {
+          await tx.insert(coverageFiles).values(files.map(file => ({ ...file, reportId: newReport.id })));
+        }
+
+        return newReport;
+      });
+    });
+  }
+
+  async getCoverageReport(id: number): Promise<CoverageReport | undefined> {
+    return withErrorHandling('getCoverageReport', { id }, async () => {
+      const [report] = await db.select().from(coverageReports).where(eq(coverageReports.id, id));
+      return report || undefined;
+    });
+  }
+
+  async getCoverageReportsByProject(projectId: number): Promise<CoverageReport[]> {
+    return withErrorHandling('getCoverageReportsByProject', { projectId }, async () => {
+      return await db
+        .select()
+        .from(coverageReports)
+        .where(eq(coverageReports.projectId, projectId))
+        .orderBy(desc(coverageReports.createdAt), desc(coverageReports.id));
+    });
+  }
+
+  async getLatestCoverageReport(projectId: number): Promise<CoverageReport | undefined> {
+    return withErrorHandling('getLatestCoverageReport', { projectId }, async () => {
+      const [report] = await db
+        .select()
+        .from(coverageReports)
+        .where(eq(coverageReports.projectId, projectId))
+        .orderBy(desc(coverageReports.createdAt), desc(coverageReports.id))
+        .limit(1);
+      return report || undefined;
+    });
+  }
+
+  async getCoverageFiles(reportId: number): Promise<CoverageFile[]> {
+    return withErrorHandling('getCoverageFiles', { reportId }, async () => {
+      return await db
+        .select()
+        .from(coverageFiles)
+        .where(eq(coverageFiles.reportId, reportId))
+        .orderBy(coverageFiles.filePath);
+    });
+  }
+
+  async createProjectLogs(logs: InsertProjectLog[]): Promise<void> {
+    if (logs.length === 0) return;
+    return withErrorHandling('createProjectLogs', { records: logs.length }, async () => {
+      await db.insert(projectLogs).values(logs);
+    });
+  }
+
+  async getProjectLogs(projectId: number, query: ProjectLogQuery): Promise<ProjectLog[]> {
+    return withErrorHandling('getProjectLogs', { projectId }, async () => {
+      const conditions: SQL[] = [eq(projectLogs.projectId, projectId)];
+      if (query.levels?.length) conditions.push(inArray(projectLogs.level, query.levels));
+      if (query.categories?.length) conditions.push(inArray(projectLogs.category, query.categories));
+      if (query.framework) conditions.push(eq(projectLogs.framework, query.framework));
+      if (query.testRunId !== undefined) conditions.push(eq(projectLogs.testRunId, query.testRunId));
+      if (query.testCaseId !== undefined) conditions.push(eq(projectLogs.testCaseId, query.testCaseId));
+      if (query.from) conditions.push(gte(projectLogs.createdAt, query.from));
+      if (query.to) conditions.push(lte(projectLogs.createdAt, query.to));
+      if (query.before !== undefined) conditions.push(lt(projectLogs.id, query.before));
+      if (query.search) {
+        // Match the term literally, not as a LIKE pattern
+        const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+        conditions.push(or(ilike(projectLogs.message, pattern), ilike(projectLogs.framework, pattern))!);
+      }
+
+      return await db
+        .select()
+        .from(projectLogs)
+        .where(and(...conditions))
+        .orderBy(desc(projectLogs.id))
+        .limit(query.limit);
+    });
+  }
+
+  async deleteProjectLogsBefore(createdBefore: Date): Promise<number> {
+    return withErrorHandling('deleteProjectLogsBefore', { createdBefore }, async () => {
+      const deleted = await db
+        .delete(projectLogs)
+        .where(lt(projectLogs.createdAt, createdBefore))
+        .returning({ id: projectLogs.id });
+      return deleted.length;
+    });
+  }
+
+  async createRequirement(requirement: InsertRequirement): Promise<Requirement> {
+    return withErrorHandling('createRequirement', { projectId: requirement.projectId, key: requirement.key }, async () => {
+      const [newRequirement] = await db
+        .insert(requirements)
+        .values(requirement)
+        .returning();
+      return newRequirement;
+    });
+  }
+
+  async getRequirement(id: number): Promise<Requirement | undefined> {
+    return withErrorHandling('getRequirement', { id }, async () => {
+      const [requirement] = await db.select().from(requirements).where(eq(requirements.id, id));
+      return requirement || undefined;
+    });
+  }
+
+  async getRequirementsByProject(projectId: number): Promise<Requirement[]> {
+    return withErrorHandling('getRequirementsByProject', { projectId }, async () => {
+      return await db
+        .select()
+        .from(requirements)
+        .where(eq(requirements.projectId, projectId))
+        .orderBy(requirements.key);
+    });
+  }
+
+  async updateRequirement(id: number, updates: Partial<Requirement>): Promise<Requirement | undefined> {
+    return withErrorHandling('updateRequirement', { id }, async () => {
+      const [updatedRequirement] = await db
+        .update(requirements)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(requirements.id, id))
+        .returning();
+      return updatedRequirement || undefined;
+    });
+  }
+
+  async deleteRequirement(id: number): Promise<void> {
+    return withErrorHandling('deleteRequirement', { id }, async () => {
+      await db.delete(requirements).where(eq(requirements.id, id));
+    });
+  }
+
+  async linkRequirement(requirementId: number, testCaseId: number): Promise<RequirementLink> {
+    return withErrorHandling('linkRequirement', { requirementId, testCaseId }, async () => {
+      const [newLink] = await db
+        .insert(requirementLinks)
+        .values({ requirementId, testCaseId })
+        .onConflictDoNothing()
+        .returning();
+      if (newLink) return newLink;
+
+      // Already linked
+      const [existing] = await db
+        .select()
+        .from(requirementLinks)
+        .where(and(eq(requirementLinks.requirementId, requirementId), eq(requirementLinks.testCaseId, testCaseId)));
+      return existing;
+    });
+  }
+
+  async unlinkRequirement(requirementId: number, testCaseId: number): Promise<boolean> {
+    return withErrorHandling('unlinkRequirement', { requirementId, testCaseId }, async () => {
+      const deleted = await db
+        .delete(requirementLinks)
+        .where(and(eq(requirementLinks.requirementId, requirementId), eq(requirementLinks.testCaseId, testCaseId)))
+        .returning({ id: requirementLinks.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getRequirementLinksByProject(projectId: number): Promise<RequirementLink[]> {
+    return withErrorHandling('getRequirementLinksByProject', { projectId }, async () => {
+      const links = await db
+        .select({ link: requirementLinks })
+        .from(requirementLinks)
+        .innerJoin(requirements, eq(requirementLinks.requirementId, requirements.id))
+        .where(eq(requirements.projectId, projectId))
+        .orderBy(requirementLinks.id);
+      return links.map(row => row.link);
+    });
+  }
+
+  async createEnvironment(environment: InsertEnvironment): Promise<Environment> {
+    return withErrorHandling('createEnvironment', { projectId: environment.projectId, name: environment.name }, async () => {
+      const [newEnvironment] = await db
+        .insert(environments)
+        .values(environment)
+        .returning();
+      return newEnvironment;
+    });
+  }
+
+  async getEnvironment(id: number): Promise<Environment | undefined> {
+    return withErrorHandling('getEnvironment', { id }, async () => {
+      const [environment] = await db.select().from(environments).where(eq(environments.id, id));
+      return environment || undefined;
+    });
+  }
+
+  async getEnvironmentsByProject(projectId: number): Promise<Environment[]> {
+    return withErrorHandling('getEnvironmentsByProject', { projectId }, async () => {
+      return await db
+        .select()
+        .from(environments)
+        .where(eq(environments.projectId, projectId))
+        .orderBy(environments.name);
+    });
+  }
+
+  async updateEnvironment(id: number, updates: Partial<Environment>): Promise<Environment | undefined> {
+    return withErrorHandling('updateEnvironment', { id }, async () => {
+      const [updatedEnvironment] = await db
+        .update(environments)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(environments.id, id))
+        .returning();
+      return updatedEnvironment || undefined;
+    });
+  }
+
+  async deleteEnvironment(id: number): Promise<void> {
+    return withErrorHandling('deleteEnvironment', { id }, async () => {
+      await db.delete(environments).where(eq(environments.id, id));
+    });
+  }
+
+  async saveOpenApiSpec(spec: InsertOpenApiSpec): Promise<OpenApiSpec> {
+    return withErrorHandling('saveOpenApiSpec', { projectId: spec.projectId, source: spec.source }, async () => {
+      const [savedSpec] = await db
+        .insert(openApiSpecs)
+        .values(spec)
+        .onConflictDoUpdate({
+          target: openApiSpecs.projectId,
+          set: { ...spec, updatedAt: new Date() }
+        })
+        .returning();
+      return savedSpec;
+    });
+  }
+
+  async getOpenApiSpecByProject(projectId: number): Promise<OpenApiSpec | undefined> {
+    return withErrorHandling('getOpenApiSpecByProject', { projectId }, async () => {
+      const [spec] = await db.select().from(openApiSpecs).where(eq(openApiSpecs.projectId, projectId));
+      return spec || undefined;
+    });
+  }
+
   async getAllAgents(): Promise<Agent[]> {
     return withErrorHandling('getAllAgents', {}, async () => {
       const existingAgents = await db.select().from(agents);
@@ -321,6 +970,8 @@ export class DatabaseStorage implements IStorage {
 
   async deleteProject(id: number): Promise<void> {
     return withErrorHandling('deleteProject', { id }, async () => {
+      await db.delete(testExecutionHistory).where(eq(testExecutionHistory.projectId, id));
+      await db.delete(testRuns).where(eq(testRuns.projectId, id));
       await db.delete(projects).where(eq(projects.id, id));
       logger.info(`Project deleted: ID ${id}`);
     });
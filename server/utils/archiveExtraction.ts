@@ -0,0 +1,304 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import { Parser, type ReadEntry } from 'tar';
+import { ENV } from '../config';
+import { validateArchiveEntry } from './fileUploadSecurity';
+
+/**
+ * Limits applied while extracting an uploaded archive
+ */
+export interface ArchiveLimits {
+  maxEntries: number;
+  maxExtractedBytes: number;
+  // Largest allowed ratio of extracted to compressed bytes
+  maxCompressionRatio: number;
+}
+
+export interface ExtractedArchiveFile {
+  path: string; // relative to the destination, always with forward slashes
+  size: number;
+}
+
+export interface SkippedArchiveEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ArchiveExtractionResult {
+  files: ExtractedArchiveFile[];
+  skipped: SkippedArchiveEntry[];
+  totalBytes: number;
+}
+
+/**
+ * Raised when an archive is rejected as a whole: a path escaping the destination, too many entries,
+ * too much extracted data, or a suspicious compression ratio
+ */
+export class ArchiveExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveExtractionError';
+  }
+}
+
+// Set type bits of a zip entry's external attributes, as written by Unix zip tools
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+// Small, highly repetitive files legitimately compress well, so the ratio only counts past this size
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+
+const TAR_FILE_TYPES = new Set(['File', 'OldFile', 'ContiguousFile']);
+
+export function defaultArchiveLimits(): ArchiveLimits {
+  return {
+    maxEntries: ENV.ARCHIVE_MAX_ENTRIES,
+    maxExtractedBytes: ENV.ARCHIVE_MAX_EXTRACTED_BYTES,
+    maxCompressionRatio: ENV.ARCHIVE_MAX_COMPRESSION_RATIO
+  };
+}
+
+/**
+ * Resolve an entry name inside the destination directory. Absolute paths, drive letters and ".."
+ * segments reject the whole archive, since they only appear in archives crafted to escape.
+ */
+export function resolveArchiveEntryPath(destination: string, entryName: string): string {
+  const normalized = entryName.replace(/\\/g, '/');
+  const segments = normalized.split('/').filter(segment => segment !== '' && segment !== '.');
+
+  if (
+    normalized.includes('\x00') ||
+    normalized.startsWith('/') ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    segments.includes('..') ||
+    segments.length === 0
+  ) {
+    throw new ArchiveExtractionError(`Archive entry "${entryName}" points outside the extraction directory`);
+  }
+
+  const resolved = path.resolve(destination, ...segments);
+  if (!resolved.startsWith(destination + path.sep)) {
+    throw new ArchiveExtractionError(`Archive entry "${entryName}" points outside the extraction directory`);
+  }
+  return resolved;
+}
+
+/**
+ * Extract a zip, tar or gzipped tar archive into a directory. Regular files are streamed to disk
+ * while their bytes are counted; links, devices, nested archives and disallowed file types are
+ * skipped and reported. The destination is created if needed and may be left partially written
+ * when extraction fails, so callers should extract into a staging directory.
+ */
+export async function extractArchive(
+  data: Buffer,
+  fileName: string,
+  destination: string,
+  limits: ArchiveLimits = defaultArchiveLimits()
+): Promise<ArchiveExtractionResult> {
+  const root = path.resolve(destination);
+  await fs.promises.mkdir(root, { recursive: true });
+
+  const extractor = new EntryWriter(root, data.length, limits);
+  if (fileName.toLowerCase().endsWith('.zip')) {
+    await extractZip(data, extractor);
+  } else {
+    await extractTar(data, fileName, extractor);
+  }
+  return extractor.result();
+}
+
+/**
+ * Shared bookkeeping for both formats: entry and byte limits, filtering, and writing files
+ */
+class EntryWriter {
+  private files: ExtractedArchiveFile[] = [];
+  private skipped: SkippedArchiveEntry[] = [];
+  private written = new Set<string>();
+  private entries = 0;
+  private totalBytes = 0;
+
+  constructor(private root: string, private archiveBytes: number, private limits: ArchiveLimits) {}
+
+  /**
+   * Count an entry against the limits and decide where it goes. Returns null for entries to skip.
+   */
+  accept(entryName: string, kind: 'file' | 'directory' | 'link' | 'other'): string | null {
+    this.entries++;
+    if (this.entries > this.limits.maxEntries) {
+      throw new ArchiveExtractionError(`Archive has more than ${this.limits.maxEntries} entries`);
+    }
+
+    // Checked for every entry, so a traversal attempt rejects the archive even if it would be skipped
+    const target = resolveArchiveEntryPath(this.root, entryName);
+    const relative = path.relative(this.root, target).split(path.sep).join('/');
+
+    if (kind === 'directory') return null;
+    if (kind === 'link') return this.skip(relative, 'Symbolic and hard links are not extracted');
+    if (kind === 'other') return this.skip(relative, 'Only regular files are extracted');
+
+    const validation = validateArchiveEntry(relative);
+    if (!validation.valid) return this.skip(relative, validation.error!);
+    if (this.written.has(relative)) return this.skip(relative, 'Duplicate entry');
+
+    this.written.add(relative);
+    return target;
+  }
+
+  /**
+   * Stream an entry's content to disk, enforcing the total size and compression ratio as bytes arrive
+   */
+  async write(target: string, content: Readable, compressedSize?: number) {
+    let entryBytes = 0;
+    const counter = async function* (this: EntryWriter, source: Readable) {
+      for await (const chunk of source) {
+        entryBytes += chunk.length;
+        this.totalBytes += chunk.length;
+        this.checkLimits(entryBytes, compressedSize);
+        yield chunk;
+      }
+    }.bind(this);
+
+    try {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // "wx" never follows or replaces something already on disk at the target path
+      await pipeline(content, counter, fs.createWriteStream(target, { flags: 'wx', mode: 0o644 }));
+    } catch (error) {
+      if (error instanceof ArchiveExtractionError) throw error;
+      const relative = path.relative(this.root, target);
+      throw new ArchiveExtractionError(`Failed to extract "${relative}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.files.push({ path: path.relative(this.root, target).split(path.sep).join('/'), size: entryBytes });
+  }
+
+  result(): ArchiveExtractionResult {
+    return {
+      files: this.files.sort((a, b) => a.path.localeCompare(b.path)),
+      skipped: this.skipped,
+      totalBytes: this.totalBytes
+    };
+  }
+
+  private checkLimits(entryBytes: number, compressedSize?: number) {
+    if (this.totalBytes > this.limits.maxExtractedBytes) {
+      throw new ArchiveExtractionError(`Archive expands to more than ${Math.round(this.limits.maxExtractedBytes / (1024 * 1024))}MB`);
+    }
+    // Zip entries are compressed individually; tar archives are compressed as a whole
+    const [extracted, compressed] = compressedSize !== undefined
+      ? [entryBytes, compressedSize]
+      : [this.totalBytes, this.archiveBytes];
+    if (extracted > RATIO_CHECK_MIN_BYTES && extracted / Math.max(compressed, 1) > this.limits.maxCompressionRatio) {
+      throw new ArchiveExtractionError(`Archive compression ratio exceeds ${this.limits.maxCompressionRatio}:1`);
+    }
+  }
+
+  private skip(relative: string, reason: string): null {
+    this.skipped.push({ path: relative, reason });
+    return null;
+  }
+}
+
+function extractZip(data: Buffer, writer: EntryWriter): Promise<void> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(data, { lazyEntries: true, validateEntrySizes: true, decodeStrings: true }, (openError, zipfile) => {
+      if (openError || !zipfile) {
+        reject(new ArchiveExtractionError(`Invalid zip archive: ${openError?.message || 'unreadable'}`));
+        return;
+      }
+
+      const fail = (error: unknown) => {
+        zipfile.close();
+        reject(error instanceof ArchiveExtractionError
+          ? error
+          : new ArchiveExtractionError(`Invalid zip archive: ${error instanceof Error ? error.message : String(error)}`));
+      };
+
+      zipfile.on('error', fail);
+      zipfile.on('end', () => resolve());
+      zipfile.on('entry', async (entry: yauzl.Entry) => {
+        try {
+          const fileType = (entry.externalFileAttributes >>> 16) & UNIX_FILE_TYPE_MASK;
+          const kind = entry.fileName.endsWith('/')
+            ? 'directory'
+            : fileType === UNIX_SYMLINK ? 'link' : 'file';
+          const target = writer.accept(entry.fileName, kind);
+
+          if (target) {
+            const stream = await new Promise<Readable>((resolveStream, rejectStream) => {
+              zipfile.openReadStream(entry, (streamError, readStream) => {
+                if (streamError || !readStream) rejectStream(streamError || new Error('Unreadable entry'));
+                else resolveStream(readStream);
+              });
+            });
+            await writer.write(target, stream, entry.compressedSize);
+          }
+          zipfile.readEntry();
+        } catch (error) {
+          fail(error);
+        }
+      });
+      zipfile.readEntry();
+    });
+  });
+}
+
+function extractTar(data: Buffer, fileName: string, writer: EntryWriter): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const writes: Promise<void>[] = [];
+    let failed = false;
+    let sawHeader = false;
+
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      // A .gz holding a single compressed file decompresses fine but has no tar header to read
+      const rejection = error instanceof ArchiveExtractionError
+        ? error
+        : !sawHeader
+          ? new ArchiveExtractionError(`${fileName} does not contain a tar archive; compress the repository as .tar.gz or .zip`)
+          : new ArchiveExtractionError(`Invalid tar archive: ${error instanceof Error ? error.message : String(error)}`);
+      parser.abort(rejection);
+      reject(rejection);
+    };
+
+    const parser = new Parser({
+      strict: true,
+      // Enforced by the writer instead, so both formats report the same error
+      maxDecompressionRatio: Infinity,
+      // Entries are not drained automatically: the parser waits for each one to end before the next
+      onReadEntry: (entry: ReadEntry) => {
+        sawHeader = true;
+        if (failed) {
+          entry.resume();
+          return;
+        }
+        try {
+          const kind = TAR_FILE_TYPES.has(entry.type)
+            ? 'file'
+            : entry.type === 'Directory' ? 'directory'
+            : entry.type === 'SymbolicLink' || entry.type === 'Link' ? 'link' : 'other';
+          const target = writer.accept(entry.path, kind);
+          if (target) {
+            writes.push(writer.write(target, entry as unknown as Readable).catch(fail));
+          } else {
+            entry.resume();
+          }
+        } catch (error) {
+          entry.resume();
+          fail(error);
+        }
+      }
+    });
+
+    parser.on('error', fail);
+    parser.on('end', () => {
+      Promise.all(writes).then(() => {
+        if (!failed) resolve();
+      }, fail);
+    });
+    parser.end(data);
+  });
+}
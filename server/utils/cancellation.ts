@@ -0,0 +1,28 @@
+/**
+ * Cancellation helpers shared by workflows, agents and test runners
+ */
+
+export class CancellationError extends Error {
+  constructor(message: string = 'Operation was cancelled') {
+    super(message);
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * Throw a CancellationError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new CancellationError();
+  }
+}
+
+/**
+ * True when an error was caused by cancellation rather than a genuine failure
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  if (!(error instanceof Error)) return false;
+  return error.name === 'CancellationError' || error.name === 'AbortError' || error.name === 'APIUserAbortError';
+}
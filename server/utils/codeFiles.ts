@@ -0,0 +1,35 @@
+/**
+ * File filters shared by the repository acquisition services
+ */
+
+// Files larger than this are left out of an acquisition
+export const MAX_CODE_FILE_BYTES = 1024 * 1024;
+
+const CODE_EXTENSIONS = [
+  '.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte', '.py', '.java', '.c', '.cpp',
+  '.cs', '.php', '.rb', '.go', '.rs', '.kt', '.swift', '.dart', '.scala', '.clj',
+  '.html', '.css', '.scss', '.sass', '.less', '.xml', '.json', '.yaml', '.yml',
+  '.sql', '.sh', '.ps1', '.bat', '.dockerfile', '.md', '.txt', '.env.example',
+  '.properties', '.ini', '.cfg', '.conf', '.toml', '.lock', '.gitignore',
+  '.eslintrc', '.prettierrc', '.babelrc', 'Makefile', 'Gemfile', 'Pipfile'
+];
+
+const CODE_FILENAMES = [
+  'dockerfile', 'makefile', 'gemfile', 'pipfile', 'rakefile',
+  'package.json', 'tsconfig.json', 'webpack.config.js', 'vite.config.ts'
+];
+
+/**
+ * Check if file is a code file
+ */
+export function isCodeFile(filename: string): boolean {
+  const lowerFilename = filename.toLowerCase();
+
+  // Check extensions
+  if (CODE_EXTENSIONS.some(ext => lowerFilename.endsWith(ext))) {
+    return true;
+  }
+
+  // Check specific filenames
+  return CODE_FILENAMES.includes(lowerFilename);
+}
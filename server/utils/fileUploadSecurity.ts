@@ -61,6 +61,11 @@ const DANGEROUS_EXTENSIONS = new Set([
   '.dmg', '.pkg', '.run', '.bin', '.ps1', '.psm1', '.psd1', '.ps1xml'
 ]);
 
+/**
+ * Archive formats accepted as whole-repository uploads
+ */
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz', '.gz'];
+
 /**
  * Maximum file size (10MB for individual files)
  */
@@ -193,6 +198,44 @@ export function validateUploadRequest(files: Express.Multer.File[]): { valid: bo
   return { valid: true };
 }
 
+/**
+ * Check whether an uploaded file is a repository archive that should be extracted
+ */
+export function isArchiveFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Source files an archive may contain even though they are dangerous as uploads. Extracted files are
+ * only read by the analysis, never run, and a JavaScript repository is mostly .js files.
+ */
+const ARCHIVE_SOURCE_EXTENSIONS = new Set(['.js']);
+
+/**
+ * Validate a file inside an uploaded archive. Dangerous types are rejected as they are for uploads,
+ * apart from ARCHIVE_SOURCE_EXTENSIONS; nested archives and binaries are not extracted.
+ */
+export function validateArchiveEntry(entryName: string): { valid: boolean; error?: string } {
+  const baseName = path.posix.basename(entryName.replace(/\\/g, '/')).toLowerCase();
+  const ext = path.extname(baseName);
+
+  if (isArchiveFile(baseName)) {
+    return { valid: false, error: 'Nested archives are not extracted' };
+  }
+
+  if (DANGEROUS_EXTENSIONS.has(ext) && !ARCHIVE_SOURCE_EXTENSIONS.has(ext)) {
+    return { valid: false, error: `File type "${ext}" is not allowed for security reasons` };
+  }
+
+  // Extensionless tooling files such as Dockerfile, and dotfiles such as .gitignore
+  if (ALLOWED_EXTENSIONS.has(ext) || ALLOWED_EXTENSIONS.has(baseName) || ALLOWED_EXTENSIONS.has(`.${baseName}`)) {
+    return { valid: true };
+  }
+
+  return { valid: false, error: `File type "${ext || baseName}" is not supported` };
+}
+
 /**
  * Generate secure filename
  */
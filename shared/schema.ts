@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,10 +6,11 @@ export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
-  sourceType: text("source_type").notNull(), // github, drive, jira
+  sourceType: text("source_type").notNull(), // github, gitlab, bitbucket, drive, jira, upload, git
   sourceUrl: text("source_url"),
   repositoryData: jsonb("repository_data"),
-  analysisStatus: text("analysis_status").default("pending"), // pending, analyzing, completed, failed
+  commitSha: text("commit_sha"), // revision the workspace was checked out at, for git sources
+  analysisStatus: text("analysis_status").default("pending"), // pending, analyzing, completed, failed, cancelled
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -18,7 +19,7 @@ export const analyses = pgTable("analyses", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").references(() => projects.id),
   type: text("type").notNull(), // initial, architecture, risk, test
-  status: text("status").default("pending"), // pending, running, completed, failed
+  status: text("status").default("pending"), // pending, running, completed, failed, cancelled
   results: jsonb("results"),
   agentId: text("agent_id"),
   startedAt: timestamp("started_at"),
@@ -34,9 +35,15 @@ export const testCases = pgTable("test_cases", {
   type: text("type").notNull(), // unit, integration, e2e
   testScript: text("test_script"),
   generatedBy: text("generated_by"), // agent that generated this test
-  status: text("status").default("generated"), // generated, running, passed, failed
+  status: text("status").default("generated"), // generated, running, passed, failed, cancelled
   executionTime: integer("execution_time"),
   results: jsonb("results"),
+  flakinessScore: integer("flakiness_score").default(0), // 0-100, how often results flip on the same script version
+  quarantined: boolean("quarantined").default(false), // still executed, but excluded from quality-gate pass rates
+  quarantinedAt: timestamp("quarantined_at"),
+  quarantineReason: text("quarantine_reason"),
+  sourceIssueKey: text("source_issue_key"), // Jira issue whose acceptance criteria the test was generated from
+  tags: jsonb("tags"), // string[], e.g. the Postman folders a request was imported from
 });
 
 export const agents = pgTable("agents", {
@@ -59,6 +66,189 @@ export const recommendations = pgTable("recommendations", {
   implemented: boolean("implemented").default(false),
 });
 
+export const testRuns = pgTable("test_runs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id),
+  framework: text("framework").notNull(), // jest, playwright, cypress, ...
+  status: text("status").default("queued"), // queued, running, completed, failed, cancelled
+  triggeredBy: text("triggered_by").notNull(), // manual, api, webhook, import
+  testCaseIds: jsonb("test_case_ids"),
+  maxRetries: integer("max_retries").default(0), // extra attempts given to failing tests
+  shardCount: integer("shard_count").default(1), // parallel Jest processes the suite is split across
+  environmentId: integer("environment_id").references(() => environments.id, { onDelete: "set null" }), // named variable set the run uses
+  environment: jsonb("environment"), // variables exposed to the test scripts, e.g. { API_BASE_URL }; override the environment's
+  commitSha: text("commit_sha"), // project revision the run was made against
+  pullNumber: integer("pull_number"), // GitHub pull request that triggered the run
+  summary: jsonb("summary"), // { total, passed, failed, skipped, flaky, quarantined, passRate }
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+  duration: integer("duration"),
+});
+
+export const testRunResults = pgTable("test_run_results", {
+  id: serial("id").primaryKey(),
+  testRunId: integer("test_run_id").references(() => testRuns.id, { onDelete: "cascade" }),
+  testCaseId: integer("test_case_id").references(() => testCases.id, { onDelete: "set null" }),
+  testCaseName: text("test_case_name").notNull(),
+  status: text("status").notNull(), // passed, failed, skipped
+  attempt: integer("attempt").default(1), // 1 for the first execution, 2+ for retries
+  shard: integer("shard").default(0), // index of the worker shard that ran the test
+  duration: integer("duration"),
+  testScript: text("test_script"), // exact script version that was executed
+  scriptHash: text("script_hash"),
+  errors: jsonb("errors"),
+  assertions: jsonb("assertions"),
+  stdout: text("stdout"),
+  failureSignature: text("failure_signature"), // hash of the test and its normalised error, shared by repeats of a failure
+  defectKey: text("defect_key"), // Jira issue filed for the failure
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const testExecutionHistory = pgTable("test_execution_history", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id),
+  testCaseId: integer("test_case_id").references(() => testCases.id, { onDelete: "cascade" }),
+  testRunId: integer("test_run_id").references(() => testRuns.id, { onDelete: "set null" }),
+  testName: text("test_name").notNull(),
+  result: text("result").notNull(), // passed, failed, skipped
+  duration: integer("duration").notNull(),
+  scriptHash: text("script_hash"), // identifies the script version, so flakiness is judged per version
+  errorType: text("error_type"),
+  codeChanges: jsonb("code_changes"),
+  branchName: text("branch_name"),
+  executedAt: timestamp("executed_at").defaultNow(),
+});
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // analysis, test_run
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  payload: jsonb("payload"),
+  status: text("status").default("queued"), // queued, running, completed, failed, cancelled
+  attempts: integer("attempts").default(0),
+  maxAttempts: integer("max_attempts").default(3),
+  runAt: timestamp("run_at").defaultNow(), // earliest time the job may be claimed (used for backoff)
+  lockedBy: text("locked_by"),
+  lockedAt: timestamp("locked_at"), // refreshed by heartbeats while running
+  lastError: text("last_error"),
+  result: jsonb("result"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const artifacts = pgTable("artifacts", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  testRunId: integer("test_run_id").references(() => testRuns.id, { onDelete: "cascade" }),
+  testRunResultId: integer("test_run_result_id").references(() => testRunResults.id, { onDelete: "set null" }),
+  testCaseId: integer("test_case_id").references(() => testCases.id, { onDelete: "set null" }),
+  kind: text("kind").notNull(), // screenshot, trace, log, video, other
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(), // content address of the stored blob; identical files share one blob
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const coverageReports = pgTable("coverage_reports", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  testRunId: integer("test_run_id").references(() => testRuns.id, { onDelete: "set null" }),
+  source: text("source").notNull(), // runner, upload
+  format: text("format").notNull(), // lcov, istanbul, cobertura
+  linesTotal: integer("lines_total").default(0),
+  linesCovered: integer("lines_covered").default(0),
+  branchesTotal: integer("branches_total").default(0),
+  branchesCovered: integer("branches_covered").default(0),
+  functionsTotal: integer("functions_total").default(0),
+  functionsCovered: integer("functions_covered").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const coverageFiles = pgTable("coverage_files", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").references(() => coverageReports.id, { onDelete: "cascade" }),
+  filePath: text("file_path").notNull(),
+  linesTotal: integer("lines_total").default(0),
+  linesCovered: integer("lines_covered").default(0),
+  branchesTotal: integer("branches_total").default(0),
+  branchesCovered: integer("branches_covered").default(0),
+  functionsTotal: integer("functions_total").default(0),
+  functionsCovered: integer("functions_covered").default(0),
+  lineHits: jsonb("line_hits"), // { [line]: hit count }
+  branches: jsonb("branches"), // [{ line, block, branch, hits, type }]
+  functions: jsonb("functions"), // [{ name, line, hits }]
+});
+
+export const projectLogs = pgTable("project_logs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  testRunId: integer("test_run_id").references(() => testRuns.id, { onDelete: "set null" }),
+  testCaseId: integer("test_case_id").references(() => testCases.id, { onDelete: "set null" }),
+  level: text("level").notNull(), // info, warning, error, success, debug
+  category: text("category").notNull(), // test_execution, framework, analysis, system, security, performance
+  source: text("source"), // logger context that emitted the record, e.g. TEST_RUN
+  framework: text("framework"),
+  message: text("message").notNull(),
+  duration: integer("duration"), // milliseconds
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const requirements = pgTable("requirements", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  key: text("key").notNull(), // Jira issue key, or the section id within a spec document; unique per project
+  title: text("title").notNull(),
+  description: text("description"),
+  source: text("source").notNull(), // jira, spec
+  sourceRef: text("source_ref"), // Jira issue URL, or the spec document's file name
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_requirements_project_key").on(table.projectId, table.key),
+]);
+
+export const requirementLinks = pgTable("requirement_links", {
+  id: serial("id").primaryKey(),
+  requirementId: integer("requirement_id").references(() => requirements.id, { onDelete: "cascade" }).notNull(),
+  testCaseId: integer("test_case_id").references(() => testCases.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // linkRequirement relies on this index to ignore a link that already exists
+  uniqueIndex("idx_requirement_links_pair").on(table.requirementId, table.testCaseId),
+  index("idx_requirement_links_test_case_id").on(table.testCaseId),
+]);
+
+export const environments = pgTable("environments", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  variables: jsonb("variables").notNull(), // { NAME: value } exposed to the test scripts of runs using the environment
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_environments_project_name").on(table.projectId, table.name),
+]);
+
+// The OpenAPI document a project's contract tests were generated from, kept out of repositoryData
+export const openApiSpecs = pgTable("openapi_specs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  version: text("version"),
+  source: text("source").notNull(), // upload file name, or the spec's path in the project workspace
+  baseUrl: text("base_url"),
+  document: jsonb("document").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One spec per project; ingesting again replaces it
+  uniqueIndex("idx_openapi_specs_project_id").on(table.projectId),
+]);
+
 // Insert schemas
 export const insertProjectSchema = createInsertSchema(projects).pick({
   name: true,
@@ -66,6 +256,7 @@ export const insertProjectSchema = createInsertSchema(projects).pick({
   sourceType: true,
   sourceUrl: true,
   repositoryData: true,
+  commitSha: true,
 });
 
 export const insertAnalysisSchema = createInsertSchema(analyses).pick({
@@ -82,6 +273,8 @@ export const insertTestCaseSchema = createInsertSchema(testCases).pick({
   type: true,
   testScript: true,
   generatedBy: true,
+  sourceIssueKey: true,
+  tags: true,
 });
 
 export const insertRecommendationSchema = createInsertSchema(recommendations).pick({
@@ -93,6 +286,133 @@ export const insertRecommendationSchema = createInsertSchema(recommendations).pi
   actionable: true,
 });
 
+export const insertTestRunSchema = createInsertSchema(testRuns).pick({
+  projectId: true,
+  framework: true,
+  status: true,
+  triggeredBy: true,
+  testCaseIds: true,
+  maxRetries: true,
+  shardCount: true,
+  environmentId: true,
+  environment: true,
+  commitSha: true,
+  pullNumber: true,
+});
+
+export const insertTestRunResultSchema = createInsertSchema(testRunResults).pick({
+  testRunId: true,
+  testCaseId: true,
+  testCaseName: true,
+  status: true,
+  attempt: true,
+  shard: true,
+  duration: true,
+  testScript: true,
+  scriptHash: true,
+  errors: true,
+  assertions: true,
+  stdout: true,
+});
+
+export const insertTestExecutionHistorySchema = createInsertSchema(testExecutionHistory).pick({
+  projectId: true,
+  testCaseId: true,
+  testRunId: true,
+  testName: true,
+  result: true,
+  duration: true,
+  scriptHash: true,
+  errorType: true,
+  codeChanges: true,
+  branchName: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  type: true,
+  projectId: true,
+  payload: true,
+  maxAttempts: true,
+  runAt: true,
+});
+
+export const insertArtifactSchema = createInsertSchema(artifacts).pick({
+  projectId: true,
+  testRunId: true,
+  testRunResultId: true,
+  testCaseId: true,
+  kind: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  sha256: true,
+});
+
+export const insertCoverageReportSchema = createInsertSchema(coverageReports).pick({
+  projectId: true,
+  testRunId: true,
+  source: true,
+  format: true,
+  linesTotal: true,
+  linesCovered: true,
+  branchesTotal: true,
+  branchesCovered: true,
+  functionsTotal: true,
+  functionsCovered: true,
+});
+
+export const insertCoverageFileSchema = createInsertSchema(coverageFiles).pick({
+  reportId: true,
+  filePath: true,
+  linesTotal: true,
+  linesCovered: true,
+  branchesTotal: true,
+  branchesCovered: true,
+  functionsTotal: true,
+  functionsCovered: true,
+  lineHits: true,
+  branches: true,
+  functions: true,
+});
+
+export const insertProjectLogSchema = createInsertSchema(projectLogs).pick({
+  projectId: true,
+  testRunId: true,
+  testCaseId: true,
+  level: true,
+  category: true,
+  source: true,
+  framework: true,
+  message: true,
+  duration: true,
+  details: true,
+  createdAt: true,
+});
+
+export const insertRequirementSchema = createInsertSchema(requirements).pick({
+  projectId: true,
+  key: true,
+  title: true,
+  description: true,
+  source: true,
+  sourceRef: true,
+});
+
+export const insertEnvironmentSchema = createInsertSchema(environments).pick({
+  projectId: true,
+  name: true,
+  variables: true,
+});
+
+export const insertOpenApiSpecSchema = createInsertSchema(openApiSpecs).pick({
+  projectId: true,
+  title: true,
+  version: true,
+  source: true,
+  baseUrl: true,
+  document: true,
+});
+
 // Types
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
@@ -103,3 +423,41 @@ export type InsertTestCase = z.infer<typeof insertTestCaseSchema>;
 export type Agent = typeof agents.$inferSelect;
 export type Recommendation = typeof recommendations.$inferSelect;
 export type InsertRecommendation = z.infer<typeof insertRecommendationSchema>;
+export type TestRun = typeof testRuns.$inferSelect;
+export type InsertTestRun = z.infer<typeof insertTestRunSchema>;
+export type TestRunResult = typeof testRunResults.$inferSelect;
+export type InsertTestRunResult = z.infer<typeof insertTestRunResultSchema>;
+export type TestExecutionRecord = typeof testExecutionHistory.$inferSelect;
+export type InsertTestExecutionRecord = z.infer<typeof insertTestExecutionHistorySchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Artifact = typeof artifacts.$inferSelect;
+export type InsertArtifact = z.infer<typeof insertArtifactSchema>;
+export type CoverageReport = typeof coverageReports.$inferSelect;
+export type InsertCoverageReport = z.infer<typeof insertCoverageReportSchema>;
+export type CoverageFile = typeof coverageFiles.$inferSelect;
+export type InsertCoverageFile = z.infer<typeof insertCoverageFileSchema>;
+export type ProjectLog = typeof projectLogs.$inferSelect;
+export type InsertProjectLog = z.infer<typeof insertProjectLogSchema>;
+export type Requirement = typeof requirements.$inferSelect;
+export type InsertRequirement = z.infer<typeof insertRequirementSchema>;
+export type RequirementLink = typeof requirementLinks.$inferSelect;
+export type Environment = typeof environments.$inferSelect;
+export type InsertEnvironment = z.infer<typeof insertEnvironmentSchema>;
+export type OpenApiSpec = typeof openApiSpecs.$inferSelect;
+export type InsertOpenApiSpec = z.infer<typeof insertOpenApiSpecSchema>;
+
+// Filters for reading project logs; results are newest first and `before` is an id cursor
+export interface ProjectLogQuery {
+  levels?: string[];
+  categories?: string[];
+  framework?: string;
+  testRunId?: number;
+  testCaseId?: number;
+  from?: Date;
+  to?: Date;
+  before?: number;
+  // Case-insensitive substring of the message or framework
+  search?: string;
+  limit: number;
+}